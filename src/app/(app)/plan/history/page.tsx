@@ -0,0 +1,470 @@
+// src/app/plan/history/page.tsx
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { supabase } from '@/lib/supabase';
+import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { getDevUserId } from '@/lib/user';
+import { STORES, StoreId, summarizeCost, type CostSummary } from '@/lib/pricing';
+import type { ShoppingItem } from '@/lib/shopping';
+import { properCaseName } from '@/lib/normalize';
+import { trackEvent } from '@/lib/analytics';
+import { proteinMixText } from '@/components/PlanScorecard';
+import {
+  MEAL_SLOT_LABEL,
+  budgetCapFromRow,
+  buildShoppingList,
+  diffPlans,
+  diffShoppingLists,
+  formatPlanDay,
+  mealsFromPlanRows,
+  normalizeMealSlots,
+  planMetadataFromRow,
+  toIsoDate,
+  type PlanDiff,
+  type PlanItemRow,
+  type PlanMetadata,
+  type PlannedMeal,
+  type ShoppingDiff,
+} from '@/lib/planner';
+
+type Recipe = {
+  id: string;
+  title: string;
+  time_min: number;
+  diet_tags: string[] | null;
+  servings?: number | null;
+  meal_types?: string[] | null;
+};
+
+type Ing = {
+  recipe_id: string;
+  name: string;
+  qty: number | null;
+  unit: string | null;
+  optional: boolean;
+};
+
+type PlanRow = {
+  id: string;
+  generated_at: string;
+  start_date: string | null;
+  people_count: number | null;
+  recipe_prefs_sig: string | null;
+  meal_slots: string[] | null;
+  metadata?: unknown;
+  user_meal_plan_recipes?: PlanItemRow[];
+};
+
+type PastPlan = {
+  row: PlanRow;
+  metadata: PlanMetadata;
+  meals: PlannedMeal<Recipe>[];
+  shopping: ShoppingItem[];
+};
+
+// Older plans are still in the table; the page only shows the recent ones
+const HISTORY_LIMIT = 20;
+
+function fmtQty(q: number): string {
+  return String(Math.round(q * 100) / 100);
+}
+
+function planLabel(row: PlanRow): string {
+  const start = row.start_date ? formatPlanDay(row.start_date, 0) : null;
+  return start ? `Week of ${start}` : new Date(row.generated_at).toLocaleDateString();
+}
+
+export default function PlanHistoryPage() {
+  const { checking } = useRequireAuth();
+  const router = useRouter();
+
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [plans, setPlans] = useState<PastPlan[]>([]);
+  const [storeId, setStoreId] = useState<StoreId>('none');
+  const [compare, setCompare] = useState<string[]>([]);
+  const [reopening, setReopening] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (checking) return;
+    (async () => {
+      setLoading(true);
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth.user?.id ?? getDevUserId();
+
+      const [planRes, prefRes] = await Promise.all([
+        supabase
+          .from('user_meal_plan')
+          .select('id, generated_at, start_date, people_count, recipe_prefs_sig, meal_slots, metadata, user_meal_plan_recipes (recipe_id, position, day, slot, leftover_of_day, locked, reason)')
+          .eq('user_id', uid)
+          .order('generated_at', { ascending: false })
+          .limit(HISTORY_LIMIT),
+        supabase
+          .from('preferences')
+          .select('allergies, disliked_ingredients, weekly_budget, budget_store_id')
+          .eq('user_id', uid)
+          .maybeSingle(),
+      ]);
+
+      if (planRes.error) {
+        console.error('[HISTORY] Failed to load plans:', planRes.error);
+        setError('Could not load your past plans.');
+        setLoading(false);
+        return;
+      }
+
+      const rows = (planRes.data ?? []) as PlanRow[];
+      const ids = Array.from(
+        new Set(rows.flatMap((p) => (p.user_meal_plan_recipes ?? []).map((it) => it.recipe_id))),
+      );
+
+      // Not filtered to active recipes: old weeks should still show what was cooked
+      const [rRes, iRes] = ids.length
+        ? await Promise.all([
+            supabase
+              .from('recipes')
+              .select('id,title,time_min,diet_tags,servings,meal_types')
+              .in('id', ids),
+            supabase
+              .from('recipe_ingredients')
+              .select('recipe_id,name,qty,unit,optional')
+              .in('recipe_id', ids),
+          ])
+        : [{ data: [] as Recipe[] }, { data: [] as Ing[] }];
+
+      const byId = new Map(((rRes.data ?? []) as Recipe[]).map((r) => [r.id, r]));
+      const ingIndex = new Map<string, Ing[]>();
+      for (const i of (iRes.data ?? []) as Ing[]) {
+        const arr = ingIndex.get(i.recipe_id) || [];
+        arr.push(i);
+        ingIndex.set(i.recipe_id, arr);
+      }
+
+      const pr = prefRes.data as {
+        allergies?: string[] | null;
+        disliked_ingredients?: string[] | null;
+        weekly_budget?: number | null;
+        budget_store_id?: string | null;
+      } | null;
+
+      // Full list for each week (empty pantry) so weeks are priced the same way
+      const past = rows.map((row): PastPlan => {
+        const meals = mealsFromPlanRows(row.user_meal_plan_recipes ?? [], byId);
+        const shopping = buildShoppingList(meals, {
+          ingIndex,
+          pantry: [],
+          peopleCount: row.people_count ?? 2,
+          allergies: pr?.allergies ?? [],
+          dislikes: pr?.disliked_ingredients ?? [],
+        });
+        return { row, metadata: planMetadataFromRow(row.metadata), meals, shopping };
+      });
+
+      setPlans(past);
+      const budget = budgetCapFromRow(pr);
+      setStoreId(budget?.storeId ?? STORES.find((s) => s.id !== 'none')?.id ?? 'none');
+      setLoading(false);
+    })();
+  }, [checking]);
+
+  const costs = useMemo(() => {
+    const m = new Map<string, CostSummary>();
+    if (storeId === 'none') return m;
+    for (const p of plans) m.set(p.row.id, summarizeCost(p.shopping, storeId));
+    return m;
+  }, [plans, storeId]);
+
+  // Always diff older → newer, whatever order the boxes were ticked in
+  const diff = useMemo(() => {
+    if (compare.length !== 2) return null;
+    const picked = plans.filter((p) => compare.includes(p.row.id));
+    if (picked.length !== 2) return null;
+    const [newer, older] = picked; // plans are newest first
+    return {
+      older,
+      newer,
+      meals: diffPlans(older.meals, newer.meals),
+      shopping: diffShoppingLists(older.shopping, newer.shopping),
+    };
+  }, [compare, plans]);
+
+  function toggleCompare(id: string) {
+    setCompare((prev) => {
+      if (prev.includes(id)) return prev.filter((x) => x !== id);
+      // Keep the most recent pick plus this one
+      return [...prev.slice(-1), id];
+    });
+  }
+
+  // Copy the old week into a new plan row; the plan page always opens the newest
+  async function reopen(p: PastPlan) {
+    if (reopening) return;
+    setReopening(p.row.id);
+    setError('');
+    let newPlanId: string | null = null;
+    try {
+      const { data: auth } = await supabase.auth.getUser();
+      const uid = auth.user?.id ?? getDevUserId();
+      const newShareId =
+        typeof crypto !== 'undefined' && 'randomUUID' in crypto
+          ? crypto.randomUUID()
+          : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+
+      const { data: planRow, error: planErr } = await supabase
+        .from('user_meal_plan')
+        .insert({
+          user_id: uid,
+          share_id: newShareId,
+          people_count: p.row.people_count,
+          recipe_prefs_sig: p.row.recipe_prefs_sig,
+          meal_slots: normalizeMealSlots(p.row.meal_slots),
+          start_date: toIsoDate(new Date()),
+          // Keeps the scorecard and planner label of the week being reopened
+          metadata: p.row.metadata ?? {},
+        })
+        .select('id')
+        .single();
+      if (planErr || !planRow) throw planErr ?? new Error('No plan row returned');
+      newPlanId = planRow.id;
+
+      const items = (p.row.user_meal_plan_recipes ?? []).map((it) => ({
+        plan_id: planRow.id,
+        recipe_id: it.recipe_id,
+        position: it.position,
+        day: it.day,
+        slot: it.slot,
+        leftover_of_day: it.leftover_of_day,
+        locked: !!it.locked,
+        reason: it.reason,
+      }));
+      const { error: itemsErr } = await supabase.from('user_meal_plan_recipes').insert(items);
+      if (itemsErr) throw itemsErr;
+
+      trackEvent('reopen_past_plan', { plan_id: planRow.id, source_plan_id: p.row.id });
+      router.push('/plan');
+    } catch (e) {
+      console.error('[HISTORY] Reopen failed:', e);
+      // An empty copy would be the newest plan, so /plan would open it
+      if (newPlanId) {
+        const { error: delErr } = await supabase.from('user_meal_plan').delete().eq('id', newPlanId);
+        if (delErr) console.warn('[HISTORY] Cleanup of partial copy failed:', delErr);
+      }
+      setError('Could not reopen that plan. Please try again.');
+      setReopening(null);
+    }
+  }
+
+  if (checking || loading) return <p className="max-w-3xl mx-auto">Loading…</p>;
+
+  return (
+    <div className="max-w-3xl mx-auto">
+      <div className="flex items-center justify-between mb-4">
+        <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">Plan history</h1>
+        <Link href="/plan" className="text-sm hover:underline">
+          Back to plan
+        </Link>
+      </div>
+
+      <div className="mb-4 flex flex-wrap items-center gap-2 text-sm">
+        <label htmlFor="history-store" className="text-gray-700 dark:text-gray-300">
+          Estimate cost at
+        </label>
+        <select
+          id="history-store"
+          className="rounded border px-2 py-1 border-gray-300 dark:border-gray-700 bg-white dark:bg-neutral-900 text-gray-900 dark:text-gray-100"
+          value={storeId}
+          onChange={(e) => setStoreId(e.target.value as StoreId)}
+        >
+          {STORES.map((s) => (
+            <option key={s.id} value={s.id}>
+              {s.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500 dark:text-gray-400">
+          Full shopping list, before pantry. Tick two plans to compare them.
+        </span>
+      </div>
+
+      {error && (
+        <p className="mb-4 rounded border border-red-300 bg-red-50 p-2 text-sm text-red-800 dark:border-red-800 dark:bg-red-950/40 dark:text-red-200">
+          {error}
+        </p>
+      )}
+
+      {plans.length === 0 && <p>No saved plans yet.</p>}
+
+      {diff && <PlanDiffPanel {...diff} />}
+
+      <ul className="space-y-3">
+        {plans.map((p, idx) => {
+          const cost = costs.get(p.row.id);
+          const cooks = p.meals.filter((m) => m.leftover_of == null);
+          return (
+            <li
+              key={p.row.id}
+              className="border rounded p-3 border-gray-200 dark:border-gray-800 bg-white dark:bg-neutral-900"
+            >
+              <div className="flex items-start justify-between gap-3">
+                <label className="flex items-start gap-2">
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={compare.includes(p.row.id)}
+                    onChange={() => toggleCompare(p.row.id)}
+                    aria-label="Compare this plan"
+                  />
+                  <span>
+                    <span className="font-medium">{planLabel(p.row)}</span>
+                    {idx === 0 && (
+                      <span className="ml-2 rounded bg-green-100 px-1.5 py-0.5 text-xs text-green-800 dark:bg-green-900/40 dark:text-green-200">
+                        Current
+                      </span>
+                    )}
+                    <span className="block text-xs text-gray-500 dark:text-gray-400">
+                      Generated {new Date(p.row.generated_at).toLocaleString()} · {p.meals.length}{' '}
+                      meal{p.meals.length === 1 ? '' : 's'}
+                      {p.row.people_count ? ` · ${p.row.people_count} people` : ''}
+                      {p.metadata.planner &&
+                        ` · ${p.metadata.planner === 'llm' ? 'AI planner' : 'built-in planner'}`}
+                    </span>
+                    {p.metadata.scorecard && (
+                      <span className="block text-xs text-gray-500 dark:text-gray-400">
+                        As planned: {p.metadata.scorecard.pantryCoveragePct}% on hand ·{' '}
+                        {p.metadata.scorecard.useSoonUsed} use-soon used, {p.metadata.scorecard.useSoonLeft} left ·{' '}
+                        {p.metadata.scorecard.shoppingItems} to buy · {p.metadata.scorecard.prepMinutes} min ·{' '}
+                        {proteinMixText(p.metadata.scorecard)}
+                      </span>
+                    )}
+                  </span>
+                </label>
+
+                <div className="text-right text-sm">
+                  {cost ? (
+                    <>
+                      <div className="font-medium">~${cost.total.toFixed(2)}</div>
+                      {cost.unpriced.length > 0 && (
+                        <div className="text-xs text-gray-500 dark:text-gray-400">
+                          {cost.unpriced.length} item{cost.unpriced.length === 1 ? '' : 's'} not priced
+                        </div>
+                      )}
+                    </>
+                  ) : (
+                    <div className="text-xs text-gray-500 dark:text-gray-400">Pick a store to price</div>
+                  )}
+                </div>
+              </div>
+
+              <ul className="mt-2 text-sm text-gray-700 dark:text-gray-300">
+                {cooks.map((m) => (
+                  <li key={`${m.day}-${m.slot}`}>
+                    <span className="text-gray-500 dark:text-gray-400">
+                      {formatPlanDay(p.row.start_date, m.day)}
+                      {p.meals.some((x) => x.slot !== 'dinner') ? ` · ${MEAL_SLOT_LABEL[m.slot]}` : ''}:
+                    </span>{' '}
+                    {m.recipe.title}
+                  </li>
+                ))}
+                {cooks.length === 0 && (
+                  <li className="text-gray-500 dark:text-gray-400">These recipes are no longer available.</li>
+                )}
+              </ul>
+
+              {idx > 0 && cooks.length > 0 && (
+                <button
+                  onClick={() => reopen(p)}
+                  disabled={!!reopening}
+                  className={`mt-3 rounded border px-3 py-1 text-sm border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-neutral-800 ${
+                    reopening ? 'opacity-50 cursor-not-allowed' : ''
+                  }`}
+                >
+                  {reopening === p.row.id ? 'Reopening…' : 'Use this plan again'}
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
+
+function PlanDiffPanel({
+  older,
+  newer,
+  meals,
+  shopping,
+}: {
+  older: PastPlan;
+  newer: PastPlan;
+  meals: PlanDiff<Recipe>;
+  shopping: ShoppingDiff;
+}) {
+  const times = (n: number) => (n > 1 ? ` ×${n}` : '');
+  const noMealChanges = !meals.added.length && !meals.removed.length;
+  const noListChanges =
+    !shopping.added.length && !shopping.removed.length && !shopping.changed.length;
+
+  return (
+    <div className="mb-6 rounded border p-3 border-blue-200 bg-blue-50 dark:border-blue-900 dark:bg-blue-950/30 text-sm">
+      <h2 className="font-semibold mb-2 text-gray-900 dark:text-gray-100">
+        {planLabel(older.row)} → {planLabel(newer.row)}
+      </h2>
+
+      <h3 className="font-medium mt-2">Meals</h3>
+      {noMealChanges ? (
+        <p className="text-gray-600 dark:text-gray-400">Same dishes both weeks.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {meals.added.map((x) => (
+            <li key={`a-${x.recipe.id}`} className="text-green-700 dark:text-green-300">
+              + {x.recipe.title}
+              {times(x.count)}
+            </li>
+          ))}
+          {meals.removed.map((x) => (
+            <li key={`r-${x.recipe.id}`} className="text-red-700 dark:text-red-300">
+              − {x.recipe.title}
+              {times(x.count)}
+            </li>
+          ))}
+        </ul>
+      )}
+      {meals.kept.length > 0 && (
+        <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+          In both: {meals.kept.map((r) => r.title).join(', ')}
+        </p>
+      )}
+
+      <h3 className="font-medium mt-3">Shopping list</h3>
+      {noListChanges ? (
+        <p className="text-gray-600 dark:text-gray-400">No changes.</p>
+      ) : (
+        <ul className="space-y-0.5">
+          {shopping.added.map((i) => (
+            <li key={`a-${i.name}|${i.unit}`} className="text-green-700 dark:text-green-300">
+              + {properCaseName(i.name)} ({fmtQty(i.qty)} {i.unit})
+            </li>
+          ))}
+          {shopping.removed.map((i) => (
+            <li key={`r-${i.name}|${i.unit}`} className="text-red-700 dark:text-red-300">
+              − {properCaseName(i.name)} ({fmtQty(i.qty)} {i.unit})
+            </li>
+          ))}
+          {shopping.changed.map((c) => (
+            <li key={`c-${c.name}|${c.unit}`}>
+              ~ {properCaseName(c.name)}: {fmtQty(c.from)} → {fmtQty(c.to)} {c.unit}
+            </li>
+          ))}
+        </ul>
+      )}
+      <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+        Quantities are for the full list at each plan&apos;s household size
+        {older.row.people_count !== newer.row.people_count ? ' (household size changed)' : ''}.
+      </p>
+    </div>
+  );
+}
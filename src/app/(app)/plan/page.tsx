@@ -2,33 +2,116 @@
 'use client';
 
 import { useEffect, useMemo, useState, useCallback, useRef } from 'react';
+import Link from 'next/link';
 import { supabase } from '@/lib/supabase';
 import { DEFAULT_HEALTHY_WHOLE_FOOD_PROFILE } from '@/lib/healthyProfile';
 import type { HealthyProfile } from '@/lib/healthyProfile';
 import { useRequireAuth } from '@/hooks/useRequireAuth';
+import { useShoppingListSync } from '@/hooks/useShoppingListSync';
 import FavoriteButton from '@/components/FavoriteButton';
 import { getDevUserId } from '@/lib/user';
+import { ShoppingItem, normalizeIngredientName, parseShoppingText, type UserSubRule } from '@/lib/shopping';
+import { activeItems, type TrackedShoppingItem } from '@/lib/shoppingListState';
 import {
-  smartMergeNeedsWithSubstitutions,
-  subtractPantryFromNeeds,
-  ShoppingItem,
-  RawNeed,
-  normalizeIngredientName,
-} from '@/lib/shopping';
-import { STORES, getPriceEstimate, StoreId } from '@/lib/pricing';
+  MAX_EXTRA_LENGTH,
+  extraFromRow,
+  extrasToNeeds,
+  type ShoppingExtra,
+} from '@/lib/shoppingExtras';
+import {
+  groupByLayout,
+  layoutForStore,
+  storeLayoutsFromRow,
+  type LayoutSection,
+  type StoreLayouts,
+} from '@/lib/storeLayout';
+import { subRulesFromRow } from '@/lib/subRules';
+import {
+  STORES,
+  StoreId,
+  estimateItemCost,
+  storeLabel,
+  summarizeCost,
+} from '@/lib/pricing';
 import {
   buildInstacartUrl,
   buildWalmartUrl,
   buildAmazonFreshUrl,
 } from '@/lib/groceryLinks';
-import { computeRecipePerishability, scoreFromPerishDate } from '@/lib/perishables';
+import {
+  DEFAULT_ROTATION,
+  MEAL_SLOT_LABEL,
+  SCHEDULED_SLOT,
+  assembleWeek,
+  auditRecipe,
+  bestPantryUnlock,
+  budgetCapFromRow,
+  combineHousehold,
+  buildShoppingList,
+  computeStats,
+  createPlannerContext,
+  escapeRegex,
+  expandAllergyTerms,
+  explainRecipe,
+  explainWeek,
+  fitWeekToBudget,
+  dayRuleFor,
+  dayRuleMisses,
+  dayRulesForDays,
+  emptySchedule,
+  formatPlanDay,
+  hasSchedule,
+  householdPortions,
+  isRecipeAllowed,
+  lastServedDates,
+  matchesAnyNormalizedTerm,
+  maxCooldownWeeks,
+  memberFromRow,
+  mealsFromPlanRows,
+  nextBestRecipe,
+  normalizeMealSlots,
+  normalizeTermSet,
+  nutritionTargetsFromRow,
+  parseIsoDate,
+  planMetadataFromRow,
+  planScorecard,
+  planDayDate,
+  pickHeuristicRecipes,
+  refinePlan,
+  recipeFitsDayRule,
+  restrictToPantry,
+  rotationFromRow,
+  scheduleFromRow,
+  scheduleToRow,
+  summarizeNutrition,
+  summarizeTrace,
+  toIsoDate,
+  toRecipeLite,
+  type BudgetCap,
+  type HouseholdMember,
+  type MealSlot,
+  type NutritionTargets,
+  type PantryOnlyRun,
+  type PantryUnlock,
+  type PlanItemRow,
+  type PlanMetadata,
+  type PlannedMeal,
+  type RotationPrefs,
+  type ServedPlanRow,
+  type WeekSchedule,
+} from '@/lib/planner';
 import type { PantryCategory } from '@/lib/pantryCategorizer';
 import { prettyCategoryLabel } from '@/lib/pantryCategorizer';
 import { Fragment, Suspense } from 'react';
 import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import { trackEvent } from '@/lib/analytics';
 import Modal from '@/components/Modal';
+import NutritionSummary from '@/components/NutritionSummary';
+import PlanScorecard from '@/components/PlanScorecard';
+import RecipeAuditPanel, { type RecipeAuditRow } from '@/components/RecipeAuditPanel';
+import type { RecipeAuditLite } from '@/lib/planner/lite';
 import { properCaseName } from '@/lib/normalize';
+import { LLM_PLAN_API_VERSION, LlmPlanResponseSchema } from '@/lib/llm/planContract';
 
 type Recipe = {
   id: string;
@@ -37,9 +120,12 @@ type Recipe = {
   diet_tags: string[] | null;
   instructions: string;
   servings?: number | null;
+  meal_types?: string[] | null;
   // Optional fields for richer previews (safe even if DB doesn’t have them yet)
   calories?: number | null;   // per serving
   protein_g?: number | null;  // per serving
+  fiber_g?: number | null;    // per serving
+  sodium_mg?: number | null;  // per serving
 };
 
 type Ing = {
@@ -58,12 +144,23 @@ type Prefs = {
   favorite_mode: 'variety' | 'favorites';
   healthy_whole_food: boolean;
   kid_friendly: boolean;
-  dinners_per_week: number; // 3–7
+  dinners_per_week: number; // 3–7 (days planned; each day gets every slot below)
   people_count: number;     // 1–6
+  meal_slots: MealSlot[];
+  leftovers_mode: boolean;  // cook once, eat twice
   // Healthy micro-survey fields (mirroring DB)
   healthy_goal: 'feel_better' | 'weight' | 'metabolic' | '';
   healthy_protein_style: 'mixed' | 'lean_animal' | 'plant_forward' | '';
   healthy_carb_pref: 'more_whole_grains' | 'lower_carb' | 'no_preference' | '';
+  nutrition: NutritionTargets | null; // per-person targets (null = none set)
+  budget: BudgetCap | null;           // weekly spend cap (null = none)
+  rotation: RotationPrefs;            // cross-week cool-down
+  diets?: string[];                   // every diet in the household (strictest first)
+  soft_dislikes?: Record<string, number>; // minority member dislikes → share of votes
+  portions: number | null;            // household portions per meal (null = no members)
+  schedule: WeekSchedule;             // per-weekday dinner time limits + themes
+  store_layouts: StoreLayouts;        // edited aisle layouts, by store
+  sub_rules: UserSubRule[];           // the household's own ingredient swaps
   updated_at?: string;
 };
 
@@ -77,30 +174,6 @@ const HEALTHY_SURVEY_KEY = 'mc_healthy_survey_v1';
 // Debug toggle (set NEXT_PUBLIC_DEBUG_PLAN=1 to enable verbose plan logs)
 const DEBUG_PLAN = process.env.NEXT_PUBLIC_DEBUG_PLAN === '1';
 
-  // Pantry staples we don’t want to show in the shopping list
-const STAPLE_SKIP = new Set([
-  'salt',
-  'kosher salt',
-  'sea salt',
-
-  'black pepper',
-  'pepper',
-
-  'olive oil',
-  'cooking oil',
-  'vegetable oil',
-  'canola oil',
-  'avocado oil',
-
-  // optional: common spices
-  'cumin',
-  'paprika',
-  'chili powder',
-  'garlic powder',
-  'onion powder',
-  'red pepper flake',
-]);
-
 type PantryRow = {
   name: string;
   qty: number;
@@ -110,15 +183,15 @@ type PantryRow = {
   use_soon: boolean;
 };
 
-type PlanItem = { recipe_id: string; position: number };
-
 type PlanHeader = {
   id: string;
   generated_at: string;
   share_id: string | null;
+  start_date: string | null;
   people_count: number | null;        
   recipe_prefs_sig: string | null;
-  user_meal_plan_recipes?: PlanItem[];
+  metadata?: unknown;
+  user_meal_plan_recipes?: PlanItemRow[];
 };
 
 type PrefsRow = Partial<{
@@ -135,6 +208,21 @@ type PrefsRow = Partial<{
   updated_at: string;
   dinners_per_week: number;
   people_count: number;
+  meal_slots: string[];
+  leftovers_mode: boolean;
+  nutrition_period: string;
+  target_calories: number | null;
+  target_protein_g: number | null;
+  target_fiber_g: number | null;
+  target_sodium_mg: number | null;
+  nutrition_tolerance_pct: number;
+  weekly_budget: number | null;
+  budget_store_id: string | null;
+  rotation_cooldown_weeks: number | null;
+  favorite_cooldown_weeks: number | null;
+  weekday_schedule: unknown;
+  store_layouts: unknown;
+  sub_rules: unknown;
 }>;
 
 // How we present items in the UI / Notes
@@ -161,7 +249,7 @@ function formatShoppingItem(item: ShoppingItem): DisplayShoppingItem {
 
   // If shopping.ts already decided it's a container, show it as such.
   // (carton/bottle/can/block/bunch/etc should appear in the unit column.)
-  const isContainerUnit = ['can', 'bottle', 'carton', 'block', 'bunch', 'clove'].includes(unit);
+  const isContainerUnit = ['can', 'bottle', 'carton', 'block', 'jar', 'bunch', 'clove'].includes(unit);
 
   // Leafy greens like spinach → keep bag behavior (but do NOT add "(about ...)" into name)
   if (LEAFY_BAG.test(name)) {
@@ -217,200 +305,6 @@ function formatShoppingItem(item: ShoppingItem): DisplayShoppingItem {
   };
 }
 
-function escapeRegex(s: string) {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
-
-function normalizeTermSet(terms: Iterable<string>): Set<string> {
-  const out = new Set<string>();
-  for (const t of terms) {
-    const n = normalizeIngredientName(String(t));
-    if (n) out.add(n);
-  }
-  return out;
-}
-
-function matchesAnyNormalizedTerm(ingredientName: string, termsNorm: Set<string>): boolean {
-  if (!termsNorm.size) return false;
-
-  const ingNorm = normalizeIngredientName(ingredientName);
-  if (!ingNorm) return false;
-
-  // Exact match
-  if (termsNorm.has(ingNorm)) return true;
-
-  // Token / phrase containment (handles multi-word terms like "soy sauce")
-  for (const t of termsNorm) {
-    if (!t) continue;
-
-    // If the term is multi-word, substring match is usually what we want
-    if (t.includes(' ')) {
-      if (ingNorm.includes(t)) return true;
-      continue;
-    }
-
-    // For single tokens, do word-boundary matching on normalized strings
-    const rx = new RegExp(`\\b${escapeRegex(t)}s?\\b`, 'i');
-    if (rx.test(ingNorm)) return true;
-  }
-
-  return false;
-}
-
-function recipeMatchesAnyRegex(
-  recipe: Pick<Recipe, 'title' | 'diet_tags'>,
-  ri: Ing[],
-  rules: RegExp[],
-): boolean {
-  if (!rules.length) return false;
-
-  const haystacks = [
-    recipe.title || '',
-    ...(recipe.diet_tags ?? []).map((t) => String(t)),
-    ...ri.map((it) => String(it.name || '')),
-  ];
-
-  return haystacks.some((text) => rules.some((rx) => rx.test(text)));
-}
-
-type IngredientWeightBand = 'major' | 'medium' | 'minor';
-
-function ingredientWeightBand(nameNorm: string): IngredientWeightBand {
-  // Heuristic: treat proteins/primary carbs/primary produce as "major".
-  // Everything else defaults to medium/minor.
-  const n = nameNorm;
-
-  // Major proteins
-  if (
-    /(\bchicken\b|\bbeef\b|\bpork\b|\bturkey\b|\bshrimp\b|\bsalmon\b|\btuna\b|\begg\b|\beggs\b|\btofu\b|\btempeh\b|\blentil\b|\blentils\b|\bbeans\b|\bchickpea\b|\bchickpeas\b)/.test(n)
-  ) {
-    return 'major';
-  }
-
-  // Major starches / grains
-  if (
-    /(\brice\b|\bquinoa\b|\bpasta\b|\bnoodle\b|\btortilla\b|\bbread\b|\bpotato\b|\bpotatoes\b|\boats\b)/.test(n)
-  ) {
-    return 'major';
-  }
-
-  // Primary produce
-  if (
-    /(\bonion\b|\bgarlic\b|\btomato\b|\bspinach\b|\bbroccoli\b|\bpepper\b|\bbell pepper\b|\bzucchini\b|\bcarrot\b|\bcauliflower\b|\bmushroom\b|\bcilantro\b|\bdill\b|\bbasil\b)/.test(n)
-  ) {
-    return 'major';
-  }
-
-  // Minor: oils/spices/condiments/acid
-  if (
-    /(\boil\b|\bsalt\b|\bpepper\b|\bcumin\b|\bpurchase\b|\bpaprika\b|\bchili\b|\bflake\b|\bvinegar\b|\blemon\b|\blime\b|\bsoy sauce\b|\bhot sauce\b|\bsauce\b|\bmustard\b|\bketchup\b)/.test(n)
-  ) {
-    return 'minor';
-  }
-
-  return 'medium';
-}
-
-function ingredientWeight(nameNorm: string): number {
-  const band = ingredientWeightBand(nameNorm);
-  if (band === 'major') return 3;
-  if (band === 'medium') return 2;
-  return 0.5;
-}
-
-function daysUntil(date: Date): number {
-  const ms = date.getTime() - Date.now();
-  return Math.floor(ms / (1000 * 60 * 60 * 24));
-}
-
-function expandAllergyTerms(allergies: string[]): Set<string> {
-  const base = allergies.map((a) => a.toLowerCase().trim()).filter(Boolean);
-
-  // Map “high-level” allergy toggles → ingredient keywords we actually see in recipe_ingredients
-  const MAP: Record<string, string[]> = {
-    dairy: [
-      'milk',
-      'cheese',
-      'butter',
-      'yogurt',
-      'cream',
-      'sour cream',
-      'whey',
-      'casein',
-      'ghee',
-      'mozzarella',
-      'cheddar',
-      'parmesan',
-      'feta',
-    ],
-    gluten: [
-      'wheat',
-      'flour',
-      'bread',
-      'pasta',
-      'noodle',
-      'tortilla',
-      'cracker',
-      'breadcrumb',
-      'breadcrumbs',
-      'soy sauce', // often contains wheat unless tamari
-    ],
-        fish: [
-      'fish',
-      'salmon',
-      'tuna',
-      'cod',
-      'tilapia',
-      'trout',
-      'halibut',
-      'anchovy',
-      'anchovies',
-      'sardine',
-      'sardines',
-    ],
-    tree_nut: [
-      'tree nut',
-      'tree nuts',
-      'almond',
-      'almonds',
-      'walnut',
-      'walnuts',
-      'pecan',
-      'pecans',
-      'cashew',
-      'cashews',
-      'pistachio',
-      'pistachios',
-      'hazelnut',
-      'hazelnuts',
-      'macadamia',
-      'brazil nut',
-      'brazil nuts',
-      'pine nut',
-      'pine nuts',
-    ],
-    egg: ['egg', 'eggs', 'mayonnaise', 'mayo'],
-    peanut: ['peanut', 'peanuts'],
-    shellfish: ['shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'scallop'],
-    soy: ['soy', 'tofu', 'edamame', 'miso', 'tempeh', 'soy sauce'],
-    sesame: ['sesame', 'tahini'],
-  };
-
-  const out = new Set<string>();
-
-  for (const a of base) {
-    out.add(a);
-
-    const extras = MAP[a];
-    if (extras && extras.length) {
-      for (const x of extras) out.add(x.toLowerCase());
-    }
-  }
-
-  return out;
-}
-
 function getHealthSwapHintForItem(
   item: { name: string; category?: PantryCategory },
   prefs: Prefs | null,
@@ -474,42 +368,6 @@ function getHealthSwapHintForItem(
   return null;
 }
 
-function hashStringToInt(s: string): number {
-  // Deterministic small hash (no crypto needed)
-  let h = 0;
-  for (let i = 0; i < s.length; i++) {
-    h = (h * 31 + s.charCodeAt(i)) >>> 0;
-  }
-  return h;
-}
-
-function fillPlanWithRepeats(
-  base: Recipe[],
-  target: number,
-  strictPool: Recipe[],
-  seed: string,
-): Recipe[] {
-  const out = base.slice(0, target);
-  if (out.length >= target) return out;
-
-  const pool = (strictPool || []).filter((r) => !!r?.id);
-  if (!pool.length) return out; // nothing we can do
-
-  // Stable order for deterministic cycling
-  const poolSorted = pool.slice().sort((a, b) => a.id.localeCompare(b.id));
-  const start = hashStringToInt(seed) % poolSorted.length;
-
-  let i = 0;
-  while (out.length < target) {
-    out.push(poolSorted[(start + i) % poolSorted.length]);
-    i++;
-    // defensive guard (should never hit)
-    if (i > target * 10) break;
-  }
-
-  return out;
-}
-
 async function sha256Hex(input: string): Promise<string> {
   try {
     if (typeof window === 'undefined') return input; // should never happen in this client file
@@ -526,6 +384,10 @@ async function sha256Hex(input: string): Promise<string> {
   }
 }
 
+function uniqById<T extends { id: string }>(rows: T[]): T[] {
+  return Array.from(new Map(rows.map((r) => [r.id, r])).values());
+}
+
 function stableSorted(arr: string[] | null | undefined) {
   return (arr ?? []).map((x) => String(x)).sort();
 }
@@ -544,25 +406,94 @@ function recipePrefsSignature(p: Prefs) {
     healthy_protein_style: p.healthy_protein_style ?? '',
     healthy_carb_pref: p.healthy_carb_pref ?? '',
     dinners_per_week: p.dinners_per_week ?? 7,
+    // Only present when not the default, so dinner-only plans keep their old signature
+    ...(slotsKey(p.meal_slots) !== 'dinner' ? { meal_slots: slotsKey(p.meal_slots) } : {}),
+    ...(p.leftovers_mode ? { leftovers_mode: true } : {}),
+    ...(p.nutrition ? { nutrition: p.nutrition } : {}),
+    ...(p.budget ? { budget: p.budget } : {}),
+    ...(p.rotation && !sameRotation(p.rotation, DEFAULT_ROTATION) ? { rotation: p.rotation } : {}),
+    ...(p.diets && p.diets.length > 1 ? { diets: p.diets } : {}),
+    ...(p.soft_dislikes ? { soft_dislikes: p.soft_dislikes } : {}),
+    ...(hasSchedule(p.schedule) ? { schedule: scheduleToRow(p.schedule) } : {}),
   });
 }
 
-// Group shopping items by store section (category)
-  const CATEGORY_ORDER: PantryCategory[] = [
-    'produce',
-    'protein',
-    'grains',
-    'legumes',
-    'dairy',
-    'canned',
-    'frozen',
-    'condiments',
-    'spices',
-    'baking',
-    'snacks',
-    'beverages',
-    'other',
-  ];
+async function fetchHousehold(uid: string): Promise<HouseholdMember[]> {
+  const { data, error } = await supabase
+    .from('household_members')
+    .select('id, name, diet, allergies, dislikes, kid_friendly, portion')
+    .eq('user_id', uid)
+    .order('position', { ascending: true });
+  if (error) {
+    console.warn('[PLAN] Could not load household members:', error);
+    return [];
+  }
+  return (data ?? []).map(memberFromRow);
+}
+
+// Recurring extras, plus the one-offs added to this plan
+async function fetchExtras(uid: string, planId: string | null): Promise<ShoppingExtra[]> {
+  let q = supabase
+    .from('shopping_extras')
+    .select('id, text, recurring, meal_plan_id')
+    .eq('user_id', uid)
+    .order('created_at', { ascending: true });
+  q = planId ? q.or(`recurring.eq.true,meal_plan_id.eq.${planId}`) : q.eq('recurring', true);
+  const { data, error } = await q;
+  if (error) {
+    console.warn('[PLAN] Could not load shopping extras:', error);
+    return [];
+  }
+  return (data ?? []).map(extraFromRow);
+}
+
+// Members tighten diet/allergies/dislikes and set the portion count
+function withHousehold(p: Prefs, members: HouseholdMember[]): Prefs {
+  return { ...combineHousehold(p, members), portions: householdPortions(members) };
+}
+
+function sameRotation(a: RotationPrefs, b: RotationPrefs) {
+  return a.cooldown_weeks === b.cooldown_weeks && a.favorite_cooldown_weeks === b.favorite_cooldown_weeks;
+}
+
+// Last-served dates for the rotation cool-down (saved weeks before `start`)
+async function fetchLastServed(
+  uid: string,
+  start: string,
+  rotation: RotationPrefs,
+): Promise<Map<string, string>> {
+  const weeks = maxCooldownWeeks(rotation);
+  const from = planDayDate(start, -(weeks + 1) * 7);
+  if (!weeks || !from) return new Map();
+
+  const { data, error } = await supabase
+    .from('user_meal_plan')
+    .select('generated_at, start_date, user_meal_plan_recipes (recipe_id, day, position)')
+    .eq('user_id', uid)
+    .gte('generated_at', from.toISOString())
+    .order('generated_at', { ascending: false })
+    .limit(50);
+  if (error) {
+    console.warn('[PLAN] Could not load recent plans for rotation:', error);
+    return new Map();
+  }
+  return lastServedDates((data ?? []) as ServedPlanRow[], start);
+}
+
+// "Dairy (Aisle 4)" — section header for the list and its exports
+function sectionLabel(g: Pick<LayoutSection<unknown>, 'category' | 'aisle'>): string {
+  const label = prettyCategoryLabel(g.category);
+  return g.aisle ? `${label} (${g.aisle})` : label;
+}
+
+// "≈" on quantities estimated from cups ↔ weight; a hand-edited qty is exact
+function approxMark(item: TrackedShoppingItem): string {
+  return item.approx && item.qty_override == null ? '≈' : '';
+}
+
+function slotsKey(slots: MealSlot[] | null | undefined) {
+  return normalizeMealSlots(slots).join(',');
+}
 
 function PlanPageInner() {
   const { checking } = useRequireAuth();
@@ -579,7 +510,7 @@ function PlanPageInner() {
   const [recipes, setRecipes] = useState<Recipe[]>([]);
   const [ings, setIngs] = useState<Ing[]>([]);
 
-  const [meals, setMeals] = useState<Recipe[]>([]);
+  const [meals, setMeals] = useState<PlannedMeal<Recipe>[]>([]);
   const [planMealCount, setPlanMealCount] = useState<number>(7);
 
     // Snapshot of prefs at the time the currently-loaded plan was generated
@@ -587,17 +518,34 @@ function PlanPageInner() {
   const [planPeopleCount, setPlanPeopleCount] = useState<number | null>(null);
 
   // NEW: user-controlled planning knobs (fallbacks are safe)
-  const dinnersPerWeek = prefs?.dinners_per_week ?? 7; // generation only
-  const peopleCount = prefs?.people_count ?? 2;
+  const dinnersPerWeek = prefs?.dinners_per_week ?? 7; // generation only (days)
+  const mealSlots = useMemo(() => normalizeMealSlots(prefs?.meal_slots), [prefs?.meal_slots]);
+  // Household members' portions (a toddler ≈ half) win over the bare head count
+  const peopleCount = prefs?.portions ?? prefs?.people_count ?? 2;
 
   // Display count is the saved plan's size, not the preference
   const displayCount = planMealCount || meals.length || 7;
 
-const mealsN = useMemo(() => {
+const plannedN = useMemo(() => {
   // IMPORTANT: do NOT de-dupe here — repeats are allowed to hit dinnersPerWeek
-  return (meals || []).slice(0, displayCount).filter(Boolean);
+  return (meals || []).slice(0, displayCount).filter((m) => !!m?.recipe);
 }, [meals, displayCount]);
 
+// Flat recipe list (all slots) — drives the merged shopping list + modal lookups
+const mealsN = useMemo(() => plannedN.map((m) => m.recipe), [plannedN]);
+
+const planIsDinnerOnly = plannedN.every((m) => m.slot === 'dinner');
+
+// Weekly nutrition vs the user's targets (per person); null when no targets are set
+const nutritionSummary = useMemo(
+  () => (prefs?.nutrition && plannedN.length ? summarizeNutrition(plannedN, prefs.nutrition) : null),
+  [plannedN, prefs?.nutrition],
+);
+const flaggedNutritionDays = useMemo(
+  () => new Set(nutritionSummary?.flaggedDays ?? []),
+  [nutritionSummary],
+);
+
   const currentRecipeSig = useMemo(() => {
     return prefs ? recipePrefsSignature(prefs) : null;
   }, [prefs]);
@@ -610,7 +558,12 @@ const mealsN = useMemo(() => {
   id: string;
   generated_at: string;
   share_id?: string | null;
+  start_date?: string | null;
   } | null>(null);
+  // What the plan row recorded at generation (planner + scorecard)
+  const [planMetadata, setPlanMetadata] = useState<PlanMetadata | null>(null);
+  // Day 0 of the next generated plan ("YYYY-MM-DD", local)
+  const [startDate, setStartDate] = useState<string>(() => toIsoDate(new Date()));
   const [stale, setStale] = useState(false);
 
   const planTs = useMemo(
@@ -618,6 +571,13 @@ const mealsN = useMemo(() => {
   [planMeta?.generated_at],
 );
 
+  // Scheduled nights (time limit / theme) the shown plan doesn't meet
+  const dayMisses = useMemo(() => {
+    if (!prefs || !plannedN.length) return [];
+    const days = Math.max(...plannedN.map((m) => m.day)) + 1;
+    return dayRuleMisses(plannedN, prefs.schedule, planMeta?.start_date, days);
+  }, [plannedN, prefs, planMeta?.start_date]);
+
 const pantryMax = useMemo(() => {
   return pantry.length
     ? Math.max(
@@ -670,6 +630,8 @@ const recipePrefsChangedSincePlan =
   const [plannerMode, setPlannerMode] = useState<'llm' | 'heuristic' | null>(
     null,
   );
+  // Set when /api/llm-plan answered 429 for the last generation (minutes until retry)
+  const [llmLimitedMins, setLlmLimitedMins] = useState<number | null>(null);
 
   const [favorites, setFavorites] = useState<Set<string>>(new Set());
 
@@ -687,23 +649,63 @@ const recipePrefsChangedSincePlan =
   const lastPlanReqKeyRef = useRef<string | null>(null);
   const lastPlanReqAtRef = useRef<number>(0);
 
+  const storeLayout = useMemo(
+    () => layoutForStore(prefs?.store_layouts, storeId),
+    [prefs?.store_layouts, storeId],
+  );
+
+  // Saved per plan: checked / edited / removed survive rebuilds and sync across devices
+  const planRecipesKey = useMemo(
+    () =>
+      Array.from(new Set(plannedN.filter((m) => m.leftover_of == null).map((m) => m.recipe.id)))
+        .sort()
+        .join(','),
+    [plannedN],
+  );
+  const shoppingSync = useShoppingListSync(planMeta?.id ?? null, userId, shopping, planRecipesKey);
+  const [editingQty, setEditingQty] = useState<{ key: string; value: string } | null>(null);
+
   // Derived shopping list with price estimates (if enabled)
   const pricedShopping = useMemo(() => {
-    return shopping.map((item) => {
-      const est = getPriceEstimate(
+    return shoppingSync.items.map((item) => {
+      const est = estimateItemCost(
         { name: item.name, qty: item.qty, unit: item.unit },
         storeId,
       );
       return {
         ...item,
-        estPrice: est.price,
+        estPrice: est.cost,
         estPriceUnit: est.unitLabel,
       };
     });
-  }, [shopping, storeId]);
+  }, [shoppingSync.items, storeId]);
+
+  // Budget report for the current list (only when a weekly cap is set)
+  const budgetSummary = useMemo(
+    () => (prefs?.budget && storeId !== 'none' ? summarizeCost(shopping, storeId) : null),
+    [prefs?.budget, shopping, storeId],
+  );
+  // What the budget pass did on the last generation (shown under the report)
+  const [budgetNote, setBudgetNote] = useState<string | null>(null);
+
+  // "No shopping trip": plan only from what's on hand (applies to the next generation)
+  const [pantryOnly, setPantryOnly] = useState(false);
+  const [pantryOnlyNote, setPantryOnlyNote] = useState<{
+    planned: number;
+    wanted: number;
+    unlock: PantryUnlock<Recipe> | null;
+  } | null>(null);
+  const showPrices = storeId !== 'none' && (enablePriceHints || !!prefs?.budget);
+
+  // "Why not this recipe?": the AI route's audit from the last generation, per slot
+  const [llmAudit, setLlmAudit] = useState<Partial<Record<MealSlot, RecipeAuditLite[]>>>({});
+  const [auditOpen, setAuditOpen] = useState(false);
+  const [auditId, setAuditId] = useState('');
+  const [auditRows, setAuditRows] = useState<RecipeAuditRow[]>([]);
+  const [auditLoading, setAuditLoading] = useState(false);
 
   const estTotal = useMemo(
-    () => pricedShopping.reduce((sum, it) => sum + (it.estPrice ?? 0), 0),
+    () => activeItems(pricedShopping).reduce((sum, it) => sum + (it.estPrice ?? 0), 0),
     [pricedShopping],
   );
 
@@ -722,12 +724,13 @@ const refreshPantryAndPrefs = useCallback(async () => {
   const uid = userId ?? (await resolveUserId());
   if (!uid) return;
 
-  const [pItems, pRes] = await Promise.all([
+  const [pItems, pRes, members] = await Promise.all([
     supabase
   .from('pantry_items')
   .select('name,qty,unit,updated_at,perish_by,use_soon')
   .eq('user_id', uid),
     supabase.from('preferences').select('*').eq('user_id', uid).maybeSingle(),
+    fetchHousehold(uid),
   ]);
 
   const pantryRows: PantryRow[] = (pItems.data || []).map((x) => ({
@@ -752,9 +755,18 @@ const refreshPantryAndPrefs = useCallback(async () => {
         kid_friendly: pr.kid_friendly ?? false,
         dinners_per_week: pr.dinners_per_week ?? 7,
         people_count: pr.people_count ?? 2,
+        meal_slots: normalizeMealSlots(pr.meal_slots),
+        leftovers_mode: pr.leftovers_mode ?? false,
         healthy_goal: (pr.healthy_goal as Prefs['healthy_goal']) ?? '',
         healthy_protein_style: (pr.healthy_protein_style as Prefs['healthy_protein_style']) ?? '',
         healthy_carb_pref: (pr.healthy_carb_pref as Prefs['healthy_carb_pref']) ?? '',
+        nutrition: nutritionTargetsFromRow(pr),
+        budget: budgetCapFromRow(pr),
+        rotation: rotationFromRow(pr),
+        schedule: scheduleFromRow(pr.weekday_schedule),
+        store_layouts: storeLayoutsFromRow(pr.store_layouts),
+        sub_rules: subRulesFromRow(pr.sub_rules),
+        portions: null,
         updated_at: pr.updated_at ?? undefined,
       }
     : {
@@ -767,12 +779,21 @@ const refreshPantryAndPrefs = useCallback(async () => {
         kid_friendly: false,
         dinners_per_week: 7,
         people_count: 2,
+        meal_slots: ['dinner'],
+        leftovers_mode: false,
         healthy_goal: '',
         healthy_protein_style: '',
         healthy_carb_pref: '',
+        nutrition: null,
+        budget: null,
+        rotation: DEFAULT_ROTATION,
+        schedule: emptySchedule(),
+        store_layouts: {},
+        sub_rules: [],
+        portions: null,
       };
 
-  setPrefs(prefsRow);
+  setPrefs(withHousehold(prefsRow, members));
 }, [userId, resolveUserId]);
 
 // When user returns to the tab/page, refresh prefs so stale banner is accurate
@@ -805,18 +826,6 @@ useEffect(() => {
     return m;
   }, [ings]);
 
-  // Build a fast lookup for perish-by dates from the pantry
-const pantryPerishBy = useMemo(() => {
-  const m = new Map<string, Date>();
-  pantry.forEach((p) => {
-    if (!p.perish_by) return;
-    const ts = Date.parse(p.perish_by);
-    if (Number.isNaN(ts)) return;
-    m.set(normalizeIngredientName(p.name), new Date(ts));
-  });
-  return m;
-}, [pantry]);
-
 // Build a fast lookup for "use soon" pantry items (normalized)
 const pantryUseSoon = useMemo(() => {
   const s = new Set<string>();
@@ -826,79 +835,100 @@ const pantryUseSoon = useMemo(() => {
   return s;
 }, [pantry]);
 
-  const recomputeShopping = useCallback(
-  (chosen: Recipe[]) => {
-    const rawNeeds: RawNeed[] = [];
-
-    for (const r of chosen) {
-      const ri = ingByRecipe.get(r.id) || [];
-
-      const baseServings = r.servings ?? 2; // DB default is 2; keep safe fallback
-      const multiplier = baseServings > 0 ? peopleCount / baseServings : 1;
+  // Hand-added items: recurring staples + this plan's one-offs
+  const [extras, setExtras] = useState<ShoppingExtra[]>([]);
+  const [extraText, setExtraText] = useState('');
+  const [extraRecurring, setExtraRecurring] = useState(false);
 
-      for (const it of ri) {
-        const ingNorm = normalizeIngredientName(it.name);
-
-        // Skip pantry staples (salt/pepper etc.)
-        if (STAPLE_SKIP.has(ingNorm)) continue;
+  useEffect(() => {
+    if (!userId) return;
+    let cancelled = false;
+    fetchExtras(userId, planMeta?.id ?? null).then((rows) => {
+      if (!cancelled) setExtras(rows);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, planMeta?.id]);
+
+  // Same options the budget pass prices with (a new week leaves out this plan's one-off extras)
+  const shoppingListOptions = useMemo(
+    () => ({
+      ingIndex: ingByRecipe,
+      pantry: pantry.map((p) => ({ name: p.name, qty: p.qty, unit: p.unit })),
+      peopleCount,
+      allergies: prefs?.allergies ?? [],
+      dislikes: prefs?.dislikes ?? [],
+      subRules: prefs?.sub_rules ?? [],
+      extras: extrasToNeeds(extras, planMeta?.id ?? null),
+    }),
+    [ingByRecipe, pantry, peopleCount, prefs?.allergies, prefs?.dislikes, prefs?.sub_rules, extras, planMeta?.id],
+  );
 
-        // Staples and garnish: we decided to exclude optional items from shopping list
-        if (it.optional) continue;
+  // A new week starts with only the recurring extras; this plan's one-offs stay with it
+  const newWeekListOptions = useMemo(
+    () => ({ ...shoppingListOptions, extras: extrasToNeeds(extras, null) }),
+    [shoppingListOptions, extras],
+  );
 
-        const baseQty = it.qty ?? 1;
-        const scaledQty = baseQty * multiplier;
+  async function addExtra() {
+    const text = extraText.trim().slice(0, MAX_EXTRA_LENGTH);
+    if (!userId || !parseShoppingText(text)) return;
+    if (!extraRecurring && !planMeta?.id) return;
 
-        rawNeeds.push({
-          name: it.name,
-          qty: scaledQty,
-          unit: it.unit ?? null,
-        });
-      }
+    const { data, error } = await supabase
+      .from('shopping_extras')
+      .insert({
+        user_id: userId,
+        text,
+        recurring: extraRecurring,
+        meal_plan_id: extraRecurring ? null : planMeta?.id,
+      })
+      .select('id, text, recurring, meal_plan_id')
+      .single();
+    if (error || !data) {
+      console.error('[PLAN] Add extra failed:', error);
+      alert(`Could not add "${text}".`);
+      return;
     }
+    setExtras((xs) => [...xs, extraFromRow(data)]);
+    setExtraText('');
+    trackEvent('shopping_extra_added', { recurring: extraRecurring });
+  }
 
-    const remainingNeeds = subtractPantryFromNeeds(
-      rawNeeds,
-      pantry.map((p) => ({
-        name: p.name,
-        qty: p.qty,
-        unit: p.unit,
-      })),
-    );
-
-    // Apply substitutions (pantry-aware swaps) before merging.
-    // Block substitutions that conflict with allergies/dislikes.
-    const blocked = new Set<string>();
-    try {
-      // Dislikes
-      for (const d of prefs?.dislikes ?? []) {
-        const n = normalizeIngredientName(String(d));
-        if (n) blocked.add(n);
-      }
-      // Allergies (expanded into concrete ingredient terms)
-      for (const t of Array.from(expandAllergyTerms(prefs?.allergies ?? []))) {
-        const n = normalizeIngredientName(String(t));
-        if (n) blocked.add(n);
-      }
-    } catch {
-      // best-effort only
+  async function removeExtra(id: string) {
+    const { error } = await supabase.from('shopping_extras').delete().eq('id', id);
+    if (error) {
+      console.error('[PLAN] Remove extra failed:', error);
+      return;
     }
+    setExtras((xs) => xs.filter((x) => x.id !== id));
+  }
 
-    // Apply substitutions, but ALWAYS keep the original item in the list
-    // and attach a note when a pantry substitution is available.
-    const pantryNames = pantry.map((p) => normalizeIngredientName(p.name));
-    const { items } = smartMergeNeedsWithSubstitutions(remainingNeeds, pantryNames, {
-      blocked,
-      keepOriginalInList: true,
-    });
-
-    setShopping(items);
+  const recomputeShopping = useCallback(
+  (chosen: PlannedMeal<Recipe>[]) => {
+    setShopping(buildShoppingList(chosen, shoppingListOptions));
   },
-  [ingByRecipe, pantry, peopleCount, prefs],
+  [shoppingListOptions],
 );
+
+  // Live scorecard for the week on screen (the plan row keeps the as-generated one)
+  const scorecard = useMemo(() => {
+    if (!prefs || !plannedN.length) return null;
+    const ctx = createPlannerContext<Recipe>({
+      recipes,
+      ingredients: ings,
+      pantry,
+      prefs,
+      seed: 'scorecard',
+    });
+    return planScorecard(ctx, plannedN, { list: shoppingListOptions, storeId });
+  }, [prefs, plannedN, recipes, ings, pantry, shoppingListOptions, storeId]);
+
   // Keep shopping list in sync when meals or ingredients change
   useEffect(() => {
-    if (mealsN.length) recomputeShopping(mealsN);
-  }, [mealsN, recomputeShopping]);
+    if (plannedN.length) recomputeShopping(plannedN);
+  }, [plannedN, recomputeShopping]);
 
   // Initial load: user + pantry/prefs/recipes/ings + latest saved plan
   useEffect(() => {
@@ -906,7 +936,7 @@ const pantryUseSoon = useMemo(() => {
       setLoading(true);
       const uid = await resolveUserId();
 
-      const [pItems, pRes, rRes, iRes, favRes] = await Promise.all([
+      const [pItems, pRes, rRes, iRes, favRes, members] = await Promise.all([
         supabase
         .from('pantry_items')
         .select('name,qty,unit,updated_at,perish_by,use_soon')
@@ -914,13 +944,14 @@ const pantryUseSoon = useMemo(() => {
         supabase.from('preferences').select('*').eq('user_id', uid).maybeSingle(),
         supabase
           .from('recipes')
-          .select('id,title,time_min,diet_tags,instructions,servings')
+          .select('id,title,time_min,diet_tags,instructions,servings,meal_types,calories,protein_g,fiber_g,sodium_mg')
           .eq('is_active', true)
           .eq('qa_status', 'approved'),
         supabase
           .from('recipe_ingredients')
           .select('recipe_id,name,qty,unit,optional'),
         supabase.from('favorites').select('recipe_id').eq('user_id', uid),
+        fetchHousehold(uid),
       ]);
 
       const pantryRows: PantryRow[] = (pItems.data || []).map((x) => ({
@@ -947,11 +978,20 @@ const pantryUseSoon = useMemo(() => {
             kid_friendly: pr.kid_friendly ?? false,
             dinners_per_week: pr.dinners_per_week ?? 7,
             people_count: pr.people_count ?? 2,
+            meal_slots: normalizeMealSlots(pr.meal_slots),
+            leftovers_mode: pr.leftovers_mode ?? false,
             healthy_goal: (pr.healthy_goal as Prefs['healthy_goal']) ?? '',
             healthy_protein_style:
               (pr.healthy_protein_style as Prefs['healthy_protein_style']) ?? '',
             healthy_carb_pref:
               (pr.healthy_carb_pref as Prefs['healthy_carb_pref']) ?? '',
+            nutrition: nutritionTargetsFromRow(pr),
+            budget: budgetCapFromRow(pr),
+            rotation: rotationFromRow(pr),
+            schedule: scheduleFromRow(pr.weekday_schedule),
+            store_layouts: storeLayoutsFromRow(pr.store_layouts),
+            sub_rules: subRulesFromRow(pr.sub_rules),
+            portions: null,
             updated_at: pr.updated_at ?? undefined,
           }
         : {
@@ -964,11 +1004,22 @@ const pantryUseSoon = useMemo(() => {
             kid_friendly: false,
             dinners_per_week: 7,
             people_count: 2,
+            meal_slots: ['dinner'],
+            leftovers_mode: false,
             healthy_goal: '',
             healthy_protein_style: '',
             healthy_carb_pref: '',
+            nutrition: null,
+            budget: null,
+            rotation: DEFAULT_ROTATION,
+            schedule: emptySchedule(),
+            store_layouts: {},
+            sub_rules: [],
+            portions: null,
           };
-      setPrefs(prefsRow);
+      setPrefs(withHousehold(prefsRow, members));
+      // Price against the budget's store unless the user picks another one
+      if (prefsRow.budget) setStoreId(prefsRow.budget.storeId);
 
       const recipeRows: Recipe[] = rRes.data || [];
       setRecipes(recipeRows);
@@ -983,7 +1034,7 @@ const pantryUseSoon = useMemo(() => {
       // Load latest saved plan (+ items) for this user
       const { data: plan } = await supabase
         .from('user_meal_plan')
-        .select('id, generated_at, share_id, people_count, recipe_prefs_sig, user_meal_plan_recipes (recipe_id, position)')
+        .select('id, generated_at, share_id, start_date, people_count, recipe_prefs_sig, metadata, user_meal_plan_recipes (recipe_id, position, day, slot, leftover_of_day, locked, reason)')
         .eq('user_id', uid)
         .order('generated_at', { ascending: false })
         .limit(1)
@@ -991,17 +1042,17 @@ const pantryUseSoon = useMemo(() => {
 
       if (plan) {
         const byId = new Map(recipeRows.map((r) => [r.id, r]));
-        const items = (plan.user_meal_plan_recipes || [])
-       .slice()
-       .sort((a, b) => a.position - b.position);
-
-       const chosen = items
-       .map((it) => byId.get(it.recipe_id))
-       .filter(Boolean) as Recipe[];
+        const chosen = mealsFromPlanRows(plan.user_meal_plan_recipes || [], byId);
 
        setMeals(chosen);
        setPlanMealCount(chosen.length || 7);
-       setPlanMeta({ id: plan.id, generated_at: plan.generated_at, share_id: plan.share_id ?? null });
+       setPlanMeta({
+         id: plan.id,
+         generated_at: plan.generated_at,
+         share_id: plan.share_id ?? null,
+         start_date: plan.start_date ?? null,
+       });
+       setPlanMetadata(planMetadataFromRow(plan.metadata));
        // Snapshot prefs used for this plan (stored on the plan row)
        setPlanRecipePrefsSig(plan.recipe_prefs_sig ?? null);
        setPlanPeopleCount(plan.people_count ?? null);
@@ -1035,10 +1086,9 @@ const pantryUseSoon = useMemo(() => {
     }
   }, []);
 
-  // Generate a fresh 7-day dinner plan and persist it
+  // Generate a fresh plan (every selected slot, each day) and persist it
     const generateAndSave = useCallback(async () => {
     if (!prefs || !userId) return;
-    const prefsSafe = prefs;
     
     // Prevent duplicate generations (double click, re-entrancy, slow network)
     if (generatingRef.current) {
@@ -1103,148 +1153,67 @@ const pantryUseSoon = useMemo(() => {
       }
     }
 
-    const allergy = expandAllergyTerms(prefs.allergies || []);
-    const dislike = new Set((prefs.dislikes || []).map((d) => String(d)));
-
-    // Normalize sets once for consistent matching
-    const allergyTermsNorm = normalizeTermSet(allergy);
-    const dislikeTermsNorm = normalizeTermSet(dislike);
+    // ---------- 0) Build planner contexts (one per meal slot) ----------
+    // Locked cook meals stay put; only the remaining days of each slot get planned.
+    const lockedMeals = meals.filter(
+      (m) => m.locked && m.leftover_of == null && m.day < dinnersPerWeek && mealSlots.includes(m.slot),
+    );
+    const sigBase = `${userId}|${recipePrefsSignature(prefs)}|${dinnersPerWeek}`;
+    // Perish-by math runs from the first planned day, so day 0 gets the most urgent items
+    const planStart = parseIsoDate(startDate)?.getTime() ?? Date.now();
+    const lastServed = await fetchLastServed(userId, startDate, prefs.rotation);
+    const pantryRuns: PantryOnlyRun<Recipe>[] = [];
+    const slotCtxs = mealSlots.map((slot) => {
+      const locked = lockedMeals.filter((m) => m.slot === slot).map((m) => m.recipe);
+      // Picks fill the days locked meals leave free, in order
+      const freeDays = Array.from({ length: dinnersPerWeek }, (_, d) => d).filter(
+        (d) => !lockedMeals.some((m) => m.slot === slot && m.day === d),
+      );
+      const ctx = createPlannerContext<Recipe>({
+        recipes,
+        ingredients: ings,
+        pantry,
+        prefs,
+        favorites,
+        seed: slot === 'dinner' ? sigBase : `${sigBase}|${slot}`,
+        count: Math.max(0, dinnersPerWeek - locked.length),
+        slot,
+        locked,
+        now: planStart,
+        lastServed,
+        dayRules:
+          slot === SCHEDULED_SLOT ? dayRulesForDays(prefs.schedule, startDate, freeDays) : undefined,
+      });
+      if (!pantryOnly) return { slot, ctx, freeDays };
+      const run = restrictToPantry(ctx);
+      pantryRuns.push(run);
+      return { slot, ctx: run.ctx, freeDays };
+    });
 
     // --- DEBUG: why a use-soon item (e.g. mushroom) didn't show up ---
     // This is safe to keep (console-only) and helps confirm whether an ingredient
     // is being excluded by dislikes/allergies, or simply not present in recipes.
     if (DEBUG_PLAN) {
       try {
+        const ctx = slotCtxs[0].ctx;
         const dbgMushNorm = normalizeTermSet(['mushroom', 'mushrooms']);
         console.log('[PLAN DEBUG] prefs.dislikes (raw):', prefs.dislikes);
         console.log(
           '[PLAN DEBUG] dislikeTermsNorm has mushroom?:',
           dbgMushNorm.size > 0 &&
-            Array.from(dbgMushNorm).some((t) => dislikeTermsNorm.has(t)),
+            Array.from(dbgMushNorm).some((t) => ctx.dislikeTermsNorm.has(t)),
         );
         console.log(
           '[PLAN DEBUG] pantryUseSoon (sample):',
-          Array.from(pantryUseSoon).slice(0, 25),
+          Array.from(ctx.pantryUseSoon).slice(0, 25),
         );
         console.log(
           '[PLAN DEBUG] pantryUseSoon has mushroom?:',
-          Array.from(dbgMushNorm).some((t) => pantryUseSoon.has(t)),
+          Array.from(dbgMushNorm).some((t) => ctx.pantryUseSoon.has(t)),
         );
-      } catch (e) {
-        console.warn('[PLAN DEBUG] debug block failed:', e);
-      }
-    }
-
-    const pantrySet = new Set(pantry.map((p) => normalizeIngredientName(p.name)));
-
-    // Build ingredient index (same as before)
-    const ingIndex = new Map<string, Ing[]>();
-    ings.forEach((i) => {
-      const arr = ingIndex.get(i.recipe_id) || [];
-      arr.push(i);
-      ingIndex.set(i.recipe_id, arr);
-    });
-
-    // ---------- 0) Build filtered recipe pool based on preferences ----------
-    const DIET_FORBIDDEN_BY_ING: Record<string, RegExp[]> = {
-      vegetarian: [
-        /\bchicken\b/i,
-        /\bbeef\b/i,
-        /\bpork\b/i,
-        /\bham\b/i,
-        /\bsausage\b/i,
-        /\bbacon\b/i,
-        /\bturkey\b/i,
-        // seafood/fish
-        /\bshrimp\b/i,
-        /\banchovies?\b/i,
-        /\bsalmon\b/i,
-        /\btuna\b/i,
-        /\bcod\b/i,
-        /\btilapia\b/i,
-        /\btrout\b/i,
-        /\bhalibut\b/i,
-        /\bmahi\b/i,
-        /\bseafood\b/i,
-        /\bfish\b/i,
-      ],
-      vegan: [
-        /\bchicken\b/i,
-        /\bbeef\b/i,
-        /\bpork\b/i,
-        /\bham\b/i,
-        /\bsausage\b/i,
-        /\bbacon\b/i,
-        /\bturkey\b/i,
-        // seafood/fish
-        /\bshrimp\b/i,
-        /\banchovies?\b/i,
-        /\bsalmon\b/i,
-        /\btuna\b/i,
-        /\bcod\b/i,
-        /\btilapia\b/i,
-        /\btrout\b/i,
-        /\bhalibut\b/i,
-        /\bmahi\b/i,
-        /\bseafood\b/i,
-        /\bfish\b/i,
-        // animal products
-        /\beggs?\b/i,
-        /\bcheese\b/i,
-        /\bmilk\b/i,
-        /\byogurt\b/i,
-        /\bbutter\b/i,
-      ],
-    };
-
-    function violatesDiet(recipe: Recipe, ri: Ing[], diet: string): boolean {
-      const rules = DIET_FORBIDDEN_BY_ING[diet] || [];
-      if (!rules.length) return false;
-      return recipeMatchesAnyRegex(recipe, ri, rules);
-    }
-
-    function hasForbiddenFromSet(ri: Ing[], termsNorm: Set<string>): boolean {
-      if (!termsNorm.size) return false;
-      return ri.some((it) => matchesAnyNormalizedTerm(it.name, termsNorm));
-    }
-
-    const filteredRecipes: Recipe[] = recipes.filter((r) => {
-      const ri = ingIndex.get(r.id) || [];
-
-      if (violatesDiet(r, ri, prefs.diet)) return false;
-      if (hasForbiddenFromSet(ri, allergyTermsNorm)) return false;
-      if (hasForbiddenFromSet(ri, dislikeTermsNorm)) return false;
-
-      return true;
-    });
-
-    const pool: Recipe[] = filteredRecipes.length ? filteredRecipes : recipes;
-    if (!filteredRecipes.length) {
-      console.warn(
-        '[PLAN] All recipes filtered by prefs; falling back to full list.',
-      );
-    }
-
-    const strictPool: Recipe[] = pool; // strict-only: never relax constraints
-
-    if (DEBUG_PLAN && prefs.diet !== 'none') {
-      const violatingTitles = strictPool
-        .filter((r) => violatesDiet(r, ingIndex.get(r.id) || [], prefs.diet))
-        .map((r) => r.title);
-
-      console.log('[PLAN DEBUG] strictPool diet check:', {
-        diet: prefs.diet,
-        strictPoolCount: strictPool.length,
-        violatingTitles: violatingTitles.slice(0, 25),
-      });
-    }
 
-    // --- DEBUG: do we even have eligible recipes that contain mushrooms? ---
-    if (DEBUG_PLAN) {
-      try {
-        const dbgMushNorm = normalizeTermSet(['mushroom', 'mushrooms']);
-        const mushEligible = strictPool.filter((r) => {
-          const ri = ingIndex.get(r.id) || [];
+        const mushEligible = ctx.strictPool.filter((r) => {
+          const ri = ctx.ingIndex.get(r.id) || [];
           return ri.some((it) => matchesAnyNormalizedTerm(it.name, dbgMushNorm));
         });
         console.log(
@@ -1258,1000 +1227,259 @@ const pantryUseSoon = useMemo(() => {
           );
         }
       } catch (e) {
-        console.warn('[PLAN DEBUG] mushroom eligibility check failed:', e);
+        console.warn('[PLAN DEBUG] debug block failed:', e);
       }
     }
 
-    let chosen: Recipe[] | null = null;
-    let mode: 'llm' | 'heuristic' | null = null;
-    let reqKey: string | null = null;
-
-    try {
-      const pantryNames = Array.from(pantrySet);
-
-      const recipeLite = pool.map((r) => ({
-        id: r.id,
-        title: r.title,
-        time_min: r.time_min,
-        diet_tags: r.diet_tags,
-        ingredients: (ingIndex.get(r.id) || [])
-       .filter((it) => !it.optional) // optional shouldn’t drive planning
-       .map((it) => normalizeIngredientName(it.name)),
-        is_favorite: favorites.has(r.id),
-          }));
-
-            // Build the exact payload we send to /api/llm-plan (so the key is meaningful)
-      const llmPayload = {
-        pantryNames,
-        prefs: {
-          diet: prefs.diet,
-          allergies: prefs.allergies,
-          dislikes: prefs.dislikes,
-          max_prep_minutes: prefs.max_prep_minutes,
-          favorite_mode: prefs.favorite_mode,
-          healthy_whole_food: prefs.healthy_whole_food,
-          kid_friendly: prefs.kid_friendly,
-          healthy_goal: prefs.healthy_goal,
-          healthy_protein_style: prefs.healthy_protein_style,
-          healthy_carb_pref: prefs.healthy_carb_pref,
-        },
-        recipes: recipeLite,
-        days: dinnersPerWeek,
-        healthyProfile, // may be undefined
-      };
-
-      // Skip identical inputs if user clicks regenerate repeatedly (prevents extra API calls + extra saved plans)
-      reqKey = await sha256Hex(JSON.stringify(llmPayload));
-      const nowTs = Date.now();
-      const tooSoonMs = 30_000; // 30 seconds (tunable)
-      if (
-        lastPlanReqKeyRef.current === reqKey &&
-        nowTs - lastPlanReqAtRef.current < tooSoonMs
-      ) {
-        console.log('[PLAN] Skipping LLM call: identical inputs too soon');
-        trackEvent('generate_plan_skipped_identical_too_soon');
-        return;
-      }
+    // Build the exact payloads we send to /api/llm-plan (so the key is meaningful)
+    const pantryNames = Array.from(slotCtxs[0]?.ctx.pantrySet ?? []);
+    const llmPayloads = slotCtxs.map(({ slot, ctx, freeDays }) => ({
+      apiVersion: LLM_PLAN_API_VERSION,
+      pantryNames,
+      prefs: {
+        diet: prefs.diet,
+        ...(prefs.diets?.length ? { diets: prefs.diets } : {}),
+        allergies: prefs.allergies,
+        dislikes: prefs.dislikes,
+        ...(prefs.soft_dislikes ? { soft_dislikes: prefs.soft_dislikes } : {}),
+        max_prep_minutes: prefs.max_prep_minutes,
+        favorite_mode: prefs.favorite_mode,
+        healthy_whole_food: prefs.healthy_whole_food,
+        kid_friendly: prefs.kid_friendly,
+        healthy_goal: prefs.healthy_goal,
+        healthy_protein_style: prefs.healthy_protein_style,
+        healthy_carb_pref: prefs.healthy_carb_pref,
+        ...(prefs.nutrition ? { nutrition: prefs.nutrition } : {}),
+      },
+      // Locked recipes ride along so the model can see them (it won't pick them)
+      recipes: uniqById([...ctx.pool, ...ctx.locked]).map((r) => toRecipeLite(ctx, r)),
+      days: ctx.count,
+      slot,
+      lockedRecipeIds: ctx.locked.map((r) => r.id),
+      // Only what the cool-down had to let back in; the rest never reaches the pool
+      ...(ctx.pool.some((r) => ctx.lastServed.has(r.id))
+        ? { recentRecipeIds: ctx.pool.filter((r) => ctx.lastServed.has(r.id)).map((r) => r.id) }
+        : {}),
+      ...(ctx.dayRules.length
+        ? {
+            dayRules: ctx.dayRules.map((rule, i) =>
+              rule ? { weekday: formatPlanDay(startDate, freeDays[i]), ...rule } : null,
+            ),
+          }
+        : {}),
+      healthyProfile, // may be undefined
+      audit: true,
+    }));
 
-      const res = await fetch('/api/llm-plan', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(llmPayload),
-      });
+    // Skip identical inputs if user clicks regenerate repeatedly (prevents extra API calls + extra saved plans)
+    const reqKey = await sha256Hex(JSON.stringify(llmPayloads));
+    // A new start date alone is worth regenerating (the LLM payload doesn't see it)
+    const dedupeKey = `${reqKey}|${startDate}`;
+    const nowTs = Date.now();
+    const tooSoonMs = 30_000; // 30 seconds (tunable)
+    if (
+      lastPlanReqKeyRef.current === dedupeKey &&
+      nowTs - lastPlanReqAtRef.current < tooSoonMs
+    ) {
+      console.log('[PLAN] Skipping LLM call: identical inputs too soon');
+      trackEvent('generate_plan_skipped_identical_too_soon');
+      return;
+    }
 
-      if (res.ok) {
-        const data: { ok: boolean; recipeIds?: string[] } = await res.json();
-        if (data.ok && data.recipeIds && data.recipeIds.length) {
-          const byId = new Map(pool.map((r) => [r.id, r]));
-
-          const picked = data.recipeIds
-            .map((id) => byId.get(id))
-            .filter((r): r is Recipe => !!r);
-
-          if (picked.length) {
-          const finalPicked = picked.filter((r) => {
-            const ri = ingIndex.get(r.id) || [];
-            if (violatesDiet(r, ri, prefs.diet)) return false;
-            if (hasForbiddenFromSet(ri, allergyTermsNorm)) return false;
-            if (hasForbiddenFromSet(ri, dislikeTermsNorm)) return false;
-            return true;
-          });
+    // ---------- 1) LLM pick per slot ----------
+    // The route budgets requests per Supabase user, so send the session token
+    const {
+      data: { session },
+    } = await supabase.auth.getSession();
+    const llmHeaders: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (session?.access_token) llmHeaders.Authorization = `Bearer ${session.access_token}`;
+    setLlmLimitedMins(null);
+    const llmAudits: Partial<Record<MealSlot, RecipeAuditLite[]>> = {};
+
+    async function llmPickForSlot(
+      ctx: (typeof slotCtxs)[number]['ctx'],
+      payload: (typeof llmPayloads)[number],
+    ): Promise<{ picked: Recipe[]; reasons: Record<string, string> } | null> {
+      if (!ctx.pool.length || !ctx.count) return null;
+      try {
+        const res = await fetch('/api/llm-plan', {
+          method: 'POST',
+          headers: llmHeaders,
+          body: JSON.stringify(payload),
+        });
 
-            chosen = finalPicked.length ? finalPicked : picked;
-            setPlannerMode('llm');
-            mode = 'llm';
-            console.log(
-              '[PLAN] Using LLM-selected recipes:',
-              chosen.map((p) => p.title),
-            );
-            // Mark this input as the latest successful request
-            lastPlanReqKeyRef.current = reqKey;
-            lastPlanReqAtRef.current = Date.now();
-          }
+        if (res.status === 429) {
+          // Over the AI budget: the heuristic below takes over; tell the user why
+          const limited = LlmPlanResponseSchema.safeParse(await res.json().catch(() => null));
+          const secs =
+            (limited.success ? limited.data.retryAfterSeconds : undefined) ??
+            Number(res.headers.get('Retry-After') || 0);
+          setLlmLimitedMins(Math.max(1, Math.ceil(secs / 60)));
+          trackEvent('generate_plan_llm_rate_limited');
+          console.warn('[PLAN] /api/llm-plan rate limited; using heuristic');
+          return null;
         }
-      } else {
-        console.warn('[PLAN] /api/llm-plan returned status', res.status);
-      }
-    } catch (e) {
-      console.error('[PLAN] LLM plan failed (falling back to heuristic):', e);
-    }
 
-    // ---------- 2) Fallback: pantry-first heuristic ----------
-    if (!chosen || !chosen.length) {
-      type RecipeStats = {
-        id: string;
-        coverage: number;
-        matchedWeight: number;
-        totalWeight: number;
-        missingWeighted: number;
-        missingSet: Set<string>; // normalized missing non-staples, non-optional
-        mustUseHits: number;
-        baseScore: number;
-      };
+        if (!res.ok) {
+          // 400s carry field paths for whatever the contract rejected
+          const errBody = res.status === 400 ? await res.json().catch(() => null) : null;
+          console.warn('[PLAN] /api/llm-plan returned status', res.status, errBody?.issues ?? '');
+          return null;
+        }
 
-      // Build "must use" set from pantry items that are explicitly flagged OR expiring soon.
-      // (V1: treat perish-by within 3 days as must-use.)
-      const mustUseSet = new Set<string>(Array.from(pantryUseSoon));
-      for (const [nameNorm, d] of pantryPerishBy.entries()) {
-        try {
-          if (daysUntil(d) <= 3) mustUseSet.add(nameNorm);
-        } catch {
-          // ignore
+        const checked = LlmPlanResponseSchema.safeParse(await res.json());
+        if (!checked.success) {
+          console.warn('[PLAN] /api/llm-plan returned an unexpected shape:', checked.error.issues);
+          return null;
         }
+        const data = checked.data;
+        if (data.audit) llmAudits[ctx.slot] = data.audit;
+        if (!data.ok || !data.recipeIds || !data.recipeIds.length) return null;
+
+        const byId = new Map(ctx.pool.map((r) => [r.id, r]));
+        const lockedIds = new Set(ctx.locked.map((r) => r.id));
+        const picked = data.recipeIds
+          .filter((id) => !lockedIds.has(id))
+          .map((id) => byId.get(id))
+          .filter((r): r is Recipe => !!r);
+        if (!picked.length) return null;
+
+        const finalPicked = picked.filter((r) => isRecipeAllowed(ctx, r));
+        return { picked: finalPicked.length ? finalPicked : picked, reasons: data.reasons ?? {} };
+      } catch (e) {
+        console.error('[PLAN] LLM plan failed (falling back to heuristic):', e);
+        return null;
       }
+    }
 
-      function computeStats(r: Recipe): RecipeStats {
-        const ri = (ingIndex.get(r.id) || []).filter((it) => !it.optional);
-        const ingNorms = ri.map((it) => normalizeIngredientName(it.name));
-
-        let totalWeight = 0;
-        let matchedWeight = 0;
-        let missingWeighted = 0;
-        const missingSet = new Set<string>();
-        let mustUseHits = 0;
-
-        for (const n of ingNorms) {
-          if (!n) continue;
+    const llmPicks = await Promise.all(
+      slotCtxs.map(({ ctx }, i) => llmPickForSlot(ctx, llmPayloads[i])),
+    );
+    setLlmAudit(llmAudits);
 
-          const w = ingredientWeight(n);
-          totalWeight += w;
+    const titleById = new Map(recipes.map((r) => [r.id, r.title]));
+    const bySlot: Partial<Record<MealSlot, Recipe[]>> = {};
+    // Reasons the LLM gave (already sanitized server-side); the rest are explained locally
+    const llmReasons = new Map<string, string>();
+    let allLlm = true;
 
-          const inPantry = pantrySet.has(n);
-          if (inPantry) {
-            matchedWeight += w;
-            if (mustUseSet.has(n)) mustUseHits += 1;
-            continue;
-          }
+    slotCtxs.forEach(({ slot, ctx }, i) => {
+      // Every day of this slot is locked: nothing to plan
+      if (!ctx.count) return;
 
-          // Missing: ignore staples and do not add to shopping-friction penalty
-          if (STAPLE_SKIP.has(n)) continue;
+      const llmPick = llmPicks[i];
+      let chosen = llmPick?.picked ?? null;
 
-          missingWeighted += w;
-          missingSet.add(n);
+      if (llmPick && chosen && chosen.length) {
+        for (const [id, reason] of Object.entries(llmPick.reasons)) {
+          if (!llmReasons.has(id)) llmReasons.set(id, reason);
         }
-
-        const coverage = totalWeight > 0 ? matchedWeight / totalWeight : 0;
-
-        // Time preference (soft): keep it simple in V1
-        const timeScore =
-        r.time_min <= (prefsSafe.max_prep_minutes ?? 45) ? 1.5 : -2;
-
-        // Favorites boost
-        const favBoost = favorites.has(r.id)
-        ? prefsSafe.favorite_mode === 'favorites'
-        ? 4
-        : 1
-        : 0;
-
-        // Must-use boost (waste reduction)
-        const mustUseBoost = mustUseHits * 2.5;
-
-        // Pantry-first score
-        // - Coverage dominates
-        // - Missing ingredients (weighted) penalized
-        const baseScore = coverage * 10 - missingWeighted * 1.5 + mustUseBoost + favBoost + timeScore;
-
-        return {
-          id: r.id,
-          coverage,
-          matchedWeight,
-          totalWeight,
-          missingWeighted,
-          missingSet,
-          mustUseHits,
-          baseScore,
-        };
+        console.log(
+          `[PLAN] Using LLM-selected recipes (${slot}):`,
+          chosen.map((p) => p.title),
+        );
+      } else {
+        // ---------- 2) Fallback: pantry-first heuristic ----------
+        allLlm = false;
+        chosen = pickHeuristicRecipes(ctx);
+        console.log(
+          `[PLAN] Using pantry-first heuristic-selected recipes (${slot}, fallback):`,
+          chosen.map((p) => p.title),
+        );
       }
 
-      // Precompute stats for all candidates
-      const statsById = new Map<string, RecipeStats>();
-      for (const r of pool) statsById.set(r.id, computeStats(r));
-
-      const picked: Recipe[] = [];
-      const weekMissing = new Set<string>();
-
-      // Greedy week selection:
-      // 1) pick best baseScore
-      // 2) for subsequent picks, penalize introducing new missing items not already on the week's list
-      for (let k = 0; k < dinnersPerWeek; k++) {
-        let best: { r: Recipe; score: number } | null = null;
-
-        for (const r of pool) {
-          // Avoid duplicates until we have to fill with repeats later
-          if (picked.some((p) => p.id === r.id)) continue;
-
-          const st = statsById.get(r.id);
-          if (!st) continue;
+      if (!chosen.length) return;
 
-          // Week-level penalty for introducing brand new missing items
-          let newMissingCount = 0;
-          for (const m of st.missingSet) {
-            if (!weekMissing.has(m)) newMissingCount += 1;
-          }
-
-          const weekPenalty = newMissingCount * 0.75;
-          const score = st.baseScore - weekPenalty;
+      // ---------- 2.5–2.9) Perishables ordering, repeats, balance + use-soon passes ----------
+      // Repeat-fill seed prefers the request key so identical inputs give identical weeks.
+      const seed = slot === 'dinner' ? reqKey : `${reqKey}|${slot}`;
+      const refined = refinePlan({ ...ctx, seed }, chosen);
+      bySlot[slot] = refined.recipes;
 
-          if (!best || score > best.score) best = { r, score };
-        }
+      console.log(`[PLAN] Planner passes (${slot}):`, summarizeTrace(refined.trace, titleById));
+    });
 
-        if (!best) break;
+    const mode: 'llm' | 'heuristic' = allLlm ? 'llm' : 'heuristic';
+    setPlannerMode(mode);
+    if (allLlm) {
+      // Mark this input as the latest successful request
+      lastPlanReqKeyRef.current = dedupeKey;
+      lastPlanReqAtRef.current = Date.now();
+    }
 
-        picked.push(best.r);
+    const dayRule = (day: number, slot: MealSlot) =>
+      slot === SCHEDULED_SLOT ? dayRuleFor(prefs.schedule, startDate, day) : null;
+    let assembled = assembleWeek(bySlot, dinnersPerWeek, {
+      ...(prefs.leftovers_mode ? { leftovers: { peopleCount } } : {}),
+      locked: lockedMeals,
+      dayRule,
+    });
 
-        // Accumulate missing set for the week
-        const st = statsById.get(best.r.id);
-        if (st) {
-          for (const m of st.missingSet) weekMissing.add(m);
-        }
+    // ---------- 2.10) Weekly spend cap (whole week: every slot + leftovers) ----------
+    setBudgetNote(null);
+    if (prefs.budget && storeId !== 'none') {
+      const cap = { ...prefs.budget, storeId };
+      const fit = fitWeekToBudget(assembled, {
+        cap,
+        list: newWeekListOptions,
+        ctxBySlot: Object.fromEntries(slotCtxs.map(({ slot, ctx }) => [slot, ctx])),
+        dayRule,
+      });
+      console.log('[PLAN] Budget pass:', {
+        cap: cap.amount,
+        store: cap.storeId,
+        before: fit.before.total,
+        after: fit.after.total,
+        swaps: fit.swaps.map((x) => ({ ...x, replaced: titleById.get(x.replaced), added: titleById.get(x.added) })),
+      });
+      assembled = fit.week;
+      if (!fit.underCap) {
+        setBudgetNote(
+          `Couldn't get under $${cap.amount.toFixed(2)}; this is the cheapest week we found.`,
+        );
+      } else if (fit.swaps.length) {
+        setBudgetNote(
+          `Swapped ${fit.swaps.length} meal${fit.swaps.length === 1 ? '' : 's'} to fit your budget (saved $${(fit.before.total - fit.after.total).toFixed(2)}).`,
+        );
       }
+    }
 
-      chosen = picked;
-      setPlannerMode('heuristic');
-      mode = 'heuristic';
+    const week = explainWeek(slotCtxs[0].ctx, assembled, {
+      given: llmReasons,
+      dayLabel: (d) => formatPlanDay(startDate, d),
+    });
 
-      console.log(
-        '[PLAN] Using pantry-first heuristic-selected recipes (fallback):',
-        chosen.map((p) => p.title),
-      );
+    if (pantryOnly) {
+      const unlock = bestPantryUnlock(pantryRuns);
+      // Slot-days, so leftover nights count as planned
+      setPantryOnlyNote({ planned: week.length, wanted: dinnersPerWeek * mealSlots.length, unlock });
+      console.log('[PLAN] Pantry-only:', {
+        covered: pantryRuns.map((r) => r.ctx.strictPool.length),
+        unlock: unlock ? { ingredient: unlock.ingredient, recipes: unlock.recipes.length } : null,
+      });
+    } else {
+      setPantryOnlyNote(null);
     }
 
-    if (!chosen || !chosen.length) {
+    if (!week.length) {
       console.warn('[PLAN] No recipes chosen even after fallback');
       return;
     }
 
-    // ---------- 2.5) Perishables-first ordering ----------
-// Priority order:
-// 1) Recipes that consume any pantry items marked "use soon"
-// 2) Then recipes with the most urgent perishability (date-based or heuristic)
-const withPerishableScore = chosen.map((r) => {
-  const ri = ingIndex.get(r.id) || [];
-  const riNonOpt = ri.filter((it) => !it.optional);
-
-  const ingredientNames = riNonOpt
-    .map((it) => normalizeIngredientName(it.name))
-    .filter(Boolean);
-
-  // Use-soon match uses normalized ingredient names for consistency
-  const usesSoon = riNonOpt.some((it) =>
-    pantryUseSoon.has(normalizeIngredientName(it.name)),
-  );
-
-  const heuristicScore = computeRecipePerishability(ingredientNames);
-
-  let dateScore: 1 | 2 | 3 | 4 = 1;
-  for (const it of riNonOpt) {
-    const pantryDate = pantryPerishBy.get(normalizeIngredientName(it.name));
-    if (!pantryDate) continue;
-    const s = scoreFromPerishDate(pantryDate);
-    if (s > dateScore) dateScore = s;
-  }
-
-  const perishability = dateScore > heuristicScore ? dateScore : heuristicScore;
-
-  return { recipe: r, usesSoon, perishability };
-});
+    // ---------- 3) Persist to Supabase ----------
+    const newShareId =
+   (typeof crypto !== 'undefined' && 'randomUUID' in crypto)
+    ? crypto.randomUUID()
+    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
 
-withPerishableScore.sort((a, b) => {
-  if (a.usesSoon !== b.usesSoon) return a.usesSoon ? -1 : 1;
-  return b.perishability - a.perishability;
-});
+   const prefsSigAtGen = prefs ? recipePrefsSignature(prefs) : null;
 
-chosen = withPerishableScore.map((x) => x.recipe);
-
-    // Ensure we always save exactly dinnersPerWeek meals.
-   // Repeats are allowed, but ONLY from the strict pool (no constraint relaxing).
-   chosen = (chosen || []).slice(0, dinnersPerWeek);
-
-    if (chosen.length < dinnersPerWeek) {
-      const seed =
-        reqKey ??
-        `${userId}|${recipePrefsSignature(prefs)}|${dinnersPerWeek}`;
-      chosen = fillPlanWithRepeats(chosen, dinnersPerWeek, strictPool, seed);
-
-      console.warn(
-        `[PLAN] Filled plan with repeats to reach ${dinnersPerWeek} meals. Final length:`,
-        chosen.length,
-      );
-    }
-
-    // ---------- 2.75) Balance veg vs non-veg (for omnivore users) ----------
-    // If the user did NOT request vegetarian/vegan, keep the week from skewing too plant-forward.
-    // This is a soft constraint: we replace excess veg meals with the best non-veg candidates.
-    const dietLower = String(prefsSafe.diet || '').toLowerCase();
-    const shouldBalanceNonVeg = dietLower !== 'vegetarian' && dietLower !== 'vegan';
-
-    // Heuristic: "non-veg" if any ingredient looks like meat/fish/seafood.
-    // Otherwise treat it as vegetarian-ish (includes egg/dairy meals).
-    const NON_VEG_ING_RE = /(\bchicken\b|\bbeef\b|\bpork\b|\bturkey\b|\blamb\b|\bveal\b|\bham\b|\bsausage\b|\bbacon\b|\bpepperoni\b|\bsalami\b|\bprosciutto\b|\banchovies?\b|\btuna\b|\bsalmon\b|\bshrimp\b|\bprawn\b|\bcrab\b|\blobster\b|\bclam\b|\bmussel\b|\boyster\b|\bscallop\b|\bfish\b)/i;
-
-    function isVegLikeRecipe(r: Recipe): boolean {
-      const tags = (r.diet_tags ?? []).map((t) => String(t).toLowerCase());
-      if (tags.includes('vegan') || tags.includes('vegetarian')) return true;
-
-      const ri = ingIndex.get(r.id) || [];
-      // If we see any non-veg ingredient keyword, treat as non-veg.
-      const hasNonVeg = ri.some((it) => NON_VEG_ING_RE.test(String(it.name)));
-      return !hasNonVeg;
-    }
-
-    function isNonVegRecipe(r: Recipe): boolean {
-      return !isVegLikeRecipe(r);
-    }
-
-    if (shouldBalanceNonVeg && chosen && chosen.length >= 3) {
-      // When both healthy + kid-friendly are OFF, keep veg-like meals to at most 1 for now.
-      // Otherwise use the softer 40% cap for omnivore users.
-      const maxVeg =
-        !prefsSafe.healthy_whole_food && !prefsSafe.kid_friendly
-          ? 1
-          : Math.max(1, Math.floor(dinnersPerWeek * 0.4));
-
-      let vegCount = chosen.reduce((acc, r) => acc + (isVegLikeRecipe(r) ? 1 : 0), 0);
-
-      if (vegCount > maxVeg) {
-        // Build a replacement pool of non-veg recipes from the strict pool.
-        // Keep it deterministic: sort by id.
-        const nonVegCandidates = (strictPool || [])
-          .filter((r) => !!r?.id)
-          .filter((r) => isNonVegRecipe(r))
-          .slice()
-          .sort((a, b) => a.id.localeCompare(b.id));
-
-        // Track ids already used; we prefer variety but allow repeats if needed.
-        const usedCounts = new Map<string, number>();
-        for (const r of chosen) usedCounts.set(r.id, (usedCounts.get(r.id) ?? 0) + 1);
-
-        function pickReplacement(): Recipe | null {
-          // First pass: avoid duplicates when possible
-          for (const r of nonVegCandidates) {
-            if ((usedCounts.get(r.id) ?? 0) === 0) return r;
-          }
-          // Second pass: allow repeats
-          return nonVegCandidates[0] ?? null;
-        }
-
-        // Replace from the END of the week so perishables-first ordering stays mostly intact.
-        const updated = chosen.slice();
-        for (let i = updated.length - 1; i >= 0 && vegCount > maxVeg; i--) {
-          const r = updated[i];
-          if (!isVegLikeRecipe(r)) continue;
-
-          const repl = pickReplacement();
-          if (!repl) break;
-
-          // If replacement is the same id, we still accept it (repeats allowed),
-          // but try to not do pointless swaps.
-          if (repl.id === r.id) break;
-
-          updated[i] = repl;
-          // bookkeeping
-          usedCounts.set(repl.id, (usedCounts.get(repl.id) ?? 0) + 1);
-          vegCount -= 1;
-        }
-
-        chosen = updated;
-        console.log('[PLAN] Balanced week (veg-like capped):', {
-          maxVeg,
-          vegCount,
-          titles: chosen.map((x) => x.title),
-        });
-      }
-    }
-
-    // ---------- 2.8) Protein variety (avoid too many chicken meals) ----------
-    // Best-effort: keep any single protein category from dominating the week.
-    // This runs only for omnivore users (not vegetarian/vegan).
-    if (shouldBalanceNonVeg && chosen && chosen.length >= 3) {
-      type ProteinCat =
-        | 'chicken'
-        | 'turkey'
-        | 'beef'
-        | 'lamb'
-        | 'pork'
-        | 'fish'
-        | 'seafood'
-        | 'plant'
-        | 'other';
-
-      // Preference order for classifying a recipe when multiple proteins appear.
-      // (We prefer fish/seafood first, then red meats, then poultry.)
-      const CAT_ORDER: ProteinCat[] = [
-        'fish',
-        'seafood',
-        'beef',
-        'lamb',
-        'pork',
-        'turkey',
-        'chicken',
-        'plant',
-        'other',
-      ];
-
-      // Match both single-word proteins and common multi-word phrases like
-      // "ground turkey" / "ground lamb" / "ground beef".
-      const CAT_RE: Record<ProteinCat, RegExp> = {
-        chicken: /\b(chicken|ground\s+chicken|drumsticks?|thighs?|breasts?|wings?)\b/i,
-        turkey: /\b(turkey|ground\s+turkey)\b/i,
-        beef: /\b(beef|steak|sirloin|brisket|ground\s+beef)\b/i,
-        lamb: /\b(lamb|mutton|ground\s+lamb|lamb\s+chops?|leg\s+of\s+lamb)\b/i,
-        pork: /\b(pork|bacon|ham|sausage|prosciutto|pancetta|ground\s+pork)\b/i,
-        // Avoid classifying "fish sauce" as a fish protein.
-        fish: /\b(salmon|tuna|cod|tilapia|trout|halibut|mahi(?:\s+mahi)?|snapper|sardines?|pollock|bass)\b/i,
-        seafood: /\b(shrimp|prawns?|crab|lobster|clams?|mussels?|oysters?|scallops?|seafood)\b/i,
-        plant: /\b(tofu|tempeh|lentils?|beans|chickpeas?|edamame|seitan|tvp)\b/i,
-        other: /.^/,
-      };
-
-      function recipeProteinCat(r: Recipe): ProteinCat {
-        const ri = ingIndex.get(r.id) || [];
-        const names = ri.map((it) => String(it.name).replace(/\s+/g, ' ').trim());
-
-        // Prefer explicit matches first
-        for (const cat of CAT_ORDER) {
-          if (cat === 'other') continue;
-          const rx = CAT_RE[cat];
-          if (names.some((n) => rx.test(n))) return cat;
-        }
-
-        // If it was classified as veg-like earlier, treat as plant/other.
-        return isVegLikeRecipe(r) ? 'plant' : 'other';
-      }
-
-      const maxPerCat = Math.max(1, Math.ceil(dinnersPerWeek * 0.4));
-
-      const counts = new Map<ProteinCat, number>();
-      for (const r of chosen) {
-        const c = recipeProteinCat(r);
-        counts.set(c, (counts.get(c) ?? 0) + 1);
-      }
-
-      function isOverCap(cat: ProteinCat) {
-        const c = counts.get(cat) ?? 0;
-        return c > maxPerCat;
-      }
-
-      const updated = chosen.slice();
-      const usedIds = new Set(updated.map((r) => r.id));
-
-      function pickReplacement(avoidCat: ProteinCat): Recipe | null {
-        // Candidate pool: strictPool already respects diet/allergy/dislike.
-        // Prefer non-veg replacements so this pass doesn't re-introduce a veg-heavy week.
-        const allCandidates = (strictPool || [])
-          .filter((r) => !!r?.id)
-          .slice()
-          .sort((a, b) => a.id.localeCompare(b.id));
-
-        const nonVegCandidates = allCandidates.filter((r) => isNonVegRecipe(r));
-
-        // Helper: try to find a candidate with optional constraints.
-        function tryPick(
-          candidates: Recipe[],
-          opts: { requireUnderCap: boolean; requireNew: boolean },
-        ): Recipe | null {
-          for (const r of candidates) {
-            const c = recipeProteinCat(r);
-            if (c === avoidCat) continue;
-            if (opts.requireUnderCap && (counts.get(c) ?? 0) >= maxPerCat) continue;
-            if (opts.requireNew && usedIds.has(r.id)) continue;
-            return r;
-          }
-          return null;
-        }
-
-        // 1) Best: non-veg, under-cap, and new to the week
-        let repl = tryPick(nonVegCandidates, { requireUnderCap: true, requireNew: true });
-        if (repl) return repl;
-
-        // 2) Next: non-veg, under-cap (allow repeats)
-        repl = tryPick(nonVegCandidates, { requireUnderCap: true, requireNew: false });
-        if (repl) return repl;
-
-        // 3) Next: non-veg, any category (still avoid avoidCat), prefer new
-        repl = tryPick(nonVegCandidates, { requireUnderCap: false, requireNew: true });
-        if (repl) return repl;
-
-        // 4) Fallback: any recipe (including plant), under-cap, prefer new
-        repl = tryPick(allCandidates, { requireUnderCap: true, requireNew: true });
-        if (repl) return repl;
-
-        // 5) Last resort: any recipe not in avoidCat
-        repl = tryPick(allCandidates, { requireUnderCap: false, requireNew: false });
-        return repl;
-      }
-
-      // If chicken dominates, reduce it first. Otherwise reduce any category over cap.
-      const priorityCats: ProteinCat[] = ['chicken', ...CAT_ORDER.filter((c) => c !== 'chicken')];
-
-      for (const overCat of priorityCats) {
-        // Keep swapping until that category is within cap (or no replacements exist)
-        while (isOverCap(overCat)) {
-          let swapped = false;
-
-          // Replace from the END so perishables-first ordering stays mostly intact.
-          for (let i = updated.length - 1; i >= 0; i--) {
-            const r = updated[i];
-            const cat = recipeProteinCat(r);
-            if (cat !== overCat) continue;
-
-            const repl = pickReplacement(overCat);
-            if (!repl) break;
-            if (repl.id === r.id) break;
-
-            // Update counts
-            counts.set(overCat, (counts.get(overCat) ?? 1) - 1);
-            const newCat = recipeProteinCat(repl);
-            counts.set(newCat, (counts.get(newCat) ?? 0) + 1);
-
-            updated[i] = repl;
-            usedIds.add(repl.id);
-            swapped = true;
-
-            // Check again (while loop)
-            break;
-          }
-
-          if (!swapped) break;
-        }
-      }
-
-      chosen = updated;
-      console.log('[PLAN] Protein variety pass:', {
-        maxPerCat,
-        counts: Object.fromEntries(counts.entries()),
-        titles: chosen.map((x) => x.title),
-      });
-    }
-
-    // ---------- 2.85) Protein adjacency smoothing (avoid back‑to‑back same protein family) ----------
-    // Goal: avoid consecutive dinners with the same protein *family*
-    // Constraints:
-    // - Deterministic (stable scan, no randomness)
-    // - Preserve perishables-first intent (do not swap across use‑soon boundaries)
-    // - Applies to ALL protein types (not just chicken)
-    // - Fish + seafood are treated as the same family
-
-    if (shouldBalanceNonVeg && chosen && chosen.length >= 3) {
-      // Local classifier (kept inside this block so no types leak outside)
-      const CAT_ORDER = [
-        'fish',
-        'seafood',
-        'beef',
-        'lamb',
-        'pork',
-        'turkey',
-        'chicken',
-        'plant',
-        'other',
-      ] as const;
-
-      const CAT_RE: Record<(typeof CAT_ORDER)[number], RegExp> = {
-        chicken: /\b(chicken|ground\s+chicken|drumsticks?|thighs?|breasts?|wings?)\b/i,
-        turkey: /\b(turkey|ground\s+turkey)\b/i,
-        beef: /\b(beef|steak|sirloin|brisket|ground\s+beef)\b/i,
-        lamb: /\b(lamb|mutton|ground\s+lamb|lamb\s+chops?|leg\s+of\s+lamb)\b/i,
-        pork: /\b(pork|bacon|ham|sausage|prosciutto|pancetta|ground\s+pork)\b/i,
-        // Avoid classifying "fish sauce" as a fish protein.
-        fish: /\b(salmon|tuna|cod|tilapia|trout|halibut|mahi(?:\s+mahi)?|snapper|sardines?|pollock|bass)\b/i,
-        seafood: /\b(shrimp|prawns?|crab|lobster|clams?|mussels?|oysters?|scallops?|seafood)\b/i,
-        plant: /\b(tofu|tempeh|lentils?|beans|chickpeas?|edamame|seitan|tvp)\b/i,
-        other: /.^/,
-      };
-
-      function recipeProteinCatLocal(r: Recipe): (typeof CAT_ORDER)[number] {
-        const ri = ingIndex.get(r.id) || [];
-        const names = ri.map((it) => String(it.name).replace(/\s+/g, ' ').trim());
-
-        for (const cat of CAT_ORDER) {
-          if (cat === 'other') continue;
-          const rx = CAT_RE[cat];
-          if (names.some((n) => rx.test(n))) return cat;
-        }
-
-        return isVegLikeRecipe(r) ? 'plant' : 'other';
-      }
-
-      function proteinFamily(cat: (typeof CAT_ORDER)[number]): string {
-        // Treat fish + seafood as one adjacency family
-        if (cat === 'fish' || cat === 'seafood') return 'seafood_family';
-        return cat;
-      }
-
-      // Helper: does recipe use any pantry "use soon" ingredient?
-      function recipeUsesSoon(r: Recipe): boolean {
-      const ri = (ingIndex.get(r.id) || []).filter((it) => !it.optional);
-      return ri.some((it) => pantryUseSoon.has(normalizeIngredientName(it.name)));
-     }
-
-      const updated = chosen.slice();
-      const usesSoonFlags = updated.map((r) => recipeUsesSoon(r));
-
-      const updatedCats = updated.map((r) => recipeProteinCatLocal(r));
-      const updatedFams = updatedCats.map((c) => proteinFamily(c));
-
-      // Single left-to-right pass; bounded lookahead keeps this cheap + deterministic
-      for (let i = 1; i < updated.length; i++) {
-        if (updatedFams[i] !== updatedFams[i - 1]) continue;
-
-        const avoidFam = updatedFams[i];
-        let swapped = false;
-
-        // Look ahead a few positions for a safe swap
-        for (let j = i + 1; j < Math.min(updated.length, i + 4); j++) {
-          // Preserve perishables intent:
-          // do not move a "use soon" recipe behind a non‑use‑soon one (and vice versa)
-          if (usesSoonFlags[i] !== usesSoonFlags[j]) continue;
-
-          const famJ = updatedFams[j];
-          if (famJ === avoidFam) continue;
-
-          // Swap i <-> j
-          const tmp = updated[i];
-          updated[i] = updated[j];
-          updated[j] = tmp;
-
-          const tmpCat = updatedCats[i];
-          updatedCats[i] = updatedCats[j];
-          updatedCats[j] = tmpCat;
-
-          const tmpFam = updatedFams[i];
-          updatedFams[i] = updatedFams[j];
-          updatedFams[j] = tmpFam;
-
-          const tmpUse = usesSoonFlags[i];
-          usesSoonFlags[i] = usesSoonFlags[j];
-          usesSoonFlags[j] = tmpUse;
-
-          swapped = true;
-          break;
-        }
-
-        // Best-effort: if we couldn't fix it, leave as-is
-        if (!swapped) continue;
-      }
-
-      chosen = updated;
-
-      console.log('[PLAN] Protein adjacency smoothing applied:', {
-        families: updatedFams,
-        titles: chosen.map((r) => r.title),
-      });
-    }
-
-    // ---------- 2.9) Pantry "use soon" coverage guardrail (best-effort) ----------
-    // If a pantry item is flagged "use soon" but doesn't appear in ANY selected recipe,
-    // we will try to swap in a recipe that uses it — ONLY when the swap doesn't
-    // meaningfully worsen plan quality (shopping friction / time).
-    // Deterministic (stable candidate order) and respects perishables-first intent:
-    // we only swap within the same use-soon segment (true/false) to avoid reordering priorities.
-
-    if (chosen && chosen.length) {
-      // Base must-use terms (already normalized pantry strings)
-      const mustUseBase = new Set<string>(Array.from(pantryUseSoon || []));
-
-      // Cache per-recipe computed values for speed (deterministic)
-const missingSetCache = new Map<string, Set<string>>();
-const missingWeightedCache = new Map<string, number>();
-const coversAnyCache = new Map<string, boolean>();
-const coversBaseCache = new Map<string, Set<string>>(); // recipe.id -> set of mustUseBase terms it covers
-
-function getRecipeMissingSetCached(r: Recipe): Set<string> {
-  const key = r.id;
-  const hit = missingSetCache.get(key);
-  if (hit) return hit;
-  const s = recipeMissingSet(r);
-  missingSetCache.set(key, s);
-  return s;
-}
-
-function getRecipeMissingWeightedCached(r: Recipe): number {
-  const key = r.id;
-  const hit = missingWeightedCache.get(key);
-  if (hit != null) return hit;
-  const w = recipeMissingWeighted(r);
-  missingWeightedCache.set(key, w);
-  return w;
-}
-
-function getRecipeCoveredBasesCached(r: Recipe): Set<string> {
-  const key = r.id;
-  const hit = coversBaseCache.get(key);
-  if (hit) return hit;
-  const covered = new Set<string>();
-  for (const base of mustUseBase) {
-    if (recipeCoversBaseTerm(r, base)) covered.add(base);
-  }
-  coversBaseCache.set(key, covered);
-  return covered;
-}
-
-function getRecipeCoversAnyCached(r: Recipe): boolean {
-  const key = r.id;
-  const hit = coversAnyCache.get(key);
-  if (hit != null) return hit;
-  const v = getRecipeCoveredBasesCached(r).size > 0;
-  coversAnyCache.set(key, v);
-  return v;
-}
-
-// Week-level missing ingredient counts (a Set is incorrect because missing items can repeat across meals)
-function addMissingCounts(m: Map<string, number>, s: Set<string>) {
-  for (const k of s) m.set(k, (m.get(k) ?? 0) + 1);
-}
-function removeMissingCounts(m: Map<string, number>, s: Set<string>) {
-  for (const k of s) {
-    const next = (m.get(k) ?? 0) - 1;
-    if (next <= 0) m.delete(k);
-    else m.set(k, next);
-  }
-}
-
-      // Build a term-set (normalized) per base must-use ingredient.
-      // Use matchesAnyNormalizedTerm so we match phrases like "cremini mushrooms".
-      function termSetForBase(baseNorm: string): Set<string> {
-        const out = new Set<string>();
-        const b = normalizeIngredientName(baseNorm);
-        if (b) out.add(b);
-
-        // Simple plural/singular handling
-        if (b && b.endsWith('s') && b.length > 2) {
-          out.add(b.slice(0, -1));
-        } else if (b) {
-          out.add(`${b}s`);
-        }
-
-        return out;
-      }
-
-      const mustUseTermsByBase = new Map<string, Set<string>>();
-      for (const base of mustUseBase) {
-        mustUseTermsByBase.set(base, termSetForBase(base));
-      }
-
-      function recipeNormIngs(r: Recipe): string[] {
-        return (ingIndex.get(r.id) || [])
-          .filter((it) => !it.optional)
-          .map((it) => normalizeIngredientName(it.name))
-          .filter(Boolean);
-      }
-
-      function recipeMissingSet(r: Recipe): Set<string> {
-        const s = new Set<string>();
-        for (const n of recipeNormIngs(r)) {
-          if (!n) continue;
-          if (pantrySet.has(n)) continue;
-          if (STAPLE_SKIP.has(n)) continue;
-          s.add(n);
-        }
-        return s;
-      }
-
-      function recipeMissingWeighted(r: Recipe): number {
-        let wsum = 0;
-        for (const n of recipeNormIngs(r)) {
-          if (!n) continue;
-          if (pantrySet.has(n)) continue;
-          if (STAPLE_SKIP.has(n)) continue;
-          wsum += ingredientWeight(n);
-        }
-        return wsum;
-      }
-
-      function recipeCoversBaseTerm(r: Recipe, base: string): boolean {
-        const terms = mustUseTermsByBase.get(base) ?? new Set<string>();
-        if (!terms.size) return false;
-
-        const ri = (ingIndex.get(r.id) || []).filter((it) => !it.optional);
-        return ri.some((it) => matchesAnyNormalizedTerm(it.name, terms));
-      }
-
-      function coveredMustUseForPlan(planArr: Recipe[]): Set<string> {
-        const covered = new Set<string>();
-        for (const r of planArr) {
-          for (const base of mustUseBase) {
-            if (covered.has(base)) continue;
-            if (recipeCoversBaseTerm(r, base)) covered.add(base);
-          }
-        }
-        return covered;
-      }
-
-      // What base use-soon pantry items are already covered by the chosen recipes?
-      const coveredMustUse = coveredMustUseForPlan(chosen);
-
-      const missingMustUse = Array.from(mustUseBase)
-        .filter((n) => n && !coveredMustUse.has(n))
-        .sort((a, b) => a.localeCompare(b));
-
-      // If we have uncovered use-soon items, try to cover a few without harming plan quality.
-      if (missingMustUse.length) {
-        // Precompute week-level missing set for "new missing" penalty.
-        const weekMissingCounts = new Map<string, number>();
-        for (const r of chosen) {
-        addMissingCounts(weekMissingCounts, getRecipeMissingSetCached(r));
-        }
-
-        // Deterministic candidate list.
-        const strictSorted = (strictPool || [])
-          .filter((r) => !!r?.id)
-          .slice()
-          .sort((a, b) => a.id.localeCompare(b.id));
-
-        // Swap quality guardrails.
-        const maxExtraMissingWeighted = 2.5; // allow a small increase in shopping friction
-        const maxNewMissingItems = 1; // allow at most 1 brand-new missing ingredient per forced swap
-        const maxExtraTimeMin = 10; // allow up to +10 minutes vs the replaced recipe
-
-        // Track which recipes currently cover ANY must-use item.
-        // We'll avoid replacing these when trying to cover additional uncovered terms.
-        const usesSoonFlags = chosen.map((r) => getRecipeCoversAnyCached(r));
-
-        const updated = chosen.slice();
-
-        // Track coverage counts for must-use bases across the current plan.
-        // This lets us detect coverage regressions cheaply during swaps.
-        const coveredCounts = new Map<string, number>();
-        for (const r of updated) {
-          for (const b of getRecipeCoveredBasesCached(r)) {
-            coveredCounts.set(b, (coveredCounts.get(b) ?? 0) + 1);
-          }
-        }
-
-        for (const term of missingMustUse) {
-          // Recompute covered set for updated array
-          let alreadyCovered = false;
-          for (const r of updated) {
-            if (recipeCoversBaseTerm(r, term)) {
-              alreadyCovered = true;
-              break;
-            }
-          }
-          if (alreadyCovered) continue;
-
-          // Find a candidate recipe that uses this term.
-          const candidates = strictSorted.filter((r) => recipeCoversBaseTerm(r, term));
-          if (!candidates.length) continue;
-
-          // Pick a swap target index deterministically.
-          // If we already have at least one use-soon recipe, prefer swapping within the NOT-use-soon
-          // segment so we don't lose existing use-soon coverage (e.g. avoid swapping out the only mushroom recipe
-          // when trying to also cover spinach).
-          const anyUseSoon = usesSoonFlags.some(Boolean);
-
-          let swapped = false;
-
-          // Try from the END (to preserve earlier perishables priority more strongly).
-          for (let i = updated.length - 1; i >= 0; i--) {
-            // If we already have at least one must-use (use-soon) recipe in the plan,
-            // avoid replacing it while trying to cover additional uncovered must-use terms.
-            if (anyUseSoon && usesSoonFlags[i]) continue;
-
-            const current = updated[i];
-            const curMissingW = getRecipeMissingWeightedCached(current);
-            const curMissingSet = getRecipeMissingSetCached(current);
-
-            // Compute week-missing excluding this recipe (approximate improvement from removal)
-            const weekMissingExcl = new Map<string, number>(weekMissingCounts);
-            removeMissingCounts(weekMissingExcl, curMissingSet);
-
-            for (const cand of candidates) {
-              if (cand.id === current.id) continue;
-
-              const candUseSoon = getRecipeCoversAnyCached(cand);
-
-              // Time guardrail
-              if ((cand.time_min ?? 0) - (current.time_min ?? 0) > maxExtraTimeMin) continue;
-
-              const candMissingW = getRecipeMissingWeightedCached(cand);
-              if (candMissingW - curMissingW > maxExtraMissingWeighted) continue;
-
-              const candMissingSet = getRecipeMissingSetCached(cand);
-              let newMissing = 0;
-              for (const m of candMissingSet) {
-              if ((weekMissingExcl.get(m) ?? 0) <= 0) newMissing += 1;
-              if (newMissing > maxNewMissingItems) break;
-              }
-              if (newMissing > maxNewMissingItems) continue;
-
-              // Coverage regression guardrail (fast):
-              // Only bases that are covered EXACTLY once (by the recipe we're replacing)
-              // are at risk of being lost.
-              const currentCovered = getRecipeCoveredBasesCached(current);
-              let losesCoverage = false;
-              if (currentCovered.size) {
-                const candCovered = getRecipeCoveredBasesCached(cand);
-                for (const b of currentCovered) {
-                  // If this base is only covered by `current` (count === 1),
-                  // then swapping it out would lose coverage unless `cand` also covers it.
-                  if ((coveredCounts.get(b) ?? 0) === 1 && !candCovered.has(b)) {
-                    losesCoverage = true;
-                    break;
-                  }
-                }
-              }
-              if (losesCoverage) continue;
-
-              // ✅ Accept swap
-              updated[i] = cand;
-              // Update coveredCounts for must-use bases
-              for (const b of getRecipeCoveredBasesCached(current)) {
-                const next = (coveredCounts.get(b) ?? 0) - 1;
-                if (next <= 0) coveredCounts.delete(b);
-                else coveredCounts.set(b, next);
-              }
-              for (const b of getRecipeCoveredBasesCached(cand)) {
-                coveredCounts.set(b, (coveredCounts.get(b) ?? 0) + 1);
-              }
-              // update weekMissingAll for subsequent swaps
-              removeMissingCounts(weekMissingCounts, curMissingSet);
-              addMissingCounts(weekMissingCounts, candMissingSet);  
-
-              // update usesSoonFlags so subsequent iterations respect segmentation
-              usesSoonFlags[i] = candUseSoon;
-
-              console.log('[PLAN] Forced use-soon coverage swap:', {
-                term,
-                replaced: current.title,
-                added: cand.title,
-                deltaMissingWeighted: candMissingW - curMissingW,
-                newMissing,
-                deltaTime: (cand.time_min ?? 0) - (current.time_min ?? 0),
-              });
-
-              swapped = true;
-              break;
-            }
-
-            if (swapped) break;
-          }
-
-          // Best-effort: move on if we couldn't safely cover this term
-        }
-
-        // After attempting swaps, stably move ANY must-use-covering recipes to the front.
-        // This keeps the "use soon" priority visible even if we had to introduce a new use-soon recipe
-        // while covering additional uncovered terms (e.g. spinach).
-        const zipped = updated.map((r, idx) => ({
-          r,
-          idx,
-          useSoon: getRecipeCoversAnyCached(r),
-        }));
-
-        zipped.sort((a, b) => {
-          if (a.useSoon !== b.useSoon) return a.useSoon ? -1 : 1;
-          return a.idx - b.idx; // stable within group
-        });
-
-        chosen = zipped.map((z) => z.r);
-
-        // Final visibility
-        try {
-          const coveredAfter = coveredMustUseForPlan(chosen);
-          console.log('[PLAN] Use-soon coverage summary:', {
-            mustUseCount: mustUseBase.size,
-            coveredCount: coveredAfter.size,
-            uncovered: Array.from(mustUseBase)
-              .filter((n) => !coveredAfter.has(n))
-              .slice(0, 25),
-          });
-        } catch {
-          // ignore
-        }
-      }
-    }
-
-    if (prefs.diet !== 'none') {
-      chosen = chosen.filter((r) => !violatesDiet(r, ingIndex.get(r.id) || [], prefs.diet));
-    }
-
-    // ---------- 3) Persist to Supabase ----------
-    const newShareId =
-   (typeof crypto !== 'undefined' && 'randomUUID' in crypto)
-    ? crypto.randomUUID()
-    : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-
-   const prefsSigAtGen = prefs ? recipePrefsSignature(prefs) : null;
+    // Scorecard as planned (swaps later don't touch it), to compare planners over time
+    const metadata: PlanMetadata = {
+      planner: mode,
+      scorecard: planScorecard(slotCtxs[0].ctx, week, { list: newWeekListOptions, storeId }),
+    };
+    console.log('[PLAN] Scorecard:', metadata);
 
 const { data: planRow, error: planErr } = await supabase
   .from('user_meal_plan')
@@ -2260,8 +1488,11 @@ const { data: planRow, error: planErr } = await supabase
     share_id: newShareId,
     people_count: peopleCount,          // NEW
     recipe_prefs_sig: prefsSigAtGen,    // NEW
+    meal_slots: mealSlots,
+    start_date: startDate,
+    metadata,
   })
-  .select('id,generated_at,share_id,people_count,recipe_prefs_sig')
+  .select('id,generated_at,share_id,start_date,people_count,recipe_prefs_sig')
   .single();
     if (planErr || !planRow) {
       console.error(planErr);
@@ -2271,10 +1502,16 @@ const { data: planRow, error: planErr } = await supabase
     setPlanRecipePrefsSig(planRow.recipe_prefs_sig ?? prefsSigAtGen);
     setPlanPeopleCount(planRow.people_count ?? peopleCount);
 
-    const itemsPayload = chosen.map((r, idx) => ({
+    // position stays a running order for older readers; (day, slot) is the real key
+    const itemsPayload = week.map((m, idx) => ({
       plan_id: planRow.id,
-      recipe_id: r.id,
+      recipe_id: m.recipe.id,
       position: idx,
+      day: m.day,
+      slot: m.slot,
+      leftover_of_day: m.leftover_of ?? null,
+      locked: !!m.locked,
+      reason: m.reason ?? null,
     }));
     const { error: itemsErr } = await supabase
       .from('user_meal_plan_recipes')
@@ -2284,11 +1521,17 @@ const { data: planRow, error: planErr } = await supabase
       return;
     }
 
-    setMeals(chosen);
-   setPlanMealCount(chosen.length || dinnersPerWeek); // ✅ critical: update display count immediately
-   setPlanMeta({ id: planRow.id, generated_at: planRow.generated_at, share_id: planRow.share_id ?? null });
+    setMeals(week);
+   setPlanMealCount(week.length || dinnersPerWeek); // ✅ critical: update display count immediately
+   setPlanMeta({
+     id: planRow.id,
+     generated_at: planRow.generated_at,
+     share_id: planRow.share_id ?? null,
+     start_date: planRow.start_date ?? startDate,
+   });
+   setPlanMetadata(metadata);
    setStale(false);
-   recomputeShopping(chosen);
+   recomputeShopping(week);
     trackEvent('generate_plan_success', {
     plan_id: planRow.id,
     share_id: planRow.share_id ?? null,
@@ -2302,17 +1545,203 @@ const { data: planRow, error: planErr } = await supabase
     prefs,
     userId,
     pantry,
-    pantryPerishBy,
-    pantryUseSoon,
     ings,
     recipes,
     recomputeShopping,
     favorites,
     healthySurvey,
     dinnersPerWeek,
+    mealSlots,
+    meals,
     peopleCount,
+    startDate,
+    storeId,
+    newWeekListOptions,
+    pantryOnly,
   ]);
 
+  // Pin / unpin one cook meal. Locked meals survive "Generate plan".
+  const toggleLock = useCallback(
+    async (meal: PlannedMeal<Recipe>) => {
+      if (!planMeta?.id || meal.leftover_of != null) return;
+      const locked = !meal.locked;
+      const sameRow = (m: PlannedMeal<Recipe>) =>
+        m.day === meal.day && m.slot === meal.slot;
+
+      // Optimistic; roll back if the write fails
+      setMeals((prev) => prev.map((m) => (sameRow(m) ? { ...m, locked } : m)));
+
+      const { error } = await supabase
+        .from('user_meal_plan_recipes')
+        .update({ locked })
+        .eq('plan_id', planMeta.id)
+        .eq('day', meal.day)
+        .eq('slot', meal.slot);
+
+      if (error) {
+        console.error('[PLAN] Toggle lock failed:', error);
+        setMeals((prev) => prev.map((m) => (sameRow(m) ? { ...m, locked: !locked } : m)));
+        return;
+      }
+
+      trackEvent(locked ? 'meal_locked' : 'meal_unlocked', {
+        plan_id: planMeta.id,
+        recipe_id: meal.recipe.id,
+      });
+    },
+    [planMeta?.id],
+  );
+
+  // Audit one recipe against every planned slot, as the shown week was planned
+  const runAudit = useCallback(
+    async (id: string) => {
+      setAuditId(id);
+      const recipe = recipes.find((r) => r.id === id);
+      if (!prefs || !recipe) {
+        setAuditRows([]);
+        return;
+      }
+      setAuditLoading(true);
+      try {
+        const weekStart = planMeta?.start_date ?? startDate;
+        const lastServed = userId ? await fetchLastServed(userId, weekStart, prefs.rotation) : undefined;
+        const rows = mealSlots.map((slot): RecipeAuditRow => {
+          const base = createPlannerContext<Recipe>({
+            recipes,
+            ingredients: ings,
+            pantry,
+            prefs,
+            favorites,
+            seed: `audit|${slot}`,
+            count: dinnersPerWeek,
+            slot,
+            now: parseIsoDate(weekStart)?.getTime(),
+            lastServed,
+          });
+          const ctx = pantryOnly ? restrictToPantry(base).ctx : base;
+          const slotPicks = meals.filter((m) => m.slot === slot && m.leftover_of == null).map((m) => m.recipe);
+          const pickedScores = slotPicks.map((r) => computeStats(ctx, r).baseScore);
+          return {
+            slot,
+            local: auditRecipe(ctx, recipe, { picked: slotPicks.map((r) => r.id), pantryOnly }),
+            llm: llmAudit[slot]?.find((a) => a.id === id) ?? null,
+            lowestPicked: pickedScores.length ? Math.min(...pickedScores) : null,
+          };
+        });
+        setAuditRows(rows);
+      } finally {
+        setAuditLoading(false);
+      }
+    },
+    [
+      prefs,
+      userId,
+      planMeta?.start_date,
+      startDate,
+      recipes,
+      ings,
+      pantry,
+      favorites,
+      mealSlots,
+      dinnersPerWeek,
+      meals,
+      pantryOnly,
+      llmAudit,
+    ],
+  );
+
+  // Replace one cook meal (and its leftover nights) with the next-best candidate
+  const swapMeal = useCallback(
+    async (meal: PlannedMeal<Recipe>) => {
+      if (!prefs || !planMeta?.id || meal.locked || meal.leftover_of != null) return;
+
+      const weekStart = planMeta.start_date ?? toIsoDate(new Date(planMeta.generated_at));
+      const base = createPlannerContext<Recipe>({
+        recipes,
+        ingredients: ings,
+        pantry,
+        prefs,
+        favorites,
+        seed: `${planMeta.id}|${meal.slot}`,
+        count: 1,
+        slot: meal.slot,
+        now: parseIsoDate(planMeta.start_date)?.getTime(),
+        lastServed: userId ? await fetchLastServed(userId, weekStart, prefs.rotation) : undefined,
+      });
+      const restricted = pantryOnly ? restrictToPantry(base).ctx : base;
+      // Keep the night's time limit/theme when anything else meets it
+      const rule =
+        meal.slot === SCHEDULED_SLOT ? dayRuleFor(prefs.schedule, weekStart, meal.day) : null;
+      const fitting = rule
+        ? restricted.pool.filter((r) => r.id !== meal.recipe.id && recipeFitsDayRule(r, rule))
+        : [];
+      const ctx = fitting.length ? { ...restricted, pool: fitting } : restricted;
+      const slotWeek = meals
+        .filter((m) => m.slot === meal.slot && m.leftover_of == null)
+        .map((m) => m.recipe);
+
+      const next = nextBestRecipe(ctx, slotWeek, meal.recipe);
+      if (!next) {
+        alert(
+          pantryOnly
+            ? 'No other recipe fits this slot using only what’s in your pantry.'
+            : 'No other recipe fits this slot with your current preferences.',
+        );
+        return;
+      }
+
+      const reason = explainRecipe(ctx, next);
+
+      // The cook row, then any leftover nights that reheat it
+      for (const q of [
+        { match: { day: meal.day }, patch: { recipe_id: next.id, reason } },
+        { match: { leftover_of_day: meal.day }, patch: { recipe_id: next.id } },
+      ]) {
+        const { error } = await supabase
+          .from('user_meal_plan_recipes')
+          .update(q.patch)
+          .eq('plan_id', planMeta.id)
+          .eq('slot', meal.slot)
+          .match(q.match);
+
+        if (error) {
+          console.error('[PLAN] Swap meal failed:', error);
+          alert(`Swap failed: ${error.message}`);
+          return;
+        }
+      }
+
+      const updated = meals.map((m) => {
+        if (m.slot !== meal.slot) return m;
+        if (m.day === meal.day) return { ...m, recipe: next, reason };
+        if (m.leftover_of === meal.day) return { ...m, recipe: next };
+        return m;
+      });
+      setMeals(updated);
+      recomputeShopping(updated);
+
+      trackEvent('meal_swapped', {
+        plan_id: planMeta.id,
+        from_recipe_id: meal.recipe.id,
+        to_recipe_id: next.id,
+      });
+    },
+    [
+      prefs,
+      userId,
+      planMeta?.id,
+      planMeta?.start_date,
+      planMeta?.generated_at,
+      recipes,
+      ings,
+      pantry,
+      favorites,
+      meals,
+      recomputeShopping,
+      pantryOnly,
+    ],
+  );
+
  const updateServingsOnly = useCallback(async () => {
   if (!mealsN.length) return;
   if (!planMeta?.id) {
@@ -2321,7 +1750,7 @@ const { data: planRow, error: planErr } = await supabase
   }
 
   // 1) Recompute shopping immediately for UX
-  recomputeShopping(mealsN);
+  recomputeShopping(plannedN);
 
   // 2) Persist the new people_count onto the plan row (this fixes logout/login banner)
   const { data, error } = await supabase
@@ -2352,7 +1781,7 @@ const { data: planRow, error: planErr } = await supabase
     plan_id: planMeta.id,
     people_count: peopleCount,
   });
-}, [mealsN, recomputeShopping, peopleCount, planMeta?.id]);
+}, [mealsN, plannedN, recomputeShopping, peopleCount, planMeta?.id]);
 
   function csvEscape(v: unknown): string {
     const s = String(v ?? '');
@@ -2362,9 +1791,10 @@ const { data: planRow, error: planErr } = await supabase
 
   function downloadCSV() {
     // Include notes for substitutions + healthy hints
-    const header = 'name,qty,unit,notes';
+    const header = 'section,name,qty,unit,notes';
 
-    const lines = shopping.map((s) => {
+    const sections = groupByLayout(activeItems(shoppingSync.items), storeLayout);
+    const lines = sections.flatMap((g) => g.items.map((s) => {
       const disp = formatShoppingItem(s);
 
       const subNote = (s as unknown as { note?: string | null }).note ?? '';
@@ -2373,12 +1803,13 @@ const { data: planRow, error: planErr } = await supabase
       const notes = [subNote, healthHint].filter(Boolean).join(' | ');
 
       return [
+        csvEscape(sectionLabel(g)),
         csvEscape(disp.nameLabel ?? s.name),
-        csvEscape(disp.qtyLabel ?? s.qty),
+        csvEscape(`${approxMark(s)}${disp.qtyLabel ?? s.qty}`),
         csvEscape(disp.unitLabel ?? s.unit),
         csvEscape(notes),
       ].join(',');
-    });
+    }));
 
     const csv = [header, ...lines].join('\n');
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
@@ -2393,14 +1824,16 @@ const { data: planRow, error: planErr } = await supabase
   // (moved per hook-order lint: see below)
 
   function copyToClipboard() {
-    if (!shopping.length) {
+    const items = activeItems(shoppingSync.items);
+    if (!items.length) {
       alert('Shopping list is empty.');
       return;
     }
 
-    const lines = shopping.map((s) => {
+    const sections = groupByLayout(items, storeLayout);
+    const lines = sections.flatMap((g) => [`${sectionLabel(g)}:`, ...g.items.map((s) => {
       const disp = formatShoppingItem(s);
-      const qtyPart = disp.qtyLabel ? `${disp.qtyLabel} ` : '';
+      const qtyPart = disp.qtyLabel ? `${approxMark(s)}${disp.qtyLabel} ` : '';
       const unitPart = disp.unitLabel ? `${disp.unitLabel} ` : '';
 
       const baseLine = `• ${qtyPart}${unitPart}${disp.nameLabel}`.trim();
@@ -2414,9 +1847,9 @@ const { data: planRow, error: planErr } = await supabase
       // Notes lines are indented so they paste nicely into Apple Notes
       const noteLines = notes.map((n) => `  - ${n}`);
       return [baseLine, ...noteLines].join('\n');
-    });
+    }), '']);
 
-    const text = lines.join('\n');
+    const text = lines.join('\n').trim();
 
     if (navigator.clipboard && navigator.clipboard.writeText) {
       navigator.clipboard
@@ -2487,33 +1920,59 @@ const { data: planRow, error: planErr } = await supabase
   }
 }
 
-  const showHealthyBadge = !!prefs?.healthy_whole_food && !stale;
+  // Subscribe URL for calendar apps (always shows the latest plan)
+  async function copyCalendarLink() {
+  if (!userId) return;
+
+  const { data, error } = await supabase
+    .from('preferences')
+    .select('calendar_token')
+    .eq('user_id', userId)
+    .maybeSingle<{ calendar_token: string | null }>();
+
+  if (error || !data?.calendar_token) {
+    console.error('[PLAN] calendar token lookup failed:', error);
+    alert('Save your preferences once to enable the calendar feed.');
+    return;
+  }
 
-  const groupedShopping = useMemo(() => {
-  const itemsByCategory = new Map<
-    PantryCategory,
-    (typeof pricedShopping)[number][]
-  >();
-
-  for (const it of pricedShopping) {
-    const cat = (it.category ?? 'other') as PantryCategory;
-    const arr = itemsByCategory.get(cat) || [];
-    arr.push(it);
-    itemsByCategory.set(cat, arr);
+  const url = `${window.location.origin}/api/calendar/${data.calendar_token}.ics`;
+
+  if (navigator.clipboard?.writeText) {
+    await navigator.clipboard.writeText(url);
+    alert('Calendar link copied! Add it in your calendar app as a subscription (“From URL”).');
+    trackEvent('copy_calendar_link', { plan_id: planMeta?.id ?? null });
+  } else {
+    prompt('Copy this calendar link:', url);
   }
+}
+
+  const showHealthyBadge = !!prefs?.healthy_whole_food && !stale;
+
+  // Grouped by store section, in the order you walk the chosen store
+  const groupedShopping = useMemo(
+    () => groupByLayout(activeItems(pricedShopping), storeLayout),
+    [pricedShopping, storeLayout],
+  );
 
-  return CATEGORY_ORDER
-    .map((cat) => ({
-      category: cat,
-      items: itemsByCategory.get(cat) ?? [],
-    }))
-    .filter((g) => g.items.length > 0);
-}, [pricedShopping]);
+  const removedShopping = useMemo(() => pricedShopping.filter((it) => it.removed), [pricedShopping]);
+
+  function saveQtyEdit(item: TrackedShoppingItem) {
+    if (!editingQty || editingQty.key !== item.key) return;
+    const raw = editingQty.value.trim();
+    setEditingQty(null);
+    const n = Number(raw);
+    if (raw === '' || !Number.isFinite(n) || n < 0) {
+      if (item.qty_override != null) void shoppingSync.setItemState(item, { qty_override: null });
+      return;
+    }
+    if (n !== item.qty) void shoppingSync.setItemState(item, { qty_override: n === item.computedQty ? null : n });
+  }
 
   // For header colSpan in the table (3 base cols + optional)
   const shoppingColCount =
-    3 +
-    (enablePriceHints && storeId !== 'none' ? 1 : 0) +
+    4 +
+    (showPrices ? 1 : 0) +
     (shopPlatform !== 'none' ? 1 : 0);
 
     useEffect(() => {
@@ -2621,7 +2080,9 @@ const allergyHits: string[] = (() => {
   const hasNutrition =
     !!openRecipe &&
     (typeof openRecipe.calories === 'number' ||
-      typeof openRecipe.protein_g === 'number');  
+      typeof openRecipe.protein_g === 'number' ||
+      typeof openRecipe.fiber_g === 'number' ||
+      typeof openRecipe.sodium_mg === 'number');
 
   return (
     <div className="max-w-3xl mx-auto">
@@ -2631,7 +2092,7 @@ const allergyHits: string[] = (() => {
           {/* LEFT: title only */}
           <div className="w-full md:flex-1 md:min-w-0">
             <h1 className="text-2xl font-semibold text-gray-900 dark:text-gray-100">
-              Your {mealsN.length}-Dinner Plan
+              Your {mealsN.length}-{planIsDinnerOnly ? 'Dinner' : 'Meal'} Plan
             </h1>
           </div>
 
@@ -2686,20 +2147,74 @@ const allergyHits: string[] = (() => {
       Generated on {generatedLabel}
     </p>
 
-    <button
-      onClick={copyShareLink}
-      disabled={!planMeta}
-      className={`w-full rounded px-4 py-2 border border-gray-300 dark:border-gray-700 text-sm
-      text-gray-900 dark:text-gray-100 hover:bg-gray-50 md:w-auto dark:hover:bg-neutral-800
-      ${!planMeta ? 'opacity-50 cursor-not-allowed' : ''}`}
-    >
-      Copy share link
-    </button>
+    <div className="flex flex-col gap-2 md:flex-row">
+      <Link
+        href="/plan/history"
+        className="w-full rounded px-4 py-2 border border-gray-300 dark:border-gray-700 text-sm text-center
+        text-gray-900 dark:text-gray-100 hover:bg-gray-50 md:w-auto dark:hover:bg-neutral-800"
+      >
+        Past plans
+      </Link>
+      <button
+        onClick={() => setAuditOpen(true)}
+        className="w-full rounded px-4 py-2 border border-gray-300 dark:border-gray-700 text-sm
+        text-gray-900 dark:text-gray-100 hover:bg-gray-50 md:w-auto dark:hover:bg-neutral-800"
+      >
+        Why not this recipe?
+      </button>
+      <button
+        onClick={copyCalendarLink}
+        disabled={!planMeta}
+        className={`w-full rounded px-4 py-2 border border-gray-300 dark:border-gray-700 text-sm
+        text-gray-900 dark:text-gray-100 hover:bg-gray-50 md:w-auto dark:hover:bg-neutral-800
+        ${!planMeta ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        Copy calendar link
+      </button>
+      <button
+        onClick={copyShareLink}
+        disabled={!planMeta}
+        className={`w-full rounded px-4 py-2 border border-gray-300 dark:border-gray-700 text-sm
+        text-gray-900 dark:text-gray-100 hover:bg-gray-50 md:w-auto dark:hover:bg-neutral-800
+        ${!planMeta ? 'opacity-50 cursor-not-allowed' : ''}`}
+      >
+        Copy share link
+      </button>
+    </div>
   </div>
 )}
 
         {/* Row 3: shop with / price store / disclaimer */}
         <div className="mt-3 flex flex-wrap items-center gap-4 text-sm">
+          {/* First day of the next generated plan */}
+          <div className="flex items-center gap-2">
+            <label htmlFor="plan-start-date" className="text-gray-700 dark:text-gray-300">
+              Week starts
+            </label>
+            <input
+              id="plan-start-date"
+              type="date"
+              className="rounded border px-2 py-1 border-gray-300 dark:border-gray-700 bg-white dark:bg-neutral-900 text-gray-900 dark:text-gray-100"
+              value={startDate}
+              onChange={(e) => {
+                if (parseIsoDate(e.target.value)) setStartDate(e.target.value);
+              }}
+            />
+          </div>
+
+          {/* Only recipes the pantry fully covers (may plan fewer meals) */}
+          <label
+            className="flex items-center gap-2 text-gray-700 dark:text-gray-300"
+            title="Only recipes you can cook with what's in your pantry (staples and substitutions count). May plan fewer meals."
+          >
+            <input
+              type="checkbox"
+              checked={pantryOnly}
+              onChange={(e) => setPantryOnly(e.target.checked)}
+            />
+            No shopping trip
+          </label>
+
           {/* Preferred grocery platform */}
           <div className="flex items-center gap-2">
             <label className="text-gray-700 dark:text-gray-300">Shop with</label>
@@ -2720,7 +2235,7 @@ const allergyHits: string[] = (() => {
           </div>
 
           {/* Price hints store selector */}
-          {enablePriceHints && (
+          {(enablePriceHints || !!prefs?.budget) && (
             <div className="flex items-center gap-2">
               <label className="text-gray-700 dark:text-gray-300">
                 Price store
@@ -2758,10 +2273,66 @@ const allergyHits: string[] = (() => {
          This is an older plan. Regenerate once to enable servings-only updates.
           </div>
          )}
+        {llmLimitedMins != null && (
+          <div className="mt-3 rounded-md border border-blue-200 bg-blue-50 text-blue-900 px-3 py-2 text-sm dark:border-blue-400/40 dark:bg-blue-950 dark:text-blue-100">
+            You&apos;ve reached the AI planning limit for now, so we used the quick planner instead.
+            <span className="ml-1">AI planning is available again in about {llmLimitedMins} min.</span>
+          </div>
+        )}
+        {pantryOnlyNote && (
+          <div className="mt-3 rounded-md border border-blue-200 bg-blue-50 text-blue-900 px-3 py-2 text-sm dark:border-blue-400/40 dark:bg-blue-950 dark:text-blue-100">
+            {pantryOnlyNote.planned === 0
+              ? 'Nothing in the recipe list can be cooked with just your pantry yet.'
+              : pantryOnlyNote.planned < pantryOnlyNote.wanted
+                ? `Your pantry covers ${pantryOnlyNote.planned} of ${pantryOnlyNote.wanted} meals, so this week is shorter.`
+                : 'Every meal this week comes from what you already have.'}
+            {pantryOnlyNote.unlock && (
+              <span className="ml-1">
+                Buying <span className="font-medium">{properCaseName(pantryOnlyNote.unlock.ingredient)}</span> would
+                unlock {pantryOnlyNote.unlock.recipes.length} more{' '}
+                {pantryOnlyNote.unlock.recipes.length === 1 ? 'recipe' : 'recipes'} (
+                {pantryOnlyNote.unlock.recipes
+                  .slice(0, 3)
+                  .map((r) => r.title)
+                  .join(', ')}
+                {pantryOnlyNote.unlock.recipes.length > 3 ? ', …' : ''}).
+              </span>
+            )}
+          </div>
+        )}
+        {dayMisses.length > 0 && (
+          <div className="mt-3 rounded-md border border-amber-300 bg-amber-50 text-amber-900 px-3 py-2 text-sm dark:border-amber-400 dark:bg-amber-950 dark:text-amber-100">
+            <div>
+              {dayMisses.length === 1
+                ? "One night doesn't match your weekly schedule:"
+                : `${dayMisses.length} nights don't match your weekly schedule:`}
+            </div>
+            <ul className="mt-1 list-disc pl-5">
+              {dayMisses.map((x) => (
+                <li key={x.day}>
+                  <span className="font-medium">{formatPlanDay(planMeta?.start_date, x.day)}</span>
+                  {' — '}
+                  {[
+                    x.offTheme ? `no “${x.rule.theme}” recipe fits` : '',
+                    x.overTime && x.recipe
+                      ? `${x.recipe.title} takes ${x.recipe.time_min} min (limit ${x.rule.max_prep_minutes})`
+                      : '',
+                  ]
+                    .filter(Boolean)
+                    .join('; ')}
+                  {x.offTheme && x.recipe && !x.overTime ? ` (${x.recipe.title} instead)` : ''}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         {/* Servings-only change (recipes still valid) */}
         {!stale && !legacyPlanMissingSnapshots && onlyPeopleChangedSincePlan && (
         <div className="mt-3 rounded-md border border-blue-200 bg-blue-50 text-blue-900 px-3 py-2 text-sm dark:border-blue-400/40 dark:bg-blue-950 dark:text-blue-100">
-        Your servings preference changed to {peopleCount}. Click{' '}
+        {prefs?.portions != null
+          ? `Your household now eats ${peopleCount} portions per meal.`
+          : `Your servings preference changed to ${peopleCount}.`}{' '}
+        Click{' '}
         <span className="font-medium">Update servings</span> to scale the shopping list.
         </div>
        )}
@@ -2774,22 +2345,46 @@ const allergyHits: string[] = (() => {
             Meals
           </h2>
           <div className="grid md:grid-cols-2 gap-4">
-            {mealsN.map((m, idx) => (
+            {plannedN.map((meal) => {
+              const { day, slot, recipe: m, leftover_of, locked, reason } = meal;
+              return (
            <div
-            key={`${m.id}-${idx}`}
-                className="border rounded p-3 border-gray-200 dark:border-gray-800 bg-white dark:bg-neutral-900"
+            key={`${day}-${slot}-${m.id}`}
+                className={`border rounded p-3 border-gray-200 dark:border-gray-800 ${
+                  leftover_of != null
+                    ? 'bg-gray-50 dark:bg-neutral-900/60'
+                    : 'bg-white dark:bg-neutral-900'
+                }`}
               >
                 <div className="flex items-start justify-between">
                   <div>
+                    <div className="text-xs uppercase tracking-wide text-gray-500 dark:text-gray-400">
+                      {formatPlanDay(planMeta?.start_date, day)} · {MEAL_SLOT_LABEL[slot]}
+                      {locked ? ' · Locked' : ''}
+                      {flaggedNutritionDays.has(day) && (
+                        <span className="ml-1 normal-case tracking-normal text-amber-700 dark:text-amber-300">
+                          · off nutrition target
+                        </span>
+                      )}
+                    </div>
                     <div className="font-medium">{m.title}</div>
                     <div className="text-sm text-gray-600 dark:text-gray-400">
-                      {m.time_min} min
+                      {leftover_of != null
+                        ? `Leftovers from ${formatPlanDay(planMeta?.start_date, leftover_of)} · just reheat`
+                        : `${m.time_min} min`}
                     </div>
+                    {leftover_of == null && reason && (
+                      <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                        Why: {reason}
+                      </div>
+                    )}
                   </div>
                   <FavoriteButton recipe={{ id: m.id, title: m.title }} />
                 </div>
 
-                <p className="text-sm mt-2 line-clamp-3">{m.instructions}</p>
+                {leftover_of == null && (
+                  <p className="text-sm mt-2 line-clamp-3">{m.instructions}</p>
+                )}
                 <div className="mt-3 flex gap-2">
                   <button
                     onClick={() => setOpenId(m.id)}
@@ -2797,11 +2392,40 @@ const allergyHits: string[] = (() => {
                   >
                     View Recipe
                   </button>
+                  {leftover_of == null && (
+                    <>
+                      <button
+                        onClick={() => toggleLock(meal)}
+                        aria-pressed={!!locked}
+                        title={locked ? 'Unlock: let "Generate plan" replace this meal' : 'Keep this meal when regenerating'}
+                        className={`rounded border px-3 py-1 border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-neutral-800 ${
+                          locked ? 'bg-gray-100 dark:bg-neutral-800 font-medium' : ''
+                        }`}
+                      >
+                        {locked ? 'Unlock' : 'Lock'}
+                      </button>
+                      <button
+                        onClick={() => swapMeal(meal)}
+                        disabled={!!locked}
+                        title={locked ? 'Unlock to swap' : 'Swap for the next-best recipe'}
+                        className="rounded border px-3 py-1 border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-neutral-800 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        Swap
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
-            ))}
+              );
+            })}
           </div>
 
+          {nutritionSummary && (
+            <NutritionSummary summary={nutritionSummary} startDate={planMeta?.start_date ?? null} />
+          )}
+
+          {scorecard && <PlanScorecard scorecard={scorecard} planner={planMetadata?.planner ?? null} />}
+
           <h2 className="text-xl font-semibold mt-6 mb-2 text-gray-900 dark:text-gray-100">
             Shopping List
           </h2>
@@ -2809,6 +2433,9 @@ const allergyHits: string[] = (() => {
             <table className="w-full text-sm border border-gray-200 dark:border-gray-800">
               <thead className="bg-gray-100 dark:bg-neutral-800">
                 <tr className="border-b border-gray-200 dark:border-gray-700">
+                  <th className="p-2 w-8">
+                    <span className="sr-only">Got it</span>
+                  </th>
                   <th className="p-2 text-xs font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-100 text-left">
                     Item
                   </th>
@@ -2818,7 +2445,7 @@ const allergyHits: string[] = (() => {
                   <th className="p-2 text-xs font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-100 text-left">
                     Unit
                   </th>
-                  {enablePriceHints && storeId !== 'none' && (
+                  {showPrices && (
                     <th className="p-2 text-xs font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-100 text-right">
                       Est. Price
                     </th>
@@ -2839,13 +2466,18 @@ const allergyHits: string[] = (() => {
                         className="p-2 text-xs font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-100"
                         colSpan={shoppingColCount}
                       >
-                        {prettyCategoryLabel(group.category)}
+                        {sectionLabel(group)}
                       </td>
                     </tr>
 
                     {/* Items in this category */}
                     {group.items.map((s, idx) => {
-                      const disp = formatShoppingItem(s);
+                      // An edited quantity is shown as typed, without the bunch/bag display rounding
+                      const disp =
+                        s.qty_override != null
+                          ? { ...formatShoppingItem(s), qtyLabel: String(s.qty), unitLabel: s.unit }
+                          : formatShoppingItem(s);
+                      const editing = editingQty?.key === s.key;
                       const shopUrl =
                         shopPlatform === 'instacart'
                           ? buildInstacartUrl(s.name)
@@ -2858,11 +2490,31 @@ const allergyHits: string[] = (() => {
 
                       return (
                         <tr
-                          key={`${group.category}-${s.name}-${idx}`}
-                          className="border-t border-gray-200 dark:border-gray-800"
+                          key={`${group.category}-${s.key}-${idx}`}
+                          className={`border-t border-gray-200 dark:border-gray-800 ${
+                            s.checked ? 'text-gray-400 dark:text-gray-500' : ''
+                          }`}
                         >
                           <td className="p-2 align-top">
-                            <div>{disp.nameLabel}</div>
+                            <input
+                              type="checkbox"
+                              checked={s.checked}
+                              onChange={(e) => void shoppingSync.setItemState(s, { checked: e.target.checked })}
+                              aria-label={`Got ${disp.nameLabel}`}
+                            />
+                          </td>
+                          <td className="p-2 align-top">
+                            <div className="flex items-start justify-between gap-2">
+                              <span className={s.checked ? 'line-through' : ''}>{disp.nameLabel}</span>
+                              <button
+                                onClick={() => void shoppingSync.setItemState(s, { removed: true })}
+                                className="text-xs text-gray-400 hover:text-red-600"
+                                title="Remove from the list"
+                                aria-label={`Remove ${disp.nameLabel}`}
+                              >
+                                ✕
+                              </button>
+                            </div>
 
                             {/* Pantry substitution note (shown when we kept the original in the list) */}
                             {(s as unknown as { note?: string | null }).note ? (
@@ -2877,14 +2529,56 @@ const allergyHits: string[] = (() => {
                               </div>
                             )}
                           </td>
-                          <td className="p-2">{disp.qtyLabel}</td>
+                          <td className="p-2">
+                            {editing ? (
+                              <input
+                                type="number"
+                                min={0}
+                                step="any"
+                                autoFocus
+                                className="w-20 rounded border px-1 py-0.5 border-gray-300 dark:border-gray-700 bg-white dark:bg-neutral-900"
+                                value={editingQty.value}
+                                onChange={(e) => setEditingQty({ key: s.key, value: e.target.value })}
+                                onBlur={() => saveQtyEdit(s)}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') saveQtyEdit(s);
+                                  if (e.key === 'Escape') setEditingQty(null);
+                                }}
+                              />
+                            ) : (
+                              <button
+                                onClick={() => setEditingQty({ key: s.key, value: String(s.qty) })}
+                                className="underline decoration-dotted underline-offset-2"
+                                title={approxMark(s) ? 'Estimated from cups ↔ weight. Edit quantity' : 'Edit quantity'}
+                              >
+                                {approxMark(s)}
+                                {disp.qtyLabel}
+                              </button>
+                            )}
+                            {s.qty_override != null && !editing && (
+                              <button
+                                onClick={() => void shoppingSync.setItemState(s, { qty_override: null })}
+                                className="ml-1 text-xs text-gray-500 hover:underline dark:text-gray-400"
+                                title={`Back to ${Math.round(s.computedQty * 100) / 100} ${s.unit}`}
+                              >
+                                (edited)
+                              </button>
+                            )}
+                          </td>
                           <td className="p-2">{disp.unitLabel}</td>
 
-                          {enablePriceHints && storeId !== 'none' && (
+                          {showPrices && (
                             <td className="p-2 text-right">
-                              {s.estPrice != null
-                                ? `$${s.estPrice.toFixed(2)}`
-                                : '—'}
+                              {s.estPrice != null ? (
+                                `$${s.estPrice.toFixed(2)}`
+                              ) : (
+                                <span
+                                  className="text-xs text-amber-700 dark:text-amber-300"
+                                  title="Not in the price book for this store; not counted in the total"
+                                >
+                                  no price
+                                </span>
+                              )}
                             </td>
                           )}
 
@@ -2929,13 +2623,123 @@ const allergyHits: string[] = (() => {
             </table>
           </div>
 
-          {enablePriceHints && storeId !== 'none' && (
+          {/* Extras: free text, merged into the list above by name */}
+          <div className="mt-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                className="w-56 rounded border px-2 py-1 border-gray-300 dark:border-gray-700 bg-white dark:bg-neutral-900 text-gray-900 dark:text-gray-100"
+                placeholder="Add an item, e.g. 2 lb apples"
+                maxLength={MAX_EXTRA_LENGTH}
+                value={extraText}
+                onChange={(e) => setExtraText(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') void addExtra();
+                }}
+              />
+              <label className="flex items-center gap-1 text-xs text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={extraRecurring}
+                  onChange={(e) => setExtraRecurring(e.target.checked)}
+                />
+                every week
+              </label>
+              <button
+                onClick={() => void addExtra()}
+                disabled={!extraText.trim()}
+                className="rounded border px-3 py-1 text-xs border-gray-300 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-neutral-800 disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+            {extras.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-1.5">
+                {extras.map((x) => (
+                  <span
+                    key={x.id}
+                    className="inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs border-gray-300 dark:border-gray-700"
+                  >
+                    {x.text}
+                    {x.recurring && <span className="text-gray-500 dark:text-gray-400">· weekly</span>}
+                    <button
+                      onClick={() => void removeExtra(x.id)}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label={`Remove ${x.text}`}
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {removedShopping.length > 0 && (
+            <p className="mt-2 text-xs text-gray-600 dark:text-gray-400">
+              Removed:{' '}
+              {removedShopping.map((s, i) => (
+                <span key={s.key}>
+                  {i > 0 && ', '}
+                  {formatShoppingItem(s).nameLabel}{' '}
+                  <button
+                    onClick={() => void shoppingSync.setItemState(s, { removed: false })}
+                    className="text-indigo-600 hover:underline"
+                  >
+                    restore
+                  </button>
+                </span>
+              ))}
+            </p>
+          )}
+          {shoppingSync.failed && (
+            <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              Checks and edits aren’t being saved right now; they’ll reset when you leave the page.
+            </p>
+          )}
+
+          {showPrices && !budgetSummary && (
             <p className="mt-2 text-sm text-gray-700 dark:text-gray-300">
               Estimated total (for items with example prices):{' '}
               <span className="font-medium">${estTotal.toFixed(2)}</span>
             </p>
           )}
 
+          {/* Weekly budget report */}
+          {budgetSummary && prefs?.budget && (
+            <div
+              className={`mt-3 rounded-md border px-3 py-2 text-sm ${
+                budgetSummary.total > prefs.budget.amount
+                  ? 'border-amber-300 bg-amber-50 text-amber-900 dark:border-amber-400 dark:bg-amber-950 dark:text-amber-100'
+                  : 'border-gray-200 bg-gray-50 text-gray-800 dark:border-gray-700 dark:bg-neutral-800 dark:text-gray-100'
+              }`}
+            >
+              <div>
+                Estimated{' '}
+                <span className="font-medium">${budgetSummary.total.toFixed(2)}</span> of your $
+                {prefs.budget.amount.toFixed(2)} budget at {storeLabel(storeId)}
+                {budgetSummary.total > prefs.budget.amount ? ' — over budget.' : '.'}
+              </div>
+              {budgetSummary.priced.length > 0 && (
+                <div className="mt-1 text-xs">
+                  Most expensive:{' '}
+                  {budgetSummary.priced
+                    .slice(0, 3)
+                    .map((p) => `${properCaseName(p.name)} $${p.cost.toFixed(2)}`)
+                    .join(' · ')}
+                </div>
+              )}
+              {budgetSummary.unpriced.length > 0 && (
+                <div className="mt-1 text-xs font-medium text-amber-800 dark:text-amber-200">
+                  ⚠ {budgetSummary.unpriced.length} item
+                  {budgetSummary.unpriced.length === 1 ? ' has' : 's have'} no price and{' '}
+                  {budgetSummary.unpriced.length === 1 ? "isn't" : "aren't"} counted:{' '}
+                  {budgetSummary.unpriced.map(properCaseName).join(', ')}
+                </div>
+              )}
+              {budgetNote && <div className="mt-1 text-xs">{budgetNote}</div>}
+            </div>
+          )}
+
           <div className="mt-3 flex flex-wrap gap-2">
             <button
               onClick={downloadCSV}
@@ -2953,6 +2757,30 @@ const allergyHits: string[] = (() => {
         </div>
       )}
 
+      {/* Why not this recipe? */}
+      <Modal open={auditOpen} onClose={() => setAuditOpen(false)} title="Why not this recipe?">
+        <select
+          className="mb-3 w-full rounded border px-3 py-2 border-gray-300 dark:border-gray-700 bg-white dark:bg-neutral-900 text-sm text-gray-900 dark:text-gray-100"
+          value={auditId}
+          onChange={(e) => void runAudit(e.target.value)}
+        >
+          <option value="">Pick a recipe…</option>
+          {recipes
+            .slice()
+            .sort(
+              (a, b) =>
+                Number(favorites.has(b.id)) - Number(favorites.has(a.id)) || a.title.localeCompare(b.title),
+            )
+            .map((r) => (
+              <option key={r.id} value={r.id}>
+                {favorites.has(r.id) ? '★ ' : ''}
+                {r.title}
+              </option>
+            ))}
+        </select>
+        {auditId && <RecipeAuditPanel rows={auditRows} loading={auditLoading} />}
+      </Modal>
+
       {/* Modal */}
       <Modal
       open={!!openId}
@@ -3036,6 +2864,12 @@ const allergyHits: string[] = (() => {
                   {typeof openRecipe.protein_g === 'number' && (
                     <li>{openRecipe.protein_g} g protein</li>
                   )}
+                  {typeof openRecipe.fiber_g === 'number' && (
+                    <li>{openRecipe.fiber_g} g fiber</li>
+                  )}
+                  {typeof openRecipe.sodium_mg === 'number' && (
+                    <li>{Math.round(openRecipe.sodium_mg)} mg sodium</li>
+                  )}
                 </ul>
               ) : (
                 <p className="text-sm text-gray-600 dark:text-gray-400">
@@ -1,10 +1,42 @@
 // src/app/preferences/page.tsx
 'use client';
-import { useEffect, useState } from 'react';
+import { Fragment, useEffect, useState } from 'react';
 import Link from 'next/link';
 import { supabase } from '@/lib/supabase';
 import { useRequireAuth } from '@/hooks/useRequireAuth';
 import { getDevUserId } from '@/lib/user';
+import { MEAL_SLOTS, MEAL_SLOT_LABEL, normalizeMealSlots } from '@/lib/planner/slots';
+import type { MealSlot } from '@/lib/planner/types';
+import { DEFAULT_NUTRITION_TOLERANCE_PCT } from '@/lib/planner/nutrition';
+import { DEFAULT_ROTATION, MAX_COOLDOWN_WEEKS, rotationFromRow } from '@/lib/planner/rotation';
+import {
+  DAY_TIME_LIMITS,
+  WEEKDAY_LABELS,
+  emptySchedule,
+  scheduleFromRow,
+  scheduleToRow,
+  type DayRule,
+  type WeekSchedule,
+} from '@/lib/planner/schedule';
+import {
+  DEFAULT_MEMBER_PORTION,
+  MEMBER_PORTIONS,
+  householdPortions,
+  memberFromRow,
+  type HouseholdMember,
+} from '@/lib/planner/household';
+import { STORES, isStoreId, type StoreId } from '@/lib/pricing';
+import { normalizeIngredientName, type UserSubRule } from '@/lib/shopping';
+import { prettyCategoryLabel, type PantryCategory } from '@/lib/pantryCategorizer';
+import {
+  ALL_CATEGORIES,
+  layoutForStore,
+  storeLayoutsFromRow,
+  storeLayoutsToRow,
+  type StoreLayout,
+  type StoreLayouts,
+} from '@/lib/storeLayout';
+import { MAX_SUB_RULES, cleanSubRule, subRulesFromRow } from '@/lib/subRules';
 
 type Prefs = {
   user_id?: string;
@@ -21,14 +53,46 @@ type Prefs = {
   healthy_carb_pref: 'more_whole_grains' | 'lower_carb' | 'no_preference' | '';
   dinners_per_week: number; // 3–7
   people_count: number;     // 1–6
+  meal_slots: MealSlot[];   // which meals to plan each day
+  leftovers_mode: boolean;  // cook once, eat twice
+  // Nutrition targets, per person (null = no target)
+  nutrition_period: 'day' | 'week';
+  target_calories: number | null;
+  target_protein_g: number | null;
+  target_fiber_g: number | null;
+  target_sodium_mg: number | null;
+  nutrition_tolerance_pct: number;
+  // Weekly spend cap (null = none), priced at one store
+  weekly_budget: number | null;
+  budget_store_id: StoreId;
+  // Weeks before a served recipe can come back (favorites: the shorter one)
+  rotation_cooldown_weeks: number;
+  favorite_cooldown_weeks: number;
+  // Per-weekday dinner time limit + theme (0 = Sunday)
+  weekday_schedule: WeekSchedule;
+  // Aisle order per store (only edited stores)
+  store_layouts: StoreLayouts;
+  // Household swaps, e.g. oat milk for milk
+  sub_rules: UserSubRule[];
 };
 
+type TargetField = 'target_calories' | 'target_protein_g' | 'target_fiber_g' | 'target_sodium_mg';
+
+const TARGET_FIELDS: { field: TargetField; label: string; unit: string; hint: string }[] = [
+  { field: 'target_calories', label: 'Calories', unit: 'kcal', hint: 'about' },
+  { field: 'target_protein_g', label: 'Protein', unit: 'g', hint: 'at least' },
+  { field: 'target_fiber_g', label: 'Fiber', unit: 'g', hint: 'at least' },
+  { field: 'target_sodium_mg', label: 'Sodium', unit: 'mg', hint: 'at most' },
+];
+
 type HealthySurvey = {
   goal: 'feel_better' | 'weight' | 'metabolic' | '';
   proteinPreference: 'mixed' | 'lean_animal' | 'plant_forward' | '';
   carbBias: 'more_whole_grains' | 'lower_carb' | 'no_preference' | '';
 };
 
+const COOLDOWN_OPTIONS = Array.from({ length: MAX_COOLDOWN_WEEKS + 1 }, (_, i) => i);
+
 const DIETS = ['none', 'vegetarian', 'vegan', 'gluten_free', 'halal', 'kosher'] as const;
 
 // Research-backed toggles:
@@ -76,8 +140,35 @@ export default function PreferencesPage() {
     healthy_carb_pref: '',
     dinners_per_week: 7,
     people_count: 2,
+    meal_slots: ['dinner'],
+    leftovers_mode: false,
+    nutrition_period: 'day',
+    target_calories: null,
+    target_protein_g: null,
+    target_fiber_g: null,
+    target_sodium_mg: null,
+    nutrition_tolerance_pct: DEFAULT_NUTRITION_TOLERANCE_PCT,
+    weekly_budget: null,
+    budget_store_id: 'none',
+    rotation_cooldown_weeks: DEFAULT_ROTATION.cooldown_weeks,
+    favorite_cooldown_weeks: DEFAULT_ROTATION.favorite_cooldown_weeks,
+    weekday_schedule: emptySchedule(),
+    store_layouts: {},
+    sub_rules: [],
   });
 
+  // Named household members; empty = plan for `people_count` with the prefs above
+  const [members, setMembers] = useState<HouseholdMember[]>([]);
+  // Store layout being edited, and the item-override row being typed
+  const [layoutStore, setLayoutStore] = useState<StoreId>('none');
+  const [newOverride, setNewOverride] = useState<{ name: string; category: PantryCategory }>({
+    name: '',
+    category: 'produce',
+  });
+  // Swap rule being typed
+  const [newSwap, setNewSwap] = useState({ from: '', to: '' });
+  const [savedMemberIds, setSavedMemberIds] = useState<string[]>([]);
+
   const [loading, setLoading] = useState(true);
   const [saved, setSaved] = useState(false);
 
@@ -101,11 +192,17 @@ export default function PreferencesPage() {
   useEffect(() => {
     (async () => {
       const userId = await resolveUserId();
-      const { data } = await supabase
-        .from('preferences')
-        .select('*')
-        .eq('user_id', userId)
-        .maybeSingle();
+      const [{ data }, { data: memberRows }] = await Promise.all([
+        supabase.from('preferences').select('*').eq('user_id', userId).maybeSingle(),
+        supabase
+          .from('household_members')
+          .select('id, name, diet, allergies, dislikes, kid_friendly, portion')
+          .eq('user_id', userId)
+          .order('position', { ascending: true }),
+      ]);
+      const loadedMembers = (memberRows ?? []).map(memberFromRow);
+      setMembers(loadedMembers);
+      setSavedMemberIds(loadedMembers.map((m) => m.id));
 
       if (data) {
         setPrefs({
@@ -124,6 +221,22 @@ export default function PreferencesPage() {
             (data.healthy_carb_pref as Prefs['healthy_carb_pref']) ?? '',
           dinners_per_week: data.dinners_per_week ?? 7,
           people_count: data.people_count ?? 2,
+          meal_slots: normalizeMealSlots(data.meal_slots),
+          leftovers_mode: data.leftovers_mode ?? false,
+          nutrition_period: data.nutrition_period === 'week' ? 'week' : 'day',
+          target_calories: data.target_calories ?? null,
+          target_protein_g: data.target_protein_g ?? null,
+          target_fiber_g: data.target_fiber_g ?? null,
+          target_sodium_mg: data.target_sodium_mg ?? null,
+          nutrition_tolerance_pct:
+            data.nutrition_tolerance_pct ?? DEFAULT_NUTRITION_TOLERANCE_PCT,
+          weekly_budget: data.weekly_budget != null ? Number(data.weekly_budget) : null,
+          budget_store_id: isStoreId(data.budget_store_id) ? data.budget_store_id : 'none',
+          rotation_cooldown_weeks: rotationFromRow(data).cooldown_weeks,
+          favorite_cooldown_weeks: rotationFromRow(data).favorite_cooldown_weeks,
+          weekday_schedule: scheduleFromRow(data.weekday_schedule),
+          store_layouts: storeLayoutsFromRow(data.store_layouts),
+          sub_rules: subRulesFromRow(data.sub_rules),
         });
       }
 
@@ -159,6 +272,15 @@ export default function PreferencesPage() {
     })();
   }, []);
 
+  // Toggle a meal slot (at least one must stay on)
+  function toggleSlot(slot: MealSlot) {
+    const cur = new Set(prefs.meal_slots);
+    if (cur.has(slot)) cur.delete(slot);
+    else cur.add(slot);
+    if (!cur.size) return;
+    setPrefs({ ...prefs, meal_slots: normalizeMealSlots(Array.from(cur)) });
+  }
+
   // Toggle allergy/dislike chips
   function editList(field: 'allergies' | 'dislikes', value: string) {
     const cur = new Set(prefs[field]);
@@ -167,6 +289,116 @@ export default function PreferencesPage() {
     setPrefs({ ...prefs, [field]: Array.from(cur) });
   }
 
+  function updateDayRule(weekday: number, patch: Partial<DayRule>) {
+    setPrefs((p) => ({
+      ...p,
+      weekday_schedule: p.weekday_schedule.map((r, i) => (i === weekday ? { ...r, ...patch } : r)),
+    }));
+  }
+
+  function updateLayout(store: StoreId, fn: (l: StoreLayout) => StoreLayout) {
+    setPrefs((p) => ({
+      ...p,
+      store_layouts: { ...p.store_layouts, [store]: fn(layoutForStore(p.store_layouts, store)) },
+    }));
+  }
+
+  function moveSection(store: StoreId, cat: PantryCategory, dir: -1 | 1) {
+    updateLayout(store, (l) => {
+      const order = l.order.slice();
+      const i = order.indexOf(cat);
+      const j = i + dir;
+      if (i < 0 || j < 0 || j >= order.length) return l;
+      [order[i], order[j]] = [order[j], order[i]];
+      return { ...l, order };
+    });
+  }
+
+  function addItemOverride(store: StoreId) {
+    const name = normalizeIngredientName(newOverride.name);
+    if (!name) return;
+    updateLayout(store, (l) => ({ ...l, items: { ...l.items, [name]: newOverride.category } }));
+    setNewOverride((o) => ({ ...o, name: '' }));
+  }
+
+  function resetLayout(store: StoreId) {
+    setPrefs((p) => {
+      const rest = { ...p.store_layouts };
+      delete rest[store];
+      return { ...p, store_layouts: rest };
+    });
+  }
+
+  function addSwap() {
+    const rule = cleanSubRule(newSwap.from, newSwap.to);
+    if (!rule) return;
+    setPrefs((p) => ({
+      ...p,
+      // One swap per ingredient; re-adding replaces it
+      sub_rules: [...p.sub_rules.filter((r) => r.from !== rule.from), rule].slice(-MAX_SUB_RULES),
+    }));
+    setNewSwap({ from: '', to: '' });
+  }
+
+  function addMember() {
+    setMembers((ms) => [
+      ...ms,
+      {
+        id: crypto.randomUUID(),
+        name: '',
+        diet: 'none',
+        allergies: [],
+        dislikes: [],
+        kid_friendly: false,
+        portion: DEFAULT_MEMBER_PORTION,
+      },
+    ]);
+  }
+
+  function updateMember(id: string, patch: Partial<HouseholdMember>) {
+    setMembers((ms) => ms.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+  }
+
+  function toggleMemberList(id: string, field: 'allergies' | 'dislikes', value: string) {
+    setMembers((ms) =>
+      ms.map((m) => {
+        if (m.id !== id) return m;
+        const cur = new Set(m[field]);
+        if (cur.has(value)) cur.delete(value);
+        else cur.add(value);
+        return { ...m, [field]: Array.from(cur) };
+      }),
+    );
+  }
+
+  // Upsert current members, delete the ones removed since load
+  async function saveMembers(userId: string) {
+    const rows = members.map((m, i) => ({
+      id: m.id,
+      user_id: userId,
+      name: m.name.trim() || `Member ${i + 1}`,
+      diet: m.diet,
+      allergies: m.allergies,
+      dislikes: m.dislikes,
+      kid_friendly: m.kid_friendly,
+      portion: m.portion,
+      position: i,
+    }));
+    const keep = new Set(rows.map((r) => r.id));
+    const removed = savedMemberIds.filter((id) => !keep.has(id));
+
+    if (removed.length) {
+      const { error } = await supabase.from('household_members').delete().in('id', removed);
+      if (error) return error;
+    }
+    if (rows.length) {
+      const { error } = await supabase.from('household_members').upsert(rows, { onConflict: 'id' });
+      if (error) return error;
+    }
+    setSavedMemberIds(rows.map((r) => r.id));
+    return null;
+  }
+
   // Save or update preferences (now includes micro-survey fields)
   async function save() {
     setSaved(false);
@@ -186,14 +418,30 @@ export default function PreferencesPage() {
       healthy_carb_pref: prefs.healthy_carb_pref || null,
       dinners_per_week: prefs.dinners_per_week,
       people_count: prefs.people_count,
+      meal_slots: normalizeMealSlots(prefs.meal_slots),
+      leftovers_mode: prefs.leftovers_mode,
+      nutrition_period: prefs.nutrition_period,
+      target_calories: prefs.target_calories,
+      target_protein_g: prefs.target_protein_g,
+      target_fiber_g: prefs.target_fiber_g,
+      target_sodium_mg: prefs.target_sodium_mg,
+      nutrition_tolerance_pct: prefs.nutrition_tolerance_pct,
+      weekly_budget: prefs.weekly_budget,
+      budget_store_id: prefs.budget_store_id === 'none' ? null : prefs.budget_store_id,
+      rotation_cooldown_weeks: prefs.rotation_cooldown_weeks,
+      favorite_cooldown_weeks: prefs.favorite_cooldown_weeks,
+      weekday_schedule: scheduleToRow(prefs.weekday_schedule),
+      store_layouts: storeLayoutsToRow(prefs.store_layouts),
+      sub_rules: prefs.sub_rules,
       updated_at: new Date().toISOString(),
     };
 
     const { error } = await supabase.from('preferences').upsert(payload, {
       onConflict: 'user_id',
     });
-    if (!error) setSaved(true);
-    else console.error(error);
+    const memberError = error ? null : await saveMembers(userId);
+    if (!error && !memberError) setSaved(true);
+    else console.error(error ?? memberError);
   }
 
   // Persist healthy survey to localStorage AND sync into prefs
@@ -228,6 +476,7 @@ export default function PreferencesPage() {
   const inputCls =
     'rounded border px-3 py-2 border-gray-300 dark:border-gray-700 bg-white dark:bg-neutral-900 text-gray-900 dark:text-gray-100 placeholder:text-gray-400 dark:placeholder:text-gray-500';
   const selectCls = inputCls + ' pr-8';
+  const portions = householdPortions(members);
 
   return (
     <div className="max-w-3xl mx-auto">
@@ -320,7 +569,9 @@ export default function PreferencesPage() {
 
           <div>
             <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
-              Dinners per week
+              {prefs.meal_slots.length === 1 && prefs.meal_slots[0] === 'dinner'
+                ? 'Dinners per week'
+                : 'Days per week'}
             </label>
             <select
               className={`${selectCls} w-20 h-8`}
@@ -346,6 +597,8 @@ export default function PreferencesPage() {
             </label>
             <select
               className={`${selectCls} w-20 h-8`}
+              disabled={portions != null}
+              title={portions != null ? 'Set by household members below' : undefined}
               value={prefs.people_count}
               onChange={(e) =>
                 setPrefs((p) => ({
@@ -363,6 +616,44 @@ export default function PreferencesPage() {
           </div>
         </div>
 
+        {/* Meal slots */}
+        <div className="mb-5">
+          <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
+            Meals to plan each day
+          </label>
+          <div className="flex flex-wrap gap-2">
+            {MEAL_SLOTS.map((slot) => {
+              const selected = prefs.meal_slots.includes(slot);
+              return (
+                <button
+                  key={slot}
+                  type="button"
+                  onClick={() => toggleSlot(slot)}
+                  className={`${chipBase} ${selected ? chipOn : chipOff}`}
+                >
+                  {MEAL_SLOT_LABEL[slot]}
+                </button>
+              );
+            })}
+          </div>
+          <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+            One shopping list covers every slot.
+          </p>
+          <label className="mt-2 inline-flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              className="h-4 w-4"
+              checked={prefs.leftovers_mode}
+              onChange={(e) =>
+                setPrefs((p) => ({ ...p, leftovers_mode: e.target.checked }))
+              }
+            />
+            <span className="text-gray-800 dark:text-gray-200">
+              Cook once, eat twice (big-batch dinners cover the next night)
+            </span>
+          </label>
+        </div>
+
         {/* Health & family preferences */}
         <div className="mb-4">
           <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
@@ -427,6 +718,314 @@ export default function PreferencesPage() {
           </div>
         </div>
 
+        {/* Nutrition targets */}
+        <div className="mb-4">
+          <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
+            Nutrition targets (per person)
+          </label>
+          <p className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+            Leave blank for no target. Plans covering only some meals are held to that
+            share of a day (dinner counts as about 40%).
+          </p>
+          <div className="flex items-end gap-4 flex-wrap text-sm">
+            <div>
+              <span className="block mb-1 text-gray-700 dark:text-gray-300">Per</span>
+              <select
+                className={`${selectCls} w-24 h-8`}
+                value={prefs.nutrition_period}
+                onChange={(e) =>
+                  setPrefs((p) => ({
+                    ...p,
+                    nutrition_period: e.target.value === 'week' ? 'week' : 'day',
+                  }))
+                }
+              >
+                <option value="day">day</option>
+                <option value="week">week</option>
+              </select>
+            </div>
+            {TARGET_FIELDS.map(({ field, label, unit, hint }) => (
+              <div key={field}>
+                <span className="block mb-1 text-gray-700 dark:text-gray-300">
+                  {label} <span className="text-xs text-gray-500">({hint}, {unit})</span>
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  className={`${inputCls} w-28 h-8`}
+                  value={prefs[field] ?? ''}
+                  onChange={(e) => {
+                    const n = Number(e.target.value);
+                    setPrefs((p) => ({
+                      ...p,
+                      [field]: e.target.value === '' || !(n > 0) ? null : Math.round(n),
+                    }));
+                  }}
+                />
+              </div>
+            ))}
+            <div>
+              <span className="block mb-1 text-gray-700 dark:text-gray-300">Tolerance ±%</span>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                className={`${inputCls} w-20 h-8`}
+                value={prefs.nutrition_tolerance_pct}
+                onChange={(e) =>
+                  setPrefs((p) => ({
+                    ...p,
+                    nutrition_tolerance_pct: Math.min(
+                      100,
+                      Math.max(1, Math.round(Number(e.target.value) || DEFAULT_NUTRITION_TOLERANCE_PCT)),
+                    ),
+                  }))
+                }
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Weekly budget */}
+        <div className="mb-4">
+          <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
+            Weekly grocery budget
+          </label>
+          <div className="flex items-center gap-2 flex-wrap text-sm">
+            <span className="text-gray-700 dark:text-gray-300">$</span>
+            <input
+              type="number"
+              min={0}
+              step={5}
+              placeholder="No cap"
+              className={`${inputCls} w-24 h-8`}
+              value={prefs.weekly_budget ?? ''}
+              onChange={(e) => {
+                const n = Number(e.target.value);
+                setPrefs((p) => ({
+                  ...p,
+                  weekly_budget: e.target.value === '' || !(n > 0) ? null : n,
+                }));
+              }}
+            />
+            <span className="text-gray-700 dark:text-gray-300">at</span>
+            <select
+              className={`${selectCls} h-8`}
+              value={prefs.budget_store_id}
+              onChange={(e) =>
+                setPrefs((p) => ({
+                  ...p,
+                  budget_store_id: isStoreId(e.target.value) ? e.target.value : 'none',
+                }))
+              }
+            >
+              {STORES.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.id === 'none' ? 'Pick a store' : s.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+            Plans swap in cheaper meals to stay under the cap. Uses example prices;
+            items without a price are flagged and not counted.
+          </p>
+        </div>
+
+        {/* Store layout: section walking order, aisle labels, item overrides */}
+        <div className="mb-4">
+          <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
+            Store layout
+          </label>
+          <p className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+            The shopping list and its exports follow this order for the store picked on the plan
+            page. Move sections to match how you walk the store.
+          </p>
+          <div className="mb-2 flex items-center gap-2 text-sm">
+            <select
+              className={`${selectCls} h-8`}
+              value={layoutStore}
+              onChange={(e) => setLayoutStore(isStoreId(e.target.value) ? e.target.value : 'none')}
+            >
+              {STORES.map((s) => (
+                <option key={s.id} value={s.id}>
+                  {s.id === 'none' ? 'Any store' : s.label}
+                </option>
+              ))}
+            </select>
+            {prefs.store_layouts[layoutStore] && (
+              <button
+                type="button"
+                onClick={() => resetLayout(layoutStore)}
+                className="text-xs text-indigo-600 hover:underline"
+              >
+                Reset to default
+              </button>
+            )}
+          </div>
+          {(() => {
+            const layout = layoutForStore(prefs.store_layouts, layoutStore);
+            return (
+              <>
+                <ol className="space-y-1 text-sm">
+                  {layout.order.map((cat, i) => (
+                    <li key={cat} className="flex items-center gap-2">
+                      <span className="w-5 text-right text-xs text-gray-500 dark:text-gray-400">{i + 1}.</span>
+                      <span className="w-36 text-gray-800 dark:text-gray-200">{prettyCategoryLabel(cat)}</span>
+                      <input
+                        className={`${inputCls} h-7 w-28`}
+                        placeholder="Aisle"
+                        maxLength={20}
+                        value={layout.aisles[cat] ?? ''}
+                        onChange={(e) =>
+                          updateLayout(layoutStore, (l) => ({
+                            ...l,
+                            aisles: { ...l.aisles, [cat]: e.target.value },
+                          }))
+                        }
+                      />
+                      <button
+                        type="button"
+                        disabled={i === 0}
+                        onClick={() => moveSection(layoutStore, cat, -1)}
+                        className="rounded border px-1.5 text-xs border-gray-300 dark:border-gray-700 disabled:opacity-40"
+                        aria-label={`Move ${prettyCategoryLabel(cat)} earlier`}
+                      >
+                        ↑
+                      </button>
+                      <button
+                        type="button"
+                        disabled={i === layout.order.length - 1}
+                        onClick={() => moveSection(layoutStore, cat, 1)}
+                        className="rounded border px-1.5 text-xs border-gray-300 dark:border-gray-700 disabled:opacity-40"
+                        aria-label={`Move ${prettyCategoryLabel(cat)} later`}
+                      >
+                        ↓
+                      </button>
+                    </li>
+                  ))}
+                </ol>
+
+                <div className="mt-3 text-sm">
+                  <div className="mb-1 text-xs text-gray-600 dark:text-gray-400">
+                    Items this store shelves somewhere else
+                  </div>
+                  {Object.entries(layout.items).map(([name, cat]) => (
+                    <div key={name} className="mb-1 flex items-center gap-2">
+                      <span className="w-36 text-gray-800 dark:text-gray-200">{name}</span>
+                      <span className="text-gray-600 dark:text-gray-400">→ {prettyCategoryLabel(cat)}</span>
+                      <button
+                        type="button"
+                        onClick={() =>
+                          updateLayout(layoutStore, (l) => {
+                            const items = { ...l.items };
+                            delete items[name];
+                            return { ...l, items };
+                          })
+                        }
+                        className="text-xs text-gray-500 hover:text-red-600"
+                        aria-label={`Remove override for ${name}`}
+                      >
+                        ✕
+                      </button>
+                    </div>
+                  ))}
+                  <div className="flex items-center gap-2">
+                    <input
+                      className={`${inputCls} h-8 w-36`}
+                      placeholder="Item, e.g. tortilla"
+                      value={newOverride.name}
+                      onChange={(e) => setNewOverride((o) => ({ ...o, name: e.target.value }))}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') {
+                          e.preventDefault();
+                          addItemOverride(layoutStore);
+                        }
+                      }}
+                    />
+                    <select
+                      className={`${selectCls} h-8`}
+                      value={newOverride.category}
+                      onChange={(e) =>
+                        setNewOverride((o) => ({ ...o, category: e.target.value as PantryCategory }))
+                      }
+                    >
+                      {ALL_CATEGORIES.map((c) => (
+                        <option key={c} value={c}>
+                          {prettyCategoryLabel(c)}
+                        </option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      onClick={() => addItemOverride(layoutStore)}
+                      className="rounded border px-2 py-1 text-xs border-gray-300 dark:border-gray-700"
+                    >
+                      Add
+                    </button>
+                  </div>
+                </div>
+              </>
+            );
+          })()}
+        </div>
+
+        {/* Household ingredient swaps */}
+        <div className="mb-4">
+          <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
+            Ingredient swaps
+          </label>
+          <p className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+            Shopping lists buy your swap instead, e.g. oat milk whenever a recipe calls for milk.
+            A swap that conflicts with an allergy above is skipped.
+          </p>
+          {prefs.sub_rules.map((r) => (
+            <div key={r.from} className="mb-1 flex items-center gap-2 text-sm">
+              <span className="w-36 text-gray-800 dark:text-gray-200">{r.from}</span>
+              <span className="text-gray-600 dark:text-gray-400">→ {r.to}</span>
+              <button
+                type="button"
+                onClick={() =>
+                  setPrefs((p) => ({ ...p, sub_rules: p.sub_rules.filter((x) => x.from !== r.from) }))
+                }
+                className="text-xs text-gray-500 hover:text-red-600"
+                aria-label={`Remove swap for ${r.from}`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          <div className="flex items-center gap-2 text-sm">
+            <input
+              className={`${inputCls} h-8 w-36`}
+              placeholder="Recipe asks for"
+              value={newSwap.from}
+              onChange={(e) => setNewSwap((w) => ({ ...w, from: e.target.value }))}
+            />
+            <span className="text-gray-600 dark:text-gray-400">→</span>
+            <input
+              className={`${inputCls} h-8 w-36`}
+              placeholder="We use"
+              value={newSwap.to}
+              onChange={(e) => setNewSwap((w) => ({ ...w, to: e.target.value }))}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  addSwap();
+                }
+              }}
+            />
+            <button
+              type="button"
+              onClick={addSwap}
+              disabled={!cleanSubRule(newSwap.from, newSwap.to)}
+              className="rounded border px-2 py-1 text-xs border-gray-300 dark:border-gray-700 disabled:opacity-40"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
         {/* Plan style: variety vs favorites */}
         <div className="mb-4">
           <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
@@ -458,6 +1057,194 @@ export default function PreferencesPage() {
           </div>
         </div>
 
+        {/* Weekly schedule: per-night time limit + theme */}
+        <div className="mb-5">
+          <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
+            Weekly dinner schedule
+          </label>
+          <p className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+            A night&apos;s time limit replaces Max prep minutes for that dinner. A theme picks a
+            recipe whose title or tags match (e.g. &quot;taco&quot; or &quot;fish, salmon&quot;).
+          </p>
+          <div className="grid grid-cols-[3rem_auto_1fr] items-center gap-x-3 gap-y-1.5 text-sm">
+            {WEEKDAY_LABELS.map((label, i) => {
+              const rule = prefs.weekday_schedule[i];
+              return (
+                <Fragment key={label}>
+                  <span className="text-gray-700 dark:text-gray-300">{label}</span>
+                  <select
+                    className={`${selectCls} h-8`}
+                    value={rule.max_prep_minutes ?? ''}
+                    onChange={(e) =>
+                      updateDayRule(i, {
+                        max_prep_minutes: e.target.value ? Number(e.target.value) : null,
+                      })
+                    }
+                  >
+                    <option value="">usual limit</option>
+                    {DAY_TIME_LIMITS.map((n) => (
+                      <option key={n} value={n}>
+                        {n} min
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    className={`${inputCls} h-8`}
+                    placeholder="Theme (optional)"
+                    maxLength={60}
+                    value={rule.theme ?? ''}
+                    onChange={(e) => updateDayRule(i, { theme: e.target.value || null })}
+                  />
+                </Fragment>
+              );
+            })}
+          </div>
+        </div>
+
+        {/* Household members */}
+        <div className="mb-5">
+          <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
+            Household
+          </label>
+          <p className="mb-2 text-xs text-gray-600 dark:text-gray-400">
+            Every meal suits everyone&apos;s diet and allergies. A dislike shared by half the
+            household is avoided; others just count against a recipe. Portions replace the
+            People count when scaling the shopping list.
+          </p>
+          <div className="space-y-3">
+            {members.map((m) => (
+              <div
+                key={m.id}
+                className="rounded-md border border-gray-200 dark:border-gray-800 p-3"
+              >
+                <div className="flex items-center gap-2 flex-wrap">
+                  <input
+                    className={`${inputCls} h-8 w-40`}
+                    placeholder="Name"
+                    value={m.name}
+                    onChange={(e) => updateMember(m.id, { name: e.target.value })}
+                  />
+                  <select
+                    className={`${selectCls} h-8`}
+                    value={m.diet}
+                    onChange={(e) => updateMember(m.id, { diet: e.target.value })}
+                  >
+                    {DIETS.map((d) => (
+                      <option key={d} value={d}>
+                        {d}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    className={`${selectCls} h-8`}
+                    value={m.portion}
+                    onChange={(e) => updateMember(m.id, { portion: Number(e.target.value) })}
+                  >
+                    {MEMBER_PORTIONS.map((n) => (
+                      <option key={n} value={n}>
+                        {n === 1 ? '1 portion' : `${n} portions`}
+                      </option>
+                    ))}
+                  </select>
+                  <label className="inline-flex items-center gap-1.5 text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={m.kid_friendly}
+                      onChange={(e) => updateMember(m.id, { kid_friendly: e.target.checked })}
+                    />
+                    Kid-friendly
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setMembers((ms) => ms.filter((x) => x.id !== m.id))}
+                    className="ml-auto text-sm text-gray-600 dark:text-gray-400 hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {ALLERGY_OPTIONS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => toggleMemberList(m.id, 'allergies', value)}
+                      className={`${chipBase} ${m.allergies.includes(value) ? chipOn : chipOff}`}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {DISLIKE_OPTIONS.map(({ value, label }) => (
+                    <button
+                      key={value}
+                      type="button"
+                      onClick={() => toggleMemberList(m.id, 'dislikes', value)}
+                      className={`${chipBase} ${m.dislikes.includes(value) ? chipOn : chipOff}`}
+                    >
+                      Dislikes {label.toLowerCase()}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-2 flex items-center gap-3 text-sm">
+            <button
+              type="button"
+              onClick={addMember}
+              className="rounded px-3 py-1.5 border border-gray-300 dark:border-gray-700 text-gray-800 dark:text-gray-100 hover:bg-gray-50 dark:hover:bg-neutral-800"
+            >
+              Add member
+            </button>
+            {portions != null && (
+              <span className="text-gray-600 dark:text-gray-400">
+                {portions} portion{portions === 1 ? '' : 's'} per meal
+              </span>
+            )}
+          </div>
+        </div>
+
+        {/* Rotation cool-down across weeks */}
+        <div className="mb-4">
+          <label className="block mb-1 font-medium text-gray-900 dark:text-gray-100">
+            Recipe rotation
+          </label>
+          <div className="flex items-center gap-2 flex-wrap text-sm text-gray-700 dark:text-gray-300">
+            <span>Don&apos;t repeat a recipe within</span>
+            <select
+              className={`${selectCls} h-8`}
+              value={prefs.rotation_cooldown_weeks}
+              onChange={(e) =>
+                setPrefs((p) => ({ ...p, rotation_cooldown_weeks: Number(e.target.value) }))
+              }
+            >
+              {COOLDOWN_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n === 0 ? 'no limit' : `${n} week${n === 1 ? '' : 's'}`}
+                </option>
+              ))}
+            </select>
+            <span>· favorites within</span>
+            <select
+              className={`${selectCls} h-8`}
+              value={prefs.favorite_cooldown_weeks}
+              onChange={(e) =>
+                setPrefs((p) => ({ ...p, favorite_cooldown_weeks: Number(e.target.value) }))
+              }
+            >
+              {COOLDOWN_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  {n === 0 ? 'no limit' : `${n} week${n === 1 ? '' : 's'}`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+            Recently served recipes come back early only when there aren&apos;t enough others to fill the week.
+          </p>
+        </div>
+
         {/* Save */}
         <div className="mb-6">
           <div className="flex items-center gap-3">
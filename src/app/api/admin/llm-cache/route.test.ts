@@ -0,0 +1,54 @@
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getLlmPlanCache } from '@/lib/llm/planCache';
+
+beforeAll(() => {
+  vi.stubEnv('CACHE_BACKEND', 'memory');
+  vi.stubEnv('ADMIN_API_TOKEN', 'secret');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+async function call(method: 'GET' | 'DELETE', token?: string) {
+  const route = await import('./route');
+  const headers: Record<string, string> = token ? { authorization: `Bearer ${token}` } : {};
+  const res = await route[method](new NextRequest('http://localhost/api/admin/llm-cache', { method, headers }));
+  return { status: res.status, json: await res.json() };
+}
+
+describe('/api/admin/llm-cache', () => {
+  it('is off when ADMIN_API_TOKEN is unset', async () => {
+    vi.stubEnv('ADMIN_API_TOKEN', '');
+    try {
+      const { status, json } = await call('GET', 'secret');
+      expect(status).toBe(404);
+      expect(json.error).toBe('Admin API disabled');
+    } finally {
+      vi.stubEnv('ADMIN_API_TOKEN', 'secret');
+    }
+  });
+
+  it.each([undefined, 'wrong'])('rejects token %s', async (token) => {
+    const { status, json } = await call('DELETE', token);
+    expect(status).toBe(401);
+    expect(json.error).toBe('Unauthorized');
+  });
+
+  it('reports stats and purges the plan cache', async () => {
+    const cache = getLlmPlanCache<string>();
+    await cache.set('a', 'plan', 60_000);
+    await cache.set('b', 'plan', 60_000);
+
+    const stats = await call('GET', 'secret');
+    expect(stats.status).toBe(200);
+    expect(stats.json).toMatchObject({ ok: true, stats: { backend: 'memory', namespace: 'llm-plan', entries: 2 } });
+
+    const quiet = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const purged = await call('DELETE', 'secret');
+    quiet.mockRestore();
+    expect(purged.json).toMatchObject({ ok: true, purged: 2, stats: { entries: 0 } });
+    expect(await cache.get('a')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+// src/app/api/admin/llm-cache/route.ts
+// GET    → hit/miss stats for the LLM plan cache
+// DELETE → purge every cached plan (do this after changing the prompt)
+// Auth: Authorization: Bearer $ADMIN_API_TOKEN (endpoint is off when unset)
+import { NextRequest, NextResponse } from 'next/server';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { LLM_PLAN_PROMPT_VERSION, getLlmPlanCache } from '@/lib/llm/planCache';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+function sha256(s: string): Buffer {
+  return createHash('sha256').update(s).digest();
+}
+
+function authError(req: NextRequest): NextResponse | null {
+  const expected = process.env.ADMIN_API_TOKEN;
+  if (!expected) {
+    return NextResponse.json({ ok: false, error: 'Admin API disabled' }, { status: 404 });
+  }
+
+  const header = req.headers.get('authorization') || '';
+  const given = header.startsWith('Bearer ') ? header.slice(7) : '';
+  // Hash first so lengths match for timingSafeEqual
+  if (!given || !timingSafeEqual(sha256(given), sha256(expected))) {
+    return NextResponse.json({ ok: false, error: 'Unauthorized' }, { status: 401 });
+  }
+  return null;
+}
+
+export async function GET(req: NextRequest) {
+  const denied = authError(req);
+  if (denied) return denied;
+
+  const stats = await getLlmPlanCache().stats();
+  return NextResponse.json({ ok: true, promptVersion: LLM_PLAN_PROMPT_VERSION, stats });
+}
+
+export async function DELETE(req: NextRequest) {
+  const denied = authError(req);
+  if (denied) return denied;
+
+  try {
+    const cache = getLlmPlanCache();
+    const purged = await cache.purge();
+    console.log(`[LLM-CACHE] purged ${purged} entries (${cache.backend})`);
+    return NextResponse.json({ ok: true, purged, stats: await cache.stats() });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('[LLM-CACHE] purge failed:', message);
+    return NextResponse.json(
+      { ok: false, error: 'Purge failed', detail: message },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,97 @@
+// src/app/api/calendar/[feed]/route.ts
+// Subscribable iCalendar feed of the user's latest plan: /api/calendar/<token>.ics
+// Calendar apps can't log in, so the secret token in the URL is the auth.
+import { NextRequest, NextResponse } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+import { buildCalendar, type IcsEvent } from '@/lib/ical';
+import { planDayDate } from '@/lib/planner/calendar';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!;
+
+// Events end at dinner time and start `time_min` earlier (i.e. "start cooking now")
+const DINNER_AT = { hour: 18, minute: 30 };
+const LEFTOVER_REHEAT_MIN = 15;
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type FeedRow = {
+  plan_id: string;
+  start_date: string;
+  day: number;
+  slot: string;
+  leftover_of_day: number | null;
+  recipe_id: string;
+  title: string;
+  time_min: number | null;
+};
+
+export async function GET(
+  req: NextRequest,
+  { params }: { params: Promise<{ feed: string }> },
+) {
+  const { feed } = await params;
+  const token = String(feed ?? '').replace(/\.ics$/i, '');
+
+  if (!UUID_RE.test(token)) {
+    return NextResponse.json({ ok: false, error: 'Invalid calendar link.' }, { status: 400 });
+  }
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseAnonKey);
+    const { data, error } = await supabase.rpc('meal_plan_calendar_feed', { p_token: token });
+
+    if (error) {
+      console.error('[CALENDAR] feed query failed:', error);
+      return NextResponse.json({ ok: false, error: 'Could not load calendar.' }, { status: 500 });
+    }
+
+    const rows = (data ?? []) as FeedRow[];
+    const origin = req.nextUrl.origin;
+
+    const events: IcsEvent[] = [];
+    for (const row of rows) {
+      if (row.slot !== 'dinner') continue;
+
+      const date = planDayDate(row.start_date, row.day);
+      if (!date) continue;
+
+      const end = new Date(date);
+      end.setHours(DINNER_AT.hour, DINNER_AT.minute, 0, 0);
+
+      const isLeftover = row.leftover_of_day != null;
+      const prepMin = isLeftover ? LEFTOVER_REHEAT_MIN : Math.max(5, row.time_min ?? 30);
+      const start = new Date(end.getTime() - prepMin * 60_000);
+
+      const url = `${origin}/plan?open=${encodeURIComponent(row.recipe_id)}`;
+      events.push({
+        uid: `${row.plan_id}-${row.day}-${row.slot}@mealcue`,
+        start,
+        end,
+        summary: isLeftover ? `Leftovers: ${row.title}` : `Dinner: ${row.title}`,
+        description: isLeftover
+          ? `Leftovers from the night before · just reheat\n${url}`
+          : `Prep time: ${row.time_min ?? '?'} min\n${url}`,
+        url,
+      });
+    }
+
+    const body = buildCalendar({ name: 'MealCue dinners', events });
+
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="mealcue.ics"',
+        'Cache-Control': 'private, max-age=900',
+      },
+    });
+  } catch (err: unknown) {
+    const message = err instanceof Error ? err.message : String(err);
+    console.error('[CALENDAR] route error:', message);
+    return NextResponse.json({ ok: false, error: 'Internal error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,190 @@
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { LlmPlanResponse } from '@/lib/llm/planContract';
+
+// Mock provider, in-memory cache and rate limits, no Supabase
+beforeAll(() => {
+  vi.stubEnv('LLM_PROVIDER', 'mock');
+  vi.stubEnv('LLM_MODEL', '');
+  vi.stubEnv('LLM_MOCK_FIXTURES', '');
+  vi.stubEnv('LLM_PLAN_ALLOW_ANON', 'true');
+  vi.stubEnv('USE_LLM_PLAN', '');
+  vi.stubEnv('CACHE_BACKEND', 'memory');
+  vi.stubEnv('RATE_LIMIT_BACKEND', 'memory');
+  vi.stubEnv('SUPABASE_SERVICE_ROLE_KEY', '');
+});
+
+afterAll(() => {
+  vi.unstubAllEnvs();
+});
+
+beforeEach(() => {
+  // Usage rows are logged when Supabase isn't configured
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  return () => vi.restoreAllMocks();
+});
+
+const RECIPES = [
+  { id: 'a-noodles', title: 'Peanut Noodles', time_min: 20, diet_tags: ['vegan'], ingredients: ['peanuts', 'noodles'] },
+  { id: 'b-tacos', title: 'Fish Tacos', time_min: 30, diet_tags: [], ingredients: ['cod', 'tortillas'] },
+  { id: 'c-soup', title: 'Lentil Soup', time_min: 40, diet_tags: ['vegan'], ingredients: ['lentils', 'carrot'] },
+  { id: 'd-chili', title: 'Turkey Chili', time_min: 45, diet_tags: [], ingredients: ['ground turkey', 'beans'] },
+  { id: 'e-pasta', title: 'Shrimp Pasta', time_min: 25, diet_tags: [], ingredients: ['shrimp', 'pasta'] },
+];
+
+const body = (over: Record<string, unknown> = {}) => ({
+  apiVersion: 2,
+  pantryNames: ['carrot'],
+  prefs: { diet: 'none', allergies: [], dislikes: [], max_prep_minutes: 45 },
+  recipes: RECIPES,
+  days: 3,
+  ...over,
+});
+
+async function post(
+  payload: unknown,
+  headers: Record<string, string> = {},
+): Promise<{ status: number; cache: string | null; json: LlmPlanResponse }> {
+  const { POST } = await import('./route');
+  const res = await POST(
+    new NextRequest('http://localhost/api/llm-plan', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json', ...headers },
+      body: typeof payload === 'string' ? payload : JSON.stringify(payload),
+    }),
+  );
+  return { status: res.status, cache: res.headers.get('x-mc-llm-cache'), json: await res.json() };
+}
+
+describe('POST /api/llm-plan (mock provider)', () => {
+  it('returns the mock picks, then serves them from cache', async () => {
+    const first = await post(body());
+    expect(first.status).toBe(200);
+    expect(first.cache).toBe('MISS');
+    expect(first.json).toMatchObject({
+      ok: true,
+      apiVersion: 2,
+      recipeIds: ['a-noodles', 'b-tacos', 'c-soup'],
+      reasons: { 'a-noodles': 'mock pick', 'b-tacos': 'mock pick', 'c-soup': 'mock pick' },
+      detail: 'mock/fixtures',
+    });
+
+    const again = await post(body());
+    expect(again.cache).toBe('HIT');
+    expect(again.json.detail).toBe('cache_hit · memory · mock/fixtures');
+    expect(again.json.recipeIds).toEqual(first.json.recipeIds);
+  });
+
+  it('skips locked recipes', async () => {
+    const { json } = await post(body({ lockedRecipeIds: ['b-tacos'] }));
+    expect(json.recipeIds).toEqual(['a-noodles', 'c-soup', 'd-chili']);
+  });
+
+  it('drops allergen picks and backfills from the safe pool', async () => {
+    const { json } = await post(
+      body({ prefs: { diet: 'none', allergies: ['peanut'], dislikes: ['shrimp'], max_prep_minutes: 45 } }),
+    );
+    expect(json.ok).toBe(true);
+    expect(json.recipeIds).toEqual(['b-tacos', 'c-soup', 'd-chili']);
+    expect(json.reasons?.['d-chili']).not.toBe('mock pick');
+  });
+
+  it('drops fish and tree nut allergens too', async () => {
+    const pesto = { id: 'f-pesto', title: 'Walnut Pesto', time_min: 15, diet_tags: [], ingredients: ['walnuts', 'pasta'] };
+    const { json } = await post(
+      body({
+        prefs: { diet: 'none', allergies: ['fish', 'tree_nut'], dislikes: [], max_prep_minutes: 45 },
+        recipes: [...RECIPES, pesto],
+        days: 6,
+      }),
+    );
+    expect(json.recipeIds).toEqual(['a-noodles', 'c-soup', 'd-chili', 'e-pasta']);
+  });
+
+  it('holds picks to every household diet and keys the cache on household prefs', async () => {
+    const prefs = { diet: 'none', allergies: [], dislikes: [], max_prep_minutes: 45 };
+    const { cache, json } = await post(body({ prefs: { ...prefs, diets: ['vegetarian'] }, days: 5 }));
+    expect(cache).toBe('MISS');
+    expect(json.recipeIds).toEqual(['a-noodles', 'b-tacos', 'c-soup']);
+
+    const soft = await post(body({ prefs: { ...prefs, soft_dislikes: { lentils: 0.5 } } }));
+    expect(soft.cache).toBe('MISS');
+  });
+
+  it('adds an audit when asked', async () => {
+    const { json } = await post(body({ audit: true, days: 2 }));
+    expect(json.audit?.map((a) => a.id)).toEqual(RECIPES.map((r) => r.id));
+    expect(json.audit?.filter((a) => a.picked).map((a) => a.id)).toEqual(json.recipeIds);
+  });
+
+  it('uses fixtures when configured', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'llm-plan-')), 'fixtures.json');
+    fs.writeFileSync(
+      file,
+      JSON.stringify([
+        { match: '"slot":"lunch"', response: 'not json' },
+        { response: { recipeIds: ['e-pasta', 'missing', 'e-pasta'], reasons: { 'e-pasta': 'uses your shrimp' } } },
+      ]),
+    );
+    vi.stubEnv('LLM_MOCK_FIXTURES', file);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    try {
+      const dinner = await post(body({ days: 2, pantryNames: ['shrimp'] }));
+      expect(dinner.json.recipeIds?.[0]).toBe('e-pasta');
+      expect(dinner.json.recipeIds).toHaveLength(2);
+      expect(dinner.json.reasons?.['e-pasta']).toBe('uses your shrimp');
+
+      const lunch = await post(body({ slot: 'lunch' }));
+      expect(lunch.status).toBe(502);
+      expect(lunch.json).toMatchObject({ ok: false, error: 'Failed to parse JSON from LLM' });
+    } finally {
+      vi.stubEnv('LLM_MOCK_FIXTURES', '');
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+    }
+  });
+
+  it('upgrades a v1 body', async () => {
+    const legacy: Record<string, unknown> = body({ prefs: { diet: null, allergies: null } });
+    delete legacy.apiVersion;
+    const { status, json } = await post(legacy);
+    expect(status).toBe(200);
+    expect(json.apiVersion).toBe(2);
+    expect(console.log).toHaveBeenCalledWith('[LLM-PLAN] upgraded v1 request');
+  });
+
+  it('rejects invalid bodies', async () => {
+    expect((await post('{')).status).toBe(400);
+    const { status, json } = await post(body({ recipes: [] }));
+    expect(status).toBe(400);
+    expect(json.error).toBe('Invalid request');
+    expect(json.issues).toEqual([{ path: 'recipes', message: 'No recipes provided' }]);
+  });
+
+  it('requires sign-in unless anonymous use is allowed', async () => {
+    vi.stubEnv('LLM_PLAN_ALLOW_ANON', 'false');
+    try {
+      expect((await post(body())).status).toBe(401);
+    } finally {
+      vi.stubEnv('LLM_PLAN_ALLOW_ANON', 'true');
+    }
+  });
+
+  it('answers 429 once a caller is over budget, but still serves cache hits', async () => {
+    vi.stubEnv('LLM_PLAN_USER_PER_HOUR', '1');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const ip = { 'x-forwarded-for': '203.0.113.9' };
+    try {
+      expect((await post(body({ pantryNames: ['rice'] }), ip)).status).toBe(200);
+      const limited = await post(body({ pantryNames: ['beans'] }), ip);
+      expect(limited.status).toBe(429);
+      expect(limited.json).toMatchObject({ ok: false, error: 'Rate limit exceeded' });
+      expect(limited.json.retryAfterSeconds).toBeGreaterThan(0);
+      expect((await post(body({ pantryNames: ['rice'] }), ip)).cache).toBe('HIT');
+    } finally {
+      vi.stubEnv('LLM_PLAN_USER_PER_HOUR', '');
+    }
+  });
+});
@@ -1,85 +1,95 @@
 // src/app/api/llm-plan/route.ts
 import { NextRequest, NextResponse } from 'next/server';
-import type { HealthyProfile } from '@/lib/healthyProfile';
+import { isMealSlot } from '@/lib/planner/slots';
+import type { MealSlot } from '@/lib/planner/types';
 import { createHash } from 'node:crypto';
+import { describeLlmProvider, getLlmProvider } from '@/lib/llm';
+import { llmPlanRateLimitRules } from '@/lib/llm/planLimits';
+import { recordLlmUsage } from '@/lib/llm/usage';
+import { checkRateLimits, getRateLimitStore } from '@/lib/rateLimit';
+import { getRequestIp, getRequestUser } from '@/lib/requestUser';
+import {
+  LLM_PLAN_CACHE_TTL_MS,
+  LLM_PLAN_PROMPT_VERSION,
+  getLlmPlanCache,
+} from '@/lib/llm/planCache';
+import {
+  LLM_PLAN_API_VERSION,
+  LlmPlanResponseSchema,
+  parseLlmPlanRequest,
+  type LlmPlanRequest,
+  type LlmPlanResponse,
+} from '@/lib/llm/planContract';
+import { expandAllergyTerms } from '@/lib/planner/constraints';
+import {
+  NUTRIENT_KEYS,
+  NUTRIENT_LABEL,
+  hasNutritionTargets,
+  targetsForSlots,
+} from '@/lib/planner/nutrition';
+import {
+  auditRecipeLite,
+  fallbackReason,
+  norm,
+  sanitizeReason,
+  scoreFallbackRecipe,
+  uniq,
+  violatesDietLite,
+  violatesDietsLite,
+  violatesTermsLite,
+  type RecipeLite,
+} from '@/lib/planner/lite';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 export const maxDuration = 60;
 
-type PrefsLite = {
-  diet: string;
-  allergies: string[];
-  dislikes: string[];
-  max_prep_minutes: number;
-  favorite_mode?: 'variety' | 'favorites';
-  healthy_whole_food?: boolean;
-  kid_friendly?: boolean;
-  healthy_goal?: 'feel_better' | 'weight' | 'metabolic' | '';
-  healthy_protein_style?: 'mixed' | 'lean_animal' | 'plant_forward' | '';
-  healthy_carb_pref?: 'more_whole_grains' | 'lower_carb' | 'no_preference' | '';
-};
-
-type RecipeLite = {
-  id: string;
-  title: string;
-  time_min: number;
-  diet_tags: string[] | null;
-  ingredients: string[];
-  // Optional: passed from client for better planning
-  is_favorite?: boolean;
-};
-
-type LlmPlanRequest = {
-  pantryNames: string[];
-  prefs: PrefsLite;
-  recipes: RecipeLite[];
-  days?: number;
-  healthyProfile?: HealthyProfile;
-};
+// Request/response shapes live in src/lib/llm/planContract.ts (zod, versioned)
 
-type LlmPlanResponse = {
-  ok: boolean;
-  recipeIds?: string[];
-  error?: string;
-  detail?: string;
-};
+// Every response goes out through here: stamped with the API version and
+// checked against the response schema so clients can rely on the shape.
+function respond(value: LlmPlanResponse, init?: ResponseInit) {
+  const out = { ...value, apiVersion: LLM_PLAN_API_VERSION };
+  const checked = LlmPlanResponseSchema.safeParse(out);
+  if (!checked.success) {
+    console.error('[LLM-PLAN] response failed schema check:', checked.error.issues);
+    return NextResponse.json<LlmPlanResponse>(
+      { ok: false, apiVersion: LLM_PLAN_API_VERSION, error: 'Internal error', detail: 'invalid_response_shape' },
+      { status: 500 },
+    );
+  }
+  return NextResponse.json<LlmPlanResponse>(checked.data, init);
+}
 
-// -------- Simple in-memory cache (best-effort on serverless) --------
-// Works great locally and on warm instances. Cold starts will be empty.
-type CacheEntry = { expiresAt: number; value: LlmPlanResponse };
+// -------- Response cache --------
+// Durable (Supabase) when SUPABASE_SERVICE_ROLE_KEY is set, otherwise in-memory.
+// See src/lib/cache and src/lib/llm/planCache.ts.
+const planCache = getLlmPlanCache<LlmPlanResponse>();
 
-const CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes
-const CACHE_MAX_ENTRIES = 200;
+// Per-user + global request budgets (see src/lib/llm/planLimits.ts)
+const rateLimits = getRateLimitStore();
 
-// Keep cache across requests in the same Node.js process
+// In-flight dedupe stays per process: it only has to cover concurrent
+// identical requests hitting the same instance.
 const g = globalThis as unknown as {
-  __mc_llmPlanCache?: Map<string, CacheEntry>;
   __mc_llmPlanInFlight?: Map<string, Promise<LlmPlanResponse>>;
 };
 
-const planCache = (g.__mc_llmPlanCache ??= new Map<string, CacheEntry>());
 const inFlight = (g.__mc_llmPlanInFlight ??= new Map<
   string,
   Promise<LlmPlanResponse>
 >());
 
-function pruneCache(now: number) {
-  // Remove expired
-  for (const [k, v] of planCache.entries()) {
-    if (v.expiresAt <= now) planCache.delete(k);
-  }
-
-  // Cap size (simple FIFO eviction)
-  while (planCache.size > CACHE_MAX_ENTRIES) {
-    const firstKey = planCache.keys().next().value as string | undefined;
-    if (!firstKey) break;
-    planCache.delete(firstKey);
-  }
-}
+// Prompt wording per slot
+const SLOT_PROMPT: Record<MealSlot, { goal: string; plural: string }> = {
+  breakfast: { goal: 'BREAKFASTS', plural: 'breakfasts' },
+  lunch: { goal: 'LUNCHES', plural: 'lunches' },
+  dinner: { goal: 'MAIN MEALS (dinners)', plural: 'dinners' },
+};
 
-function stableKeyFromRequest(body: LlmPlanRequest): string {
+function stableKeyFromRequest(body: LlmPlanRequest, llm: string): string {
   const days = body.days ?? 7;
+  const slot = isMealSlot(body.slot) ? body.slot : 'dinner';
 
   // Normalize pantry/prefs for stable cache keys
   const pantry = [...(body.pantryNames ?? [])]
@@ -87,7 +97,7 @@ function stableKeyFromRequest(body: LlmPlanRequest): string {
     .filter(Boolean)
     .sort();
 
-  const prefs = body.prefs ?? ({} as PrefsLite);
+  const prefs = body.prefs;
   const allergies = [...(prefs.allergies ?? [])]
     .map((s) => s.toLowerCase().trim())
     .filter(Boolean)
@@ -96,6 +106,11 @@ function stableKeyFromRequest(body: LlmPlanRequest): string {
     .map((s) => s.toLowerCase().trim())
     .filter(Boolean)
     .sort();
+  const diets = uniq((prefs.diets ?? []).map((s) => s.toLowerCase().trim()).filter(Boolean)).sort();
+  const softDislikes = Object.entries(prefs.soft_dislikes ?? {})
+    .map(([term, share]): [string, number] => [term.toLowerCase().trim(), share])
+    .filter(([term]) => term)
+    .sort((a, b) => a[0].localeCompare(b[0]));
 
   // Normalize recipes: sort by id; also sort ingredient lists for stability
   const recipes = (body.recipes ?? [])
@@ -110,14 +125,27 @@ function stableKeyFromRequest(body: LlmPlanRequest): string {
         .filter(Boolean)
         .sort(),
       is_favorite: !!r.is_favorite,
+      ...Object.fromEntries(NUTRIENT_KEYS.filter((k) => r[k] != null).map((k) => [k, r[k]])),
     }))
     .sort((a, b) => a.id.localeCompare(b.id));
 
+  const locked = uniq((body.lockedRecipeIds ?? []).map(String).filter(Boolean)).sort();
+  const recent = uniq((body.recentRecipeIds ?? []).map(String).filter(Boolean)).sort();
+  const dayRules = body.dayRules?.some(Boolean) ? body.dayRules : null;
+
   // Healthy profile affects output; include it
   const hp = body.healthyProfile ?? null;
 
   const canonical = {
+    // Different prompts/providers/models give different plans; never share entries
+    v: LLM_PLAN_PROMPT_VERSION,
+    llm,
     days,
+    // Only add the slot when it isn't the default so dinner keys stay unchanged
+    ...(slot !== 'dinner' ? { slot } : {}),
+    ...(locked.length ? { locked } : {}),
+    ...(recent.length ? { recent } : {}),
+    ...(dayRules ? { dayRules } : {}),
     pantry,
     prefs: {
       diet: prefs.diet ?? 'none',
@@ -130,6 +158,10 @@ function stableKeyFromRequest(body: LlmPlanRequest): string {
       healthy_carb_pref: prefs.healthy_carb_pref ?? null,
       allergies,
       dislikes,
+      // Household fields only when set so single-person keys stay unchanged
+      ...(diets.length ? { diets } : {}),
+      ...(softDislikes.length ? { soft_dislikes: softDislikes } : {}),
+      ...(prefs.nutrition ? { nutrition: prefs.nutrition } : {}),
     },
     recipes,
     healthyProfile: hp,
@@ -139,234 +171,9 @@ function stableKeyFromRequest(body: LlmPlanRequest): string {
   return createHash('sha256').update(json).digest('hex');
 }
 
-function getApiKey(): string {
-  const key = process.env.OPENAI_API_KEY;
-  if (!key) {
-    throw new Error('Missing OPENAI_API_KEY');
-  }
-  return key;
-}
-
-function norm(s: string): string {
-  return String(s ?? '').toLowerCase().trim();
-}
-
-function escapeRegex(s: string) {
-  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
-function matchesTerm(ing: string, term: string): boolean {
-  const t = norm(term);
-  if (!t) return false;
-  const i = norm(ing);
-  if (!i) return false;
-
-  // Multi-word terms (e.g., "soy sauce") -> substring match on normalized string
-  if (t.includes(' ')) return i.includes(t);
-
-  // Single token -> word boundary match
-  const rx = new RegExp(`\\b${escapeRegex(t)}s?\\b`, 'i');
-  return rx.test(i);
-}
-
-// Expand common allergy toggles into the ingredient words we actually see.
-function expandAllergyTerms(allergies: string[]): string[] {
-  const base = (allergies ?? []).map(norm).filter(Boolean);
-
-  const MAP: Record<string, string[]> = {
-    dairy: [
-      'milk',
-      'cheese',
-      'butter',
-      'yogurt',
-      'cream',
-      'sour cream',
-      'whey',
-      'casein',
-      'ghee',
-      'mozzarella',
-      'cheddar',
-      'parmesan',
-      'feta',
-    ],
-    gluten: [
-      'wheat',
-      'flour',
-      'bread',
-      'pasta',
-      'noodle',
-      'tortilla',
-      'cracker',
-      'breadcrumb',
-      'breadcrumbs',
-      'soy sauce',
-    ],
-    egg: ['egg', 'eggs', 'mayonnaise', 'mayo'],
-    peanut: ['peanut', 'peanuts'],
-    shellfish: [
-      'shrimp',
-      'prawn',
-      'crab',
-      'lobster',
-      'clam',
-      'mussel',
-      'oyster',
-      'scallop',
-    ],
-    soy: ['soy', 'tofu', 'edamame', 'miso', 'tempeh', 'soy sauce'],
-    sesame: ['sesame', 'tahini'],
-  };
-
-  const out: string[] = [];
-  for (const a of base) {
-    out.push(a);
-    const extras = MAP[a];
-    if (extras?.length) out.push(...extras.map(norm));
-  }
-  return Array.from(new Set(out)).filter(Boolean);
-}
-
-const DIET_FORBIDDEN_ING: Record<string, RegExp[]> = {
-  vegetarian: [
-    /\bchicken\b/i,
-    /\bbeef\b/i,
-    /\bpork\b/i,
-    /\bham\b/i,
-    /\bsausage\b/i,
-    /\bbacon\b/i,
-    /\bturkey\b/i,
-    /\bshrimp\b/i,
-    /\banchovies?\b/i,
-    /\bgelatin\b/i,
-  ],
-  vegan: [
-    /\bchicken\b/i,
-    /\bbeef\b/i,
-    /\bpork\b/i,
-    /\bham\b/i,
-    /\bsausage\b/i,
-    /\bbacon\b/i,
-    /\bturkey\b/i,
-    /\bshrimp\b/i,
-    /\banchovies?\b/i,
-    /\bgelatin\b/i,
-    /\beggs?\b/i,
-    /\bcheese\b/i,
-    /\bmilk\b/i,
-    /\byogurt\b/i,
-    /\bbutter\b/i,
-    /\bcream\b/i,
-    /\bwhey\b/i,
-  ],
-};
-
-function violatesDietLite(recipe: RecipeLite, diet: string): boolean {
-  const d = norm(diet);
-  const rules = DIET_FORBIDDEN_ING[d] || [];
-  if (!rules.length) return false;
-  const ings = recipe.ingredients ?? [];
-  return ings.some((ing) => rules.some((rx) => rx.test(ing)));
-}
-
-
-function violatesTermsLite(recipe: RecipeLite, terms: string[]): boolean {
-  if (!terms?.length) return false;
-  const ings = recipe.ingredients ?? [];
-  for (const ing of ings) {
-    for (const t of terms) {
-      if (matchesTerm(ing, t)) return true;
-    }
-  }
-  return false;
-}
-
-function healthyFallbackScore(recipe: RecipeLite, prefs: PrefsLite): number {
-  if (!prefs.healthy_whole_food) return 0;
-
-  const title = norm(recipe.title);
-  const ings = (recipe.ingredients ?? []).map(norm).filter(Boolean);
-  const hay = [title, ...ings].join(' ');
-
-  let score = 0;
-
-  // Positive healthy / whole-food signals
-  if (/(\bvegetable\b|\bbroccoli\b|\bcauliflower\b|\bspinach\b|\bzucchini\b|\bpepper\b|\bcarrot\b|\bkale\b|\bcabbage\b)/.test(hay)) score += 1.5;
-  if (/(\bbean\b|\bbeans\b|\blentil\b|\blentils\b|\bchickpea\b|\bchickpeas\b)/.test(hay)) score += 1.25;
-  if (/(\bquinoa\b|\bbrown rice\b|\bwhole wheat\b|\bwhole-wheat\b|\bwhole grain\b|\bwhole-grain\b)/.test(hay)) score += 1;
-  if (/(\bchicken\b|\bsalmon\b|\bfish\b|\bshrimp\b|\bturkey\b|\btofu\b|\btempeh\b|\begg\b|\beggs\b)/.test(hay)) score += 1;
-
-  // Negative heavier / more processed signals
-  if (/(\bfried\b|\bcrispy\b|\bbacon\b|\bsausage\b|\bpepperoni\b|\bhot dog\b|\bdeep fried\b)/.test(hay)) score -= 2;
-  if (/(\bheavy cream\b|\bcream cheese\b|\balfredo\b)/.test(hay)) score -= 1.5;
-  if (/(\bcandy\b|\bdessert\b|\bsoda\b|\bsugary\b)/.test(hay)) score -= 2;
-
-  // Micro-survey steering (minimal, high ROI)
-  if (prefs.healthy_goal === 'weight' && /(\bcream\b|\bbutter\b|\bbacon\b|\bsausage\b|\balfredo\b)/.test(hay)) score -= 1;
-  if (prefs.healthy_goal === 'metabolic' && /(\bwhite rice\b|\bwhite bread\b|\bwhite pasta\b|\bsugary\b)/.test(hay)) score -= 1;
-  if (prefs.healthy_protein_style === 'plant_forward' && /(\bbean\b|\bbeans\b|\blentil\b|\blentils\b|\bchickpea\b|\bchickpeas\b|\btofu\b|\btempeh\b)/.test(hay)) score += 1;
-  if (prefs.healthy_protein_style === 'lean_animal' && /(\bchicken\b|\bturkey\b|\bsalmon\b|\bfish\b|\begg\b|\beggs\b|\byogurt\b)/.test(hay)) score += 1;
-  if (prefs.healthy_carb_pref === 'lower_carb' && /(\bpasta\b|\bbread\b|\bpotato\b|\bpotatoes\b|\bwhite rice\b)/.test(hay)) score -= 1;
-  if (prefs.healthy_carb_pref === 'more_whole_grains' && /(\bbrown rice\b|\bwhole wheat\b|\bwhole-wheat\b|\bwhole grain\b|\bwhole-grain\b|\bquinoa\b)/.test(hay)) score += 1;
-
-  return score;
-}
-
-function kidFriendlyFallbackScore(recipe: RecipeLite, prefs: PrefsLite): number {
-  if (!prefs.kid_friendly) return 0;
-
-  const title = norm(recipe.title);
-  const ings = (recipe.ingredients ?? []).map(norm).filter(Boolean);
-  const hay = [title, ...ings].join(' ');
-
-  let score = 0;
-
-  // Positive kid-friendly signals
-  if (/(\bchicken\b|\brice\b|\bpasta\b|\bnoodle\b|\bmeatball\b|\bmeatballs\b|\btaco\b|\bbowl\b|\bsoup\b)/.test(hay)) score += 1.5;
-  if ((recipe.time_min ?? 999) <= 35) score += 0.5;
-  if ((recipe.ingredients ?? []).length <= 10) score += 0.5;
-
-  // Negative kid-friendly signals
-  if (/(\bspicy\b|\bbuffalo\b|\bjalapeno\b|\bjalapeño\b|\bchipotle\b|\bhot sauce\b|\bchili flakes\b|\bred pepper flakes\b)/.test(hay)) score -= 2;
-  if (/(\barugula\b|\bkale\b|\bmustard greens\b|\bradicchio\b)/.test(hay)) score -= 1;
-  if (/(\bvinegar\b|\bpickled\b)/.test(hay)) score -= 0.5;
-
-  return score;
-}
-
-function scoreFallbackRecipe(
-  recipe: RecipeLite,
-  pantrySet: Set<string>,
-  prefs: PrefsLite,
-): number {
-  const ings = (recipe.ingredients ?? []).map(norm).filter(Boolean);
-  if (!ings.length) return -999;
-
-  let pantryHits = 0;
-  let missing = 0;
-  for (const ing of ings) {
-    if (pantrySet.has(ing)) pantryHits += 1;
-    else missing += 1;
-  }
-
-  const timeOk = recipe.time_min <= (prefs.max_prep_minutes ?? 45);
-  const timeScore = timeOk ? 1.5 : -2;
-
-  const favBoost = recipe.is_favorite && prefs.favorite_mode === 'favorites' ? 3 : 0;
-
-  // Prefer high pantry overlap, fewer missing items
-  const healthyBoost = healthyFallbackScore(recipe, prefs);
-  const kidBoost = kidFriendlyFallbackScore(recipe, prefs);
-
-  return pantryHits * 2 - missing * 0.75 + timeScore + favBoost + healthyBoost + kidBoost;
-}
-
-function uniq<T>(arr: T[]): T[] {
-  return Array.from(new Set(arr));
-}
-
 export async function POST(req: NextRequest) {
   if (process.env.USE_LLM_PLAN === 'false') {
-    return NextResponse.json(
+    return respond(
       {
         ok: false,
         error: 'LLM plan disabled by USE_LLM_PLAN=false',
@@ -376,52 +183,106 @@ export async function POST(req: NextRequest) {
   }
 
   try {
-    const body = (await req.json()) as LlmPlanRequest;
-    const { pantryNames, prefs, recipes, days = 7, healthyProfile } = body;
+    let raw: unknown;
+    try {
+      raw = await req.json();
+    } catch {
+      return respond(
+        { ok: false, error: 'Invalid request', issues: [{ path: '(body)', message: 'Body is not valid JSON' }] },
+        { status: 400 },
+      );
+    }
+
+    const parsed = parseLlmPlanRequest(raw);
+    if (!parsed.ok) {
+      return respond({ ok: false, error: 'Invalid request', issues: parsed.issues }, { status: 400 });
+    }
+    if (parsed.version !== LLM_PLAN_API_VERSION) {
+      console.log(`[LLM-PLAN] upgraded v${parsed.version} request`);
+    }
+
+    // Budgets are per Supabase user; anonymous callers only when explicitly allowed (dev)
+    const user = await getRequestUser(req);
+    if (!user && process.env.LLM_PLAN_ALLOW_ANON !== 'true') {
+      return respond({ ok: false, error: 'Sign in required' }, { status: 401 });
+    }
+    const identity = user ? `user:${user.id}` : `anon:${getRequestIp(req)}`;
+
+    const body: LlmPlanRequest = parsed.data;
+    const { pantryNames, prefs, recipes, days, healthyProfile } = body;
+    const slot: MealSlot = isMealSlot(body.slot) ? body.slot : 'dinner';
+    const slotText = SLOT_PROMPT[slot];
+    const lockedIds = new Set((body.lockedRecipeIds ?? []).map(String).filter(Boolean));
+    const lockedRecipes = (recipes ?? []).filter((r) => lockedIds.has(r.id));
+    const recentIds = new Set(
+      (body.recentRecipeIds ?? []).map(String).filter((id) => id && !lockedIds.has(id)),
+    );
 
     // Enforce non-veg/veg balance for all diets EXCEPT vegetarian/vegan.
     // Applies to: "none", "gluten_free", "halal", "kosher", etc.
     const dietNorm = norm(prefs?.diet ?? 'none');
-    const enforceNonVegBalance = dietNorm !== 'vegetarian' && dietNorm !== 'vegan';
-    // Soft cap used in prompt only (hard enforcement can be done client-side if desired)
-    const maxVegMeals = Math.max(1, Math.ceil(days * 0.4));
-
-    const now = Date.now();
-    pruneCache(now);
-
-    const cacheKey = stableKeyFromRequest(body);
-
-    //const key8 = cacheKey.slice(0, 8);
-    //const beforeSize = planCache.size;
+    // Breakfast/lunch are often meatless; only balance dinners.
+    const enforceNonVegBalance =
+      slot === 'dinner' && dietNorm !== 'vegetarian' && dietNorm !== 'vegan';
+    // Soft cap used in prompt only (hard enforcement can be done client-side if desired).
+    // The cap covers the whole week, so locked meals use up part of it.
+    const weekMeals = days + lockedIds.size;
+    const maxVegMeals = Math.max(1, Math.ceil(weekMeals * 0.4));
+    const lockedVeg = lockedRecipes.filter((r) => !violatesDietLite(r, 'vegetarian')).length;
+    const maxVegPicks = Math.max(0, maxVegMeals - lockedVeg);
+
+    // Provider/model come from env (LLM_PROVIDER, LLM_MODEL, ...); see src/lib/llm
+    const llm = getLlmProvider();
+    const llmLabel = describeLlmProvider(llm);
+
+    const cacheKey = stableKeyFromRequest(body, llmLabel);
+
+    // Audit mode: explain every recipe against the guardrails. Cheap and
+    // deterministic, so it's recomputed per request rather than cached.
+    const withAudit = (value: LlmPlanResponse): LlmPlanResponse => {
+      if (!body.audit) return value;
+      const pantrySet = new Set((pantryNames ?? []).map(norm).filter(Boolean));
+      const picked = new Set(value.recipeIds ?? []);
+      return {
+        ...value,
+        audit: (recipes ?? []).map((r) => auditRecipeLite(r, prefs, { pantrySet, lockedIds, picked })),
+      };
+    };
 
-    // 1) Return cached response if present
-    const cached = planCache.get(cacheKey);
-    if (cached && cached.expiresAt > now) {
-      return NextResponse.json<LlmPlanResponse>(
-        { ...cached.value, detail: 'cache_hit' },
+    // 1) Return cached response if present (misses/errors fall through to the LLM)
+    const cached = await planCache.get(cacheKey);
+    if (cached) {
+      return respond(
+        withAudit({ ...cached, detail: `cache_hit · ${planCache.backend} · ${llmLabel}` }),
         { status: 200, headers: { 'x-mc-llm-cache': 'HIT' } },
       );
     }
 
-    // 2) Deduplicate in-flight identical requests (prevents double OpenAI calls)
+    // 2) Deduplicate in-flight identical requests (prevents double LLM calls)
     const existing = inFlight.get(cacheKey);
     if (existing) {
       const value = await existing;
-      return NextResponse.json<LlmPlanResponse>(
-        { ...value, detail: 'inflight_hit' },
+      return respond(
+        withAudit({ ...value, detail: `inflight_hit · ${llmLabel}` }),
         { status: 200, headers: { 'x-mc-llm-cache': 'INFLIGHT' } },
       );
     }
 
-    if (!recipes || recipes.length === 0) {
-      return NextResponse.json<LlmPlanResponse>(
-        { ok: false, error: 'No recipes provided' },
-        { status: 400 },
+    // 3) Only requests that would reach the model count against the budgets
+    const limited = await checkRateLimits(rateLimits, llmPlanRateLimitRules(identity));
+    if (!limited.ok) {
+      console.warn(`[RATE] llm-plan ${limited.rule.id} exceeded for ${identity}`);
+      return respond(
+        {
+          ok: false,
+          error: 'Rate limit exceeded',
+          detail: `${limited.rule.id}: ${limited.rule.limit} requests per ${Math.round(limited.rule.windowMs / 60000)} min`,
+          retryAfterSeconds: limited.retryAfterSeconds,
+        },
+        { status: 429, headers: { 'Retry-After': String(limited.retryAfterSeconds) } },
       );
     }
 
-    const apiKey = getApiKey();
-
     const healthSection = healthyProfile?.wholeFoodFocus
       ? `
 Additional healthy, whole-food guidelines:
@@ -480,6 +341,69 @@ Kid-friendly guidelines:
 - Choose recipes that many 3–6 year olds might enjoy: familiar flavors, not very spicy, not extremely sour or bitter.
 - When possible, allow serving components separately (e.g., rice, chicken, and vegetables side-by-side instead of heavily mixed).
 - Avoid choking hazards and very hard textures; prefer bite-sized, softer foods.
+`.trim()
+      : '';
+
+    // Per-meal targets for this slot (daily target × the slot's share of the day)
+    const nutrition = hasNutritionTargets(prefs.nutrition) ? prefs.nutrition : null;
+    const mealTarget = nutrition ? targetsForSlots(nutrition, [slot]) : {};
+    const nutritionSection = nutrition
+      ? `
+Nutrition targets (per person, per ${slotText.plural.replace(/s$/, '')}; recipes list calories, protein_g, fiber_g, sodium_mg per serving when known):
+
+${NUTRIENT_KEYS.filter((k) => mealTarget[k] != null)
+  .map((k) => {
+    const v = Math.round(mealTarget[k]!);
+    const { label, unit } = NUTRIENT_LABEL[k];
+    const how =
+      k === 'calories' ? 'about' : k === 'sodium_mg' ? 'at most' : 'at least';
+    return `- ${label}: ${how} ${v} ${unit}`;
+  })
+  .join('\n')}
+- Tolerance: ±${nutrition.tolerance_pct}%. Judge the week's AVERAGE per meal, not each meal alone.
+- Prefer recipes with known values; never break allergy or diet rules to hit a target.
+`.trim()
+      : '';
+
+    const lockedSection = lockedIds.size
+      ? `
+Locked meals:
+
+- The user already locked ${lockedIds.size} ${slotText.plural} this week${
+          lockedRecipes.length ? `: ${lockedRecipes.map((r) => r.title).join('; ')}` : ''
+        }.
+- lockedRecipeIds lists their IDs. Do NOT return any of them.
+- Treat them as part of the week: avoid repeating their main protein too often, and count them toward the balance rules below.
+`.trim()
+      : '';
+
+    const dayRules = (body.dayRules ?? []).slice(0, days);
+    const scheduleLines = dayRules.flatMap((rule, i) => {
+      if (!rule || (rule.max_prep_minutes == null && !rule.theme)) return [];
+      const parts = [
+        rule.max_prep_minutes != null ? `at most ${rule.max_prep_minutes} min` : '',
+        rule.theme ? `theme "${rule.theme}" (title or diet_tags must match one of the comma-separated terms)` : '',
+      ].filter(Boolean);
+      return [`- recipeIds[${i}]${rule.weekday ? ` (${rule.weekday})` : ''}: ${parts.join('; ')}`];
+    });
+    const scheduleSection = scheduleLines.length
+      ? `
+Day schedule:
+
+- recipeIds are served in order: recipeIds[0] on the first day, and so on.
+- These days have limits the user set; put a fitting recipe in that position:
+${scheduleLines.join('\n')}
+- A time limit here replaces max_prep_minutes for that day.
+- If nothing fits a day, still fill it with the quickest reasonable recipe.
+`.trim()
+      : '';
+
+    const recentSection = recentIds.size
+      ? `
+Recently served:
+
+- recentRecipeIds lists ${recentIds.size} recipe${recentIds.size === 1 ? '' : 's'} the user ate in the last few weeks.
+- Prefer other recipes; only pick these if the week can't be filled otherwise.
 `.trim()
       : '';
 
@@ -504,14 +428,16 @@ Healthy micro-survey signals (may be empty strings if not answered):
 You are a meal-planning assistant for busy families.
 
 Goal:
-- Choose ${days} MAIN MEALS (dinners) for the next ${days} days.
+- Choose ${days} ${slotText.goal} for the next ${days} days.
 - Use ONLY the provided recipes (no invented recipes).
 - For each chosen recipe, you must return its "id" from the provided list.
 
 User preferences:
 - diet: prefs.diet ("none", "vegetarian", "vegan", "gluten_free", "halal", "kosher")
+- diets: prefs.diets (if present: the household's diets; every recipe must suit ALL of them)
 - allergies: prefs.allergies (MUST be strictly avoided)
 - dislikes: prefs.dislikes (avoid when possible)
+- soft_dislikes: prefs.soft_dislikes (if present: term → share of the household that dislikes it; avoid when you can, more so for higher shares)
 - max_prep_minutes: prefer recipes under this time
 - favorite_mode: prefs.favorite_mode (if "favorites", it's okay to repeat favorite-type recipes a bit more often)
 - healthy_whole_food: prefs.healthy_whole_food (if true, prefer more whole, minimally processed options)
@@ -531,12 +457,25 @@ Other rules:
 ${enforceNonVegBalance ? `
 Protein mix rule (diet is not vegetarian/vegan):
 - Do NOT return a plan where vegetarian/vegan meals are the majority.
-- Cap vegetarian/vegan meals to ${maxVegMeals} or fewer across the ${days} dinners when possible.
+- Cap vegetarian/vegan meals to ${maxVegMeals} or fewer across the ${weekMeals} ${slotText.plural} when possible.${
+  lockedIds.size
+    ? `
+- ${lockedVeg} of the locked meals are vegetarian/vegan, so choose at most ${maxVegPicks} more.`
+    : ''
+}
 - Prefer a balanced mix of proteins across the week (e.g., chicken/fish/eggs/beans/tofu), unless user preferences force otherwise.
 ` : ''}
 - If diet !== "none", prefer recipes whose diet_tags contain that diet, or are clearly compatible.
 - If you cannot find enough fully compliant recipes, return as many as you can, but NEVER include allergens.
-${healthSection ? `
+${lockedSection ? `
+
+${lockedSection}` : ''}${scheduleSection ? `
+
+${scheduleSection}` : ''}${recentSection ? `
+
+${recentSection}` : ''}${nutritionSection ? `
+
+${nutritionSection}` : ''}${healthSection ? `
 
 ${healthSection}` : ''}${kidSection ? `
 
@@ -545,11 +484,15 @@ ${kidSection}` : ''}
 Return ONLY valid JSON in this exact shape and nothing else:
 
 {
-  "recipeIds": ["id1", "id2", "id3", "id4", "id5", "id6", "id7"]
+  "recipeIds": ["id1", "id2", "id3", "id4", "id5", "id6", "id7"],
+  "reasons": { "id1": "uses your spinach before it spoils", "id2": "kid-friendly, ready in 20 min" }
 }
 
 - Use valid recipe IDs from the "recipes" list.
 - Length of recipeIds should be ${days} if possible.
+- reasons: one short, concrete reason per chosen id (max ~12 words), written for the user.
+  Good reasons name a pantry item it uses, an ingredient it shares with another meal this week, or a preference it meets.
+  Never mention allergens or disliked ingredients.
 `.trim();
 
     const userContent = {
@@ -557,64 +500,62 @@ Return ONLY valid JSON in this exact shape and nothing else:
       prefs,
       recipes,
       days,
+      slot,
+      lockedRecipeIds: Array.from(lockedIds),
+      ...(recentIds.size ? { recentRecipeIds: Array.from(recentIds) } : {}),
+      ...(scheduleLines.length ? { dayRules } : {}),
       healthyProfile, // may be undefined
     };
 
-    // --- ITEM #4 ONLY: wrap OpenAI call in an in-flight promise and cache on success ---
+    // --- ITEM #4 ONLY: wrap the LLM call in an in-flight promise and cache on success ---
     const p = (async (): Promise<LlmPlanResponse> => {
-      const openaiRes = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          Authorization: `Bearer ${apiKey}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          model: 'gpt-4o-mini',
-          response_format: { type: 'json_object' },
-          messages: [
-            { role: 'system', content: systemPrompt },
-            {
-              role: 'user',
-              content: JSON.stringify(userContent),
-            },
-          ],
-        }),
+      const completion = await llm.complete({
+        json: true,
+        messages: [
+          { role: 'system', content: systemPrompt },
+          {
+            role: 'user',
+            content: JSON.stringify(userContent),
+          },
+        ],
       });
 
-      if (!openaiRes.ok) {
-        const errBody = await openaiRes.text();
-        console.error('[LLM-PLAN] OpenAI error:', openaiRes.status, errBody);
+      // Awaited: serverless may freeze the instance once the response is sent
+      await recordLlmUsage({
+        userId: user?.id ?? null,
+        route: 'llm-plan',
+        llm,
+        usage: completion.ok ? completion.usage : undefined,
+        ok: completion.ok,
+        cacheKey,
+      });
+
+      if (!completion.ok) {
         return {
           ok: false,
-          error: `LLM error (status ${openaiRes.status})`,
-          detail: errBody,
+          error: completion.error,
+          detail: `${llmLabel}${completion.detail ? `: ${completion.detail}` : ''}`,
         };
       }
 
-      const raw = await openaiRes.json();
-      const text: string | undefined = raw?.choices?.[0]?.message?.content ?? '';
-
-      if (!text || typeof text !== 'string') {
-        console.error('[LLM-PLAN] Unexpected LLM response format:', raw);
-        return { ok: false, error: 'Unexpected LLM response format' };
-      }
+      const text = completion.text;
 
-      let parsed: { recipeIds: string[] };
+      let parsed: { recipeIds: string[]; reasons?: Record<string, unknown> };
       try {
         parsed = JSON.parse(text);
       } catch (e) {
         console.error('[LLM-PLAN] Failed to parse JSON:', e, text);
-        return { ok: false, error: 'Failed to parse JSON from LLM', detail: text };
+        return { ok: false, error: 'Failed to parse JSON from LLM', detail: `${llmLabel}: ${text}` };
       }
 
       if (!parsed.recipeIds || !Array.isArray(parsed.recipeIds)) {
-        return { ok: false, error: 'Missing recipeIds in LLM response' };
+        return { ok: false, error: 'Missing recipeIds in LLM response', detail: llmLabel };
       }
 
       // --- Server-side guardrails: NEVER return allergens/dislikes/diet-violating recipes ---
       const pantrySet = new Set((pantryNames ?? []).map(norm).filter(Boolean));
 
-      const allergyTerms = expandAllergyTerms(prefs?.allergies ?? []);
+      const allergyTerms = Array.from(expandAllergyTerms(prefs?.allergies ?? []));
       const dislikeTerms = (prefs?.dislikes ?? []).map(norm).filter(Boolean);
 
       // Build a safe candidate list from provided recipes
@@ -623,7 +564,8 @@ Return ONLY valid JSON in this exact shape and nothing else:
 
       const safeRecipes: RecipeLite[] = (recipes ?? []).filter((r) => {
         if (!r?.id) return false;
-        if (violatesDietLite(r, prefs?.diet ?? 'none')) return false;
+        if (lockedIds.has(r.id)) return false;
+        if (violatesDietsLite(r, prefs)) return false;
         if (violatesTermsLite(r, allergyTerms)) return false; // HARD
         // dislikes are treated as hard here to bullet-proof; client can relax separately if desired
         if (violatesTermsLite(r, dislikeTerms)) return false;
@@ -638,13 +580,26 @@ Return ONLY valid JSON in this exact shape and nothing else:
       for (const id of uniqueIds) {
         const r = recipeById.get(id);
         if (!r) continue;
-        if (violatesDietLite(r, prefs?.diet ?? 'none')) continue;
+        if (lockedIds.has(id)) continue;
+        if (violatesDietsLite(r, prefs)) continue;
         if (violatesTermsLite(r, allergyTerms)) continue;
         if (violatesTermsLite(r, dislikeTerms)) continue;
         pickedSafe.push(id);
         if (pickedSafe.length >= days) break;
       }
 
+      // Reasons get the same treatment as IDs: only for safe picks, and never
+      // naming an allergen/dislike. Anything dropped is re-explained locally.
+      const blockedTerms = [...allergyTerms, ...dislikeTerms];
+      const modelReasons =
+        parsed.reasons && typeof parsed.reasons === 'object' ? parsed.reasons : {};
+      const reasons: Record<string, string> = {};
+      for (const id of pickedSafe) {
+        reasons[id] =
+          sanitizeReason(modelReasons[id], blockedTerms) ??
+          fallbackReason(recipeById.get(id)!, pantrySet, prefs);
+      }
+
       // Fill remainder deterministically from safe pool
       if (pickedSafe.length < days && safeRecipes.length) {
         const already = new Set(pickedSafe);
@@ -660,12 +615,13 @@ Return ONLY valid JSON in this exact shape and nothing else:
 
         for (const r of ranked) {
           pickedSafe.push(r.id);
+          reasons[r.id] = fallbackReason(r, pantrySet, prefs);
           if (pickedSafe.length >= days) break;
         }
       }
 
       // As an absolute last resort, return whatever safe IDs we could find (may be < days)
-      return { ok: true, recipeIds: pickedSafe };
+      return { ok: true, recipeIds: pickedSafe, reasons, detail: llmLabel };
     })();
 
     inFlight.set(cacheKey, p);
@@ -676,12 +632,13 @@ Return ONLY valid JSON in this exact shape and nothing else:
       inFlight.delete(cacheKey);
     }
 
-    // Cache only successful plans with recipeIds
+    // Cache only successful plans with recipeIds. Awaited: serverless may
+    // freeze the instance as soon as the response is sent.
     if (value.ok && Array.isArray(value.recipeIds) && value.recipeIds.length) {
-      planCache.set(cacheKey, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+      await planCache.set(cacheKey, value, LLM_PLAN_CACHE_TTL_MS);
     }
 
-    return NextResponse.json<LlmPlanResponse>(value, {
+    return respond(withAudit(value), {
       status: value.ok ? 200 : 502,
       headers: { 'x-mc-llm-cache': 'MISS'},
     });
@@ -689,7 +646,7 @@ Return ONLY valid JSON in this exact shape and nothing else:
   } catch (err: unknown) {
     const message = err instanceof Error ? err.message : String(err);
     console.error('[LLM-PLAN] route error:', message);
-    return NextResponse.json<LlmPlanResponse>(
+    return respond(
       { ok: false, error: 'Internal error', detail: message },
       { status: 500 },
     );
@@ -4,6 +4,9 @@ import { useEffect, useMemo, useState } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { createClient } from '@supabase/supabase-js';
 import { trackEvent } from '@/lib/analytics';
+import { formatPlanDay } from '@/lib/planner/calendar';
+import { MEAL_SLOT_LABEL, comparePlannedMeals, isMealSlot } from '@/lib/planner/slots';
+import type { MealSlot } from '@/lib/planner/types';
 
 type SharedMeal = {
   id: string;
@@ -11,6 +14,10 @@ type SharedMeal = {
   time_min: number;
   diet_tags: string[] | null;
   position: number;
+  day: number;
+  slot: MealSlot;
+  leftover_of: number | null;
+  reason: string | null;
 };
 
 type RecipeJoinRow = {
@@ -22,6 +29,10 @@ type RecipeJoinRow = {
 
 type ItemJoinRow = {
   position?: unknown;
+  day?: unknown;
+  slot?: unknown;
+  leftover_of_day?: unknown;
+  reason?: unknown;
   recipes?: unknown;
 };
 
@@ -50,6 +61,7 @@ export default function SharedPlanPage() {
 
   const [loading, setLoading] = useState(true);
   const [generatedAt, setGeneratedAt] = useState<string | null>(null);
+  const [startDate, setStartDate] = useState<string | null>(null);
   const [meals, setMeals] = useState<SharedMeal[]>([]);
   const [error, setError] = useState<string>('');
 
@@ -78,7 +90,7 @@ export default function SharedPlanPage() {
       // 1) Fetch the plan by share_id
       const planRes = await supabaseShared
         .from('user_meal_plan')
-        .select('id, generated_at')
+        .select('id, generated_at, start_date')
         .eq('share_id', shareId)
         .maybeSingle();
 
@@ -95,6 +107,7 @@ export default function SharedPlanPage() {
       }
 
       setGeneratedAt(planRes.data.generated_at ?? null);
+      setStartDate(planRes.data.start_date ?? null);
 
       // 2) Fetch plan recipes in order, join recipes
       const itemsRes = await supabaseShared
@@ -102,6 +115,10 @@ export default function SharedPlanPage() {
         .select(
           `
           position,
+          day,
+          slot,
+          leftover_of_day,
+          reason,
           recipes (
             id,
             title,
@@ -133,28 +150,40 @@ export default function SharedPlanPage() {
             ? (recipe!.diet_tags as string[])
             : null;
 
+          const position = typeof r.position === 'number' ? r.position : 0;
+
           return {
-            position: typeof r.position === 'number' ? r.position : 0,
+            position,
+            // Legacy rows: one dinner per day, day == position
+            day: typeof r.day === 'number' ? r.day : position,
+            slot: isMealSlot(r.slot) ? r.slot : ('dinner' as MealSlot),
+            leftover_of: typeof r.leftover_of_day === 'number' ? r.leftover_of_day : null,
+            reason: typeof r.reason === 'string' && r.reason ? r.reason : null,
             id,
             title,
             time_min,
             diet_tags,
           };
         })
-        .filter((m) => !!m.id);
+        .filter((m) => !!m.id)
+        .sort(comparePlannedMeals);
 
       setMeals(parsedMeals);
       setLoading(false);
     })();
   }, [supabaseShared, shareId]);
 
+  const dayCount = meals.reduce((n, m) => Math.max(n, m.day + 1), 0) || 7;
+  const dinnerOnly = meals.every((m) => m.slot === 'dinner');
+  const heading = `${dayCount}-Day ${dinnerOnly ? 'Dinner' : 'Meal'} Plan`;
+
   // ✅ Now it’s safe to render based on shareId (hooks already ran)
   if (!shareId) return <p className="max-w-3xl mx-auto p-4">Loading…</p>;
   if (loading) return <p className="max-w-3xl mx-auto p-4">Loading…</p>;
 
   return (
     <div className="max-w-3xl mx-auto p-4">
-      <h1 className="text-2xl font-semibold">7-Day Dinner Plan</h1>
+      <h1 className="text-2xl font-semibold">{heading}</h1>
 
       {generatedAt ? (
         <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">
@@ -172,15 +201,21 @@ export default function SharedPlanPage() {
         <div className="mt-4 grid md:grid-cols-2 gap-4">
           {meals.map((m) => (
             <div
-              key={`${m.position}-${m.id}`}
+              key={`${m.day}-${m.slot}-${m.id}`}
               className="rounded-xl border border-gray-200 dark:border-gray-800 bg-white dark:bg-neutral-900 p-4 shadow-sm"
             >
               <div className="font-medium">
-                Day {m.position + 1}: {m.title}
+                {formatPlanDay(startDate, m.day)}
+                {dinnerOnly ? '' : ` · ${MEAL_SLOT_LABEL[m.slot]}`}: {m.title}
               </div>
               <div className="mt-1 text-sm text-gray-600 dark:text-gray-400">
-                {m.time_min} min
+                {m.leftover_of != null
+                  ? `Leftovers from ${formatPlanDay(startDate, m.leftover_of)}`
+                  : `${m.time_min} min`}
               </div>
+              {m.leftover_of == null && m.reason ? (
+                <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">Why: {m.reason}</div>
+              ) : null}
 
               {m.diet_tags && m.diet_tags.length > 0 ? (
                 <div className="mt-2 flex flex-wrap gap-2">
@@ -0,0 +1,139 @@
+'use client';
+
+import {
+  NUTRIENT_LABEL,
+  formatPlanDay,
+  targetedNutrients,
+  type NutrientKey,
+  type NutrientStatus,
+  type NutritionSummary as Summary,
+  type NutritionValues,
+} from '@/lib/planner';
+
+function fmt(key: NutrientKey, v: number | undefined): string {
+  if (v == null) return '—';
+  return `${Math.round(v).toLocaleString()} ${NUTRIENT_LABEL[key].unit}`;
+}
+
+const STATUS_TEXT: Record<NutrientStatus, string> = {
+  ok: '',
+  low: 'low',
+  high: 'high',
+};
+
+function Cell({
+  k,
+  totals,
+  target,
+  status,
+}: {
+  k: NutrientKey;
+  totals: NutritionValues;
+  target: NutritionValues;
+  status?: NutrientStatus;
+}) {
+  const off = status && status !== 'ok';
+  return (
+    <td
+      className={`p-2 text-right whitespace-nowrap ${
+        off ? 'text-amber-700 dark:text-amber-300 font-medium' : ''
+      }`}
+      title={`Target ${fmt(k, target[k])}`}
+    >
+      {fmt(k, totals[k])}
+      {off ? ` (${STATUS_TEXT[status]})` : ''}
+    </td>
+  );
+}
+
+/** Weekly nutrition vs targets (per person), with days outside tolerance flagged. */
+export default function NutritionSummary({
+  summary,
+  startDate,
+}: {
+  summary: Summary;
+  startDate: string | null;
+}) {
+  const keys = targetedNutrients(summary.targets);
+  const { week } = summary;
+  const incomplete = summary.days.filter((d) => d.unknownMeals > 0).length;
+
+  return (
+    <div className="mt-6">
+      <h2 className="text-xl font-semibold mb-1 text-gray-900 dark:text-gray-100">
+        Nutrition (per person)
+      </h2>
+      <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+        One serving of each planned meal, against your{' '}
+        {summary.targets.period === 'week' ? 'weekly' : 'daily'} targets (±
+        {summary.targets.tolerance_pct}%) scaled to the meals planned.
+        {summary.flaggedDays.length > 0 &&
+          ` ${summary.flaggedDays.length} day${summary.flaggedDays.length === 1 ? '' : 's'} fall outside.`}
+      </p>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border border-gray-200 dark:border-gray-800">
+          <thead className="bg-gray-100 dark:bg-neutral-800">
+            <tr className="border-b border-gray-200 dark:border-gray-700">
+              <th className="p-2 text-xs font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-100 text-left">
+                Day
+              </th>
+              {keys.map((k) => (
+                <th
+                  key={k}
+                  className="p-2 text-xs font-semibold uppercase tracking-wide text-gray-700 dark:text-gray-100 text-right"
+                >
+                  {NUTRIENT_LABEL[k].label}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {summary.days.map((d) => (
+              <tr
+                key={d.day}
+                className={`border-t border-gray-200 dark:border-gray-800 ${
+                  d.flagged ? 'bg-amber-50 dark:bg-amber-950/40' : ''
+                }`}
+              >
+                <td className="p-2 whitespace-nowrap">
+                  {formatPlanDay(startDate, d.day)}
+                  {d.flagged && (
+                    <span className="ml-1 text-amber-700 dark:text-amber-300" aria-label="Outside target">
+                      ⚠
+                    </span>
+                  )}
+                  {d.unknownMeals > 0 && (
+                    <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">(partial data)</span>
+                  )}
+                </td>
+                {keys.map((k) => (
+                  <Cell key={k} k={k} totals={d.totals} target={d.target} status={d.status[k]} />
+                ))}
+              </tr>
+            ))}
+            <tr className="border-t border-gray-300 dark:border-gray-700 font-medium">
+              <td className="p-2">Week</td>
+              {keys.map((k) => (
+                <Cell key={k} k={k} totals={week.totals} target={week.target} status={week.status[k]} />
+              ))}
+            </tr>
+            <tr className="text-xs text-gray-500 dark:text-gray-400">
+              <td className="p-2">Target</td>
+              {keys.map((k) => (
+                <td key={k} className="p-2 text-right whitespace-nowrap">
+                  {fmt(k, week.target[k])}
+                </td>
+              ))}
+            </tr>
+          </tbody>
+        </table>
+      </div>
+      {incomplete > 0 && (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          Some recipes don&apos;t have nutrition data yet; those days are left out of the week totals.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+'use client';
+
+import type { PlanScorecard as Scorecard, ProteinCat } from '@/lib/planner';
+
+export function proteinMixText(s: Scorecard): string {
+  const parts = (Object.keys(s.proteins) as ProteinCat[]).map((c) => `${s.proteins[c]} ${c}`);
+  return parts.length ? parts.join(' · ') : '—';
+}
+
+function Stat({ label, value, hint }: { label: string; value: string; hint?: string }) {
+  return (
+    <div className="rounded border border-gray-200 dark:border-gray-800 p-2">
+      <div className="text-xs text-gray-500 dark:text-gray-400">{label}</div>
+      <div className="font-medium text-gray-900 dark:text-gray-100">{value}</div>
+      {hint && <div className="text-xs text-gray-500 dark:text-gray-400">{hint}</div>}
+    </div>
+  );
+}
+
+/** The week at a glance: pantry use, shopping size, cost, protein mix and time. */
+export default function PlanScorecard({
+  scorecard: s,
+  planner,
+}: {
+  scorecard: Scorecard;
+  planner: 'llm' | 'heuristic' | null;
+}) {
+  const useSoonTotal = s.useSoonUsed + s.useSoonLeft;
+  return (
+    <div className="mt-6">
+      <h2 className="text-xl font-semibold mb-1 text-gray-900 dark:text-gray-100">Plan scorecard</h2>
+      {planner && (
+        <p className="mb-2 text-xs text-gray-500 dark:text-gray-400">
+          Planned by the {planner === 'llm' ? 'AI planner' : 'built-in planner'}; swaps since then are
+          included.
+        </p>
+      )}
+      <div className="grid grid-cols-2 gap-2 text-sm md:grid-cols-3">
+        <Stat label="Ingredients on hand" value={`${s.pantryCoveragePct}%`} />
+        <Stat
+          label="Use-soon items used"
+          value={useSoonTotal ? `${s.useSoonUsed} of ${useSoonTotal}` : '—'}
+          hint={s.useSoonLeft ? `${s.useSoonLeft} left to spoil` : undefined}
+        />
+        <Stat label="Items to buy" value={String(s.shoppingItems)} />
+        <Stat
+          label="Estimated cost"
+          value={s.estCost != null ? `~$${s.estCost.toFixed(2)}` : '—'}
+          hint={s.unpricedItems ? `${s.unpricedItems} not priced` : undefined}
+        />
+        <Stat
+          label="Protein mix"
+          value={proteinMixText(s)}
+          hint={`${s.vegMeals} veg · ${s.nonVegMeals} meat/fish`}
+        />
+        <Stat label="Total prep" value={`${s.prepMinutes} min`} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,138 @@
+'use client';
+
+import {
+  MEAL_SLOT_LABEL,
+  type AuditHit,
+  type MealSlot,
+  type RecipeAudit,
+  type ScoreBreakdown,
+} from '@/lib/planner';
+import type { AuditHitLite, RecipeAuditLite } from '@/lib/planner/lite';
+
+export type RecipeAuditRow = {
+  slot: MealSlot;
+  local: RecipeAudit;
+  /** What /api/llm-plan's guardrails made of it on the last AI-planned run */
+  llm: RecipeAuditLite | null;
+  /** Lowest score among the slot's picked meals (null = nothing picked) */
+  lowestPicked: number | null;
+};
+
+const SCORE_LABEL: Record<keyof ScoreBreakdown, string> = {
+  pantryCoverage: 'Pantry coverage',
+  missingItems: 'Items to buy',
+  mustUse: 'Uses “use soon” items',
+  favorite: 'Favorite',
+  time: 'Prep time',
+  softDislikes: 'Household dislikes',
+};
+
+function quote(s: string | undefined) {
+  return s ? `“${s}”` : '';
+}
+
+function describeHit(h: AuditHit | AuditHitLite): string {
+  const via = h.term && h.term !== h.value ? ` (via ${quote(h.term)})` : '';
+  switch (h.rule) {
+    case 'slot':
+      return `Not tagged as a ${h.value} recipe`;
+    case 'diet':
+      return `Breaks your ${h.value.replace(/_/g, ' ')} diet: ${quote(h.matched)}${via}`;
+    case 'allergy':
+      return `Allergy ${quote(h.value.replace(/_/g, ' '))}: ${quote(h.matched)}${via}`;
+    case 'dislike':
+      return `Disliked ${quote(h.value)}: ${quote(h.matched)}`;
+    case 'soft_dislike':
+      return `Some of the household dislike ${quote(h.value)}: ${quote(h.matched)}`;
+    case 'time':
+      return `Takes ${h.matched} (your limit is ${h.value})`;
+    case 'cooldown':
+      return `Served recently (${h.value}); resting for the rotation cool-down`;
+    case 'pantry_only':
+      return `Not in your pantry: ${quote(h.matched)}`;
+    case 'locked':
+      return 'Already locked in this week';
+  }
+}
+
+function Hits({ hits }: { hits: Array<AuditHit | AuditHitLite> }) {
+  if (!hits.length) return <p className="text-gray-600 dark:text-gray-400">No rule applies to it.</p>;
+  return (
+    <ul className="list-disc pl-5 space-y-0.5">
+      {hits.map((h, i) => (
+        <li key={i}>
+          {describeHit(h)}
+          <span className="ml-1 text-xs text-gray-500 dark:text-gray-400">
+            {h.hard ? '(excludes)' : '(lowers score)'}
+          </span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+function status(row: RecipeAuditRow): string {
+  const { local, lowestPicked } = row;
+  if (local.picked) return 'On this week’s plan.';
+  if (!local.eligible) return 'Left out: it breaks a rule below.';
+  if (local.score && lowestPicked != null) {
+    return `Allowed, but outranked: scores ${local.score.total.toFixed(1)} vs ${lowestPicked.toFixed(1)} for the lowest pick.`;
+  }
+  return 'Allowed, but other recipes ranked higher.';
+}
+
+export default function RecipeAuditPanel({
+  rows,
+  loading,
+}: {
+  rows: RecipeAuditRow[];
+  loading: boolean;
+}) {
+  if (loading) return <p className="text-sm text-gray-600 dark:text-gray-400">Checking…</p>;
+
+  return (
+    <div className="space-y-4 text-sm">
+      {rows.map((row) => (
+        <section key={row.slot}>
+          <h4 className="font-medium text-gray-900 dark:text-gray-100">{MEAL_SLOT_LABEL[row.slot]}</h4>
+          <p className="mb-1">{status(row)}</p>
+          <Hits hits={row.local.hits} />
+
+          {row.local.score && (
+            <table className="mt-2 text-xs">
+              <tbody>
+                {(Object.keys(SCORE_LABEL) as Array<keyof ScoreBreakdown>)
+                  .filter((k) => row.local.score![k] !== 0)
+                  .map((k) => (
+                    <tr key={k}>
+                      <td className="pr-3 text-gray-600 dark:text-gray-400">{SCORE_LABEL[k]}</td>
+                      <td className="text-right tabular-nums">{row.local.score![k].toFixed(1)}</td>
+                    </tr>
+                  ))}
+                <tr className="font-medium">
+                  <td className="pr-3">Total</td>
+                  <td className="text-right tabular-nums">{row.local.score.total.toFixed(1)}</td>
+                </tr>
+              </tbody>
+            </table>
+          )}
+
+          {row.llm && (
+            <div className="mt-2 rounded border border-gray-200 dark:border-gray-800 p-2">
+              <div className="text-xs font-medium text-gray-700 dark:text-gray-300">
+                AI planner (last run):{' '}
+                {row.llm.picked ? 'picked it' : row.llm.eligible ? 'allowed it, chose others' : 'blocked it'}
+                {row.llm.score ? ` · score ${row.llm.score.total.toFixed(1)}` : ''}
+              </div>
+              {row.llm.hits.length > 0 && (
+                <div className="mt-1">
+                  <Hits hits={row.llm.hits} />
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+'use client';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { supabase } from '@/lib/supabase';
+import type { ShoppingItem } from '@/lib/shopping';
+import {
+  applyItemStates,
+  itemStateFromRow,
+  shoppingItemKey,
+  staleItemKeys,
+  EMPTY_ITEM_STATE,
+  type ShoppingItemRow,
+  type ShoppingItemState,
+} from '@/lib/shoppingListState';
+
+/**
+ * Saved, checkable shopping list for a plan. `items` is the list as the page
+ * computed it; per-item state (checked / qty edit / removed) lives in
+ * shopping_list_items and syncs live between devices over Supabase realtime.
+ * Without a plan or user it's a plain in-memory list.
+ * `recipesKey` identifies the plan's recipes; saved rows are only pruned
+ * after it changes (see the save effect).
+ */
+export function useShoppingListSync(
+  planId: string | null,
+  userId: string | null,
+  items: ShoppingItem[],
+  recipesKey: string,
+) {
+  const [listId, setListId] = useState<string | null>(null);
+  const [states, setStates] = useState<Map<string, ShoppingItemState>>(() => new Map());
+  const [failed, setFailed] = useState(false);
+  const listIdRef = useRef<string | null>(null);
+
+  const loadStates = useCallback(async (id: string) => {
+    const { data, error } = await supabase
+      .from('shopping_list_items')
+      .select('item_key, checked, removed, qty_override')
+      .eq('list_id', id);
+    if (error) {
+      console.warn('[SHOPPING] Load list state failed:', error);
+      return;
+    }
+    if (listIdRef.current !== id) return;
+    setStates(new Map((data as ShoppingItemRow[]).map((r) => [r.item_key, itemStateFromRow(r)])));
+  }, []);
+
+  // One list row per plan, created on first open
+  useEffect(() => {
+    let cancelled = false;
+    listIdRef.current = null;
+    setListId(null);
+    setStates(new Map());
+    setFailed(false);
+    if (!planId || !userId) return;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from('shopping_lists')
+        .upsert({ user_id: userId, meal_plan_id: planId }, { onConflict: 'meal_plan_id' })
+        .select('id')
+        .single();
+      if (cancelled) return;
+      if (error || !data) {
+        console.warn('[SHOPPING] Open saved list failed:', error);
+        setFailed(true);
+        return;
+      }
+      listIdRef.current = data.id;
+      setListId(data.id);
+      await loadStates(data.id);
+    })();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [planId, userId, loadStates]);
+
+  // Live updates from other devices; a refetch on focus covers dropped events
+  useEffect(() => {
+    if (!listId) return;
+    const channel = supabase
+      .channel(`shopping_list_items:${listId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'shopping_list_items', filter: `list_id=eq.${listId}` },
+        (payload) => {
+          setStates((prev) => {
+            const next = new Map(prev);
+            if (payload.eventType === 'DELETE') {
+              const key = (payload.old as Partial<ShoppingItemRow>).item_key;
+              if (key) next.delete(key);
+            } else {
+              const row = payload.new as ShoppingItemRow;
+              next.set(row.item_key, itemStateFromRow(row));
+            }
+            return next;
+          });
+        },
+      )
+      .subscribe();
+
+    const onVis = () => {
+      if (document.visibilityState === 'visible') void loadStates(listId);
+    };
+    document.addEventListener('visibilitychange', onVis);
+
+    return () => {
+      document.removeEventListener('visibilitychange', onVis);
+      void supabase.removeChannel(channel);
+    };
+  }, [listId, loadStates]);
+
+  // Save the computed list; state columns are left alone so edits survive a rebuild.
+  // An empty list is skipped: it's what the page has before recipes load.
+  const savedSigRef = useRef('');
+  // Recipes the saved rows were last pruned for (null = not yet this session).
+  // Read through a ref so a prune waits for the list built from the new recipes.
+  const recipesKeyRef = useRef(recipesKey);
+  useEffect(() => {
+    recipesKeyRef.current = recipesKey;
+  }, [recipesKey]);
+  const prunedForRef = useRef<{ listId: string; recipesKey: string } | null>(null);
+
+  useEffect(() => {
+    if (!listId || !items.length) return;
+    const rows = items.map((it) => ({
+      list_id: listId,
+      item_key: shoppingItemKey(it),
+      name: it.name,
+      qty: it.qty,
+      unit: it.unit,
+      category: it.category ?? null,
+    }));
+    const sig = `${listId}|${JSON.stringify(rows.map((r) => [r.item_key, r.qty]))}`;
+    if (sig === savedSigRef.current) return;
+    savedSigRef.current = sig;
+
+    // The first save for a list only records the recipes: extras and pantry
+    // may still be loading, so the list can be short of what's saved
+    const key = recipesKeyRef.current;
+    const last = prunedForRef.current;
+    const fresh = !last || last.listId !== listId;
+    const prune = !fresh && last.recipesKey !== key;
+    if (fresh || prune) prunedForRef.current = { listId, recipesKey: key };
+
+    (async () => {
+      const { error } = await supabase
+        .from('shopping_list_items')
+        .upsert(rows, { onConflict: 'list_id,item_key' });
+      if (error) {
+        console.warn('[SHOPPING] Save list failed:', error);
+        return;
+      }
+      if (!prune) return;
+
+      // Items the new recipes no longer need; rows someone ticked, edited or
+      // removed are kept (and stay hidden while they're off the list)
+      const { data: saved, error: loadErr } = await supabase
+        .from('shopping_list_items')
+        .select('item_key, checked, removed, qty_override')
+        .eq('list_id', listId);
+      if (loadErr) {
+        console.warn('[SHOPPING] Prune list failed:', loadErr);
+        return;
+      }
+      const stale = staleItemKeys(saved as ShoppingItemRow[], rows.map((r) => r.item_key));
+      if (!stale.length) return;
+      const { error: delErr } = await supabase
+        .from('shopping_list_items')
+        .delete()
+        .eq('list_id', listId)
+        .in('item_key', stale)
+        // Re-checked here so a tick from another device in the meantime survives
+        .eq('checked', false)
+        .eq('removed', false)
+        .is('qty_override', null);
+      if (delErr) console.warn('[SHOPPING] Prune list failed:', delErr);
+    })();
+  }, [listId, items]);
+
+  const setItemState = useCallback(
+    async (item: ShoppingItem, patch: Partial<ShoppingItemState>) => {
+      const key = shoppingItemKey(item);
+      const next = { ...(states.get(key) ?? EMPTY_ITEM_STATE), ...patch };
+      setStates((prev) => new Map(prev).set(key, next));
+      if (!listId) return;
+
+      const { error } = await supabase.from('shopping_list_items').upsert(
+        {
+          list_id: listId,
+          item_key: key,
+          name: item.name,
+          unit: item.unit,
+          ...next,
+          updated_at: new Date().toISOString(),
+        },
+        { onConflict: 'list_id,item_key' },
+      );
+      if (error) {
+        console.error('[SHOPPING] Save item failed:', error);
+        void loadStates(listId);
+      }
+    },
+    [states, listId, loadStates],
+  );
+
+  const tracked = useMemo(() => applyItemStates(items, states), [items, states]);
+
+  return { items: tracked, synced: !!listId, failed, setItemState };
+}
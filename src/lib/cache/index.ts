@@ -0,0 +1,28 @@
+// src/lib/cache/index.ts
+// Backend selection (env):
+//   CACHE_BACKEND  memory | supabase
+//                  default: supabase when SUPABASE_SERVICE_ROLE_KEY is set, else memory
+import { hasSupabaseAdminConfig } from '@/lib/supabaseAdmin';
+import { createMemoryCache } from './memory';
+import { createSupabaseCache } from './supabase';
+import type { CacheBackend, JsonCache } from './types';
+
+export type { CacheBackend, CacheStats, JsonCache } from './types';
+
+function readBackend(): CacheBackend {
+  const raw = (process.env.CACHE_BACKEND ?? '').toLowerCase().trim();
+  if (raw === 'memory') return 'memory';
+  if (raw === 'supabase') {
+    if (hasSupabaseAdminConfig()) return 'supabase';
+    console.warn('[CACHE] CACHE_BACKEND=supabase but SUPABASE_SERVICE_ROLE_KEY is missing; using memory.');
+    return 'memory';
+  }
+  if (raw) console.warn(`[CACHE] Unknown CACHE_BACKEND '${raw}'; using the default.`);
+  return hasSupabaseAdminConfig() ? 'supabase' : 'memory';
+}
+
+export function getCache<V>(namespace: string, opts: { maxEntries?: number } = {}): JsonCache<V> {
+  return readBackend() === 'supabase'
+    ? createSupabaseCache<V>(namespace)
+    : createMemoryCache<V>(namespace, opts);
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createMemoryCache } from './memory';
+
+// Stores live on globalThis, so every test gets its own namespace
+let n = 0;
+const fresh = (maxEntries?: number) => createMemoryCache<string>(`memory-test-${++n}`, { maxEntries });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(Date.parse('2026-03-02T12:00:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createMemoryCache', () => {
+  it('returns a stored value until it expires', async () => {
+    const cache = fresh();
+    await cache.set('k', 'v', 1000);
+    expect(await cache.get('k')).toBe('v');
+
+    vi.advanceTimersByTime(1000);
+    expect(await cache.get('k')).toBeNull();
+  });
+
+  it('evicts the oldest entries past maxEntries', async () => {
+    const cache = fresh(2);
+    await cache.set('a', '1', 60_000);
+    await cache.set('b', '2', 60_000);
+    await cache.set('c', '3', 60_000);
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('c')).toBe('3');
+  });
+
+  it('shares entries between instances of one namespace', async () => {
+    const a = createMemoryCache<string>('memory-test-shared');
+    const b = createMemoryCache<string>('memory-test-shared');
+    await a.set('k', 'v', 60_000);
+    expect(await b.get('k')).toBe('v');
+    await b.purge();
+  });
+
+  it('purges everything and reports the count', async () => {
+    const cache = fresh();
+    await cache.set('a', '1', 60_000);
+    await cache.set('b', '2', 60_000);
+    expect(await cache.purge()).toBe(2);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('counts hits, misses, writes and live entries', async () => {
+    const cache = fresh();
+    await cache.set('k', 'v', 60_000);
+    await cache.get('k');
+    await cache.get('nope');
+    expect(await cache.stats()).toEqual({
+      backend: 'memory',
+      namespace: cache.namespace,
+      hits: 1,
+      misses: 1,
+      writes: 1,
+      errors: 0,
+      entries: 1,
+    });
+  });
+});
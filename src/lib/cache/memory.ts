@@ -0,0 +1,69 @@
+// src/lib/cache/memory.ts
+// Process-local cache (the original llm-plan Map). Great locally and on warm
+// instances; cold starts begin empty.
+import { cacheCounters } from './metrics';
+import type { JsonCache } from './types';
+
+type Entry<V> = { expiresAt: number; value: V };
+
+// Keep entries across requests (and dev hot reloads) in the same Node.js process
+const g = globalThis as unknown as { __mc_memoryCaches?: Map<string, Map<string, Entry<unknown>>> };
+const stores = (g.__mc_memoryCaches ??= new Map());
+
+export function createMemoryCache<V>(
+  namespace: string,
+  opts: { maxEntries?: number } = {},
+): JsonCache<V> {
+  const maxEntries = opts.maxEntries ?? 200;
+  let store = stores.get(namespace) as Map<string, Entry<V>> | undefined;
+  if (!store) {
+    store = new Map<string, Entry<V>>();
+    stores.set(namespace, store as Map<string, Entry<unknown>>);
+  }
+  const entries = store;
+  const counters = cacheCounters(`memory:${namespace}`);
+
+  function prune(now: number) {
+    // Remove expired
+    for (const [k, v] of entries.entries()) {
+      if (v.expiresAt <= now) entries.delete(k);
+    }
+
+    // Cap size (simple FIFO eviction)
+    while (entries.size > maxEntries) {
+      const firstKey = entries.keys().next().value as string | undefined;
+      if (!firstKey) break;
+      entries.delete(firstKey);
+    }
+  }
+
+  return {
+    backend: 'memory',
+    namespace,
+    async get(key) {
+      const now = Date.now();
+      prune(now);
+      const hit = entries.get(key);
+      if (hit && hit.expiresAt > now) {
+        counters.hits += 1;
+        return hit.value;
+      }
+      counters.misses += 1;
+      return null;
+    },
+    async set(key, value, ttlMs) {
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      counters.writes += 1;
+      prune(Date.now());
+    },
+    async purge() {
+      const n = entries.size;
+      entries.clear();
+      return n;
+    },
+    async stats() {
+      prune(Date.now());
+      return { backend: 'memory', namespace, ...counters, entries: entries.size };
+    },
+  };
+}
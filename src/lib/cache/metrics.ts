@@ -0,0 +1,17 @@
+// src/lib/cache/metrics.ts
+// Per-process counters. Kept on globalThis so dev hot reloads don't reset them.
+import type { CacheStats } from './types';
+
+type Counters = Pick<CacheStats, 'hits' | 'misses' | 'writes' | 'errors'>;
+
+const g = globalThis as unknown as { __mc_cacheCounters?: Map<string, Counters> };
+const all = (g.__mc_cacheCounters ??= new Map<string, Counters>());
+
+export function cacheCounters(id: string): Counters {
+  let c = all.get(id);
+  if (!c) {
+    c = { hits: 0, misses: 0, writes: 0, errors: 0 };
+    all.set(id, c);
+  }
+  return c;
+}
@@ -0,0 +1,105 @@
+// src/lib/cache/supabase.ts
+// Durable cache in public.cache_entries (see supabase/migrations/*_cache_entries.sql).
+// Uses the service role key: the table has RLS on and no policies, so browsers
+// can neither read nor poison it. Every failure degrades to a miss.
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import { cacheCounters } from './metrics';
+import type { JsonCache } from './types';
+
+const TABLE = 'cache_entries';
+
+export function createSupabaseCache<V>(namespace: string): JsonCache<V> {
+  const counters = cacheCounters(`supabase:${namespace}`);
+
+  return {
+    backend: 'supabase',
+    namespace,
+    async get(key) {
+      try {
+        const { data, error } = await getSupabaseAdmin()
+          .from(TABLE)
+          .select('value, expires_at')
+          .eq('namespace', namespace)
+          .eq('key', key)
+          .gt('expires_at', new Date().toISOString())
+          .maybeSingle<{ value: V; expires_at: string }>();
+
+        if (error) throw error;
+        if (!data) {
+          counters.misses += 1;
+          return null;
+        }
+
+        counters.hits += 1;
+        // Durable hit counter; fire-and-forget
+        void getSupabaseAdmin()
+          .rpc('cache_entry_hit', { p_namespace: namespace, p_key: key })
+          .then(({ error: hitErr }) => {
+            if (hitErr) console.warn('[CACHE] hit counter failed:', hitErr.message);
+          });
+        return data.value;
+      } catch (e) {
+        counters.errors += 1;
+        counters.misses += 1;
+        console.error('[CACHE] supabase get failed:', e);
+        return null;
+      }
+    },
+    async set(key, value, ttlMs) {
+      try {
+        const client = getSupabaseAdmin();
+        const { error } = await client.from(TABLE).upsert(
+          {
+            namespace,
+            key,
+            value,
+            expires_at: new Date(Date.now() + ttlMs).toISOString(),
+            hit_count: 0,
+            last_hit_at: null,
+          },
+          { onConflict: 'namespace,key' },
+        );
+        if (error) throw error;
+        counters.writes += 1;
+
+        // Opportunistic cleanup of expired rows for this namespace
+        await client
+          .from(TABLE)
+          .delete()
+          .eq('namespace', namespace)
+          .lte('expires_at', new Date().toISOString());
+      } catch (e) {
+        counters.errors += 1;
+        console.error('[CACHE] supabase set failed:', e);
+      }
+    },
+    async purge() {
+      const { error, count } = await getSupabaseAdmin()
+        .from(TABLE)
+        .delete({ count: 'exact' })
+        .eq('namespace', namespace);
+      if (error) throw new Error(error.message);
+      return count ?? 0;
+    },
+    async stats() {
+      const base = { backend: 'supabase' as const, namespace, ...counters };
+      try {
+        const { data, error } = await getSupabaseAdmin()
+          .from(TABLE)
+          .select('hit_count')
+          .eq('namespace', namespace)
+          .gt('expires_at', new Date().toISOString());
+        if (error) throw error;
+        const rows = (data ?? []) as Array<{ hit_count: number | null }>;
+        return {
+          ...base,
+          entries: rows.length,
+          totalHits: rows.reduce((n, r) => n + (r.hit_count ?? 0), 0),
+        };
+      } catch (e) {
+        console.error('[CACHE] supabase stats failed:', e);
+        return base;
+      }
+    },
+  };
+}
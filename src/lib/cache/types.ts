@@ -0,0 +1,27 @@
+// src/lib/cache/types.ts
+
+export type CacheBackend = 'memory' | 'supabase';
+
+export type CacheStats = {
+  backend: CacheBackend;
+  namespace: string;
+  /** Counters since this process started */
+  hits: number;
+  misses: number;
+  writes: number;
+  errors: number;
+  /** Live (unexpired) entries, when the backend can tell cheaply */
+  entries?: number;
+  /** Durable hit total across all instances (supabase only) */
+  totalHits?: number;
+};
+
+export interface JsonCache<V> {
+  backend: CacheBackend;
+  namespace: string;
+  get(key: string): Promise<V | null>;
+  set(key: string, value: V, ttlMs: number): Promise<void>;
+  /** Drop every entry in this namespace; returns how many were removed */
+  purge(): Promise<number>;
+  stats(): Promise<CacheStats>;
+}
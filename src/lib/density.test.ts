@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { gramsPerCup } from './density';
+
+describe('gramsPerCup', () => {
+  it.each([
+    // Multi-word names win over the grain/dairy word they contain
+    ['oat milk', 240],
+    ['almond milk', 240],
+    ['rice milk', 240],
+    ['rice vinegar', 240],
+    ['rice wine', 240],
+    ['cream cheese', 232],
+    ['peanut butter', 258],
+    ['brown sugar', 213],
+    ['almond flour', 100],
+    // Single words
+    ['rolled oats', 90],
+    ['brown rice', 185],
+    ['flour', 125],
+    ['butter', 227],
+    ['cheddar cheese', 113],
+    ['heavy cream', 240],
+    ['olive oil', 218],
+  ])('%s → %i g', (name, g) => {
+    expect(gramsPerCup(name)).toBe(g);
+  });
+
+  it('falls back to the category, and not for spices', () => {
+    expect(gramsPerCup('farro', 'grains')).toBe(185);
+    expect(gramsPerCup('cumin', 'spices')).toBeNull();
+    expect(gramsPerCup('mystery')).toBeNull();
+  });
+});
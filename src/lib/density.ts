@@ -0,0 +1,63 @@
+// src/lib/density.ts
+// Grams per cup, so a cup measure and a weight of the same ingredient can be
+// added up ("2 cups flour" + "500 g flour") or netted against the pantry
+// ("1 lb rice" on hand vs "1.5 cups rice" needed). Anything converted this
+// way is an estimate, and results say so.
+import type { PantryCategory } from '@/lib/pantryCategorizer';
+
+export const G_PER_OZ = 28.3495;
+export const ML_PER_CUP = 236.588;
+
+// First match wins, so specific names go before the words they contain:
+// liquids and spreads named after a grain or dairy word come first
+// ("oat milk", "rice vinegar", "cream cheese")
+const DENSITY_TABLE: Array<[RegExp, number]> = [
+  [/\b(oat|rice|almond|soy|coconut|cashew) milk\b/, 240],
+  [/\b(broth|stock|water|juice|vinegar|wine)\b/, 240],
+  [/\bcream cheese\b/, 232],
+  [/\b(peanut|almond) butter\b/, 258],
+  [/\b(brown|powdered|confectioners) sugar\b/, 213],
+  [/\bsugar\b/, 200],
+  [/\b(almond|coconut) flour\b/, 100],
+  [/\bflour\b/, 125],
+  [/\b(cornstarch|corn starch)\b/, 128],
+  [/\bcocoa\b/, 85],
+  [/\b(oat|oats|rolled oats)\b/, 90],
+  [/\b(rice)\b/, 185],
+  [/\bquinoa\b/, 170],
+  [/\b(couscous|bulgur)\b/, 175],
+  [/\blentils?\b/, 190],
+  [/\b(breadcrumbs?|panko)\b/, 108],
+  [/\b(honey|maple syrup|molasses)\b/, 340],
+  [/\bbutter\b/, 227],
+  [/\boil\b/, 218],
+  [/\b(parmesan|pecorino)\b/, 100],
+  [/\bcheese\b/, 113],
+  [/\b(yogurt|sour cream)\b/, 245],
+  [/\b(milk|cream|buttermilk)\b/, 240],
+  [/\b(nuts?|almonds?|walnuts?|pecans?|cashews?)\b/, 120],
+  [/\b(raisins?|cranberries)\b/, 150],
+  [/\b(spinach|kale|arugula|lettuce|greens)\b/, 30],
+];
+
+// Rough, for names the table doesn't know; spices are left out so they
+// stay in spoons
+const CATEGORY_DENSITY: Partial<Record<PantryCategory, number>> = {
+  grains: 185,
+  legumes: 190,
+  dairy: 240,
+  baking: 150,
+  condiments: 250,
+  canned: 240,
+  beverages: 240,
+  frozen: 140,
+  produce: 150,
+  protein: 225,
+};
+
+/** Grams per cup for an ingredient (normalized name), from the table or its category. */
+export function gramsPerCup(name: string, category?: PantryCategory): number | null {
+  const hit = DENSITY_TABLE.find(([re]) => re.test(name));
+  if (hit) return hit[1];
+  return (category && CATEGORY_DENSITY[category]) ?? null;
+}
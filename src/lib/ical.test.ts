@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildCalendar, escapeIcsText } from './ical';
+
+const NOW = new Date(Date.UTC(2025, 9, 20, 22, 30, 0));
+
+describe('escapeIcsText', () => {
+  it('escapes backslashes, separators and newlines', () => {
+    expect(escapeIcsText('Rice; beans, salsa\\lime\nserve hot')).toBe(
+      'Rice\\; beans\\, salsa\\\\lime\\nserve hot',
+    );
+  });
+});
+
+describe('buildCalendar', () => {
+  const event = {
+    uid: 'plan-1-0-dinner@mealcue',
+    start: new Date(2025, 9, 20, 18, 0),
+    end: new Date(2025, 9, 20, 18, 30),
+    summary: 'Dinner: Tacos, fish',
+    description: 'Prep time: 30 min\nhttps://example.com/plan?open=r1',
+    url: 'https://example.com/plan?open=r1',
+  };
+
+  it('writes one VEVENT per event with floating local times', () => {
+    const ics = buildCalendar({ name: 'MealCue dinners', events: [event], now: NOW });
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(lines).toContain('X-WR-CALNAME:MealCue dinners');
+    expect(lines).toContain('BEGIN:VEVENT');
+    expect(lines).toContain('UID:plan-1-0-dinner@mealcue');
+    expect(lines).toContain('DTSTAMP:20251020T223000Z');
+    expect(lines).toContain('DTSTART:20251020T180000');
+    expect(lines).toContain('DTEND:20251020T183000');
+    expect(lines).toContain('SUMMARY:Dinner: Tacos\\, fish');
+    expect(lines).toContain('URL:https://example.com/plan?open=r1');
+    expect(ics.endsWith('END:VEVENT\r\nEND:VCALENDAR\r\n')).toBe(true);
+  });
+
+  it('leaves out optional fields', () => {
+    const ics = buildCalendar({
+      name: 'x',
+      events: [{ ...event, description: undefined, url: undefined }],
+      now: NOW,
+    });
+    expect(ics).not.toContain('DESCRIPTION:');
+    expect(ics).not.toContain('URL:');
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const ics = buildCalendar({ name: 'x', events: [{ ...event, summary: 'é'.repeat(60) }], now: NOW });
+    const lines = ics.split('\r\n');
+    const i = lines.findIndex((l) => l.startsWith('SUMMARY:'));
+    expect(lines[i + 1].startsWith(' ')).toBe(true);
+    for (const l of lines) expect(new TextEncoder().encode(l).length).toBeLessThanOrEqual(75);
+    expect(ics.replace(/\r\n /g, '')).toContain(`SUMMARY:${'é'.repeat(60)}`);
+  });
+});
@@ -0,0 +1,96 @@
+// src/lib/ical.ts
+// Minimal iCalendar (RFC 5545) writer — just enough for a subscribable feed.
+
+export type IcsEvent = {
+  uid: string;
+  /** Floating local times: calendar apps show them in the viewer's time zone */
+  start: Date;
+  end: Date;
+  summary: string;
+  description?: string;
+  url?: string;
+};
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+// 20251020T183000 (no Z → floating)
+function formatLocal(d: Date): string {
+  return (
+    `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}` +
+    `T${pad(d.getHours())}${pad(d.getMinutes())}00`
+  );
+}
+
+// 20251020T223000Z
+function formatUtc(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function escapeIcsText(s: string): string {
+  return String(s ?? '')
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets are folded with CRLF + space
+function foldLine(line: string): string {
+  const bytes = new TextEncoder().encode(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let cur = '';
+  let curLen = 0;
+  for (const ch of line) {
+    const len = new TextEncoder().encode(ch).length;
+    // First line gets 75 octets; continuation lines lose one to the leading space
+    if (curLen + len > (parts.length ? 74 : 75)) {
+      parts.push(cur);
+      cur = '';
+      curLen = 0;
+    }
+    cur += ch;
+    curLen += len;
+  }
+  if (cur) parts.push(cur);
+  return parts.join('\r\n ');
+}
+
+export function buildCalendar(opts: {
+  name: string;
+  events: IcsEvent[];
+  now?: Date;
+}): string {
+  const stamp = formatUtc(opts.now ?? new Date());
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//MealCue//Meal Plan//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeIcsText(opts.name)}`,
+    // Hint for subscribing clients; most poll on their own schedule anyway
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+  ];
+
+  for (const ev of opts.events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${escapeIcsText(ev.uid)}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatLocal(ev.start)}`,
+      `DTEND:${formatLocal(ev.end)}`,
+      `SUMMARY:${escapeIcsText(ev.summary)}`,
+    );
+    if (ev.description) lines.push(`DESCRIPTION:${escapeIcsText(ev.description)}`);
+    if (ev.url) lines.push(`URL:${ev.url}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { describeLlmProvider, getLlmProvider } from './index';
+import { createMockProvider } from './mock';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('getLlmProvider', () => {
+  it('picks the provider and model from env', () => {
+    vi.stubEnv('LLM_PROVIDER', 'mock');
+    vi.stubEnv('LLM_MODEL', '');
+    expect(describeLlmProvider(getLlmProvider())).toBe('mock/fixtures');
+
+    vi.stubEnv('LLM_PROVIDER', 'openai_compatible');
+    vi.stubEnv('LLM_MODEL', 'llama3');
+    vi.stubEnv('LLM_BASE_URL', 'http://localhost:11434/v1');
+    expect(describeLlmProvider(getLlmProvider())).toBe('openai_compatible/llama3');
+  });
+
+  it('throws on bad configuration', () => {
+    vi.stubEnv('LLM_PROVIDER', 'claude');
+    expect(() => getLlmProvider()).toThrow(/Unknown LLM_PROVIDER 'claude'/);
+
+    vi.stubEnv('LLM_PROVIDER', 'openai_compatible');
+    vi.stubEnv('LLM_BASE_URL', '');
+    expect(() => getLlmProvider()).toThrow(/LLM_BASE_URL/);
+
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('LLM_API_KEY', '');
+    vi.stubEnv('OPENAI_API_KEY', '');
+    expect(() => getLlmProvider()).toThrow(/OPENAI_API_KEY/);
+  });
+});
+
+describe('mock provider', () => {
+  const ask = (content: string) =>
+    createMockProvider().complete({ json: true, messages: [{ role: 'user', content }] });
+
+  it('answers the plan prompt with the first ids by sort order, skipping locked ones', async () => {
+    const res = await ask(
+      JSON.stringify({ days: 2, recipes: [{ id: 'c' }, { id: 'a' }, { id: 'b' }], lockedRecipeIds: ['a'] }),
+    );
+    expect(res.ok && JSON.parse(res.text).recipeIds).toEqual(['b', 'c']);
+  });
+
+  it('answers non-JSON prompts with an empty pick', async () => {
+    const res = await ask('hello');
+    expect(res.ok && JSON.parse(res.text).recipeIds).toEqual([]);
+  });
+
+  it('estimates token usage at about four characters a token', async () => {
+    const res = await ask('x'.repeat(40));
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.usage).toEqual({
+      promptTokens: 10,
+      completionTokens: Math.ceil(res.text.length / 4),
+      totalTokens: 10 + Math.ceil(res.text.length / 4),
+    });
+  });
+});
@@ -0,0 +1,53 @@
+// src/lib/llm/index.ts
+// Provider selection for server routes. Configuration (env):
+//   LLM_PROVIDER   openai (default) | openai_compatible | mock
+//   LLM_MODEL      model id (default gpt-4o-mini; mock defaults to "fixtures")
+//   LLM_BASE_URL   required for openai_compatible, e.g. http://localhost:11434/v1
+//   LLM_API_KEY    falls back to OPENAI_API_KEY; optional for openai_compatible
+//   LLM_MOCK_FIXTURES  JSON fixtures file for the mock provider
+import { createMockProvider } from './mock';
+import { createOpenAIProvider } from './openai';
+import type { LlmProvider, LlmProviderName } from './types';
+
+export type {
+  ChatMessage,
+  ChatRequest,
+  ChatResult,
+  LlmProvider,
+  LlmProviderName,
+  LlmUsage,
+} from './types';
+
+const DEFAULT_MODEL = 'gpt-4o-mini';
+
+function readProviderName(): LlmProviderName {
+  const raw = (process.env.LLM_PROVIDER ?? '').toLowerCase().trim();
+  if (!raw || raw === 'openai') return 'openai';
+  if (raw === 'openai_compatible' || raw === 'mock') return raw;
+  throw new Error(`Unknown LLM_PROVIDER '${raw}' (expected openai, openai_compatible or mock)`);
+}
+
+/** Build the configured provider. Throws on missing/invalid configuration. */
+export function getLlmProvider(): LlmProvider {
+  const name = readProviderName();
+  const model = process.env.LLM_MODEL?.trim() || '';
+  const apiKey = process.env.LLM_API_KEY || process.env.OPENAI_API_KEY || '';
+
+  if (name === 'mock') {
+    return createMockProvider({ model, fixturesFile: process.env.LLM_MOCK_FIXTURES });
+  }
+
+  if (name === 'openai_compatible') {
+    const baseUrl = process.env.LLM_BASE_URL?.trim();
+    if (!baseUrl) throw new Error('Missing LLM_BASE_URL for LLM_PROVIDER=openai_compatible');
+    return createOpenAIProvider({ name, baseUrl, apiKey, model: model || DEFAULT_MODEL });
+  }
+
+  if (!apiKey) throw new Error('Missing OPENAI_API_KEY');
+  return createOpenAIProvider({ name, apiKey, model: model || DEFAULT_MODEL });
+}
+
+/** "openai/gpt-4o-mini" — used in cache keys and response `detail`. */
+export function describeLlmProvider(p: Pick<LlmProvider, 'name' | 'model'>): string {
+  return `${p.name}/${p.model}`;
+}
@@ -0,0 +1,85 @@
+// src/lib/llm/mock.ts
+// Deterministic in-process provider for offline dev and automated runs.
+//
+// Fixtures (optional): LLM_MOCK_FIXTURES=path/to/fixtures.json
+//   [
+//     { "match": "\"slot\":\"breakfast\"", "response": { "recipeIds": ["..."] } },
+//     { "response": "{\"recipeIds\": []}" }
+//   ]
+// The first entry whose `match` appears in the last user message wins (no
+// `match` = catch-all). `response` can be an object (sent as JSON) or raw text.
+// With no fixture hit we answer like the plan prompt expects: the first `days`
+// recipe ids sorted by id, skipping locked ones.
+import fs from 'node:fs';
+import path from 'node:path';
+import type { ChatRequest, ChatResult, LlmProvider, LlmUsage } from './types';
+
+export type MockFixture = {
+  match?: string;
+  response: unknown;
+};
+
+function loadFixtures(file: string | undefined): MockFixture[] {
+  if (!file || !file.trim()) return [];
+  const full = path.resolve(process.cwd(), file);
+  try {
+    const parsed = JSON.parse(fs.readFileSync(full, 'utf8'));
+    if (!Array.isArray(parsed)) {
+      console.warn(`[LLM] mock fixtures at '${full}' are not an array; ignoring.`);
+      return [];
+    }
+    return parsed.filter((f): f is MockFixture => !!f && typeof f === 'object' && 'response' in f);
+  } catch (e) {
+    console.error(`[LLM] Failed to read mock fixtures '${full}':`, e);
+    return [];
+  }
+}
+
+function defaultPlanResponse(userContent: string): string {
+  let body: { recipes?: Array<{ id?: unknown }>; days?: unknown; lockedRecipeIds?: unknown } = {};
+  try {
+    body = JSON.parse(userContent);
+  } catch {
+    // not JSON — fall through with an empty pick
+  }
+
+  const locked = new Set(Array.isArray(body.lockedRecipeIds) ? body.lockedRecipeIds.map(String) : []);
+  const days = typeof body.days === 'number' ? body.days : 7;
+  const recipeIds = (body.recipes ?? [])
+    .map((r) => String(r?.id ?? ''))
+    .filter((id) => id && !locked.has(id))
+    .sort()
+    .slice(0, days);
+
+  const reasons = Object.fromEntries(recipeIds.map((id) => [id, 'mock pick']));
+  return JSON.stringify({ recipeIds, reasons });
+}
+
+// Rough ~4 chars/token so usage accounting has something to record offline
+function estimateUsage(req: ChatRequest, text: string): LlmUsage {
+  const promptChars = req.messages.reduce((n, m) => n + m.content.length, 0);
+  const promptTokens = Math.ceil(promptChars / 4);
+  const completionTokens = Math.ceil(text.length / 4);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export function createMockProvider(opts: { model?: string; fixturesFile?: string } = {}): LlmProvider {
+  const fixtures = loadFixtures(opts.fixturesFile);
+
+  return {
+    name: 'mock',
+    model: opts.model || 'fixtures',
+    async complete(req: ChatRequest): Promise<ChatResult> {
+      const userContent = [...req.messages].reverse().find((m) => m.role === 'user')?.content ?? '';
+
+      const hit = fixtures.find((f) => !f.match || userContent.includes(f.match));
+      const text = hit
+        ? typeof hit.response === 'string'
+          ? hit.response
+          : JSON.stringify(hit.response)
+        : defaultPlanResponse(userContent);
+
+      return { ok: true, text, usage: estimateUsage(req, text) };
+    },
+  };
+}
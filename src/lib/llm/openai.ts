@@ -0,0 +1,68 @@
+// src/lib/llm/openai.ts
+// OpenAI chat completions. Also used for OpenAI-compatible servers
+// (vLLM, Ollama, LM Studio, ...) by swapping the base URL.
+import type { ChatRequest, ChatResult, LlmProvider, LlmProviderName } from './types';
+
+export const OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+type OpenAIProviderOptions = {
+  name?: LlmProviderName;
+  baseUrl?: string;
+  /** Optional for self-hosted servers that don't check auth */
+  apiKey?: string;
+  model: string;
+};
+
+export function createOpenAIProvider(opts: OpenAIProviderOptions): LlmProvider {
+  const baseUrl = (opts.baseUrl || OPENAI_BASE_URL).replace(/\/+$/, '');
+  const name = opts.name ?? 'openai';
+
+  return {
+    name,
+    model: opts.model,
+    async complete(req: ChatRequest): Promise<ChatResult> {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (opts.apiKey) headers.Authorization = `Bearer ${opts.apiKey}`;
+
+      const res = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: opts.model,
+          ...(req.json ? { response_format: { type: 'json_object' } } : {}),
+          messages: req.messages,
+        }),
+      });
+
+      if (!res.ok) {
+        const errBody = await res.text();
+        console.error(`[LLM] ${name} error:`, res.status, errBody);
+        return {
+          ok: false,
+          status: res.status,
+          error: `LLM error (status ${res.status})`,
+          detail: errBody,
+        };
+      }
+
+      const raw = await res.json();
+      const text: unknown = raw?.choices?.[0]?.message?.content ?? '';
+
+      if (!text || typeof text !== 'string') {
+        console.error(`[LLM] ${name} unexpected response format:`, raw);
+        return { ok: false, status: 502, error: 'Unexpected LLM response format' };
+      }
+
+      const u = raw?.usage;
+      const usage = u
+        ? {
+            promptTokens: Number(u.prompt_tokens) || 0,
+            completionTokens: Number(u.completion_tokens) || 0,
+            totalTokens: Number(u.total_tokens) || 0,
+          }
+        : undefined;
+
+      return { ok: true, text, usage };
+    },
+  };
+}
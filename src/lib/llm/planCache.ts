@@ -0,0 +1,19 @@
+// src/lib/llm/planCache.ts
+// Shared between /api/llm-plan and the admin purge endpoint.
+import { getCache, type JsonCache } from '@/lib/cache';
+
+export const LLM_PLAN_CACHE_NAMESPACE = 'llm-plan';
+
+// Part of every cache key. Bump when the prompt or response shape changes so
+// old entries stop matching (then purge them via /api/admin/llm-cache).
+export const LLM_PLAN_PROMPT_VERSION = 4;
+
+// Default 6h; identical household requests within that window reuse one LLM call
+export const LLM_PLAN_CACHE_TTL_MS =
+  Number(process.env.LLM_PLAN_CACHE_TTL_SECONDS) > 0
+    ? Number(process.env.LLM_PLAN_CACHE_TTL_SECONDS) * 1000
+    : 6 * 60 * 60 * 1000;
+
+export function getLlmPlanCache<V>(): JsonCache<V> {
+  return getCache<V>(LLM_PLAN_CACHE_NAMESPACE, { maxEntries: 200 });
+}
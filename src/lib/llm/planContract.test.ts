@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { LLM_PLAN_API_VERSION, parseLlmPlanRequest } from './planContract';
+
+const RECIPE = { id: 'r1', title: 'Lentil Soup', time_min: 40, diet_tags: ['vegan'], ingredients: ['lentils'] };
+
+const PREFS = { diet: 'none', allergies: [], dislikes: [], max_prep_minutes: 45 };
+
+describe('parseLlmPlanRequest', () => {
+  it('accepts a current body and fills defaults', () => {
+    const res = parseLlmPlanRequest({ apiVersion: 2, prefs: PREFS, recipes: [RECIPE] });
+    expect(res).toMatchObject({ ok: true, version: 2, data: { pantryNames: [], days: 7 } });
+  });
+
+  it('upgrades a v1 body with loose prefs', () => {
+    const res = parseLlmPlanRequest({
+      prefs: { diet: null, allergies: null, max_prep_minutes: '30', healthy_goal: 'bulk' },
+      recipes: [RECIPE],
+    });
+    expect(res.ok).toBe(true);
+    if (!res.ok) return;
+    expect(res.version).toBe(1);
+    expect(res.data.apiVersion).toBe(LLM_PLAN_API_VERSION);
+    expect(res.data.prefs).toMatchObject({
+      diet: 'none',
+      allergies: [],
+      dislikes: [],
+      max_prep_minutes: 30,
+      healthy_goal: '',
+    });
+  });
+
+  it('defaults missing v1 prefs', () => {
+    const res = parseLlmPlanRequest({ recipes: [RECIPE] });
+    expect(res.ok && res.data.prefs).toMatchObject(PREFS);
+  });
+
+  it('keeps household diets and soft dislikes', () => {
+    const prefs = { ...PREFS, diets: ['vegan', 'gluten_free'], soft_dislikes: { cilantro: 0.33 } };
+    const res = parseLlmPlanRequest({ apiVersion: 2, prefs, recipes: [RECIPE] });
+    expect(res.ok && res.data.prefs).toMatchObject(prefs);
+
+    const bad = parseLlmPlanRequest({
+      apiVersion: 2,
+      prefs: { ...prefs, soft_dislikes: { cilantro: 2 } },
+      recipes: [RECIPE],
+    });
+    expect(!bad.ok && bad.issues.map((i) => i.path)).toEqual(['prefs.soft_dislikes.cilantro']);
+  });
+
+  it('holds v2 bodies to the strict prefs schema', () => {
+    const res = parseLlmPlanRequest({ apiVersion: 2, prefs: { ...PREFS, allergies: null }, recipes: [RECIPE] });
+    expect(res.ok).toBe(false);
+    expect(!res.ok && res.issues.map((i) => i.path)).toEqual(['prefs.allergies']);
+  });
+
+  it.each([
+    [{ apiVersion: 2, prefs: PREFS, recipes: [] }, 'recipes', 'No recipes provided'],
+    [{ apiVersion: 2, prefs: PREFS, recipes: [RECIPE], days: 40 }, 'days', undefined],
+    [{ apiVersion: 3, recipes: [RECIPE] }, 'apiVersion', 'Unsupported apiVersion 3 (supported: 1, 2)'],
+    [null, '(body)', undefined],
+  ])('reports issues for %j', (raw, path, message) => {
+    const res = parseLlmPlanRequest(raw);
+    expect(res.ok).toBe(false);
+    if (res.ok) return;
+    expect(res.issues[0].path).toBe(path);
+    if (message) expect(res.issues[0].message).toBe(message);
+  });
+});
@@ -0,0 +1,221 @@
+// src/lib/llm/planContract.ts
+// Request/response contract for /api/llm-plan.
+//
+// Versions:
+//   1 — no `apiVersion` field. Prefs predate the healthy micro-survey, so
+//       healthy_* fields are absent (or junk) and list fields may be null.
+//   2 — current. Sent by the plan page as `apiVersion: 2`. Optional fields
+//       added later (nutrition targets/values) don't bump the version.
+// v1 bodies are upgraded to the v2 shape before the route sees them.
+import { z } from 'zod';
+
+export const LLM_PLAN_API_VERSION = 2;
+
+const stringList = z.array(z.string());
+
+export const HealthyProfileSchema = z.object({
+  wholeFoodFocus: z.boolean().optional(),
+  maxUltraProcessedMealsPerWeek: z.number().int().min(0).optional(),
+  maxAddedSugarPerDay: z.enum(['low', 'medium', 'no-limit']).optional(),
+  maxPrepTimePerMeal: z.number().min(0).nullable().optional(),
+  vegetarianMealsPerWeek: z.number().int().min(0).nullable().optional(),
+  kidFriendly: z.boolean().optional(),
+  budgetLevel: z.enum(['tight', 'normal', 'flexible']).optional(),
+  primaryGoal: z.enum(['feel_better', 'weight', 'metabolic']).optional(),
+  proteinPreference: z.enum(['mixed', 'lean_animal', 'plant_forward']).optional(),
+  carbBias: z.enum(['more_whole_grains', 'lower_carb', 'no_preference']).optional(),
+});
+
+const healthyGoal = z.enum(['feel_better', 'weight', 'metabolic', '']);
+const healthyProteinStyle = z.enum(['mixed', 'lean_animal', 'plant_forward', '']);
+const healthyCarbPref = z.enum(['more_whole_grains', 'lower_carb', 'no_preference', '']);
+
+const nutrientTarget = z.number().positive().nullable().optional();
+
+export const NutritionTargetsSchema = z.object({
+  period: z.enum(['day', 'week']),
+  calories: nutrientTarget,
+  protein_g: nutrientTarget,
+  fiber_g: nutrientTarget,
+  sodium_mg: nutrientTarget,
+  tolerance_pct: z.number().positive().max(100),
+});
+
+// Household dislikes held by a minority → share of members (see planner/household.ts)
+const softDislikes = z.record(z.string(), z.number().min(0).max(1));
+
+export const PrefsLiteSchema = z.object({
+  diet: z.string(),
+  diets: stringList.optional(),
+  allergies: stringList,
+  dislikes: stringList,
+  soft_dislikes: softDislikes.optional(),
+  max_prep_minutes: z.number().min(0),
+  favorite_mode: z.enum(['variety', 'favorites']).optional(),
+  healthy_whole_food: z.boolean().optional(),
+  kid_friendly: z.boolean().optional(),
+  healthy_goal: healthyGoal.optional(),
+  healthy_protein_style: healthyProteinStyle.optional(),
+  healthy_carb_pref: healthyCarbPref.optional(),
+  nutrition: NutritionTargetsSchema.nullable().optional(),
+});
+
+// Pre-micro-survey prefs: lenient on the fields old clients sent loosely,
+// and micro-survey fields are dropped to '' rather than rejected.
+const LegacyPrefsSchema = z.object({
+  diet: z.string().nullish().transform((v) => v || 'none'),
+  diets: stringList.optional().catch(undefined),
+  allergies: stringList.nullish().transform((v) => v ?? []),
+  dislikes: stringList.nullish().transform((v) => v ?? []),
+  soft_dislikes: softDislikes.optional().catch(undefined),
+  max_prep_minutes: z.coerce.number().min(0).nullish().transform((v) => v ?? 45),
+  favorite_mode: z.enum(['variety', 'favorites']).optional().catch(undefined),
+  healthy_whole_food: z.boolean().optional().catch(undefined),
+  kid_friendly: z.boolean().optional().catch(undefined),
+  healthy_goal: healthyGoal.catch(''),
+  healthy_protein_style: healthyProteinStyle.catch(''),
+  healthy_carb_pref: healthyCarbPref.catch(''),
+});
+
+export const RecipeLiteSchema = z.object({
+  id: z.string().min(1),
+  title: z.string(),
+  time_min: z.number().min(0),
+  diet_tags: stringList.nullable(),
+  ingredients: stringList,
+  is_favorite: z.boolean().optional(),
+  calories: z.number().min(0).nullable().optional(),
+  protein_g: z.number().min(0).nullable().optional(),
+  fiber_g: z.number().min(0).nullable().optional(),
+  sodium_mg: z.number().min(0).nullable().optional(),
+});
+
+// One weekday rule, per pick position (see src/lib/planner/schedule.ts)
+export const DayRuleLiteSchema = z.object({
+  weekday: z.string().optional(),
+  max_prep_minutes: z.number().positive().nullable().optional(),
+  theme: z.string().max(60).nullable().optional(),
+});
+
+const requestFields = {
+  pantryNames: stringList.default([]),
+  recipes: z.array(RecipeLiteSchema).min(1, 'No recipes provided'),
+  days: z.number().int().min(1).max(31).default(7),
+  // Which meal slot this request fills (default: dinner)
+  slot: z.enum(['breakfast', 'lunch', 'dinner']).optional(),
+  // Meals the user pinned for this slot; never returned, but they count toward the balance rules
+  lockedRecipeIds: stringList.optional(),
+  // Served in the last few weeks (rotation cool-down); avoid unless the week can't be filled otherwise
+  recentRecipeIds: stringList.optional(),
+  // dayRules[i] applies to the i-th returned recipe (null = no rule that day)
+  dayRules: z.array(DayRuleLiteSchema.nullable()).max(31).optional(),
+  // Audit mode: also explain, per recipe, what the guardrails made of it
+  audit: z.boolean().optional(),
+  healthyProfile: HealthyProfileSchema.optional(),
+};
+
+export const LlmPlanRequestSchema = z.object({
+  apiVersion: z.literal(LLM_PLAN_API_VERSION),
+  prefs: PrefsLiteSchema,
+  ...requestFields,
+});
+
+const LegacyLlmPlanRequestSchema = z.object({
+  apiVersion: z.literal(1).optional(),
+  prefs: LegacyPrefsSchema.default(LegacyPrefsSchema.parse({})),
+  ...requestFields,
+});
+
+export type LlmPlanRequest = z.infer<typeof LlmPlanRequestSchema>;
+
+export const RecipeAuditLiteSchema = z.object({
+  id: z.string(),
+  eligible: z.boolean(),
+  picked: z.boolean(),
+  hits: z.array(
+    z.object({
+      rule: z.enum(['locked', 'diet', 'allergy', 'dislike', 'soft_dislike', 'time']),
+      hard: z.boolean(),
+      value: z.string(),
+      matched: z.string().optional(),
+      term: z.string().optional(),
+    }),
+  ),
+  score: z
+    .object({
+      pantryHits: stringList,
+      missing: z.number(),
+      timeOk: z.boolean(),
+      favBoost: z.number(),
+      healthyBoost: z.number(),
+      kidBoost: z.number(),
+      softDislikes: z.number(),
+      total: z.number(),
+    })
+    .nullable(),
+});
+
+export const LlmPlanResponseSchema = z.object({
+  ok: z.boolean(),
+  apiVersion: z.number().int().optional(),
+  recipeIds: stringList.optional(),
+  // Short "why this meal" per returned id (model-written, sanitized, or fallback)
+  reasons: z.record(z.string(), z.string()).optional(),
+  // Only when the request set `audit`; computed per request, never cached
+  audit: z.array(RecipeAuditLiteSchema).optional(),
+  error: z.string().optional(),
+  detail: z.string().optional(),
+  issues: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  // Set on 429: seconds until the exceeded budget resets (also sent as Retry-After)
+  retryAfterSeconds: z.number().int().min(0).optional(),
+});
+
+export type LlmPlanResponse = z.infer<typeof LlmPlanResponseSchema>;
+
+export type ContractIssue = { path: string; message: string };
+
+function toIssues(error: z.ZodError): ContractIssue[] {
+  return error.issues.map((i) => ({
+    path: i.path.map(String).join('.') || '(body)',
+    message: i.message,
+  }));
+}
+
+export type ParsedPlanRequest =
+  | { ok: true; version: number; data: LlmPlanRequest }
+  | { ok: false; issues: ContractIssue[] };
+
+/** Validate a raw body; v1 (no apiVersion) bodies are upgraded to the current shape. */
+export function parseLlmPlanRequest(raw: unknown): ParsedPlanRequest {
+  const version =
+    raw && typeof raw === 'object' && 'apiVersion' in raw
+      ? (raw as { apiVersion: unknown }).apiVersion
+      : 1;
+
+  if (version === LLM_PLAN_API_VERSION) {
+    const res = LlmPlanRequestSchema.safeParse(raw);
+    return res.success
+      ? { ok: true, version: LLM_PLAN_API_VERSION, data: res.data }
+      : { ok: false, issues: toIssues(res.error) };
+  }
+
+  if (version === 1) {
+    const res = LegacyLlmPlanRequestSchema.safeParse(raw);
+    if (!res.success) return { ok: false, issues: toIssues(res.error) };
+    return {
+      ok: true,
+      version: 1,
+      data: { ...res.data, apiVersion: LLM_PLAN_API_VERSION },
+    };
+  }
+
+  return {
+    ok: false,
+    issues: [
+      {
+        path: 'apiVersion',
+        message: `Unsupported apiVersion ${JSON.stringify(version)} (supported: 1, ${LLM_PLAN_API_VERSION})`,
+      },
+    ],
+  };
+}
@@ -0,0 +1,28 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { llmPlanRateLimitRules } from './planLimits';
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+const limits = () => llmPlanRateLimitRules('user:u1').map((r) => [r.id, r.key, r.limit]);
+
+describe('llmPlanRateLimitRules', () => {
+  it('defaults to 20 per user and 300 overall each hour', () => {
+    vi.stubEnv('LLM_PLAN_USER_PER_HOUR', '');
+    vi.stubEnv('LLM_PLAN_GLOBAL_PER_HOUR', '');
+    expect(limits()).toEqual([
+      ['user_hourly', 'llm-plan:user:u1', 20],
+      ['global_hourly', 'llm-plan:global', 300],
+    ]);
+  });
+
+  it('reads budgets from env and ignores bad values', () => {
+    vi.stubEnv('LLM_PLAN_USER_PER_HOUR', '5.9');
+    vi.stubEnv('LLM_PLAN_GLOBAL_PER_HOUR', '-1');
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(limits().map(([, , limit]) => limit)).toEqual([5, 300]);
+    expect(warn).toHaveBeenCalledWith("[RATE] Invalid LLM_PLAN_GLOBAL_PER_HOUR '-1'; using 300.");
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,38 @@
+// src/lib/llm/planLimits.ts
+// Request budgets for /api/llm-plan. Configuration (env):
+//   LLM_PLAN_USER_PER_HOUR    per user (or per IP when anonymous), default 20
+//   LLM_PLAN_GLOBAL_PER_HOUR  across everyone, default 300
+// 0 disables a budget. Only requests that would reach the model count;
+// cache and in-flight hits are free.
+import type { RateLimitRule } from '@/lib/rateLimit';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+function readLimit(name: string, fallback: number): number {
+  const raw = process.env[name];
+  if (raw == null || raw.trim() === '') return fallback;
+  const n = Number(raw);
+  if (!Number.isFinite(n) || n < 0) {
+    console.warn(`[RATE] Invalid ${name} '${raw}'; using ${fallback}.`);
+    return fallback;
+  }
+  return Math.floor(n);
+}
+
+/** `identity` is "user:<uuid>" or "anon:<ip>". */
+export function llmPlanRateLimitRules(identity: string): RateLimitRule[] {
+  return [
+    {
+      id: 'user_hourly',
+      key: `llm-plan:${identity}`,
+      limit: readLimit('LLM_PLAN_USER_PER_HOUR', 20),
+      windowMs: HOUR_MS,
+    },
+    {
+      id: 'global_hourly',
+      key: 'llm-plan:global',
+      limit: readLimit('LLM_PLAN_GLOBAL_PER_HOUR', 300),
+      windowMs: HOUR_MS,
+    },
+  ];
+}
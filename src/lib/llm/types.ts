@@ -0,0 +1,30 @@
+// src/lib/llm/types.ts
+
+export type LlmProviderName = 'openai' | 'openai_compatible' | 'mock';
+
+export type ChatMessage = {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+};
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  /** Ask for a JSON object back (OpenAI `response_format: json_object`) */
+  json?: boolean;
+};
+
+export type LlmUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+export type ChatResult =
+  | { ok: true; text: string; usage?: LlmUsage }
+  | { ok: false; status: number; error: string; detail?: string };
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  complete(req: ChatRequest): Promise<ChatResult>;
+}
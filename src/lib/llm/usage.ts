@@ -0,0 +1,40 @@
+// src/lib/llm/usage.ts
+// Per-call token accounting. Rows go to public.llm_usage when the service
+// role is configured, otherwise they're just logged. Never throws.
+import { hasSupabaseAdminConfig, getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import type { LlmProvider, LlmUsage } from './types';
+
+export type LlmUsageRecord = {
+  userId: string | null;
+  route: string;
+  llm: Pick<LlmProvider, 'name' | 'model'>;
+  usage?: LlmUsage;
+  ok: boolean;
+  cacheKey?: string;
+};
+
+export async function recordLlmUsage(rec: LlmUsageRecord): Promise<void> {
+  const row = {
+    user_id: rec.userId,
+    route: rec.route,
+    provider: rec.llm.name,
+    model: rec.llm.model,
+    prompt_tokens: rec.usage?.promptTokens ?? 0,
+    completion_tokens: rec.usage?.completionTokens ?? 0,
+    total_tokens: rec.usage?.totalTokens ?? 0,
+    cache_key: rec.cacheKey ?? null,
+    ok: rec.ok,
+  };
+
+  if (!hasSupabaseAdminConfig()) {
+    console.log('[LLM-USAGE]', row);
+    return;
+  }
+
+  try {
+    const { error } = await getSupabaseAdmin().from('llm_usage').insert(row);
+    if (error) throw error;
+  } catch (e) {
+    console.error('[LLM-USAGE] insert failed:', e, row);
+  }
+}
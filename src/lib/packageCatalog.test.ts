@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { autoCategoryFromName } from '@/lib/pantryCategorizer';
+import { smartMergeNeeds } from '@/lib/shopping';
+import { PACKAGE_CATALOG, packageRuleFor, toPackages } from './packageCatalog';
+
+// [name, qty, unit, rule id, expected]. Expectations are what toShoppingUnit
+// produced before the catalog existed, except where noted.
+const CASES: Array<[string, number, string, string, string]> = [
+  ['vegetable stock', 4, 'cup', 'broth_carton', '1 carton'],
+  ['vegetable broth', 1, 'carton', 'broth_carton', '1 carton'],
+  ['vegetable broth', 40, 'unit', 'broth_carton', '2 carton'],
+  ['coconut milk', 1, 'can', 'coconut_milk_can', '1 can'],
+  ['coconut milk', 2, 'unit', 'coconut_milk_can', '2 can'],
+  ['coconut milk', 6, 'unit', 'coconut_milk_can', '6 can'],
+  ['coconut milk', 28, 'unit', 'coconut_milk_can', '2 can'],
+  ['coconut milk', 13.5, 'oz', 'coconut_milk_can', '1 can'],
+  ['coconut milk', 1, 'cup', 'coconut_milk_can', '1 can'],
+  ['black bean', 2, 'unit', 'legume_can', '2 can'],
+  ['black bean', 15, 'unit', 'legume_can', '1 can'],
+  ['chickpea', 1, 'cup', 'legume_can', '1 can'],
+  ['chickpea', 3, 'cup', 'legume_can', '2 can'],
+  ['chickpea', 1, 'lb', 'legume_can', '2 can'],
+  ['tofu', 1, 'unit', 'tofu_block', '1 block'],
+  ['tofu', 14, 'unit', 'tofu_block', '1 block'],
+  ['tofu', 16, 'oz', 'tofu_block', '2 block'],
+  ['tofu', 2, 'block', 'tofu_block', '2 block'],
+  ['tofu', 1, 'cup', 'tofu_block', '1 block'],
+  // New product: 6 oz jars
+  ['pesto', 2, 'tbsp', 'pesto_jar', '1 jar'],
+  ['pesto', 1, 'unit', 'pesto_jar', '1 jar'],
+  ['pesto', 8, 'oz', 'pesto_jar', '2 jar'],
+  ['garlic', 3, 'unit', 'garlic_clove', '3 clove'],
+  ['garlic', 2, 'tbsp', 'garlic_clove', '2 clove'],
+  ['garlic', 2, 'oz', 'garlic_clove', '2 oz'],
+  ['garlic', 4, 'clove', 'garlic_clove', '4 clove'],
+  ['broccoli', 1, 'unit', 'broccoli_lb', '1 lb'],
+  ['broccoli', 1.3, 'unit', 'broccoli_lb', '1.5 lb'],
+  ['parsley', 0.5, 'cup', 'herb_bunch', '1 bunch'],
+  ['basil', 2, 'tbsp', 'herb_bunch', '1 bunch'],
+  ['bell pepper', 1, 'cup', 'pepper_each', '1 unit'],
+  ['zucchini', 2, 'cup', 'pepper_each', '2 unit'],
+  ['cucumber', 3, 'cup', 'cucumber_each', '2 unit'],
+  ['carrot', 1, 'cup', 'carrot_each', '2 unit'],
+];
+
+const fmt = (o: { qty: number; unit: string } | null) => (o ? `${o.qty} ${o.unit}` : null);
+
+describe('package catalog', () => {
+  it.each(CASES)('%s %s %s → %s via %s', (name, qty, unit, id, expected) => {
+    const rule = packageRuleFor(name, autoCategoryFromName(name));
+    expect(rule?.id).toBe(id);
+    expect(fmt(toPackages(rule!, qty, unit))).toBe(expected);
+  });
+
+  it('has a case for every entry', () => {
+    const covered = new Set(CASES.map((c) => c[3]));
+    expect(PACKAGE_CATALOG.map((r) => r.id).filter((id) => !covered.has(id))).toEqual([]);
+  });
+
+  it('leaves units a rule does not cover to the generic handling', () => {
+    expect(toPackages(packageRuleFor('broccoli', 'produce')!, 12, 'oz')).toBeNull();
+    expect(toPackages(packageRuleFor('parsley', 'produce')!, 1, 'unit')).toBeNull();
+    expect(toPackages(packageRuleFor('vegetable broth')!, 0, 'cup')).toBeNull();
+  });
+
+  it('skips names sold another way', () => {
+    expect(packageRuleFor('chicken bouillon powder', 'spices')).toBeNull();
+    expect(packageRuleFor('green bean', 'produce')).toBeNull();
+    expect(packageRuleFor('lentil', 'legumes')).toBeNull();
+  });
+});
+
+describe('shopping list units', () => {
+  const shop = (name: string, qty: number, unit: string) =>
+    smartMergeNeeds([{ name, qty, unit }]).map(fmt).join(', ');
+
+  it.each([
+    ['vegetable stock', 4, 'cup', '1 carton'],
+    ['coconut milk', 2, '', '2 can'],
+    ['coconut milk', 28, '', '2 can'],
+    ['black beans', 2, '', '2 can'],
+    ['chickpeas', 1, 'cup', '1 can'],
+    ['chickpeas', 30, 'oz', '3 can'],
+    ['garlic', 2, 'tbsp', '2 clove'],
+    ['tofu', 16, 'oz', '2 block'],
+    ['broccoli', 1, '', '1 lb'],
+    ['broccoli', 12, 'oz', '12 oz'],
+    ['parsley', 0.5, 'cup', '1 bunch'],
+    ['carrot', 1, 'cup', '2 unit'],
+    ['pesto', 2, 'tbsp', '1 jar'],
+  ])('%s %s %s → %s', (name, qty, unit, expected) => {
+    expect(shop(name, qty, unit)).toBe(expected);
+  });
+
+  // Deliberate change: the catalog runs before the protein check, so
+  // "chicken broth" is no longer bought by the pound
+  it('buys chicken broth in cartons', () => {
+    expect(shop('chicken broth', 2, 'cup')).toBe('1 carton');
+  });
+});
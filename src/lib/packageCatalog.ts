@@ -0,0 +1,153 @@
+// src/lib/packageCatalog.ts
+// What the store sells things in: broth by the 32 oz carton, beans by the
+// 15.5 oz can, tofu by the 14 oz block. The shopping list rolls recipe
+// amounts up into these packages, so adding a product is a new entry here,
+// not another branch in toShoppingUnit.
+import type { PantryCategory } from '@/lib/pantryCategorizer';
+
+export type PackageRule = {
+  id: string;
+  /** Tested against the normalized ingredient name */
+  match: RegExp;
+  /** Names that match but are sold differently ("chicken bouillon powder") */
+  exclude?: RegExp;
+  /** Only items in this section (canned beans, not green beans in produce) */
+  category?: PantryCategory;
+  /** Recipe units the rule converts; anything else falls through. Default: all */
+  from?: string[];
+  /** Purchasable unit shown on the list */
+  unit: string;
+  /** One package in oz (weight or fluid); null = only counted, never weighed */
+  sizeOz: number | null;
+  /** One package in cups, for produce recipes measure by volume */
+  sizeCups?: number;
+  /** Weight of a cup, for packages sized in oz (default 8, i.e. fluid) */
+  ozPerCup?: number;
+  /** Bare numbers (unit "unit") at or above this are oz; below, packages. Default: never oz */
+  bareOzFrom?: number;
+  /** Round to this fraction of a package (default 1 = whole packages) */
+  step?: number;
+  /** Keep oz/lb as written instead of converting ("2 oz garlic") */
+  keepWeight?: boolean;
+  /** When the amount can't be converted, read it as a package count */
+  countFallback?: boolean;
+};
+
+const COOKING_UNITS = ['tsp', 'tbsp', 'cup'];
+
+export const PACKAGE_CATALOG: PackageRule[] = [
+  {
+    id: 'broth_carton',
+    match: /\b(broth|stock)\b/,
+    exclude: /\b(powder|granules|bouillon)\b/,
+    unit: 'carton',
+    sizeOz: 32,
+    bareOzFrom: 0,
+  },
+  { id: 'coconut_milk_can', match: /\bcoconut milk\b/, unit: 'can', sizeOz: 14, bareOzFrom: 7, countFallback: true },
+  {
+    id: 'legume_can',
+    // Dry lentils stay in oz/lb, so they don't split into can and oz lines
+    match: /\b(bean|beans|chickpea|garbanzo)\b/,
+    category: 'legumes',
+    unit: 'can',
+    sizeOz: 15.5,
+    ozPerCup: 6,
+    bareOzFrom: 8,
+  },
+  { id: 'tofu_block', match: /\btofu\b/, unit: 'block', sizeOz: 14, bareOzFrom: 8, countFallback: true },
+  { id: 'pesto_jar', match: /\bpesto\b/, unit: 'jar', sizeOz: 6, bareOzFrom: 8 },
+  { id: 'garlic_clove', match: /^garlic$/, unit: 'clove', sizeOz: null, keepWeight: true, countFallback: true },
+  // A bare "1 broccoli" is about a pound; lb merges cleanly with weighed amounts
+  {
+    id: 'broccoli_lb',
+    match: /\bbroccoli\b/,
+    category: 'produce',
+    from: ['unit'],
+    unit: 'lb',
+    sizeOz: 16,
+    step: 0.5,
+  },
+  {
+    id: 'herb_bunch',
+    match: /^(parsley|cilantro|dill|mint|basil)$/,
+    from: COOKING_UNITS,
+    unit: 'bunch',
+    sizeOz: null,
+    sizeCups: 1,
+  },
+  // Produce that shops by each
+  {
+    id: 'pepper_each',
+    match: /^(bell pepper|zucchini)$/,
+    from: COOKING_UNITS,
+    unit: 'unit',
+    sizeOz: null,
+    sizeCups: 1,
+  },
+  { id: 'cucumber_each', match: /^cucumber$/, from: COOKING_UNITS, unit: 'unit', sizeOz: null, sizeCups: 2 },
+  { id: 'carrot_each', match: /^carrot$/, from: COOKING_UNITS, unit: 'unit', sizeOz: null, sizeCups: 0.5 },
+];
+
+/** First catalog entry for an ingredient (normalized name), if it's sold by the package. */
+export function packageRuleFor(
+  name: string,
+  category?: PantryCategory,
+  catalog: PackageRule[] = PACKAGE_CATALOG,
+): PackageRule | null {
+  return (
+    catalog.find(
+      (r) => r.match.test(name) && !r.exclude?.test(name) && (!r.category || r.category === category),
+    ) ?? null
+  );
+}
+
+function cups(qty: number, u: string): number | null {
+  if (u === 'cup') return qty;
+  if (u === 'tbsp') return qty / 16;
+  if (u === 'tsp') return qty / 48;
+  return null;
+}
+
+function ounces(qty: number, u: string, ozPerCup: number): number | null {
+  if (u === 'oz') return qty;
+  if (u === 'lb') return qty * 16;
+  if (u === 'g') return qty * 0.035274;
+  if (u === 'kg') return qty * 1000 * 0.035274;
+  if (u === 'ml') return qty * 0.033814;
+  if (u === 'l') return qty * 1000 * 0.033814;
+  const c = cups(qty, u);
+  return c != null ? c * ozPerCup : null;
+}
+
+/**
+ * A recipe amount in the rule's packages, or null when the rule doesn't
+ * cover the unit (the caller's generic handling takes over).
+ */
+export function toPackages(rule: PackageRule, qty: number, unit: string): { qty: number; unit: string } | null {
+  const u = (unit || '').toLowerCase().trim() || 'unit';
+  if (!Number.isFinite(qty) || qty <= 0) return null;
+  if (rule.from && !rule.from.includes(u)) return null;
+
+  const step = rule.step ?? 1;
+  const packages = (n: number) => ({ qty: Math.max(step, Math.ceil(n / step - 1e-9) * step), unit: rule.unit });
+
+  if (u === rule.unit) return packages(qty);
+  if (rule.keepWeight && (u === 'oz' || u === 'lb')) return { qty: Math.round(qty * 10) / 10, unit: u };
+
+  if (u === 'unit') {
+    if (rule.bareOzFrom == null || qty < rule.bareOzFrom || rule.sizeOz == null) return packages(qty);
+    return packages(qty / rule.sizeOz);
+  }
+
+  if (rule.sizeCups != null) {
+    const c = cups(qty, u);
+    if (c != null) return packages(c / rule.sizeCups);
+  }
+  if (rule.sizeOz != null) {
+    const oz = ounces(qty, u, rule.ozPerCup ?? 8);
+    if (oz != null) return packages(oz / rule.sizeOz);
+  }
+
+  return rule.countFallback ? packages(qty) : null;
+}
@@ -103,9 +103,13 @@ export function computeRecipePerishability(ingredientNames: string[]): Perishabi
  * - 2–3 days                → 3
  * - 4–7 days                → 2
  * - >7 days or invalid      → 1 (stable)
+ *
+ * `now` defaults to the current time; the planner passes the plan's start date
+ * so a future week is scored from its first day.
  */
 export function scoreFromPerishDate(
   perishDate: Date | string | null | undefined,
+  now: number = Date.now(),
 ): PerishabilityScore {
   if (!perishDate) return 1;
 
@@ -113,7 +117,6 @@ export function scoreFromPerishDate(
     perishDate instanceof Date ? perishDate.getTime() : Date.parse(perishDate);
   if (Number.isNaN(time)) return 1;
 
-  const now = Date.now();
   const MS_PER_DAY = 1000 * 60 * 60 * 24;
   const diffMs = time - now;
   const diffDays = Math.ceil(diffMs / MS_PER_DAY);
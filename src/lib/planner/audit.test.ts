@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { auditRecipe, auditRecipes } from './audit';
+import { createPlannerContext } from './context';
+import type { PlannerIngredient, PlannerPrefs, PlannerRecipe } from './types';
+
+const recipe = (id: string, title: string, time_min = 30, extra: Partial<PlannerRecipe> = {}): PlannerRecipe => ({
+  id,
+  title,
+  time_min,
+  diet_tags: [],
+  ...extra,
+});
+
+const ing = (recipe_id: string, ...names: string[]): PlannerIngredient[] =>
+  names.map((name) => ({ recipe_id, name, qty: 1, unit: 'unit', optional: false }));
+
+const RISOTTO = recipe('risotto', 'Mushroom Risotto', 40);
+const CHICKEN = recipe('chicken', 'Chicken Curry', 30);
+const ROAST = recipe('roast', 'Slow Roast Veg', 90);
+const OATS = recipe('oats', 'Overnight Oats', 5, { meal_types: ['breakfast'] });
+const SALAD = recipe('salad', 'Bean Salad', 10);
+
+const RECIPES = [RISOTTO, CHICKEN, ROAST, OATS, SALAD];
+
+const INGREDIENTS: PlannerIngredient[] = [
+  ...ing('risotto', 'arborio rice', 'mushrooms', 'parmesan'),
+  ...ing('chicken', 'chicken thighs', 'tomato', 'cilantro'),
+  ...ing('roast', 'carrots', 'potatoes'),
+  ...ing('oats', 'oats', 'yogurt'),
+  ...ing('salad', 'black beans', 'red onion'),
+];
+
+const PREFS: PlannerPrefs = {
+  diet: 'vegetarian',
+  allergies: ['dairy'],
+  dislikes: ['mushroom'],
+  soft_dislikes: { cilantro: 0.5 },
+  max_prep_minutes: 45,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 3,
+};
+
+const ctx = createPlannerContext({ recipes: RECIPES, ingredients: INGREDIENTS, pantry: [], prefs: PREFS, seed: 'audit' });
+
+const rules = (r: PlannerRecipe) => auditRecipe(ctx, r).hits.map((h) => `${h.rule}:${h.value}:${h.matched ?? ''}`);
+
+describe('auditRecipe', () => {
+  it('names every rule a recipe runs into, with what matched', () => {
+    expect(rules(RISOTTO)).toEqual(['allergy:dairy:parmesan', 'dislike:mushroom:mushrooms']);
+    expect(rules(CHICKEN)).toEqual(['diet:vegetarian:Chicken Curry', 'soft_dislike:cilantro:cilantro']);
+    expect(rules(OATS)).toEqual(['slot:dinner:', 'allergy:dairy:yogurt']);
+  });
+
+  it('keeps soft rules apart from hard ones', () => {
+    const audit = auditRecipe(ctx, ROAST);
+    expect(audit.hits).toEqual([{ rule: 'time', hard: false, value: '45 min', matched: '90 min' }]);
+    expect(audit.eligible).toBe(true);
+    expect(audit.score?.time).toBeLessThan(0);
+  });
+
+  it('does not score recipes outside the slot', () => {
+    expect(auditRecipe(ctx, OATS).score).toBeNull();
+  });
+
+  it('explains a pantry-only run', () => {
+    const hits = auditRecipe(ctx, SALAD, { pantryOnly: true }).hits;
+    expect(hits.map((h) => [h.rule, h.matched])).toEqual([
+      ['pantry_only', 'black bean'],
+      ['pantry_only', 'red onion'],
+    ]);
+  });
+});
+
+describe('auditRecipes', () => {
+  it('lists picked, then eligible, then the rest, each by score', () => {
+    const audits = auditRecipes(ctx, RECIPES, { picked: ['roast'] });
+    expect(audits.map((a) => [a.recipe.id, a.picked, a.eligible])).toEqual([
+      ['roast', true, true],
+      ['salad', false, true],
+      ['risotto', false, false],
+      ['chicken', false, false],
+      ['oats', false, false],
+    ]);
+  });
+});
@@ -0,0 +1,135 @@
+// src/lib/planner/audit.ts
+// "Why not this recipe?": for each candidate, whether it made the pool, every
+// rule it runs into (with the ingredient that matched), and the score terms
+// the heuristic ranks it by. The /api/llm-plan route answers the same
+// question for its guardrails with auditRecipeLite (lite.ts).
+//
+// Eligibility is pool membership, not "no hard hits": when every recipe is
+// filtered out the pool falls back to all of them, and the cool-down lets
+// held recipes back in when the week is short.
+import { dietViolation, expandAllergyTerms, forbiddenMatches, normalizeTermSet } from './constraints';
+import { recipeIngredients, type PlannerContext } from './context';
+import { prefsDiets } from './household';
+import { pantryShortfall } from './pantryOnly';
+import { computeStats, type ScoreBreakdown } from './scoring';
+import { recipeFitsSlot } from './slots';
+import type { PlannerRecipe } from './types';
+
+export type AuditRule =
+  | 'slot'
+  | 'diet'
+  | 'allergy'
+  | 'dislike'
+  | 'soft_dislike'
+  | 'time'
+  | 'cooldown'
+  | 'pantry_only';
+
+export type AuditHit = {
+  rule: AuditRule;
+  /** Hard rules keep a recipe out; soft ones only cost score */
+  hard: boolean;
+  /** The setting that fired: diet, allergy toggle, dislike, "45 min", ... */
+  value: string;
+  /** Ingredient (or title/tag text) that matched */
+  matched?: string;
+  /** The term it matched on, when that isn't `value` ("dairy" via "parmesan") */
+  term?: string;
+};
+
+export type RecipeAudit<R extends PlannerRecipe = PlannerRecipe> = {
+  recipe: R;
+  /** In the pool this run picked from */
+  eligible: boolean;
+  /** On the plan this run produced */
+  picked: boolean;
+  hits: AuditHit[];
+  /** Null when the recipe doesn't fit the slot (never scored) */
+  score: (ScoreBreakdown & { total: number }) | null;
+};
+
+export type AuditOptions = {
+  /** Ids on the finished plan for this slot */
+  picked?: Iterable<string>;
+  /** The run was restricted to pantry-covered recipes */
+  pantryOnly?: boolean;
+};
+
+function ruleHits(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe, opts: AuditOptions): AuditHit[] {
+  const hits: AuditHit[] = [];
+  const ri = recipeIngredients(ctx, r);
+
+  if (!recipeFitsSlot(r, ctx.slot)) hits.push({ rule: 'slot', hard: true, value: ctx.slot });
+
+  for (const diet of prefsDiets(ctx.prefs)) {
+    const v = dietViolation(r, ri, diet);
+    if (v) hits.push({ rule: 'diet', hard: true, value: diet, matched: v.text, term: v.match });
+  }
+
+  for (const allergy of ctx.prefs.allergies) {
+    const terms = normalizeTermSet(expandAllergyTerms([allergy]));
+    for (const m of forbiddenMatches(ri, terms)) {
+      hits.push({ rule: 'allergy', hard: true, value: allergy, matched: m.ingredient, term: m.term });
+    }
+  }
+
+  for (const m of forbiddenMatches(ri, ctx.dislikeTermsNorm)) {
+    hits.push({ rule: 'dislike', hard: true, value: m.term, matched: m.ingredient });
+  }
+  for (const m of forbiddenMatches(ri, ctx.softDislikeTermsNorm.keys())) {
+    hits.push({ rule: 'soft_dislike', hard: false, value: m.term, matched: m.ingredient });
+  }
+
+  const maxMin = ctx.prefs.max_prep_minutes ?? 45;
+  if (r.time_min > maxMin) {
+    hits.push({ rule: 'time', hard: false, value: `${maxMin} min`, matched: `${r.time_min} min` });
+  }
+
+  const served = ctx.lastServed.get(r.id);
+  if (served && ctx.rotationHeld.some((x) => x.id === r.id)) {
+    hits.push({ rule: 'cooldown', hard: true, value: served });
+  }
+
+  if (opts.pantryOnly) {
+    for (const name of pantryShortfall(ctx, r)) {
+      hits.push({ rule: 'pantry_only', hard: true, value: 'pantry', matched: name });
+    }
+  }
+
+  return hits;
+}
+
+/** Audit one recipe against a planning run's context. */
+export function auditRecipe<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  r: R,
+  opts: AuditOptions = {},
+): RecipeAudit<R> {
+  const picked = new Set(opts.picked ?? []);
+  const st = recipeFitsSlot(r, ctx.slot) ? computeStats(ctx, r) : null;
+  return {
+    recipe: r,
+    eligible: ctx.pool.some((x) => x.id === r.id),
+    picked: picked.has(r.id),
+    hits: ruleHits(ctx, r, opts),
+    score: st ? { ...st.breakdown, total: st.baseScore } : null,
+  };
+}
+
+/** Audit every recipe; picked first, then eligible by score, then the rest by title. */
+export function auditRecipes<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  recipes: R[],
+  opts: AuditOptions = {},
+): RecipeAudit<R>[] {
+  const picked = new Set(opts.picked ?? []);
+  const rank = (a: RecipeAudit<R>) => (a.picked ? 0 : a.eligible ? 1 : 2);
+  return recipes
+    .map((r) => auditRecipe(ctx, r, { ...opts, picked }))
+    .sort(
+      (a, b) =>
+        rank(a) - rank(b) ||
+        (b.score?.total ?? -Infinity) - (a.score?.total ?? -Infinity) ||
+        a.recipe.title.localeCompare(b.recipe.title),
+    );
+}
@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { budgetCapFromRow, fitWeekToBudget, hasBudgetCap } from './budget';
+import { createPlannerContext } from './context';
+import { assembleWeek, type PlannedMeal } from './slots';
+import type { PlannerIngredient, PlannerPrefs, PlannerRecipe } from './types';
+
+const recipe = (id: string, time_min = 30): PlannerRecipe => ({ id, title: id, time_min, diet_tags: [], servings: 2 });
+
+const ing = (recipe_id: string, name: string, qty: number, unit: string): PlannerIngredient => ({
+  recipe_id,
+  name,
+  qty,
+  unit,
+  optional: false,
+});
+
+const RECIPES = [recipe('steak'), recipe('tacos'), recipe('pasta'), recipe('slow', 90)];
+
+const INGREDIENTS = [
+  ing('steak', 'beef', 3, 'lb'),
+  ing('tacos', 'beef', 1, 'lb'),
+  ing('tacos', 'tortilla', 1, 'pack'),
+  ing('pasta', 'beef', 1, 'lb'),
+  ing('pasta', 'pasta', 1, 'box'),
+  ing('slow', 'onion', 1, 'each'),
+];
+
+const PREFS: PlannerPrefs = {
+  diet: 'none',
+  allergies: [],
+  dislikes: [],
+  max_prep_minutes: 120,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 2,
+};
+
+const ctx = createPlannerContext({ recipes: RECIPES, ingredients: INGREDIENTS, pantry: [], prefs: PREFS, seed: 'budget' });
+const list = { ingIndex: ctx.ingIndex, pantry: [], peopleCount: 2 };
+
+const fit = (week: PlannedMeal[], amount: number) =>
+  fitWeekToBudget(week, { cap: { amount, storeId: 'sf_safeway' }, list, ctxBySlot: { dinner: ctx } });
+
+describe('hasBudgetCap', () => {
+  it('needs an amount and a store', () => {
+    expect(hasBudgetCap({ amount: 80, storeId: 'sf_safeway' })).toBe(true);
+    expect(hasBudgetCap({ amount: 0, storeId: 'sf_safeway' })).toBe(false);
+    expect(hasBudgetCap({ amount: 80, storeId: 'none' })).toBe(false);
+    expect(hasBudgetCap(null)).toBe(false);
+  });
+});
+
+describe('budgetCapFromRow', () => {
+  it('reads the profile columns', () => {
+    expect(budgetCapFromRow({ weekly_budget: '80', budget_store_id: 'sf_trader_joes' })).toEqual({
+      amount: 80,
+      storeId: 'sf_trader_joes',
+    });
+    expect(budgetCapFromRow({ weekly_budget: 80, budget_store_id: 'costco' })).toBeNull();
+    expect(budgetCapFromRow({ weekly_budget: null, budget_store_id: 'sf_safeway' })).toBeNull();
+  });
+});
+
+describe('fitWeekToBudget', () => {
+  it('swaps the priciest meal for a cheaper one until the week fits', () => {
+    const res = fit(assembleWeek({ dinner: [RECIPES[0], RECIPES[1]] }, 2), 20);
+    expect(res.before.total).toBe(31.45);
+    expect(res.after.total).toBe(18.96);
+    expect(res.underCap).toBe(true);
+    expect(res.swaps).toEqual([{ day: 0, slot: 'dinner', replaced: 'steak', added: 'pasta', saved: 12.49 }]);
+    expect(res.week.map((m) => m.recipe.id)).toEqual(['pasta', 'tacos']);
+  });
+
+  it('leaves a week that already fits alone', () => {
+    const week = assembleWeek({ dinner: [RECIPES[0], RECIPES[1]] }, 2);
+    const res = fit(week, 40);
+    expect(res.swaps).toEqual([]);
+    expect(res.week).toBe(week);
+  });
+
+  it('never touches locked meals or brings in much slower recipes', () => {
+    const locked: PlannedMeal[] = [{ day: 0, slot: 'dinner', recipe: RECIPES[0] }];
+    const res = fit(assembleWeek({ dinner: [RECIPES[1]] }, 2, { locked }), 5);
+    expect(res.week.map((m) => m.recipe.id)).toEqual(['steak', 'pasta']);
+    expect(res.underCap).toBe(false);
+  });
+
+  it('swaps leftover nights along with their cook night', () => {
+    const big = { ...RECIPES[0], servings: 4 };
+    const week = assembleWeek({ dinner: [big, RECIPES[1]] }, 2, { leftovers: { peopleCount: 2 } });
+    expect(week.map((m) => m.leftover_of ?? null)).toEqual([null, 0]);
+    const res = fit(week, 10);
+    expect(res.week.map((m) => m.recipe.id)).toEqual(['pasta', 'pasta']);
+  });
+
+  it.each([
+    [{ max_prep_minutes: 20, theme: null }, ['steak', 'pasta']],
+    [{ max_prep_minutes: null, theme: 'taco' }, ['tacos', 'pasta']],
+  ])('only swaps in recipes that fit the day rule %j', (rule, expected) => {
+    const week = assembleWeek({ dinner: [RECIPES[0], RECIPES[1]] }, 2);
+    const res = fitWeekToBudget(week, {
+      cap: { amount: 20, storeId: 'sf_safeway' },
+      list,
+      ctxBySlot: { dinner: ctx },
+      dayRule: (day) => (day === 0 ? rule : null),
+    });
+    expect(res.week.map((m) => m.recipe.id)).toEqual(expected);
+  });
+});
@@ -0,0 +1,171 @@
+// src/lib/planner/budget.ts
+// Weekly spend cap ("$80 at Trader Joe's"). Prices the week's shopping list
+// against the price book and, when it's over, swaps cook meals for cheaper
+// ones from the same slot until it fits (or nothing cheaper is left).
+// Items the book can't price don't count toward the total; callers should
+// surface CostSummary.unpriced so that gap is visible.
+import { isStoreId, summarizeCost, type CostSummary, type StoreId } from '@/lib/pricing';
+import type { PlannerContext } from './context';
+import { averageNutrition, hasNutritionTargets, nutritionMiss, targetsForSlots } from './nutrition';
+import { isVegLikeRecipe, shouldBalanceNonVeg } from './proteins';
+import { recipeFitsDayRule, type DayRule } from './schedule';
+import { buildShoppingList, type ShoppingListOptions } from './shoppingList';
+import type { PlannedMeal } from './slots';
+import type { MealSlot, PlannerRecipe } from './types';
+
+export type BudgetCap = {
+  /** Dollars per week */
+  amount: number;
+  storeId: StoreId;
+};
+
+export type BudgetSwap = {
+  day: number;
+  slot: MealSlot;
+  replaced: string;
+  added: string;
+  saved: number;
+};
+
+export type BudgetFit<R extends PlannerRecipe> = {
+  week: PlannedMeal<R>[];
+  before: CostSummary;
+  after: CostSummary;
+  underCap: boolean;
+  swaps: BudgetSwap[];
+};
+
+// Exact re-pricing is a full shopping-list build, so only the cheapest few
+// candidates (by standalone cost) per meal get it.
+const SHORTLIST = 8;
+const MAX_EXTRA_TIME_MIN = 10;
+
+export function hasBudgetCap(cap: BudgetCap | null | undefined): cap is BudgetCap {
+  return !!cap && cap.amount > 0 && cap.storeId !== 'none';
+}
+
+/** DB columns → cap; null when no budget (or no store) is set. */
+export function budgetCapFromRow(row: {
+  weekly_budget?: number | string | null;
+  budget_store_id?: string | null;
+} | null | undefined): BudgetCap | null {
+  if (!row) return null;
+  const amount = Number(row.weekly_budget);
+  const cap: BudgetCap = {
+    amount: Number.isFinite(amount) ? amount : 0,
+    storeId: isStoreId(row.budget_store_id) ? row.budget_store_id : 'none',
+  };
+  return hasBudgetCap(cap) ? cap : null;
+}
+
+export function estimateWeekCost<R extends PlannerRecipe>(
+  week: PlannedMeal<R>[],
+  list: ShoppingListOptions,
+  storeId: StoreId,
+): CostSummary {
+  return summarizeCost(buildShoppingList(week, list), storeId);
+}
+
+/** Swap the cook meal at (day, slot) and any leftovers that point at it. */
+function replaceCook<R extends PlannerRecipe>(
+  week: PlannedMeal<R>[],
+  target: PlannedMeal<R>,
+  recipe: R,
+): PlannedMeal<R>[] {
+  return week.map((m) => {
+    if (m.slot !== target.slot) return m;
+    if (m.leftover_of == null ? m.day === target.day : m.leftover_of === target.day) {
+      return { ...m, recipe };
+    }
+    return m;
+  });
+}
+
+export function fitWeekToBudget<R extends PlannerRecipe>(
+  week: PlannedMeal<R>[],
+  opts: {
+    cap: BudgetCap;
+    list: ShoppingListOptions;
+    ctxBySlot: Partial<Record<MealSlot, PlannerContext<R>>>;
+    /** Weekly schedule rule for a day; swaps must still fit it */
+    dayRule?: (day: number, slot: MealSlot) => DayRule | null;
+  },
+): BudgetFit<R> {
+  const { cap, list, ctxBySlot, dayRule } = opts;
+  const price = (w: PlannedMeal<R>[]) => estimateWeekCost(w, list, cap.storeId);
+
+  const before = price(week);
+  let current = week;
+  let cur = before;
+  const swaps: BudgetSwap[] = [];
+
+  const aloneCache = new Map<string, number>();
+  const alone = (r: R, slot: MealSlot) => {
+    const hit = aloneCache.get(r.id);
+    if (hit != null) return hit;
+    const c = price([{ day: 0, slot, recipe: r, leftover_of: null }]).total;
+    aloneCache.set(r.id, c);
+    return c;
+  };
+
+  // Nutrition targets (if any) must not get worse for the slot being changed
+  const slotMiss = (w: PlannedMeal<R>[], ctx: PlannerContext<R>) => {
+    const t = ctx.prefs.nutrition;
+    if (!hasNutritionTargets(t)) return 0;
+    const cooks = w.filter((m) => m.slot === ctx.slot && m.leftover_of == null).map((m) => m.recipe);
+    return nutritionMiss(averageNutrition(cooks), targetsForSlots(t, [ctx.slot]), t.tolerance_pct);
+  };
+
+  const swappable = week.filter((m) => m.leftover_of == null && !m.locked).length;
+
+  while (cur.total > cap.amount && swaps.length < swappable) {
+    let best: { meal: PlannedMeal<R>; recipe: R; week: PlannedMeal<R>[]; cost: CostSummary } | null =
+      null;
+    const used = new Set(current.map((m) => m.recipe.id));
+
+    for (const meal of current) {
+      if (meal.leftover_of != null || meal.locked) continue;
+      const ctx = ctxBySlot[meal.slot];
+      if (!ctx) continue;
+
+      const mine = alone(meal.recipe, meal.slot);
+      const balance = shouldBalanceNonVeg(ctx);
+      const veg = balance && isVegLikeRecipe(ctx, meal.recipe);
+      const missNow = slotMiss(current, ctx);
+      const rule = dayRule?.(meal.day, meal.slot);
+
+      const shortlist = ctx.strictPool
+        .filter((r) => !used.has(r.id))
+        .filter((r) => (r.time_min ?? 0) - (meal.recipe.time_min ?? 0) <= MAX_EXTRA_TIME_MIN)
+        .filter((r) => recipeFitsDayRule(r, rule))
+        // Keep the veg/non-veg mix the balance passes settled on
+        .filter((r) => !balance || isVegLikeRecipe(ctx, r) === veg)
+        .map((r) => ({ r, c: alone(r, meal.slot) }))
+        .filter((x) => x.c < mine)
+        .sort((a, b) => a.c - b.c || a.r.id.localeCompare(b.r.id))
+        .slice(0, SHORTLIST);
+
+      for (const { r } of shortlist) {
+        const trial = replaceCook(current, meal, r);
+        if (slotMiss(trial, ctx) > missNow + 1e-9) continue;
+        const cost = price(trial);
+        if (cost.total < (best?.cost.total ?? cur.total) - 0.005) {
+          best = { meal, recipe: r, week: trial, cost };
+        }
+      }
+    }
+
+    if (!best) break;
+    swaps.push({
+      day: best.meal.day,
+      slot: best.meal.slot,
+      replaced: best.meal.recipe.id,
+      added: best.recipe.id,
+      saved: Math.round((cur.total - best.cost.total) * 100) / 100,
+    });
+    current = best.week;
+    cur = best.cost;
+  }
+
+  return { week: current, before, after: cur, underCap: cur.total <= cap.amount, swaps };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { formatPlanDay, parseIsoDate, planDayDate, toIsoDate } from './calendar';
+
+describe('parseIsoDate', () => {
+  it('reads a calendar day as local midnight', () => {
+    const d = parseIsoDate('2025-10-20')!;
+    expect([d.getFullYear(), d.getMonth(), d.getDate(), d.getHours()]).toEqual([2025, 9, 20, 0]);
+  });
+
+  it.each(['2025-02-31', '2025-13-01', '20251020', '', null, undefined])('rejects %j', (s) => {
+    expect(parseIsoDate(s)).toBeNull();
+  });
+});
+
+describe('planDayDate', () => {
+  it('offsets from the start date across month ends', () => {
+    expect(toIsoDate(planDayDate('2025-10-30', 0)!)).toBe('2025-10-30');
+    expect(toIsoDate(planDayDate('2025-10-30', 3)!)).toBe('2025-11-02');
+    expect(planDayDate('not a date', 1)).toBeNull();
+  });
+});
+
+describe('formatPlanDay', () => {
+  it('falls back to a day number without a start date', () => {
+    expect(formatPlanDay(null, 0)).toBe('Day 1');
+    expect(formatPlanDay('bad', 4)).toBe('Day 5');
+    expect(formatPlanDay('2025-10-20', 1)).not.toMatch(/^Day/);
+  });
+});
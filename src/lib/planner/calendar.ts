@@ -0,0 +1,36 @@
+// src/lib/planner/calendar.ts
+// Plan days are 0-based offsets from the plan's start date. Dates are plain
+// local calendar days ("YYYY-MM-DD") — no time zone games.
+
+const ISO_DATE_RE = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/** Local calendar day as "YYYY-MM-DD". */
+export function toIsoDate(d: Date): string {
+  const y = d.getFullYear();
+  const m = String(d.getMonth() + 1).padStart(2, '0');
+  const day = String(d.getDate()).padStart(2, '0');
+  return `${y}-${m}-${day}`;
+}
+
+/** "YYYY-MM-DD" → local midnight, or null if it isn't a real date. */
+export function parseIsoDate(s: string | null | undefined): Date | null {
+  const m = ISO_DATE_RE.exec(String(s ?? '').trim());
+  if (!m) return null;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  // Reject rollovers like 2025-02-31
+  return toIsoDate(d) === m[0] ? d : null;
+}
+
+/** Calendar date of plan day N (0-based). */
+export function planDayDate(startDate: string, day: number): Date | null {
+  const start = parseIsoDate(startDate);
+  if (!start) return null;
+  return new Date(start.getFullYear(), start.getMonth(), start.getDate() + day);
+}
+
+/** "Mon, Oct 20" when the plan has a start date, otherwise "Day N". */
+export function formatPlanDay(startDate: string | null | undefined, day: number): string {
+  const d = startDate ? planDayDate(startDate, day) : null;
+  if (!d) return `Day ${day + 1}`;
+  return d.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
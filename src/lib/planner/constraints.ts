@@ -0,0 +1,273 @@
+// src/lib/planner/constraints.ts
+import { normalizeIngredientName } from '@/lib/shopping';
+import type { PlannerIngredient, PlannerRecipe } from './types';
+
+// Pantry staples we don’t want to show in the shopping list
+export const STAPLE_SKIP = new Set([
+  'salt',
+  'kosher salt',
+  'sea salt',
+
+  'black pepper',
+  'pepper',
+
+  'olive oil',
+  'cooking oil',
+  'vegetable oil',
+  'canola oil',
+  'avocado oil',
+
+  // optional: common spices
+  'cumin',
+  'paprika',
+  'chili powder',
+  'garlic powder',
+  'onion powder',
+  'red pepper flake',
+]);
+
+export function escapeRegex(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function normalizeTermSet(terms: Iterable<string>): Set<string> {
+  const out = new Set<string>();
+  for (const t of terms) {
+    const n = normalizeIngredientName(String(t));
+    if (n) out.add(n);
+  }
+  return out;
+}
+
+export function matchesAnyNormalizedTerm(ingredientName: string, termsNorm: Set<string>): boolean {
+  if (!termsNorm.size) return false;
+
+  const ingNorm = normalizeIngredientName(ingredientName);
+  if (!ingNorm) return false;
+
+  // Exact match
+  if (termsNorm.has(ingNorm)) return true;
+
+  // Token / phrase containment (handles multi-word terms like "soy sauce")
+  for (const t of termsNorm) {
+    if (!t) continue;
+
+    // If the term is multi-word, substring match is usually what we want
+    if (t.includes(' ')) {
+      if (ingNorm.includes(t)) return true;
+      continue;
+    }
+
+    // For single tokens, do word-boundary matching on normalized strings
+    const rx = new RegExp(`\\b${escapeRegex(t)}s?\\b`, 'i');
+    if (rx.test(ingNorm)) return true;
+  }
+
+  return false;
+}
+
+export function recipeMatchesAnyRegex(
+  recipe: Pick<PlannerRecipe, 'title' | 'diet_tags'>,
+  ri: PlannerIngredient[],
+  rules: RegExp[],
+): boolean {
+  return !!firstRegexMatch(recipe, ri, rules);
+}
+
+/** The first title/tag/ingredient text a rule matches, and the text it matched. */
+export function firstRegexMatch(
+  recipe: Pick<PlannerRecipe, 'title' | 'diet_tags'>,
+  ri: PlannerIngredient[],
+  rules: RegExp[],
+): { text: string; match: string } | null {
+  if (!rules.length) return null;
+
+  const haystacks = [
+    recipe.title || '',
+    ...(recipe.diet_tags ?? []).map((t) => String(t)),
+    ...ri.map((it) => String(it.name || '')),
+  ];
+
+  for (const text of haystacks) {
+    for (const rx of rules) {
+      const m = rx.exec(text);
+      if (m) return { text, match: m[0].toLowerCase() };
+    }
+  }
+  return null;
+}
+
+export function expandAllergyTerms(allergies: string[]): Set<string> {
+  const base = allergies.map((a) => a.toLowerCase().trim()).filter(Boolean);
+
+  // Map “high-level” allergy toggles → ingredient keywords we actually see in recipe_ingredients
+  const MAP: Record<string, string[]> = {
+    dairy: [
+      'milk',
+      'cheese',
+      'butter',
+      'yogurt',
+      'cream',
+      'sour cream',
+      'whey',
+      'casein',
+      'ghee',
+      'mozzarella',
+      'cheddar',
+      'parmesan',
+      'feta',
+    ],
+    gluten: [
+      'wheat',
+      'flour',
+      'bread',
+      'pasta',
+      'noodle',
+      'tortilla',
+      'cracker',
+      'breadcrumb',
+      'breadcrumbs',
+      'soy sauce', // often contains wheat unless tamari
+    ],
+    fish: [
+      'fish',
+      'salmon',
+      'tuna',
+      'cod',
+      'tilapia',
+      'trout',
+      'halibut',
+      'anchovy',
+      'anchovies',
+      'sardine',
+      'sardines',
+    ],
+    tree_nut: [
+      'tree nut',
+      'tree nuts',
+      'almond',
+      'almonds',
+      'walnut',
+      'walnuts',
+      'pecan',
+      'pecans',
+      'cashew',
+      'cashews',
+      'pistachio',
+      'pistachios',
+      'hazelnut',
+      'hazelnuts',
+      'macadamia',
+      'brazil nut',
+      'brazil nuts',
+      'pine nut',
+      'pine nuts',
+    ],
+    egg: ['egg', 'eggs', 'mayonnaise', 'mayo'],
+    peanut: ['peanut', 'peanuts'],
+    shellfish: ['shrimp', 'prawn', 'crab', 'lobster', 'clam', 'mussel', 'oyster', 'scallop'],
+    soy: ['soy', 'tofu', 'edamame', 'miso', 'tempeh', 'soy sauce'],
+    sesame: ['sesame', 'tahini'],
+  };
+
+  const out = new Set<string>();
+
+  for (const a of base) {
+    out.add(a);
+
+    const extras = MAP[a];
+    if (extras && extras.length) {
+      for (const x of extras) out.add(x.toLowerCase());
+    }
+  }
+
+  return out;
+}
+
+const DIET_FORBIDDEN_BY_ING: Record<string, RegExp[]> = {
+  vegetarian: [
+    /\bchicken\b/i,
+    /\bbeef\b/i,
+    /\bpork\b/i,
+    /\bham\b/i,
+    /\bsausage\b/i,
+    /\bbacon\b/i,
+    /\bturkey\b/i,
+    // seafood/fish
+    /\bshrimp\b/i,
+    /\banchovies?\b/i,
+    /\bsalmon\b/i,
+    /\btuna\b/i,
+    /\bcod\b/i,
+    /\btilapia\b/i,
+    /\btrout\b/i,
+    /\bhalibut\b/i,
+    /\bmahi\b/i,
+    /\bseafood\b/i,
+    /\bfish\b/i,
+  ],
+  vegan: [
+    /\bchicken\b/i,
+    /\bbeef\b/i,
+    /\bpork\b/i,
+    /\bham\b/i,
+    /\bsausage\b/i,
+    /\bbacon\b/i,
+    /\bturkey\b/i,
+    // seafood/fish
+    /\bshrimp\b/i,
+    /\banchovies?\b/i,
+    /\bsalmon\b/i,
+    /\btuna\b/i,
+    /\bcod\b/i,
+    /\btilapia\b/i,
+    /\btrout\b/i,
+    /\bhalibut\b/i,
+    /\bmahi\b/i,
+    /\bseafood\b/i,
+    /\bfish\b/i,
+    // animal products
+    /\beggs?\b/i,
+    /\bcheese\b/i,
+    /\bmilk\b/i,
+    /\byogurt\b/i,
+    /\bbutter\b/i,
+  ],
+};
+
+export function violatesDiet(
+  recipe: Pick<PlannerRecipe, 'title' | 'diet_tags'>,
+  ri: PlannerIngredient[],
+  diet: string,
+): boolean {
+  return !!dietViolation(recipe, ri, diet);
+}
+
+/** What breaks a diet: the title/tag/ingredient text and the word that matched. */
+export function dietViolation(
+  recipe: Pick<PlannerRecipe, 'title' | 'diet_tags'>,
+  ri: PlannerIngredient[],
+  diet: string,
+): { text: string; match: string } | null {
+  return firstRegexMatch(recipe, ri, DIET_FORBIDDEN_BY_ING[diet] || []);
+}
+
+export function hasForbiddenFromSet(ri: PlannerIngredient[], termsNorm: Set<string>): boolean {
+  if (!termsNorm.size) return false;
+  return ri.some((it) => matchesAnyNormalizedTerm(it.name, termsNorm));
+}
+
+/** Every (ingredient, term) pair that matches, for explaining an exclusion. */
+export function forbiddenMatches(
+  ri: PlannerIngredient[],
+  termsNorm: Iterable<string>,
+): Array<{ ingredient: string; term: string }> {
+  const out: Array<{ ingredient: string; term: string }> = [];
+  for (const term of Array.from(termsNorm)) {
+    const one = new Set([term]);
+    for (const it of ri) {
+      if (matchesAnyNormalizedTerm(it.name, one)) out.push({ ingredient: it.name, term });
+    }
+  }
+  return out;
+}
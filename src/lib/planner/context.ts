@@ -0,0 +1,161 @@
+// src/lib/planner/context.ts
+import { normalizeIngredientName } from '@/lib/shopping';
+import {
+  expandAllergyTerms,
+  hasForbiddenFromSet,
+  normalizeTermSet,
+  violatesDiet,
+} from './constraints';
+import { prefsDiets } from './household';
+import { applyCooldown } from './rotation';
+import type { DayRule } from './schedule';
+import { recipeFitsSlot } from './slots';
+import type {
+  MealSlot,
+  PlannerIngredient,
+  PlannerInput,
+  PlannerPrefs,
+  PlannerRecipe,
+} from './types';
+
+// Everything the passes need, precomputed once per planning run.
+export type PlannerContext<R extends PlannerRecipe = PlannerRecipe> = {
+  prefs: PlannerPrefs;
+  favorites: Set<string>;
+  /** Meals to pick (excludes locked) */
+  count: number;
+  slot: MealSlot;
+  locked: R[];
+  seed: string;
+  now: number;
+
+  ingIndex: Map<string, PlannerIngredient[]>;
+  pantrySet: Set<string>;
+  pantryUseSoon: Set<string>;
+  pantryPerishBy: Map<string, Date>;
+  /** use_soon items plus anything perishing within 3 days */
+  mustUseSet: Set<string>;
+
+  allergyTermsNorm: Set<string>;
+  dislikeTermsNorm: Set<string>;
+  /** Normalized minority dislikes → vote share */
+  softDislikeTermsNorm: Map<string, number>;
+
+  /** Recipes that pass diet/allergy/dislike filters (or all recipes if none do) */
+  pool: R[];
+  /** strict-only: never relax constraints */
+  strictPool: R[];
+
+  /** Recipe id → last day served before this week ("YYYY-MM-DD") */
+  lastServed: Map<string, string>;
+  /** Allowed recipes kept out of the pool by the rotation cool-down */
+  rotationHeld: R[];
+  /** Weekday rule per pick position (empty = unscheduled) */
+  dayRules: Array<DayRule | null>;
+};
+
+function daysUntil(date: Date, now: number): number {
+  const ms = date.getTime() - now;
+  return Math.floor(ms / (1000 * 60 * 60 * 24));
+}
+
+export function recipeIngredients(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): PlannerIngredient[] {
+  return ctx.ingIndex.get(r.id) || [];
+}
+
+/** Hard constraints: diet, allergies, dislikes. */
+export function isRecipeAllowed(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): boolean {
+  const ri = recipeIngredients(ctx, r);
+
+  if (prefsDiets(ctx.prefs).some((d) => violatesDiet(r, ri, d))) return false;
+  if (hasForbiddenFromSet(ri, ctx.allergyTermsNorm)) return false;
+  if (hasForbiddenFromSet(ri, ctx.dislikeTermsNorm)) return false;
+
+  return true;
+}
+
+export function createPlannerContext<R extends PlannerRecipe>(
+  input: PlannerInput<R>,
+): PlannerContext<R> {
+  const { prefs } = input;
+  const slot = input.slot ?? 'dinner';
+  const now = input.now ?? Date.now();
+
+  const ingIndex = new Map<string, PlannerIngredient[]>();
+  input.ingredients.forEach((i) => {
+    const arr = ingIndex.get(i.recipe_id) || [];
+    arr.push(i);
+    ingIndex.set(i.recipe_id, arr);
+  });
+
+  const pantrySet = new Set(input.pantry.map((p) => normalizeIngredientName(p.name)));
+
+  const pantryUseSoon = new Set<string>();
+  const pantryPerishBy = new Map<string, Date>();
+  for (const p of input.pantry) {
+    const n = normalizeIngredientName(p.name);
+    if (p.use_soon) pantryUseSoon.add(n);
+    if (!p.perish_by) continue;
+    const ts = Date.parse(p.perish_by);
+    if (Number.isNaN(ts)) continue;
+    pantryPerishBy.set(n, new Date(ts));
+  }
+
+  // Build "must use" set from pantry items that are explicitly flagged OR expiring soon.
+  // (V1: treat perish-by within 3 days as must-use.)
+  const mustUseSet = new Set<string>(pantryUseSoon);
+  for (const [nameNorm, d] of pantryPerishBy.entries()) {
+    if (daysUntil(d, now) <= 3) mustUseSet.add(nameNorm);
+  }
+
+  const allergyTermsNorm = normalizeTermSet(expandAllergyTerms(prefs.allergies || []));
+  const dislikeTermsNorm = normalizeTermSet((prefs.dislikes || []).map((d) => String(d)));
+  const softDislikeTermsNorm = new Map<string, number>();
+  for (const [term, share] of Object.entries(prefs.soft_dislikes ?? {})) {
+    const n = normalizeIngredientName(term);
+    if (n && !dislikeTermsNorm.has(n)) {
+      softDislikeTermsNorm.set(n, Math.max(share, softDislikeTermsNorm.get(n) ?? 0));
+    }
+  }
+
+  const ctx: PlannerContext<R> = {
+    prefs,
+    favorites: new Set(input.favorites ?? []),
+    count: input.count ?? prefs.dinners_per_week ?? 7,
+    slot,
+    locked: input.locked ?? [],
+    seed: input.seed,
+    now,
+    ingIndex,
+    pantrySet,
+    pantryUseSoon,
+    pantryPerishBy,
+    mustUseSet,
+    allergyTermsNorm,
+    dislikeTermsNorm,
+    softDislikeTermsNorm,
+    pool: [],
+    strictPool: [],
+    lastServed: input.lastServed ?? new Map(),
+    rotationHeld: [],
+    dayRules: input.dayRules ?? [],
+  };
+
+  // Slot fit is not relaxed: no breakfast recipes means no breakfasts.
+  const slotRecipes = input.recipes.filter((r) => recipeFitsSlot(r, slot));
+  if (!slotRecipes.length) {
+    console.warn(`[PLAN] No recipes tagged for ${slot}; skipping slot.`);
+  }
+
+  const filtered = slotRecipes.filter((r) => isRecipeAllowed(ctx, r));
+  if (slotRecipes.length && !filtered.length) {
+    console.warn('[PLAN] All recipes filtered by prefs; falling back to full list.');
+  }
+
+  const { pool, held } = applyCooldown(ctx, filtered.length ? filtered : slotRecipes, ctx.count);
+  ctx.pool = pool;
+  ctx.strictPool = pool;
+  ctx.rotationHeld = held;
+
+  return ctx;
+}
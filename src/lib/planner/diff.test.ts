@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlans, diffShoppingLists } from './diff';
+import type { PlannedMeal } from './slots';
+import type { PlannerRecipe } from './types';
+
+const recipe = (id: string, title = id): PlannerRecipe => ({ id, title, time_min: 30, diet_tags: [] });
+
+const TACOS = recipe('t', 'Tacos');
+const SOUP = recipe('s', 'Soup');
+const CHILI = recipe('c', 'Chili');
+const PASTA = recipe('p', 'Pasta');
+
+const week = (...recipes: PlannerRecipe[]): PlannedMeal[] =>
+  recipes.map((recipe, day) => ({ day, slot: 'dinner', recipe }));
+
+describe('diffPlans', () => {
+  it('lists dishes added, removed and kept, by title', () => {
+    const diff = diffPlans(week(TACOS, SOUP, CHILI), week(PASTA, CHILI, TACOS));
+    expect(diff.added.map((e) => [e.recipe.title, e.count])).toEqual([['Pasta', 1]]);
+    expect(diff.removed.map((e) => [e.recipe.title, e.count])).toEqual([['Soup', 1]]);
+    expect(diff.kept.map((r) => r.title)).toEqual(['Chili', 'Tacos']);
+  });
+
+  it('counts repeats, not nights', () => {
+    const diff = diffPlans(week(TACOS, SOUP), week(TACOS, TACOS, TACOS));
+    expect(diff.added.map((e) => [e.recipe.id, e.count])).toEqual([['t', 2]]);
+    expect(diff.removed.map((e) => [e.recipe.id, e.count])).toEqual([['s', 1]]);
+  });
+
+  it('ignores leftover nights', () => {
+    const withLeftover: PlannedMeal[] = [...week(TACOS), { day: 1, slot: 'dinner', recipe: TACOS, leftover_of: 0 }];
+    const diff = diffPlans(week(TACOS), withLeftover);
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+  });
+});
+
+describe('diffShoppingLists', () => {
+  it('matches items by name and unit and ignores rounding noise', () => {
+    const diff = diffShoppingLists(
+      [
+        { name: 'onion', qty: 2, unit: 'unit' },
+        { name: 'rice', qty: 1, unit: 'cup' },
+        { name: 'milk', qty: 1, unit: 'cup' },
+        { name: 'salt', qty: 1, unit: 'tsp' },
+      ],
+      [
+        { name: 'onion', qty: 3, unit: 'unit' },
+        { name: 'rice', qty: 1.005, unit: 'cup' },
+        { name: 'milk', qty: 1, unit: 'l' },
+        { name: 'basil', qty: 1, unit: 'bunch' },
+      ],
+    );
+    expect(diff.added.map((i) => `${i.name}|${i.unit}`)).toEqual(['basil|bunch', 'milk|l']);
+    expect(diff.removed.map((i) => `${i.name}|${i.unit}`)).toEqual(['milk|cup', 'salt|tsp']);
+    expect(diff.changed).toEqual([{ name: 'onion', unit: 'unit', from: 2, to: 3 }]);
+  });
+});
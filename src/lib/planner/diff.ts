@@ -0,0 +1,101 @@
+// src/lib/planner/diff.ts
+// Week-to-week comparison for the plan history page: which dishes came and
+// went, and what that did to the shopping list. Leftover nights aren't
+// separate dishes, so only cook meals are compared.
+import type { ShoppingItem } from '@/lib/shopping';
+import type { PlannedMeal } from './slots';
+import type { PlannerRecipe } from './types';
+
+export type MealDiffEntry<R extends PlannerRecipe> = {
+  recipe: R;
+  /** How many more (added) or fewer (removed) times it's cooked */
+  count: number;
+};
+
+export type PlanDiff<R extends PlannerRecipe> = {
+  added: MealDiffEntry<R>[];
+  removed: MealDiffEntry<R>[];
+  /** Cooked in both weeks */
+  kept: R[];
+};
+
+export type ShoppingDiffEntry = {
+  name: string;
+  unit: string;
+  from: number;
+  to: number;
+};
+
+export type ShoppingDiff = {
+  added: ShoppingItem[];
+  removed: ShoppingItem[];
+  changed: ShoppingDiffEntry[];
+};
+
+function cookCounts<R extends PlannerRecipe>(week: PlannedMeal<R>[]) {
+  const out = new Map<string, { recipe: R; count: number }>();
+  for (const m of week) {
+    if (m.leftover_of != null) continue;
+    const hit = out.get(m.recipe.id);
+    if (hit) hit.count += 1;
+    else out.set(m.recipe.id, { recipe: m.recipe, count: 1 });
+  }
+  return out;
+}
+
+const byTitle = (a: { title: string }, b: { title: string }) => a.title.localeCompare(b.title);
+
+/** What changed going from week `from` to week `to`. */
+export function diffPlans<R extends PlannerRecipe>(
+  from: PlannedMeal<R>[],
+  to: PlannedMeal<R>[],
+): PlanDiff<R> {
+  const a = cookCounts(from);
+  const b = cookCounts(to);
+  const added: MealDiffEntry<R>[] = [];
+  const removed: MealDiffEntry<R>[] = [];
+  const kept: R[] = [];
+
+  for (const [id, x] of Array.from(b.entries())) {
+    const before = a.get(id)?.count ?? 0;
+    if (before > 0) kept.push(x.recipe);
+    if (x.count > before) added.push({ recipe: x.recipe, count: x.count - before });
+  }
+  for (const [id, x] of Array.from(a.entries())) {
+    const after = b.get(id)?.count ?? 0;
+    if (x.count > after) removed.push({ recipe: x.recipe, count: x.count - after });
+  }
+
+  return {
+    added: added.sort((x, y) => byTitle(x.recipe, y.recipe)),
+    removed: removed.sort((x, y) => byTitle(x.recipe, y.recipe)),
+    kept: kept.sort(byTitle),
+  };
+}
+
+// Quantities closer than this are treated as unchanged (rounding noise)
+const QTY_EPSILON = 0.01;
+
+/** Items keyed by (name, unit); both lists are already merged/normalized. */
+export function diffShoppingLists(from: ShoppingItem[], to: ShoppingItem[]): ShoppingDiff {
+  const key = (i: ShoppingItem) => `${i.name}|${i.unit}`;
+  const a = new Map(from.map((i) => [key(i), i]));
+  const b = new Map(to.map((i) => [key(i), i]));
+
+  const added = to.filter((i) => !a.has(key(i)));
+  const removed = from.filter((i) => !b.has(key(i)));
+  const changed: ShoppingDiffEntry[] = [];
+  for (const i of to) {
+    const prev = a.get(key(i));
+    if (prev && Math.abs(prev.qty - i.qty) > QTY_EPSILON) {
+      changed.push({ name: i.name, unit: i.unit, from: prev.qty, to: i.qty });
+    }
+  }
+
+  const byName = (x: { name: string }, y: { name: string }) => x.name.localeCompare(y.name);
+  return {
+    added: added.sort(byName),
+    removed: removed.sort(byName),
+    changed: changed.sort(byName),
+  };
+}
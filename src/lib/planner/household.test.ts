@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { combineHousehold, householdPortions, type HouseholdMember } from './household';
+import type { PlannerPrefs } from './types';
+
+const PREFS: PlannerPrefs = {
+  diet: 'none',
+  allergies: ['shellfish'],
+  dislikes: ['olives'],
+  max_prep_minutes: 45,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 5,
+};
+
+const member = (over: Partial<HouseholdMember>): HouseholdMember => ({
+  id: over.name ?? 'm',
+  name: 'Member',
+  diet: 'none',
+  allergies: [],
+  dislikes: [],
+  kid_friendly: false,
+  portion: 1,
+  ...over,
+});
+
+describe('combineHousehold', () => {
+  it('returns the prefs unchanged without members', () => {
+    expect(combineHousehold(PREFS, [])).toBe(PREFS);
+  });
+
+  it('takes the strictest diet and keeps the rest', () => {
+    const out = combineHousehold({ ...PREFS, diet: 'gluten_free' }, [
+      member({ name: 'A', diet: 'vegetarian' }),
+      member({ name: 'B', diet: 'vegan' }),
+      member({ name: 'C' }),
+    ]);
+    expect(out.diet).toBe('vegan');
+    expect(out.diets).toEqual(['vegan', 'vegetarian', 'gluten_free']);
+  });
+
+  it('unions allergies', () => {
+    const out = combineHousehold(PREFS, [
+      member({ name: 'A', allergies: ['peanut', 'shellfish'] }),
+      member({ name: 'B', allergies: ['sesame'] }),
+    ]);
+    expect(out.allergies).toEqual(['shellfish', 'peanut', 'sesame']);
+  });
+
+  it('turns majority dislikes hard and weights the rest', () => {
+    const out = combineHousehold(PREFS, [
+      member({ name: 'A', dislikes: ['mushroom', 'cilantro', 'olives'] }),
+      member({ name: 'B', dislikes: ['mushroom', 'mushroom'] }),
+      member({ name: 'C', dislikes: ['beets'] }),
+    ]);
+    expect(out.dislikes).toEqual(['olives', 'mushroom']);
+    expect(out.soft_dislikes).toEqual({ beets: 0.33, cilantro: 0.33 });
+  });
+
+  it('leaves soft dislikes unset when every dislike is hard', () => {
+    const out = combineHousehold(PREFS, [member({ name: 'A', dislikes: ['mushroom'] })]);
+    expect(out.dislikes).toEqual(['olives', 'mushroom']);
+    expect(out.soft_dislikes).toBeUndefined();
+  });
+
+  it('is kid-friendly when any member needs it', () => {
+    const out = combineHousehold(PREFS, [member({ name: 'A' }), member({ name: 'B', kid_friendly: true })]);
+    expect(out.kid_friendly).toBe(true);
+    expect(out.max_prep_minutes).toBe(45);
+  });
+});
+
+describe('householdPortions', () => {
+  it('adds up member portions', () => {
+    expect(householdPortions([])).toBeNull();
+    expect(householdPortions([member({ portion: 1 }), member({ portion: 0.5 }), member({ portion: 1.25 })])).toBe(2.75);
+  });
+});
@@ -0,0 +1,112 @@
+// src/lib/planner/household.ts
+// Named household members, each with their own diet/allergies/dislikes.
+// Folding them into one set of planner prefs:
+//   diets, allergies   hard — the union; every meal must suit everyone
+//   dislikes           votes — held by at least half the household → hard,
+//                      otherwise a scoring penalty weighted by the vote share
+//   kid-friendly       on if any member needs it (it's already a soft tilt)
+// The account-level diet/allergies/dislikes still apply to everyone.
+// Portions (a toddler eats about half) replace the bare people count when
+// scaling the shopping list.
+import type { PlannerPrefs } from './types';
+
+export type HouseholdMember = {
+  id: string;
+  name: string;
+  diet: string;
+  allergies: string[];
+  dislikes: string[];
+  kid_friendly: boolean;
+  /** Adult portion = 1 */
+  portion: number;
+};
+
+export const DEFAULT_MEMBER_PORTION = 1;
+
+export const MEMBER_PORTIONS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 2];
+
+// A dislike shared by at least this share of members is treated as hard
+const HARD_DISLIKE_SHARE = 0.5;
+
+// Stricter diets first; the strictest one becomes prefs.diet
+const DIET_STRICTNESS = ['vegan', 'vegetarian'];
+
+function list(v: unknown): string[] {
+  return Array.isArray(v) ? v.map((x) => String(x).trim()).filter(Boolean) : [];
+}
+
+export function memberFromRow(row: {
+  id: string;
+  name?: string | null;
+  diet?: string | null;
+  allergies?: string[] | null;
+  dislikes?: string[] | null;
+  kid_friendly?: boolean | null;
+  portion?: number | string | null;
+}): HouseholdMember {
+  const portion = Number(row.portion);
+  return {
+    id: row.id,
+    name: (row.name ?? '').trim() || 'Member',
+    diet: (row.diet ?? '').trim() || 'none',
+    allergies: list(row.allergies),
+    dislikes: list(row.dislikes),
+    kid_friendly: !!row.kid_friendly,
+    portion: Number.isFinite(portion) && portion > 0 ? portion : DEFAULT_MEMBER_PORTION,
+  };
+}
+
+/** Total adult-equivalent portions per meal; null when no members are set. */
+export function householdPortions(members: HouseholdMember[]): number | null {
+  if (!members.length) return null;
+  return members.reduce((n, m) => n + m.portion, 0);
+}
+
+/** Every non-"none" diet, strictest first. */
+export function prefsDiets(prefs: Pick<PlannerPrefs, 'diet' | 'diets'>): string[] {
+  const all = new Set([prefs.diet, ...(prefs.diets ?? [])].filter((d) => d && d !== 'none'));
+  const rank = (d: string) => {
+    const i = DIET_STRICTNESS.indexOf(d);
+    return i === -1 ? DIET_STRICTNESS.length : i;
+  };
+  return Array.from(all).sort((a, b) => rank(a) - rank(b) || a.localeCompare(b));
+}
+
+type HouseholdFields = Pick<
+  PlannerPrefs,
+  'diet' | 'diets' | 'allergies' | 'dislikes' | 'soft_dislikes' | 'kid_friendly'
+>;
+
+/** Account prefs + members → the prefs the planner runs with. */
+export function combineHousehold<P extends HouseholdFields>(prefs: P, members: HouseholdMember[]): P {
+  if (!members.length) return prefs;
+
+  const diets = prefsDiets({
+    diet: prefs.diet,
+    diets: [...(prefs.diets ?? []), ...members.map((m) => m.diet)],
+  });
+  const allergies = Array.from(new Set([...prefs.allergies, ...members.flatMap((m) => m.allergies)]));
+
+  const votes = new Map<string, number>();
+  for (const m of members) {
+    for (const d of new Set(m.dislikes)) votes.set(d, (votes.get(d) ?? 0) + 1);
+  }
+  const hard = new Set(prefs.dislikes);
+  const soft: Record<string, number> = {};
+  for (const [term, n] of Array.from(votes.entries()).sort((a, b) => a[0].localeCompare(b[0]))) {
+    if (hard.has(term)) continue;
+    const share = n / members.length;
+    if (share >= HARD_DISLIKE_SHARE) hard.add(term);
+    else soft[term] = Math.round(share * 100) / 100;
+  }
+
+  return {
+    ...prefs,
+    diet: diets[0] ?? 'none',
+    diets,
+    allergies,
+    dislikes: Array.from(hard),
+    soft_dislikes: Object.keys(soft).length ? soft : undefined,
+    kid_friendly: prefs.kid_friendly || members.some((m) => m.kid_friendly),
+  };
+}
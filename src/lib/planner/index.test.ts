@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { createPlannerContext } from './context';
+import { nextBestRecipe, planWeek, refinePlan } from './index';
+import type { PlannerIngredient, PlannerInput, PlannerPrefs, PlannerRecipe } from './types';
+
+const NOW = Date.parse('2026-03-02T12:00:00Z');
+
+const recipe = (id: string, title: string, time_min = 30, diet_tags: string[] = []): PlannerRecipe => ({
+  id,
+  title,
+  time_min,
+  diet_tags,
+});
+
+const RECIPES: PlannerRecipe[] = [
+  recipe('r01', 'Chicken Stir Fry', 25),
+  recipe('r02', 'Beef Tacos', 20),
+  recipe('r03', 'Salmon Rice Bowl', 30),
+  recipe('r04', 'Lentil Soup', 40, ['vegetarian', 'vegan']),
+  recipe('r05', 'Spinach Frittata', 25, ['vegetarian']),
+  recipe('r06', 'Peanut Noodles', 20, ['vegetarian', 'vegan']),
+  recipe('r07', 'Pork Chops', 35),
+  recipe('r08', 'Turkey Chili', 45),
+  recipe('r09', 'Shrimp Pasta', 25),
+  recipe('r10', 'Fish Tacos', 30),
+];
+
+const ing = (recipe_id: string, ...names: string[]): PlannerIngredient[] =>
+  names.map((name) => ({ recipe_id, name, qty: 1, unit: 'unit', optional: false }));
+
+const INGREDIENTS: PlannerIngredient[] = [
+  ...ing('r01', 'chicken breast', 'broccoli', 'soy sauce'),
+  ...ing('r02', 'ground beef', 'tortillas', 'cheddar'),
+  ...ing('r03', 'salmon', 'rice', 'cucumber'),
+  ...ing('r04', 'lentils', 'carrot', 'onion'),
+  ...ing('r05', 'eggs', 'spinach', 'milk'),
+  ...ing('r06', 'peanuts', 'noodles', 'scallion'),
+  ...ing('r07', 'pork chops', 'apple', 'potato'),
+  ...ing('r08', 'ground turkey', 'black beans', 'tomato'),
+  ...ing('r09', 'shrimp', 'pasta', 'garlic'),
+  ...ing('r10', 'cod', 'tortillas', 'cabbage'),
+];
+
+const PREFS: PlannerPrefs = {
+  diet: 'none',
+  allergies: [],
+  dislikes: [],
+  max_prep_minutes: 45,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 5,
+};
+
+const input = (over: Partial<PlannerInput> = {}): PlannerInput => ({
+  recipes: RECIPES,
+  ingredients: INGREDIENTS,
+  pantry: [{ name: 'spinach', perish_by: '2026-03-03', use_soon: false }],
+  prefs: PREFS,
+  seed: 'week-2026-03-02',
+  now: NOW,
+  ...over,
+});
+
+const ids = (rs: PlannerRecipe[]) => rs.map((r) => r.id);
+
+describe('planWeek', () => {
+  it('returns the same plan for the same seed', () => {
+    const a = planWeek(input());
+    const b = planWeek(input());
+    expect(ids(a.recipes)).toEqual(ids(b.recipes));
+    expect(a.trace).toEqual(b.trace);
+  });
+
+  it('fills the requested count without repeats when the pool allows it', () => {
+    const { recipes } = planWeek(input());
+    expect(recipes).toHaveLength(5);
+    expect(new Set(ids(recipes)).size).toBe(5);
+  });
+
+  it('runs every pass in order', () => {
+    expect(planWeek(input()).trace.map((t) => t.pass)).toEqual([
+      'heuristic_pick',
+      'perishables_order',
+      'fill_repeats',
+      'veg_balance',
+      'protein_variety',
+      'protein_adjacency',
+      'must_use_coverage',
+      'nutrition_targets',
+      'day_rules',
+      'diet_final',
+    ]);
+  });
+
+  it('uses a perishable pantry item early in the week', () => {
+    const { recipes } = planWeek(input());
+    expect(ids(recipes).slice(0, 2)).toContain('r05');
+  });
+
+  it('never plans around allergies or diet', () => {
+    const nuts = planWeek(input({ prefs: { ...PREFS, allergies: ['peanut'] } }));
+    expect(ids(nuts.recipes)).not.toContain('r06');
+
+    const vegan = planWeek(input({ prefs: { ...PREFS, diet: 'vegan' }, count: 4 }));
+    expect(vegan.recipes).toHaveLength(4);
+    expect(new Set(ids(vegan.recipes))).toEqual(new Set(['r04', 'r06']));
+  });
+
+  it('repeats from the strict pool in a seed-stable order', () => {
+    const run = (seed: string) =>
+      ids(planWeek(input({ prefs: { ...PREFS, diet: 'vegan' }, count: 5, seed })).recipes);
+    expect(run('a')).toEqual(run('a'));
+    expect(run('a').every((id) => id === 'r04' || id === 'r06')).toBe(true);
+  });
+
+  it('fills a slot only from recipes tagged for it', () => {
+    const breakfasts = [
+      { ...recipe('b1', 'Oatmeal', 10), meal_types: ['breakfast'] },
+      { ...recipe('b2', 'Yogurt Parfait', 5), meal_types: ['breakfast', 'lunch'] },
+    ];
+    const { recipes } = planWeek(input({ recipes: [...RECIPES, ...breakfasts], slot: 'breakfast', count: 3 }));
+    expect(recipes).toHaveLength(3);
+    expect(recipes.every((r) => r.id === 'b1' || r.id === 'b2')).toBe(true);
+  });
+});
+
+describe('locked meals', () => {
+  it('are never re-picked', () => {
+    const locked = RECIPES.filter((r) => r.id === 'r01' || r.id === 'r05');
+    const { recipes } = planWeek(input({ locked, count: 3 }));
+    expect(recipes).toHaveLength(3);
+    expect(ids(recipes)).not.toContain('r01');
+    expect(ids(recipes)).not.toContain('r05');
+  });
+
+  it('count toward the veg cap', () => {
+    const locked = RECIPES.filter((r) => r.id === 'r04');
+    const { recipes } = planWeek(input({ locked, pantry: [], count: 4 }));
+    expect(ids(recipes).filter((id) => ['r04', 'r05', 'r06'].includes(id))).toEqual([]);
+  });
+});
+
+describe('nextBestRecipe', () => {
+  it('swaps a meat dinner for another unused meat dinner', () => {
+    const ctx = createPlannerContext(input({ pantry: [] }));
+    const week = RECIPES.filter((r) => ['r01', 'r02', 'r04', 'r09'].includes(r.id));
+    const current = week.find((r) => r.id === 'r01')!;
+    const next = nextBestRecipe(ctx, week, current);
+    expect(next).not.toBeNull();
+    expect(ids(week)).not.toContain(next!.id);
+    expect(['r04', 'r05', 'r06']).not.toContain(next!.id);
+    expect(nextBestRecipe(ctx, week, current)).toBe(next);
+  });
+});
+
+describe('refinePlan', () => {
+  it('keeps an already balanced selection', () => {
+    const ctx = createPlannerContext(input({ pantry: [] }));
+    const chosen = RECIPES.filter((r) => ['r01', 'r03', 'r07', 'r09', 'r04'].includes(r.id));
+    const { recipes, trace } = refinePlan(ctx, chosen);
+    expect(new Set(ids(recipes))).toEqual(new Set(ids(chosen)));
+    expect(trace[0].pass).toBe('perishables_order');
+  });
+
+  it('moves a theme-night recipe onto its day', () => {
+    const ctx = createPlannerContext(
+      input({ pantry: [], count: 3, dayRules: [null, { max_prep_minutes: null, theme: 'taco' }, null] }),
+    );
+    const chosen = RECIPES.filter((r) => ['r02', 'r01', 'r09'].includes(r.id));
+    const a = refinePlan(ctx, chosen);
+    const b = refinePlan(ctx, chosen);
+    expect(a.recipes[1].title).toMatch(/Tacos/);
+    expect(ids(a.recipes)).toEqual(ids(b.recipes));
+  });
+});
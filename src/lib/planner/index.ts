@@ -0,0 +1,126 @@
+// src/lib/planner/index.ts
+// Heuristic weekly planner: candidate filtering, pantry-first scoring and the
+// post-selection balancing passes. Pure functions — no React, no Supabase —
+// so the plan page, API routes and scripts can all share one implementation.
+import { createPlannerContext, type PlannerContext } from './context';
+import {
+  balanceVegPass,
+  dayRulesPass,
+  dietFinalPass,
+  fillPlanWithRepeats,
+  mustUseCoveragePass,
+  nutritionTargetsPass,
+  orderByPerishability,
+  proteinAdjacencyPass,
+  proteinVarietyPass,
+  type PassOutput,
+} from './passes';
+import { pickHeuristicRecipes } from './scoring';
+import type {
+  PlanPassName,
+  PlanTraceEntry,
+  PlannerInput,
+  PlannerRecipe,
+  PlannerResult,
+} from './types';
+
+export * from './types';
+export * from './constraints';
+export * from './slots';
+export * from './calendar';
+export * from './nutrition';
+export * from './budget';
+export * from './shoppingList';
+export * from './diff';
+export * from './pantryOnly';
+export * from './rotation';
+export * from './household';
+export * from './schedule';
+export * from './audit';
+export * from './scorecard';
+export { createPlannerContext, isRecipeAllowed, recipeIngredients } from './context';
+export { explainRecipe, explainWeek, toRecipeLite } from './reasons';
+export type { PlannerContext } from './context';
+export { computeStats, ingredientWeight, nextBestRecipe, pickHeuristicRecipes } from './scoring';
+export type { RecipeStats, ScoreBreakdown } from './scoring';
+export {
+  isNonVegRecipe,
+  isVegLikeRecipe,
+  proteinFamily,
+  recipeProteinCat,
+  shouldBalanceNonVeg,
+} from './proteins';
+export type { ProteinCat } from './proteins';
+
+function ids(plan: PlannerRecipe[]): string[] {
+  return plan.map((r) => r.id);
+}
+
+function sameIds(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((id, i) => id === b[i]);
+}
+
+function runPass<R extends PlannerRecipe>(
+  trace: PlanTraceEntry[],
+  pass: PlanPassName,
+  plan: R[],
+  fn: (plan: R[]) => PassOutput<R>,
+): R[] {
+  const before = ids(plan);
+  const out = fn(plan);
+  const after = ids(out.plan);
+  trace.push({ pass, changed: !sameIds(before, after), before, after, details: out.details });
+  return out.plan;
+}
+
+/**
+ * Run the ordering/balancing passes over an initial selection (LLM or heuristic).
+ * Always returns exactly ctx.count meals when the strict pool allows it.
+ */
+export function refinePlan<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  chosen: R[],
+  trace: PlanTraceEntry[] = [],
+): PlannerResult<R> {
+  let plan = chosen.slice();
+
+  plan = runPass(trace, 'perishables_order', plan, (p) => orderByPerishability(ctx, p));
+  plan = runPass(trace, 'fill_repeats', plan, (p) => fillPlanWithRepeats(ctx, p));
+  plan = runPass(trace, 'veg_balance', plan, (p) => balanceVegPass(ctx, p));
+  plan = runPass(trace, 'protein_variety', plan, (p) => proteinVarietyPass(ctx, p));
+  plan = runPass(trace, 'protein_adjacency', plan, (p) => proteinAdjacencyPass(ctx, p));
+  plan = runPass(trace, 'must_use_coverage', plan, (p) => mustUseCoveragePass(ctx, p));
+  plan = runPass(trace, 'nutrition_targets', plan, (p) => nutritionTargetsPass(ctx, p));
+  plan = runPass(trace, 'day_rules', plan, (p) => dayRulesPass(ctx, p));
+  plan = runPass(trace, 'diet_final', plan, (p) => dietFinalPass(ctx, p));
+
+  return { recipes: plan, trace };
+}
+
+/** Full heuristic plan: filter → greedy pantry-first pick → refine. */
+export function planWeek<R extends PlannerRecipe>(input: PlannerInput<R>): PlannerResult<R> {
+  const ctx = createPlannerContext(input);
+  const trace: PlanTraceEntry[] = [];
+
+  const picked = runPass(trace, 'heuristic_pick', [] as R[], () => ({
+    plan: pickHeuristicRecipes(ctx),
+  }));
+
+  return refinePlan(ctx, picked, trace);
+}
+
+/** Compact one-line-per-pass summary for console logging. */
+export function summarizeTrace(
+  trace: PlanTraceEntry[],
+  titleById?: Map<string, string>,
+): Array<Record<string, unknown>> {
+  const label = (id: string) => titleById?.get(id) ?? id;
+  return trace
+    .filter((t) => t.changed || t.details)
+    .map((t) => ({
+      pass: t.pass,
+      changed: t.changed,
+      after: t.after.map(label),
+      ...(t.details ?? {}),
+    }));
+}
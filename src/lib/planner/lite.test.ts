@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_REASON_CHARS,
+  auditRecipeLite,
+  fallbackReason,
+  sanitizeReason,
+  type PrefsLite,
+  type RecipeLite,
+} from './lite';
+
+const PREFS: PrefsLite = { diet: 'none', allergies: [], dislikes: [], max_prep_minutes: 45 };
+
+const lite = (id: string, ingredients: string[], time_min = 25): RecipeLite => ({
+  id,
+  title: id,
+  time_min,
+  diet_tags: [],
+  ingredients,
+});
+
+describe('fallbackReason', () => {
+  it('leads with a use-soon pantry item', () => {
+    const r = lite('frittata', ['spinach', 'eggs', 'milk']);
+    expect(fallbackReason(r, new Set(['spinach', 'eggs']), PREFS, { useSoon: new Set(['spinach']) })).toBe(
+      'uses your spinach before it spoils · ready in 25 min',
+    );
+  });
+
+  it('says when nothing needs buying', () => {
+    expect(fallbackReason(lite('bowl', ['rice', 'beans'], 20), new Set(['rice', 'beans']), PREFS)).toBe(
+      'nothing to buy · ready in 20 min',
+    );
+  });
+
+  it('names an ingredient shared with an earlier meal', () => {
+    const reusedFrom = new Map([['cilantro', 'Mon, Oct 20']]);
+    expect(fallbackReason(lite('tacos', ['cilantro', 'tortillas'], 60), new Set(), PREFS, { reusedFrom })).toBe(
+      'reuses cilantro from Mon, Oct 20',
+    );
+  });
+
+  it('keeps at most two parts and has a default', () => {
+    const fav = { ...lite('soup', ['carrot', 'onion', 'lentils'], 20), is_favorite: true };
+    const prefs: PrefsLite = { ...PREFS, favorite_mode: 'favorites', kid_friendly: true };
+    expect(fallbackReason(fav, new Set(['carrot', 'onion']), prefs)).toBe(
+      'one of your favorites · uses your carrot and onion',
+    );
+    expect(fallbackReason(lite('x', []), new Set(), PREFS)).toBe('fits your preferences');
+  });
+});
+
+describe('sanitizeReason', () => {
+  it('drops non-text and reasons naming a blocked term', () => {
+    expect(sanitizeReason(42, [])).toBeNull();
+    expect(sanitizeReason('   ', [])).toBeNull();
+    expect(sanitizeReason('creamy peanut sauce', ['peanut'])).toBeNull();
+    expect(sanitizeReason('uses your shrimp', ['peanut'])).toBe('uses your shrimp');
+  });
+
+  it('flattens to one line and caps the length at a word', () => {
+    expect(sanitizeReason('quick\n\tweeknight  pick', [])).toBe('quick weeknight pick');
+    const long = sanitizeReason('word '.repeat(60), [])!;
+    expect(long.length).toBeLessThanOrEqual(MAX_REASON_CHARS);
+    expect(long.endsWith('word…')).toBe(true);
+  });
+});
+
+describe('auditRecipeLite', () => {
+  const opts = (over: { locked?: string[]; picked?: string[] } = {}) => ({
+    pantrySet: new Set(['noodles']),
+    lockedIds: new Set(over.locked ?? []),
+    picked: new Set(over.picked ?? []),
+  });
+
+  it('spells out each guardrail a recipe trips', () => {
+    const prefs: PrefsLite = { ...PREFS, diet: 'vegan', allergies: ['peanut'], dislikes: ['scallion'] };
+    const audit = auditRecipeLite(lite('noodles', ['peanut butter', 'noodles', 'scallions'], 50), prefs, opts());
+    expect(audit.eligible).toBe(false);
+    expect(audit.hits.map((h) => [h.rule, h.hard, h.matched])).toEqual([
+      ['diet', true, 'peanut butter'],
+      ['allergy', true, 'peanut butter'],
+      ['dislike', true, 'scallions'],
+      ['time', false, '50 min'],
+    ]);
+    expect(audit.score?.pantryHits).toEqual(['noodles']);
+  });
+
+  it('checks every household diet and notes soft dislikes', () => {
+    const prefs: PrefsLite = { ...PREFS, diet: 'none', diets: ['vegetarian'], soft_dislikes: { lentils: 0.5 } };
+    const chili = auditRecipeLite(lite('chili', ['ground turkey', 'lentils']), prefs, opts());
+    expect(chili.hits.map((h) => [h.rule, h.hard, h.value])).toEqual([
+      ['diet', true, 'vegetarian'],
+      ['soft_dislike', false, 'lentils'],
+    ]);
+    expect(chili.score?.softDislikes).toBe(-2);
+    expect(auditRecipeLite(lite('soup', ['lentils']), prefs, opts()).eligible).toBe(true);
+  });
+
+  it.each([
+    ['fish', 'salmon fillet'],
+    ['tree_nut', 'cashews'],
+  ])('expands the %s allergy like the planner does', (allergy, ingredient) => {
+    const audit = auditRecipeLite(lite('r', [ingredient]), { ...PREFS, allergies: [allergy] }, opts());
+    expect(audit.eligible).toBe(false);
+    expect(audit.hits[0]).toMatchObject({ rule: 'allergy', value: allergy, matched: ingredient });
+  });
+
+  it('marks locked and picked recipes', () => {
+    const r = lite('soup', ['lentils']);
+    expect(auditRecipeLite(r, PREFS, opts({ locked: ['soup'] }))).toMatchObject({
+      eligible: false,
+      hits: [{ rule: 'locked', hard: true }],
+    });
+    expect(auditRecipeLite(r, PREFS, opts({ picked: ['soup'] }))).toMatchObject({ eligible: true, picked: true, hits: [] });
+  });
+});
@@ -0,0 +1,406 @@
+// src/lib/planner/lite.ts
+// Lightweight planner helpers for the /api/llm-plan route. The route only sees
+// RecipeLite rows (title + normalized ingredient names), so these checks work on
+// plain strings instead of full recipe_ingredients rows.
+import { escapeRegex, expandAllergyTerms } from './constraints';
+import { prefsDiets } from './household';
+import type { NutritionTargets } from './nutrition';
+
+export type PrefsLite = {
+  diet: string;
+  /** Every diet in the household; each one is hard (see household.ts) */
+  diets?: string[];
+  allergies: string[];
+  dislikes: string[];
+  /** Minority household dislikes → share of members; a scoring penalty only */
+  soft_dislikes?: Record<string, number>;
+  max_prep_minutes: number;
+  favorite_mode?: 'variety' | 'favorites';
+  healthy_whole_food?: boolean;
+  kid_friendly?: boolean;
+  healthy_goal?: 'feel_better' | 'weight' | 'metabolic' | '';
+  healthy_protein_style?: 'mixed' | 'lean_animal' | 'plant_forward' | '';
+  healthy_carb_pref?: 'more_whole_grains' | 'lower_carb' | 'no_preference' | '';
+  nutrition?: NutritionTargets | null;
+};
+
+export type RecipeLite = {
+  id: string;
+  title: string;
+  time_min: number;
+  diet_tags: string[] | null;
+  ingredients: string[];
+  // Optional: passed from client for better planning
+  is_favorite?: boolean;
+  // Per serving, when known
+  calories?: number | null;
+  protein_g?: number | null;
+  fiber_g?: number | null;
+  sodium_mg?: number | null;
+};
+
+export function norm(s: string): string {
+  return String(s ?? '').toLowerCase().trim();
+}
+
+function matchesTerm(ing: string, term: string): boolean {
+  const t = norm(term);
+  if (!t) return false;
+  const i = norm(ing);
+  if (!i) return false;
+
+  // Multi-word terms (e.g., "soy sauce") -> substring match on normalized string
+  if (t.includes(' ')) return i.includes(t);
+
+  // Single token -> word boundary match
+  const rx = new RegExp(`\\b${escapeRegex(t)}s?\\b`, 'i');
+  return rx.test(i);
+}
+
+const DIET_FORBIDDEN_ING: Record<string, RegExp[]> = {
+  vegetarian: [
+    /\bchicken\b/i,
+    /\bbeef\b/i,
+    /\bpork\b/i,
+    /\bham\b/i,
+    /\bsausage\b/i,
+    /\bbacon\b/i,
+    /\bturkey\b/i,
+    /\bshrimp\b/i,
+    /\banchovies?\b/i,
+    /\bgelatin\b/i,
+  ],
+  vegan: [
+    /\bchicken\b/i,
+    /\bbeef\b/i,
+    /\bpork\b/i,
+    /\bham\b/i,
+    /\bsausage\b/i,
+    /\bbacon\b/i,
+    /\bturkey\b/i,
+    /\bshrimp\b/i,
+    /\banchovies?\b/i,
+    /\bgelatin\b/i,
+    /\beggs?\b/i,
+    /\bcheese\b/i,
+    /\bmilk\b/i,
+    /\byogurt\b/i,
+    /\bbutter\b/i,
+    /\bcream\b/i,
+    /\bwhey\b/i,
+  ],
+};
+
+export function violatesDietLite(recipe: RecipeLite, diet: string): boolean {
+  return !!dietViolationLite(recipe, diet);
+}
+
+/** Breaks prefs.diet or any household diet. */
+export function violatesDietsLite(recipe: RecipeLite, prefs: Pick<PrefsLite, 'diet' | 'diets'>): boolean {
+  return prefsDiets(prefs).some((d) => violatesDietLite(recipe, d));
+}
+
+/** The ingredient that breaks a diet, and the word that matched. */
+export function dietViolationLite(
+  recipe: RecipeLite,
+  diet: string,
+): { ingredient: string; match: string } | null {
+  const rules = DIET_FORBIDDEN_ING[norm(diet)] || [];
+  for (const ing of recipe.ingredients ?? []) {
+    for (const rx of rules) {
+      const m = rx.exec(ing);
+      if (m) return { ingredient: ing, match: m[0].toLowerCase() };
+    }
+  }
+  return null;
+}
+
+export function violatesTermsLite(recipe: RecipeLite, terms: string[]): boolean {
+  if (!terms?.length) return false;
+  const ings = recipe.ingredients ?? [];
+  for (const ing of ings) {
+    for (const t of terms) {
+      if (matchesTerm(ing, t)) return true;
+    }
+  }
+  return false;
+}
+
+/** Every (ingredient, term) pair that matches. */
+export function termMatchesLite(
+  recipe: RecipeLite,
+  terms: string[],
+): Array<{ ingredient: string; term: string }> {
+  const out: Array<{ ingredient: string; term: string }> = [];
+  for (const t of terms ?? []) {
+    for (const ing of recipe.ingredients ?? []) {
+      if (matchesTerm(ing, t)) out.push({ ingredient: ing, term: norm(t) });
+    }
+  }
+  return out;
+}
+
+export function healthyFallbackScore(recipe: RecipeLite, prefs: PrefsLite): number {
+  if (!prefs.healthy_whole_food) return 0;
+
+  const title = norm(recipe.title);
+  const ings = (recipe.ingredients ?? []).map(norm).filter(Boolean);
+  const hay = [title, ...ings].join(' ');
+
+  let score = 0;
+
+  // Positive healthy / whole-food signals
+  if (/(\bvegetable\b|\bbroccoli\b|\bcauliflower\b|\bspinach\b|\bzucchini\b|\bpepper\b|\bcarrot\b|\bkale\b|\bcabbage\b)/.test(hay)) score += 1.5;
+  if (/(\bbean\b|\bbeans\b|\blentil\b|\blentils\b|\bchickpea\b|\bchickpeas\b)/.test(hay)) score += 1.25;
+  if (/(\bquinoa\b|\bbrown rice\b|\bwhole wheat\b|\bwhole-wheat\b|\bwhole grain\b|\bwhole-grain\b)/.test(hay)) score += 1;
+  if (/(\bchicken\b|\bsalmon\b|\bfish\b|\bshrimp\b|\bturkey\b|\btofu\b|\btempeh\b|\begg\b|\beggs\b)/.test(hay)) score += 1;
+
+  // Negative heavier / more processed signals
+  if (/(\bfried\b|\bcrispy\b|\bbacon\b|\bsausage\b|\bpepperoni\b|\bhot dog\b|\bdeep fried\b)/.test(hay)) score -= 2;
+  if (/(\bheavy cream\b|\bcream cheese\b|\balfredo\b)/.test(hay)) score -= 1.5;
+  if (/(\bcandy\b|\bdessert\b|\bsoda\b|\bsugary\b)/.test(hay)) score -= 2;
+
+  // Micro-survey steering (minimal, high ROI)
+  if (prefs.healthy_goal === 'weight' && /(\bcream\b|\bbutter\b|\bbacon\b|\bsausage\b|\balfredo\b)/.test(hay)) score -= 1;
+  if (prefs.healthy_goal === 'metabolic' && /(\bwhite rice\b|\bwhite bread\b|\bwhite pasta\b|\bsugary\b)/.test(hay)) score -= 1;
+  if (prefs.healthy_protein_style === 'plant_forward' && /(\bbean\b|\bbeans\b|\blentil\b|\blentils\b|\bchickpea\b|\bchickpeas\b|\btofu\b|\btempeh\b)/.test(hay)) score += 1;
+  if (prefs.healthy_protein_style === 'lean_animal' && /(\bchicken\b|\bturkey\b|\bsalmon\b|\bfish\b|\begg\b|\beggs\b|\byogurt\b)/.test(hay)) score += 1;
+  if (prefs.healthy_carb_pref === 'lower_carb' && /(\bpasta\b|\bbread\b|\bpotato\b|\bpotatoes\b|\bwhite rice\b)/.test(hay)) score -= 1;
+  if (prefs.healthy_carb_pref === 'more_whole_grains' && /(\bbrown rice\b|\bwhole wheat\b|\bwhole-wheat\b|\bwhole grain\b|\bwhole-grain\b|\bquinoa\b)/.test(hay)) score += 1;
+
+  return score;
+}
+
+export function kidFriendlyFallbackScore(recipe: RecipeLite, prefs: PrefsLite): number {
+  if (!prefs.kid_friendly) return 0;
+
+  const title = norm(recipe.title);
+  const ings = (recipe.ingredients ?? []).map(norm).filter(Boolean);
+  const hay = [title, ...ings].join(' ');
+
+  let score = 0;
+
+  // Positive kid-friendly signals
+  if (/(\bchicken\b|\brice\b|\bpasta\b|\bnoodle\b|\bmeatball\b|\bmeatballs\b|\btaco\b|\bbowl\b|\bsoup\b)/.test(hay)) score += 1.5;
+  if ((recipe.time_min ?? 999) <= 35) score += 0.5;
+  if ((recipe.ingredients ?? []).length <= 10) score += 0.5;
+
+  // Negative kid-friendly signals
+  if (/(\bspicy\b|\bbuffalo\b|\bjalapeno\b|\bjalapeño\b|\bchipotle\b|\bhot sauce\b|\bchili flakes\b|\bred pepper flakes\b)/.test(hay)) score -= 2;
+  if (/(\barugula\b|\bkale\b|\bmustard greens\b|\bradicchio\b)/.test(hay)) score -= 1;
+  if (/(\bvinegar\b|\bpickled\b)/.test(hay)) score -= 0.5;
+
+  return score;
+}
+
+// Score components, kept apart so the same numbers can explain a pick.
+export type FallbackScoreParts = {
+  /** Recipe ingredients already in the pantry */
+  pantryHits: string[];
+  missing: number;
+  timeOk: boolean;
+  favBoost: number;
+  healthyBoost: number;
+  kidBoost: number;
+  /** Negative: soft household dislikes the recipe uses */
+  softDislikes: number;
+  total: number;
+};
+
+// Per whole-household dislike; same weight as the planner's (scoring.ts)
+const SOFT_DISLIKE_PENALTY = 4;
+
+type SoftDislikeMatch = { term: string; share: number; ingredient: string };
+
+function softDislikeMatches(recipe: RecipeLite, prefs: PrefsLite): SoftDislikeMatch[] {
+  const out: SoftDislikeMatch[] = [];
+  for (const [term, share] of Object.entries(prefs.soft_dislikes ?? {})) {
+    const m = termMatchesLite(recipe, [term])[0];
+    if (m) out.push({ term: m.term, share, ingredient: m.ingredient });
+  }
+  return out;
+}
+
+export function fallbackScoreParts(
+  recipe: RecipeLite,
+  pantrySet: Set<string>,
+  prefs: PrefsLite,
+): FallbackScoreParts | null {
+  const ings = (recipe.ingredients ?? []).map(norm).filter(Boolean);
+  if (!ings.length) return null;
+
+  const pantryHits: string[] = [];
+  let missing = 0;
+  for (const ing of ings) {
+    if (pantrySet.has(ing)) pantryHits.push(ing);
+    else missing += 1;
+  }
+
+  const timeOk = recipe.time_min <= (prefs.max_prep_minutes ?? 45);
+  const timeScore = timeOk ? 1.5 : -2;
+
+  const favBoost = recipe.is_favorite && prefs.favorite_mode === 'favorites' ? 3 : 0;
+
+  // Prefer high pantry overlap, fewer missing items
+  const healthyBoost = healthyFallbackScore(recipe, prefs);
+  const kidBoost = kidFriendlyFallbackScore(recipe, prefs);
+  const softDislikes = -softDislikeMatches(recipe, prefs).reduce(
+    (n, m) => n + m.share * SOFT_DISLIKE_PENALTY,
+    0,
+  );
+
+  const total =
+    pantryHits.length * 2 -
+    missing * 0.75 +
+    timeScore +
+    favBoost +
+    healthyBoost +
+    kidBoost +
+    softDislikes;
+
+  return { pantryHits, missing, timeOk, favBoost, healthyBoost, kidBoost, softDislikes, total };
+}
+
+export function scoreFallbackRecipe(
+  recipe: RecipeLite,
+  pantrySet: Set<string>,
+  prefs: PrefsLite,
+): number {
+  return fallbackScoreParts(recipe, pantrySet, prefs)?.total ?? -999;
+}
+
+// ---------- "Why not this recipe?" ----------
+// The route's side of the audit (see audit.ts for the planner's): the same
+// guardrails it applies to model output, spelled out per recipe.
+
+export type AuditHitLite = {
+  rule: 'locked' | 'diet' | 'allergy' | 'dislike' | 'soft_dislike' | 'time';
+  /** Hard rules keep a recipe out; soft ones only cost score */
+  hard: boolean;
+  value: string;
+  matched?: string;
+  term?: string;
+};
+
+export type RecipeAuditLite = {
+  id: string;
+  /** Passes the route's guardrails (the model may return it) */
+  eligible: boolean;
+  /** In the returned recipeIds */
+  picked: boolean;
+  hits: AuditHitLite[];
+  score: FallbackScoreParts | null;
+};
+
+export function auditRecipeLite(
+  recipe: RecipeLite,
+  prefs: PrefsLite,
+  opts: { pantrySet: Set<string>; lockedIds: Set<string>; picked: Set<string> },
+): RecipeAuditLite {
+  const hits: AuditHitLite[] = [];
+  if (opts.lockedIds.has(recipe.id)) hits.push({ rule: 'locked', hard: true, value: 'locked' });
+
+  for (const d of prefsDiets(prefs)) {
+    const diet = dietViolationLite(recipe, d);
+    if (diet) hits.push({ rule: 'diet', hard: true, value: norm(d), matched: diet.ingredient, term: diet.match });
+  }
+  for (const allergy of prefs.allergies ?? []) {
+    for (const m of termMatchesLite(recipe, Array.from(expandAllergyTerms([allergy])))) {
+      hits.push({ rule: 'allergy', hard: true, value: norm(allergy), matched: m.ingredient, term: m.term });
+    }
+  }
+  for (const m of termMatchesLite(recipe, (prefs.dislikes ?? []).map(norm).filter(Boolean))) {
+    hits.push({ rule: 'dislike', hard: true, value: m.term, matched: m.ingredient });
+  }
+  for (const m of softDislikeMatches(recipe, prefs)) {
+    hits.push({ rule: 'soft_dislike', hard: false, value: m.term, matched: m.ingredient });
+  }
+
+  const maxMin = prefs.max_prep_minutes ?? 45;
+  if (recipe.time_min > maxMin) {
+    hits.push({ rule: 'time', hard: false, value: `${maxMin} min`, matched: `${recipe.time_min} min` });
+  }
+
+  return {
+    id: recipe.id,
+    eligible: !hits.some((h) => h.hard),
+    picked: opts.picked.has(recipe.id),
+    hits,
+    score: fallbackScoreParts(recipe, opts.pantrySet, prefs),
+  };
+}
+
+// ---------- "Why this meal?" ----------
+
+export type ReasonHints = {
+  /** Pantry items that should be used first (use-soon / perishing) */
+  useSoon?: Set<string>;
+  /** Shopping items an earlier meal already needs → label of that meal ("Mon, Oct 20") */
+  reusedFrom?: Map<string, string>;
+};
+
+export const MAX_REASON_CHARS = 120;
+
+function listTwo(items: string[]): string {
+  return items.length > 1 ? `${items[0]} and ${items[1]}` : items[0];
+}
+
+/**
+ * Short reason built from the same components scoreFallbackRecipe adds up,
+ * strongest first (at most two), e.g. "uses your spinach before it spoils · kid-friendly".
+ */
+export function fallbackReason(
+  recipe: RecipeLite,
+  pantrySet: Set<string>,
+  prefs: PrefsLite,
+  hints: ReasonHints = {},
+): string {
+  const parts = fallbackScoreParts(recipe, pantrySet, prefs);
+  const ings = uniq((recipe.ingredients ?? []).map(norm).filter(Boolean));
+  const out: string[] = [];
+
+  const soon = ings.filter((i) => hints.useSoon?.has(i));
+  if (soon.length) out.push(`uses your ${listTwo(soon)} before it spoils`);
+
+  const reused = ings.filter((i) => hints.reusedFrom?.has(i));
+  if (reused.length) out.push(`reuses ${reused[0]} from ${hints.reusedFrom!.get(reused[0])}`);
+
+  if (parts) {
+    if (parts.favBoost > 0) out.push('one of your favorites');
+
+    const hits = parts.pantryHits.filter((i) => !soon.includes(i));
+    if (hits.length >= 2 || (hits.length && !parts.missing)) {
+      out.push(parts.missing ? `uses your ${listTwo(hits)}` : 'nothing to buy');
+    }
+
+    if (parts.kidBoost > 0) out.push('kid-friendly');
+    if (parts.healthyBoost > 0) out.push('whole-food pick');
+    if (parts.timeOk) out.push(`ready in ${recipe.time_min} min`);
+  }
+
+  return out.slice(0, 2).join(' · ') || 'fits your preferences';
+}
+
+/**
+ * Guardrail for model-written reasons: plain single-line text, capped length,
+ * and never anything that names an allergen or dislike. Returns null to drop it.
+ */
+export function sanitizeReason(raw: unknown, blockedTerms: string[]): string | null {
+  if (typeof raw !== 'string') return null;
+  // eslint-disable-next-line no-control-regex
+  let text = raw.replace(/[\u0000-\u001f\u007f]+/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!text) return null;
+
+  if (blockedTerms.some((t) => matchesTerm(text, t))) return null;
+
+  if (text.length > MAX_REASON_CHARS) {
+    const cut = text.slice(0, MAX_REASON_CHARS - 1);
+    const atWord = cut.lastIndexOf(' ');
+    text = `${(atWord > 40 ? cut.slice(0, atWord) : cut).trimEnd()}…`;
+  }
+  return text;
+}
+
+export function uniq<T>(arr: T[]): T[] {
+  return Array.from(new Set(arr));
+}
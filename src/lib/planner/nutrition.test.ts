@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { planWeek } from './index';
+import {
+  nutrientStatus,
+  nutritionMiss,
+  nutritionTargetsFromRow,
+  summarizeNutrition,
+  targetsForSlots,
+  type NutritionTargets,
+} from './nutrition';
+import type { PlannedMeal } from './slots';
+import type { PlannerPrefs, PlannerRecipe } from './types';
+
+const recipe = (id: string, calories: number | null, protein_g: number | null = 30): PlannerRecipe => ({
+  id,
+  title: id,
+  time_min: 30,
+  diet_tags: [],
+  calories,
+  protein_g,
+});
+
+const TARGETS: NutritionTargets = { period: 'day', calories: 2000, protein_g: 100, tolerance_pct: 10 };
+
+describe('nutritionTargetsFromRow', () => {
+  it('reads the profile columns', () => {
+    expect(
+      nutritionTargetsFromRow({ nutrition_period: 'week', target_calories: 14000, target_sodium_mg: '' as never }),
+    ).toEqual({
+      period: 'week',
+      calories: 14000,
+      protein_g: null,
+      fiber_g: null,
+      sodium_mg: null,
+      tolerance_pct: 15,
+    });
+  });
+
+  it('returns null when no target is set', () => {
+    expect(nutritionTargetsFromRow({ target_calories: 0, nutrition_tolerance_pct: 20 })).toBeNull();
+    expect(nutritionTargetsFromRow(null)).toBeNull();
+  });
+});
+
+describe('targetsForSlots', () => {
+  it('scales the daily target by the share of the day the slots cover', () => {
+    expect(targetsForSlots(TARGETS, ['dinner'])).toEqual({ calories: 800, protein_g: 40 });
+    expect(
+      targetsForSlots({ period: 'week', calories: 7000, protein_g: 700, tolerance_pct: 10 }, ['lunch', 'dinner', 'dinner']),
+    ).toEqual({ calories: 750, protein_g: 75 });
+  });
+});
+
+describe('nutrientStatus', () => {
+  it.each([
+    ['calories', 850, 'high'],
+    ['calories', 700, 'low'],
+    ['calories', 760, 'ok'],
+    ['protein_g', 2000, 'ok'],
+    ['protein_g', 700, 'low'],
+    ['sodium_mg', 0, 'ok'],
+    ['sodium_mg', 900, 'high'],
+  ] as const)('%s at %s against 800 → %s', (key, actual, status) => {
+    expect(nutrientStatus(key, actual, 800, 5)).toBe(status);
+  });
+});
+
+describe('nutritionMiss', () => {
+  it('is zero inside tolerance and grows with the distance outside it', () => {
+    const target = { calories: 800, protein_g: 40 };
+    expect(nutritionMiss({ calories: 850, protein_g: 60 }, target, 10)).toBe(0);
+    expect(nutritionMiss({ calories: 1040, protein_g: 40 }, target, 10)).toBeCloseTo(0.2);
+    expect(nutritionMiss({ calories: 800 }, target, 10)).toBe(0);
+  });
+});
+
+describe('summarizeNutrition', () => {
+  const meal = (day: number, r: PlannerRecipe, slot: PlannedMeal['slot'] = 'dinner'): PlannedMeal => ({
+    day,
+    slot,
+    recipe: r,
+  });
+
+  it('flags complete days outside tolerance and leaves incomplete days unjudged', () => {
+    const summary = summarizeNutrition(
+      [
+        meal(0, recipe('ok', 800, 40)),
+        meal(1, recipe('heavy', 1200, 40)),
+        meal(2, recipe('unknown', null)),
+        meal(2, recipe('light', 300, 30), 'lunch'),
+      ],
+      TARGETS,
+    );
+
+    expect(summary.days.map((d) => [d.day, d.flagged, d.unknownMeals])).toEqual([
+      [0, false, 0],
+      [1, true, 0],
+      [2, false, 1],
+    ]);
+    expect(summary.days[1].status).toEqual({ calories: 'high', protein_g: 'ok' });
+    expect(summary.days[2].status).toEqual({});
+    expect(summary.flaggedDays).toEqual([1]);
+    expect(summary.week).toMatchObject({
+      completeDays: 2,
+      totals: { calories: 2000, protein_g: 80 },
+      target: { calories: 1600, protein_g: 80 },
+      status: { calories: 'high', protein_g: 'ok' },
+    });
+  });
+});
+
+describe('nutrition_targets pass', () => {
+  const calories: Record<string, number> = {
+    r01: 1200, r02: 1300, r03: 600, r04: 550, r05: 500, r06: 1100, r07: 1250, r08: 620, r09: 1150, r10: 580,
+  };
+  const recipes = Object.entries(calories).map(([id, kcal]) => recipe(id, kcal, null));
+  const prefs: PlannerPrefs = {
+    diet: 'none',
+    allergies: [],
+    dislikes: [],
+    max_prep_minutes: 45,
+    favorite_mode: 'variety',
+    healthy_whole_food: false,
+    kid_friendly: false,
+    dinners_per_week: 5,
+  };
+  const plan = (nutrition: NutritionTargets | null) =>
+    planWeek({ recipes, ingredients: [], pantry: [], prefs: { ...prefs, nutrition }, seed: 'nutrition', now: 0 });
+
+  it('swaps meals toward the per-meal target', () => {
+    const pass = plan({ period: 'day', calories: 1500, tolerance_pct: 15 }).trace.find(
+      (t) => t.pass === 'nutrition_targets',
+    );
+    expect(pass?.changed).toBe(true);
+    expect(pass?.details).toMatchObject({ target: { calories: 600 }, missAfter: 0 });
+    expect((pass?.details as { missBefore: number }).missBefore).toBeGreaterThan(0);
+  });
+
+  it('does nothing without targets', () => {
+    const pass = plan(null).trace.find((t) => t.pass === 'nutrition_targets');
+    expect(pass?.changed).toBe(false);
+  });
+});
@@ -0,0 +1,271 @@
+// src/lib/planner/nutrition.ts
+// Per-person nutrition targets vs. per-serving recipe values.
+//
+// How each target is read:
+//   calories         a band — target ± tolerance
+//   protein, fiber   floors — at least target − tolerance
+//   sodium           a ceiling — at most target + tolerance
+// Targets are per person per day (or per week, spread over 7 days). A plan
+// that only covers some meals of the day is held to that share of the target.
+import { comparePlannedMeals, type PlannedMeal } from './slots';
+import type { MealSlot, PlannerRecipe } from './types';
+
+export type NutrientKey = 'calories' | 'protein_g' | 'fiber_g' | 'sodium_mg';
+
+export const NUTRIENT_KEYS: NutrientKey[] = ['calories', 'protein_g', 'fiber_g', 'sodium_mg'];
+
+export const NUTRIENT_LABEL: Record<NutrientKey, { label: string; unit: string }> = {
+  calories: { label: 'Calories', unit: 'kcal' },
+  protein_g: { label: 'Protein', unit: 'g' },
+  fiber_g: { label: 'Fiber', unit: 'g' },
+  sodium_mg: { label: 'Sodium', unit: 'mg' },
+};
+
+const DIRECTION: Record<NutrientKey, 'band' | 'min' | 'max'> = {
+  calories: 'band',
+  protein_g: 'min',
+  fiber_g: 'min',
+  sodium_mg: 'max',
+};
+
+export const DEFAULT_NUTRITION_TOLERANCE_PCT = 15;
+
+export type NutritionTargets = {
+  period: 'day' | 'week';
+  calories?: number | null;
+  protein_g?: number | null;
+  fiber_g?: number | null;
+  sodium_mg?: number | null;
+  /** Allowed miss, as a percent of the target */
+  tolerance_pct: number;
+};
+
+export type NutritionValues = Partial<Record<NutrientKey, number>>;
+
+export type NutrientStatus = 'ok' | 'low' | 'high';
+
+// Rough share of a day's intake each meal covers (dinner-only plans get 40%)
+export const SLOT_SHARE: Record<MealSlot, number> = {
+  breakfast: 0.25,
+  lunch: 0.35,
+  dinner: 0.4,
+};
+
+function positive(v: unknown): number | null {
+  const n = typeof v === 'number' ? v : v == null || v === '' ? NaN : Number(v);
+  return Number.isFinite(n) && n > 0 ? n : null;
+}
+
+/** DB columns → targets; null when the user hasn't set any. */
+export function nutritionTargetsFromRow(row: {
+  nutrition_period?: string | null;
+  target_calories?: number | null;
+  target_protein_g?: number | null;
+  target_fiber_g?: number | null;
+  target_sodium_mg?: number | null;
+  nutrition_tolerance_pct?: number | null;
+} | null | undefined): NutritionTargets | null {
+  if (!row) return null;
+  const t: NutritionTargets = {
+    period: row.nutrition_period === 'week' ? 'week' : 'day',
+    calories: positive(row.target_calories),
+    protein_g: positive(row.target_protein_g),
+    fiber_g: positive(row.target_fiber_g),
+    sodium_mg: positive(row.target_sodium_mg),
+    tolerance_pct: positive(row.nutrition_tolerance_pct) ?? DEFAULT_NUTRITION_TOLERANCE_PCT,
+  };
+  return hasNutritionTargets(t) ? t : null;
+}
+
+export function hasNutritionTargets(t: NutritionTargets | null | undefined): t is NutritionTargets {
+  return !!t && NUTRIENT_KEYS.some((k) => positive(t[k]) != null);
+}
+
+/** Keys the user actually set a target for. */
+export function targetedNutrients(t: NutritionTargets): NutrientKey[] {
+  return NUTRIENT_KEYS.filter((k) => positive(t[k]) != null);
+}
+
+/** Per-serving values; missing/zero fields are left out. */
+export function recipeNutrition(r: PlannerRecipe): NutritionValues {
+  const out: NutritionValues = {};
+  for (const k of NUTRIENT_KEYS) {
+    const v = positive(r[k]);
+    if (v != null) out[k] = v;
+  }
+  return out;
+}
+
+/** Per person per day. */
+export function dailyTargets(t: NutritionTargets): NutritionValues {
+  const out: NutritionValues = {};
+  for (const k of targetedNutrients(t)) {
+    const v = positive(t[k])!;
+    out[k] = t.period === 'week' ? v / 7 : v;
+  }
+  return out;
+}
+
+/** The share of the daily target that the given meals of one day should cover. */
+export function targetsForSlots(t: NutritionTargets, slots: MealSlot[]): NutritionValues {
+  const share = Array.from(new Set(slots)).reduce((n, s) => n + SLOT_SHARE[s], 0);
+  const daily = dailyTargets(t);
+  const out: NutritionValues = {};
+  for (const k of Object.keys(daily) as NutrientKey[]) out[k] = daily[k]! * share;
+  return out;
+}
+
+export function nutrientStatus(
+  key: NutrientKey,
+  actual: number,
+  target: number,
+  tolerancePct: number,
+): NutrientStatus {
+  const tol = target * (tolerancePct / 100);
+  const dir = DIRECTION[key];
+  if (dir !== 'max' && actual < target - tol) return 'low';
+  if (dir !== 'min' && actual > target + tol) return 'high';
+  return 'ok';
+}
+
+/**
+ * How far `actual` sits outside tolerance, summed over targeted nutrients and
+ * scaled by each target (0 = everything within tolerance).
+ */
+export function nutritionMiss(
+  actual: NutritionValues,
+  target: NutritionValues,
+  tolerancePct: number,
+): number {
+  let miss = 0;
+  for (const k of Object.keys(target) as NutrientKey[]) {
+    const t = target[k];
+    const a = actual[k];
+    if (!t || a == null) continue;
+    const tol = t * (tolerancePct / 100);
+    const dir = DIRECTION[k];
+    if (dir !== 'max' && a < t - tol) miss += (t - tol - a) / t;
+    if (dir !== 'min' && a > t + tol) miss += (a - t - tol) / t;
+  }
+  return miss;
+}
+
+/** Mean per-serving values across meals, per nutrient, over meals that have that value. */
+export function averageNutrition(recipes: PlannerRecipe[]): NutritionValues {
+  const sums: NutritionValues = {};
+  const counts: Partial<Record<NutrientKey, number>> = {};
+  for (const r of recipes) {
+    const n = recipeNutrition(r);
+    for (const k of Object.keys(n) as NutrientKey[]) {
+      sums[k] = (sums[k] ?? 0) + n[k]!;
+      counts[k] = (counts[k] ?? 0) + 1;
+    }
+  }
+  const out: NutritionValues = {};
+  for (const k of Object.keys(sums) as NutrientKey[]) out[k] = sums[k]! / counts[k]!;
+  return out;
+}
+
+// ---------- Week summary (plan page) ----------
+
+export type NutritionDay = {
+  day: number;
+  slots: MealSlot[];
+  /** Per person: one serving of every meal that day (leftovers included) */
+  totals: NutritionValues;
+  target: NutritionValues;
+  /** Meals that day missing a value for some targeted nutrient */
+  unknownMeals: number;
+  status: Partial<Record<NutrientKey, NutrientStatus>>;
+  /** Some targeted nutrient is outside tolerance (only judged on complete days) */
+  flagged: boolean;
+};
+
+export type NutritionSummary = {
+  targets: NutritionTargets;
+  days: NutritionDay[];
+  /** Sums over complete days only, so missing data doesn't read as "low" */
+  week: {
+    totals: NutritionValues;
+    target: NutritionValues;
+    status: Partial<Record<NutrientKey, NutrientStatus>>;
+    completeDays: number;
+  };
+  flaggedDays: number[];
+};
+
+function addInto(into: NutritionValues, v: NutritionValues) {
+  for (const k of Object.keys(v) as NutrientKey[]) into[k] = (into[k] ?? 0) + v[k]!;
+}
+
+function statusFor(
+  totals: NutritionValues,
+  target: NutritionValues,
+  tolerancePct: number,
+): Partial<Record<NutrientKey, NutrientStatus>> {
+  const out: Partial<Record<NutrientKey, NutrientStatus>> = {};
+  for (const k of Object.keys(target) as NutrientKey[]) {
+    out[k] = nutrientStatus(k, totals[k] ?? 0, target[k]!, tolerancePct);
+  }
+  return out;
+}
+
+export function summarizeNutrition<R extends PlannerRecipe>(
+  week: PlannedMeal<R>[],
+  targets: NutritionTargets,
+): NutritionSummary {
+  const keys = targetedNutrients(targets);
+  const byDay = new Map<number, PlannedMeal<R>[]>();
+  for (const m of week.slice().sort(comparePlannedMeals)) {
+    const arr = byDay.get(m.day) ?? [];
+    arr.push(m);
+    byDay.set(m.day, arr);
+  }
+
+  const days: NutritionDay[] = [];
+  const weekTotals: NutritionValues = {};
+  const weekTarget: NutritionValues = {};
+  let completeDays = 0;
+
+  for (const [day, meals] of Array.from(byDay.entries()).sort((a, b) => a[0] - b[0])) {
+    const slots = meals.map((m) => m.slot);
+    const target = targetsForSlots(targets, slots);
+    const totals: NutritionValues = {};
+    let unknownMeals = 0;
+    for (const m of meals) {
+      const n = recipeNutrition(m.recipe);
+      if (keys.some((k) => n[k] == null)) unknownMeals += 1;
+      addInto(totals, n);
+    }
+
+    const complete = unknownMeals === 0;
+    const status = complete ? statusFor(totals, target, targets.tolerance_pct) : {};
+    if (complete) {
+      completeDays += 1;
+      addInto(weekTotals, totals);
+      addInto(weekTarget, target);
+    }
+
+    days.push({
+      day,
+      slots,
+      totals,
+      target,
+      unknownMeals,
+      status,
+      flagged: Object.values(status).some((s) => s !== 'ok'),
+    });
+  }
+
+  return {
+    targets,
+    days,
+    week: {
+      totals: weekTotals,
+      target: weekTarget,
+      status: completeDays ? statusFor(weekTotals, weekTarget, targets.tolerance_pct) : {},
+      completeDays,
+    },
+    flaggedDays: days.filter((d) => d.flagged).map((d) => d.day),
+  };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { createPlannerContext } from './context';
+import { bestPantryUnlock, pantryShortfall, restrictToPantry } from './pantryOnly';
+import type { PlannerIngredient, PlannerPrefs, PlannerRecipe } from './types';
+
+const recipe = (id: string, title = id): PlannerRecipe => ({ id, title, time_min: 30, diet_tags: [] });
+
+const ing = (recipe_id: string, ...names: string[]): PlannerIngredient[] =>
+  names.map((name) => ({ recipe_id, name, qty: 1, unit: 'unit', optional: false }));
+
+const RECIPES = [
+  recipe('omelet', 'Omelet'),
+  recipe('stirfry', 'Turkey Stir Fry'),
+  recipe('rice', 'Fried Rice'),
+  recipe('risotto', 'Risotto'),
+  recipe('curry', 'Curry'),
+];
+
+const INGREDIENTS: PlannerIngredient[] = [
+  ...ing('omelet', 'eggs', 'salt', 'butter'),
+  ...ing('stirfry', 'ground turkey', 'tamari'),
+  ...ing('rice', 'rice', 'eggs', 'peas'),
+  ...ing('risotto', 'rice', 'peas', 'parmesan'),
+  ...ing('curry', 'chickpeas', 'coconut milk'),
+  { recipe_id: 'omelet', name: 'chives', qty: 1, unit: 'unit', optional: true },
+];
+
+const PREFS: PlannerPrefs = {
+  diet: 'none',
+  allergies: [],
+  dislikes: [],
+  max_prep_minutes: 45,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 5,
+};
+
+const PANTRY = ['eggs', 'butter', 'ground chicken', 'soy sauce', 'rice'].map((name) => ({ name, perish_by: null, use_soon: false }));
+
+const ctxFor = (prefs: Partial<PlannerPrefs> = {}, lastServed?: Map<string, string>) =>
+  createPlannerContext({
+    recipes: RECIPES,
+    ingredients: INGREDIENTS,
+    pantry: PANTRY,
+    prefs: { ...PREFS, ...prefs },
+    seed: 'pantry',
+    now: Date.parse('2026-03-02T12:00:00Z'),
+    lastServed,
+  });
+
+describe('pantryShortfall', () => {
+  it('skips staples, optional items and anything a pantry swap covers', () => {
+    const ctx = ctxFor();
+    const byId = (id: string) => RECIPES.find((r) => r.id === id)!;
+    expect(pantryShortfall(ctx, byId('omelet'))).toEqual([]);
+    expect(pantryShortfall(ctx, byId('stirfry'))).toEqual([]);
+    expect(pantryShortfall(ctx, byId('rice'))).toEqual(['pea']);
+  });
+
+  it('never swaps in a disliked item', () => {
+    const ctx = ctxFor({ dislikes: ['ground chicken'] });
+    expect(pantryShortfall(ctx, RECIPES[1])).toEqual(['ground turkey']);
+  });
+});
+
+describe('restrictToPantry', () => {
+  it('narrows the pool to covered recipes and shrinks the week to fit', () => {
+    const run = restrictToPantry(ctxFor());
+    expect(run.ctx.strictPool.map((r) => r.id).sort()).toEqual(['omelet', 'stirfry']);
+    expect(run.ctx.count).toBe(2);
+    expect(run.uncovered.map((u) => [u.recipe.id, u.missing])).toEqual(
+      expect.arrayContaining([
+        ['rice', ['pea']],
+        ['risotto', ['pea', 'parmesan']],
+      ]),
+    );
+  });
+
+  it('takes a recently served recipe over a shorter week', () => {
+    const ctx = ctxFor(
+      { dinners_per_week: 2, rotation: { cooldown_weeks: 3, favorite_cooldown_weeks: 1 } },
+      new Map([['stirfry', '2026-02-25']]),
+    );
+    expect(ctx.rotationHeld.map((r) => r.id)).toEqual(['stirfry']);
+    const run = restrictToPantry(ctx);
+    expect(run.ctx.strictPool.map((r) => r.id)).toEqual(['omelet', 'stirfry']);
+    expect(run.ctx.count).toBe(2);
+  });
+});
+
+describe('bestPantryUnlock', () => {
+  it('names the one purchase that unlocks the most recipes', () => {
+    const run = restrictToPantry(ctxFor());
+    const unlock = bestPantryUnlock([run]);
+    expect(unlock?.ingredient).toBe('pea');
+    expect(unlock?.recipes.map((r) => r.title)).toEqual(['Fried Rice']);
+  });
+
+  it('is null when nothing is one item away', () => {
+    expect(bestPantryUnlock([{ ctx: ctxFor(), uncovered: [{ recipe: RECIPES[4], missing: ['a', 'b'] }] }])).toBeNull();
+  });
+});
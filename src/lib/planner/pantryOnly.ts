@@ -0,0 +1,108 @@
+// src/lib/planner/pantryOnly.ts
+// "No shopping trip" weeks: only recipes the pantry fully covers. An
+// ingredient counts as covered when the pantry has it, when it's a staple
+// (STAPLE_SKIP) or optional, or when a substitution rule can stand in for it
+// with something on hand. Coverage is by name, like the pantry-hit scoring;
+// pantry rows rarely carry reliable quantities.
+//
+// Repeats would lean on the same pantry items twice, so the week shrinks to
+// the number of distinct covered recipes instead of cycling them.
+import { applySubstitutionsToNeeds, applyUserSubRules, normalizeIngredientName } from '@/lib/shopping';
+import { STAPLE_SKIP } from './constraints';
+import { isRecipeAllowed, recipeIngredients, type PlannerContext } from './context';
+import type { PlannerRecipe } from './types';
+
+export type PantryUnlock<R extends PlannerRecipe> = {
+  /** Normalized ingredient name */
+  ingredient: string;
+  /** Recipes this one purchase would make cookable */
+  recipes: R[];
+};
+
+export type PantryOnlyRun<R extends PlannerRecipe> = {
+  ctx: PlannerContext<R>;
+  /** Allowed recipes the pantry doesn't cover, with what's missing */
+  uncovered: Array<{ recipe: R; missing: string[] }>;
+};
+
+/** Normalized names of what you'd still have to buy for `r`. */
+export function pantryShortfall(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): string[] {
+  const needs = recipeIngredients(ctx, r)
+    .filter((it) => !it.optional)
+    .map((it) => ({ name: normalizeIngredientName(it.name), qty: it.qty, unit: it.unit }))
+    .filter((n) => n.name && !STAPLE_SKIP.has(n.name));
+  if (!needs.length) return [];
+
+  // Swaps never lean on an allergen or a dislike. Household swaps come
+  // first, as on the shopping list: the pantry is checked for what you'd buy.
+  const blocked = new Set([...Array.from(ctx.allergyTermsNorm), ...Array.from(ctx.dislikeTermsNorm)]);
+  const opts = { blocked, allergies: ctx.prefs.allergies };
+  const missing = applyUserSubRules(needs, ctx.prefs.sub_rules ?? [], opts).needsOut.filter(
+    (n) => !ctx.pantrySet.has(n.name),
+  );
+  if (!missing.length) return [];
+
+  const { needsOut } = applySubstitutionsToNeeds(missing, ctx.pantrySet, opts);
+  return Array.from(new Set(needsOut.map((n) => n.name)));
+}
+
+/**
+ * Narrow a slot's context to pantry-covered recipes. Unlike the normal pool,
+ * this never relaxes diet/allergy/dislike filters: an empty pool means no
+ * meals for the slot.
+ */
+export function restrictToPantry<R extends PlannerRecipe>(ctx: PlannerContext<R>): PantryOnlyRun<R> {
+  const covered: R[] = [];
+  const uncovered: PantryOnlyRun<R>['uncovered'] = [];
+  for (const r of ctx.strictPool) {
+    if (!isRecipeAllowed(ctx, r)) continue;
+    const missing = pantryShortfall(ctx, r);
+    if (missing.length) uncovered.push({ recipe: r, missing });
+    else covered.push(r);
+  }
+  // A short pantry week takes recently served recipes over fewer meals
+  for (const r of ctx.rotationHeld) {
+    if (covered.length >= ctx.count) break;
+    if (isRecipeAllowed(ctx, r) && !pantryShortfall(ctx, r).length) covered.push(r);
+  }
+
+  return {
+    ctx: {
+      ...ctx,
+      pool: covered,
+      strictPool: covered,
+      count: Math.min(ctx.count, covered.length),
+    },
+    uncovered,
+  };
+}
+
+/**
+ * The single ingredient that would make the most uncovered recipes cookable
+ * (recipes one item short), across all slots. Null when nothing is one away.
+ */
+export function bestPantryUnlock<R extends PlannerRecipe>(
+  runs: PantryOnlyRun<R>[],
+): PantryUnlock<R> | null {
+  const byIngredient = new Map<string, Map<string, R>>();
+  for (const run of runs) {
+    for (const { recipe, missing } of run.uncovered) {
+      if (missing.length !== 1) continue;
+      const m = byIngredient.get(missing[0]) ?? new Map<string, R>();
+      m.set(recipe.id, recipe);
+      byIngredient.set(missing[0], m);
+    }
+  }
+
+  let best: PantryUnlock<R> | null = null;
+  for (const [ingredient, recipes] of Array.from(byIngredient.entries())) {
+    const n = recipes.size;
+    if (!best || n > best.recipes.length || (n === best.recipes.length && ingredient < best.ingredient)) {
+      best = {
+        ingredient,
+        recipes: Array.from(recipes.values()).sort((a, b) => a.title.localeCompare(b.title)),
+      };
+    }
+  }
+  return best;
+}
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { createPlannerContext } from './context';
+import { dayRulesPass } from './passes';
+import type { DayRule } from './schedule';
+import type { PlannerPrefs, PlannerRecipe } from './types';
+
+const PREFS: PlannerPrefs = {
+  diet: 'none',
+  allergies: [],
+  dislikes: [],
+  max_prep_minutes: 60,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 3,
+};
+
+const recipe = (id: string, title: string, time_min: number): PlannerRecipe => ({
+  id,
+  title,
+  time_min,
+  diet_tags: [],
+});
+
+const ROAST = recipe('roast', 'Sunday Roast', 90);
+const STEW = recipe('stew', 'Beef Stew', 60);
+const TACOS = recipe('tacos', 'Fish Tacos', 30);
+const SALAD = recipe('salad', 'Greek Salad', 15);
+const OMELET = recipe('omelet', 'Cheese Omelet', 10);
+const ALL = [ROAST, STEW, TACOS, SALAD, OMELET];
+
+const TACO_NIGHT: DayRule = { max_prep_minutes: null, theme: 'taco' };
+const QUICK: DayRule = { max_prep_minutes: 20, theme: null };
+
+const ctxFor = (dayRules: Array<DayRule | null>, recipes = ALL) =>
+  createPlannerContext({
+    recipes,
+    ingredients: [],
+    pantry: [],
+    prefs: PREFS,
+    seed: 'day-rules',
+    now: Date.parse('2026-03-02T12:00:00Z'),
+    count: dayRules.length,
+    dayRules,
+  });
+
+const ids = (rs: PlannerRecipe[]) => rs.map((r) => r.id);
+
+describe('dayRulesPass', () => {
+  it('leaves an unscheduled plan alone', () => {
+    const plan = [ROAST, STEW, TACOS];
+    expect(dayRulesPass(ctxFor([null, null, null]), plan)).toEqual({ plan });
+  });
+
+  it('moves fitting picks onto ruled days', () => {
+    const out = dayRulesPass(ctxFor([TACO_NIGHT, null, QUICK]), [SALAD, STEW, TACOS]);
+    expect(ids(out.plan)).toEqual(['tacos', 'stew', 'salad']);
+  });
+
+  it('brings in a fitting recipe and drops the weakest unruled pick', () => {
+    const out = dayRulesPass(ctxFor([null, TACO_NIGHT, null]), [ROAST, STEW, SALAD]);
+    expect(out.plan).toHaveLength(3);
+    expect(out.plan[1]).toBe(TACOS);
+    const swaps = out.details?.swaps as Array<{ replaced: string; added: string }>;
+    expect(swaps).toHaveLength(1);
+    expect(swaps[0].added).toBe('tacos');
+    expect(ids(out.plan)).not.toContain(swaps[0].replaced);
+  });
+
+  it('gives an unmet time limit the quickest pick and reports it', () => {
+    const out = dayRulesPass(ctxFor([null, { max_prep_minutes: 5, theme: null }], [ROAST, STEW, SALAD]), [
+      ROAST,
+      SALAD,
+    ]);
+    expect(ids(out.plan)).toEqual(['roast', 'salad']);
+    expect(out.details?.unmet).toEqual([{ position: 1, max_prep_minutes: 5, theme: null }]);
+  });
+
+  it('is deterministic', () => {
+    const run = () => ids(dayRulesPass(ctxFor([QUICK, TACO_NIGHT, QUICK]), [ROAST, STEW, OMELET]).plan);
+    expect(run()).toEqual(run());
+  });
+});
@@ -0,0 +1,793 @@
+// src/lib/planner/passes.ts
+import { normalizeIngredientName } from '@/lib/shopping';
+import { computeRecipePerishability, scoreFromPerishDate } from '@/lib/perishables';
+import { STAPLE_SKIP, matchesAnyNormalizedTerm, violatesDiet } from './constraints';
+import type { PlannerContext } from './context';
+import { prefsDiets } from './household';
+import {
+  CAT_ORDER,
+  isNonVegRecipe,
+  isVegLikeRecipe,
+  proteinFamily,
+  recipeProteinCat,
+  shouldBalanceNonVeg,
+  type ProteinCat,
+} from './proteins';
+import {
+  averageNutrition,
+  hasNutritionTargets,
+  nutritionMiss,
+  recipeNutrition,
+  targetedNutrients,
+  targetsForSlots,
+} from './nutrition';
+import { isActiveDayRule, recipeFitsDayRule } from './schedule';
+import { computeStats, ingredientWeight } from './scoring';
+import type { PlannerRecipe } from './types';
+
+export type PassOutput<R extends PlannerRecipe> = {
+  plan: R[];
+  details?: Record<string, unknown>;
+};
+
+function hashStringToInt(s: string): number {
+  // Deterministic small hash (no crypto needed)
+  let h = 0;
+  for (let i = 0; i < s.length; i++) {
+    h = (h * 31 + s.charCodeAt(i)) >>> 0;
+  }
+  return h;
+}
+
+function sortedById<R extends PlannerRecipe>(pool: R[]): R[] {
+  return (pool || [])
+    .filter((r) => !!r?.id)
+    .slice()
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+function recipeUsesSoon(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): boolean {
+  const ri = (ctx.ingIndex.get(r.id) || []).filter((it) => !it.optional);
+  return ri.some((it) => ctx.pantryUseSoon.has(normalizeIngredientName(it.name)));
+}
+
+// ---------- Perishables-first ordering ----------
+// Priority order:
+// 1) Recipes that consume any pantry items marked "use soon"
+// 2) Then recipes with the most urgent perishability (date-based or heuristic)
+export function orderByPerishability<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  const withPerishableScore = plan.map((r) => {
+    const riNonOpt = (ctx.ingIndex.get(r.id) || []).filter((it) => !it.optional);
+
+    const ingredientNames = riNonOpt
+      .map((it) => normalizeIngredientName(it.name))
+      .filter(Boolean);
+
+    // Use-soon match uses normalized ingredient names for consistency
+    const usesSoon = riNonOpt.some((it) =>
+      ctx.pantryUseSoon.has(normalizeIngredientName(it.name)),
+    );
+
+    const heuristicScore = computeRecipePerishability(ingredientNames);
+
+    let dateScore: 1 | 2 | 3 | 4 = 1;
+    for (const it of riNonOpt) {
+      const pantryDate = ctx.pantryPerishBy.get(normalizeIngredientName(it.name));
+      if (!pantryDate) continue;
+      const s = scoreFromPerishDate(pantryDate, ctx.now);
+      if (s > dateScore) dateScore = s;
+    }
+
+    const perishability = dateScore > heuristicScore ? dateScore : heuristicScore;
+
+    return { recipe: r, usesSoon, perishability };
+  });
+
+  withPerishableScore.sort((a, b) => {
+    if (a.usesSoon !== b.usesSoon) return a.usesSoon ? -1 : 1;
+    return b.perishability - a.perishability;
+  });
+
+  return { plan: withPerishableScore.map((x) => x.recipe) };
+}
+
+// ---------- Fill to target with repeats ----------
+// Repeats are allowed, but ONLY from the strict pool (no constraint relaxing).
+export function fillPlanWithRepeats<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  const target = ctx.count;
+  const out = plan.slice(0, target);
+  if (out.length >= target) return { plan: out };
+
+  const pool = (ctx.strictPool || []).filter((r) => !!r?.id);
+  if (!pool.length) return { plan: out }; // nothing we can do
+
+  // Stable order for deterministic cycling
+  const poolSorted = pool.slice().sort((a, b) => a.id.localeCompare(b.id));
+  const start = hashStringToInt(ctx.seed) % poolSorted.length;
+
+  let i = 0;
+  while (out.length < target) {
+    out.push(poolSorted[(start + i) % poolSorted.length]);
+    i++;
+    // defensive guard (should never hit)
+    if (i > target * 10) break;
+  }
+
+  return { plan: out, details: { target, finalLength: out.length } };
+}
+
+// ---------- Balance veg vs non-veg (for omnivore users) ----------
+// If the user did NOT request vegetarian/vegan, keep the week from skewing too plant-forward.
+// This is a soft constraint: we replace excess veg meals with the best non-veg candidates.
+export function balanceVegPass<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  const { prefs, locked } = ctx;
+  if (!shouldBalanceNonVeg(ctx) || plan.length + locked.length < 3) return { plan };
+
+  // When both healthy + kid-friendly are OFF, keep veg-like meals to at most 1 for now.
+  // Otherwise use the softer 40% cap for omnivore users.
+  // The cap is for the whole week, locked meals included; only unlocked meals get replaced.
+  const maxVeg =
+    !prefs.healthy_whole_food && !prefs.kid_friendly
+      ? 1
+      : Math.max(1, Math.floor((ctx.count + locked.length) * 0.4));
+
+  let vegCount = [...locked, ...plan].reduce(
+    (acc, r) => acc + (isVegLikeRecipe(ctx, r) ? 1 : 0),
+    0,
+  );
+  if (vegCount <= maxVeg) return { plan };
+
+  // Build a replacement pool of non-veg recipes from the strict pool.
+  // Keep it deterministic: sort by id.
+  const nonVegCandidates = sortedById(ctx.strictPool).filter((r) => isNonVegRecipe(ctx, r));
+
+  // Track ids already used; we prefer variety but allow repeats if needed.
+  const usedCounts = new Map<string, number>();
+  for (const r of [...locked, ...plan]) usedCounts.set(r.id, (usedCounts.get(r.id) ?? 0) + 1);
+
+  function pickReplacement(): R | null {
+    // First pass: avoid duplicates when possible
+    for (const r of nonVegCandidates) {
+      if ((usedCounts.get(r.id) ?? 0) === 0) return r;
+    }
+    // Second pass: allow repeats
+    return nonVegCandidates[0] ?? null;
+  }
+
+  // Replace from the END of the week so perishables-first ordering stays mostly intact.
+  const updated = plan.slice();
+  for (let i = updated.length - 1; i >= 0 && vegCount > maxVeg; i--) {
+    const r = updated[i];
+    if (!isVegLikeRecipe(ctx, r)) continue;
+
+    const repl = pickReplacement();
+    if (!repl) break;
+
+    // If replacement is the same id, we still accept it (repeats allowed),
+    // but try to not do pointless swaps.
+    if (repl.id === r.id) break;
+
+    updated[i] = repl;
+    // bookkeeping
+    usedCounts.set(repl.id, (usedCounts.get(repl.id) ?? 0) + 1);
+    vegCount -= 1;
+  }
+
+  return { plan: updated, details: { maxVeg, vegCount } };
+}
+
+// ---------- Protein variety (avoid too many chicken meals) ----------
+// Best-effort: keep any single protein category from dominating the week.
+// This runs only for omnivore users (not vegetarian/vegan).
+export function proteinVarietyPass<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  const { locked } = ctx;
+  if (!shouldBalanceNonVeg(ctx) || plan.length + locked.length < 3) return { plan };
+
+  // Cap applies to the whole week (locked meals count, but are never swapped out)
+  const maxPerCat = Math.max(1, Math.ceil((ctx.count + locked.length) * 0.4));
+
+  const counts = new Map<ProteinCat, number>();
+  for (const r of [...locked, ...plan]) {
+    const c = recipeProteinCat(ctx, r);
+    counts.set(c, (counts.get(c) ?? 0) + 1);
+  }
+
+  function isOverCap(cat: ProteinCat) {
+    const c = counts.get(cat) ?? 0;
+    return c > maxPerCat;
+  }
+
+  const updated = plan.slice();
+  const usedIds = new Set([...locked, ...updated].map((r) => r.id));
+
+  // Candidate pool: strictPool already respects diet/allergy/dislike.
+  // Prefer non-veg replacements so this pass doesn't re-introduce a veg-heavy week.
+  const allCandidates = sortedById(ctx.strictPool);
+  const nonVegCandidates = allCandidates.filter((r) => isNonVegRecipe(ctx, r));
+
+  function pickReplacement(avoidCat: ProteinCat): R | null {
+    // Helper: try to find a candidate with optional constraints.
+    function tryPick(
+      candidates: R[],
+      opts: { requireUnderCap: boolean; requireNew: boolean },
+    ): R | null {
+      for (const r of candidates) {
+        const c = recipeProteinCat(ctx, r);
+        if (c === avoidCat) continue;
+        if (opts.requireUnderCap && (counts.get(c) ?? 0) >= maxPerCat) continue;
+        if (opts.requireNew && usedIds.has(r.id)) continue;
+        return r;
+      }
+      return null;
+    }
+
+    // 1) Best: non-veg, under-cap, and new to the week
+    let repl = tryPick(nonVegCandidates, { requireUnderCap: true, requireNew: true });
+    if (repl) return repl;
+
+    // 2) Next: non-veg, under-cap (allow repeats)
+    repl = tryPick(nonVegCandidates, { requireUnderCap: true, requireNew: false });
+    if (repl) return repl;
+
+    // 3) Next: non-veg, any category (still avoid avoidCat), prefer new
+    repl = tryPick(nonVegCandidates, { requireUnderCap: false, requireNew: true });
+    if (repl) return repl;
+
+    // 4) Fallback: any recipe (including plant), under-cap, prefer new
+    repl = tryPick(allCandidates, { requireUnderCap: true, requireNew: true });
+    if (repl) return repl;
+
+    // 5) Last resort: any recipe not in avoidCat
+    return tryPick(allCandidates, { requireUnderCap: false, requireNew: false });
+  }
+
+  // If chicken dominates, reduce it first. Otherwise reduce any category over cap.
+  const priorityCats: ProteinCat[] = ['chicken', ...CAT_ORDER.filter((c) => c !== 'chicken')];
+
+  for (const overCat of priorityCats) {
+    // Keep swapping until that category is within cap (or no replacements exist)
+    while (isOverCap(overCat)) {
+      let swapped = false;
+
+      // Replace from the END so perishables-first ordering stays mostly intact.
+      for (let i = updated.length - 1; i >= 0; i--) {
+        const r = updated[i];
+        const cat = recipeProteinCat(ctx, r);
+        if (cat !== overCat) continue;
+
+        const repl = pickReplacement(overCat);
+        if (!repl) break;
+        if (repl.id === r.id) break;
+
+        // Update counts
+        counts.set(overCat, (counts.get(overCat) ?? 1) - 1);
+        const newCat = recipeProteinCat(ctx, repl);
+        counts.set(newCat, (counts.get(newCat) ?? 0) + 1);
+
+        updated[i] = repl;
+        usedIds.add(repl.id);
+        swapped = true;
+
+        // Check again (while loop)
+        break;
+      }
+
+      if (!swapped) break;
+    }
+  }
+
+  return {
+    plan: updated,
+    details: { maxPerCat, counts: Object.fromEntries(counts.entries()) },
+  };
+}
+
+// ---------- Protein adjacency smoothing (avoid back‑to‑back same protein family) ----------
+// Goal: avoid consecutive dinners with the same protein *family*
+// Constraints:
+// - Deterministic (stable scan, no randomness)
+// - Preserve perishables-first intent (do not swap across use‑soon boundaries)
+// - Applies to ALL protein types (not just chicken)
+// - Fish + seafood are treated as the same family
+export function proteinAdjacencyPass<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  if (!shouldBalanceNonVeg(ctx) || plan.length < 3) return { plan };
+
+  const updated = plan.slice();
+  const usesSoonFlags = updated.map((r) => recipeUsesSoon(ctx, r));
+  const updatedFams = updated.map((r) => proteinFamily(recipeProteinCat(ctx, r)));
+
+  function swap<T>(arr: T[], i: number, j: number) {
+    const tmp = arr[i];
+    arr[i] = arr[j];
+    arr[j] = tmp;
+  }
+
+  // Single left-to-right pass; bounded lookahead keeps this cheap + deterministic
+  for (let i = 1; i < updated.length; i++) {
+    if (updatedFams[i] !== updatedFams[i - 1]) continue;
+
+    const avoidFam = updatedFams[i];
+
+    // Look ahead a few positions for a safe swap
+    for (let j = i + 1; j < Math.min(updated.length, i + 4); j++) {
+      // Preserve perishables intent:
+      // do not move a "use soon" recipe behind a non‑use‑soon one (and vice versa)
+      if (usesSoonFlags[i] !== usesSoonFlags[j]) continue;
+      if (updatedFams[j] === avoidFam) continue;
+
+      swap(updated, i, j);
+      swap(updatedFams, i, j);
+      swap(usesSoonFlags, i, j);
+      break;
+    }
+
+    // Best-effort: if we couldn't fix it, leave as-is
+  }
+
+  return { plan: updated, details: { families: updatedFams } };
+}
+
+// ---------- Pantry "use soon" coverage guardrail (best-effort) ----------
+// If a pantry item is flagged "use soon" but doesn't appear in ANY selected recipe,
+// we will try to swap in a recipe that uses it — ONLY when the swap doesn't
+// meaningfully worsen plan quality (shopping friction / time).
+// Deterministic (stable candidate order) and respects perishables-first intent:
+// we only swap within the same use-soon segment (true/false) to avoid reordering priorities.
+export function mustUseCoveragePass<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  if (!plan.length) return { plan };
+
+  // Base must-use terms (already normalized pantry strings)
+  const mustUseBase = new Set<string>(ctx.pantryUseSoon);
+
+  // Build a term-set (normalized) per base must-use ingredient.
+  // Use matchesAnyNormalizedTerm so we match phrases like "cremini mushrooms".
+  function termSetForBase(baseNorm: string): Set<string> {
+    const out = new Set<string>();
+    const b = normalizeIngredientName(baseNorm);
+    if (b) out.add(b);
+
+    // Simple plural/singular handling
+    if (b && b.endsWith('s') && b.length > 2) {
+      out.add(b.slice(0, -1));
+    } else if (b) {
+      out.add(`${b}s`);
+    }
+
+    return out;
+  }
+
+  const mustUseTermsByBase = new Map<string, Set<string>>();
+  for (const base of mustUseBase) {
+    mustUseTermsByBase.set(base, termSetForBase(base));
+  }
+
+  function recipeNormIngs(r: PlannerRecipe): string[] {
+    return (ctx.ingIndex.get(r.id) || [])
+      .filter((it) => !it.optional)
+      .map((it) => normalizeIngredientName(it.name))
+      .filter(Boolean);
+  }
+
+  function recipeCoversBaseTerm(r: PlannerRecipe, base: string): boolean {
+    const terms = mustUseTermsByBase.get(base) ?? new Set<string>();
+    if (!terms.size) return false;
+
+    const ri = (ctx.ingIndex.get(r.id) || []).filter((it) => !it.optional);
+    return ri.some((it) => matchesAnyNormalizedTerm(it.name, terms));
+  }
+
+  // Cache per-recipe computed values for speed (deterministic)
+  const missingSetCache = new Map<string, Set<string>>();
+  const missingWeightedCache = new Map<string, number>();
+  const coversBaseCache = new Map<string, Set<string>>(); // recipe.id -> set of mustUseBase terms it covers
+
+  function getRecipeMissingSetCached(r: PlannerRecipe): Set<string> {
+    const hit = missingSetCache.get(r.id);
+    if (hit) return hit;
+    const s = new Set<string>();
+    for (const n of recipeNormIngs(r)) {
+      if (ctx.pantrySet.has(n)) continue;
+      if (STAPLE_SKIP.has(n)) continue;
+      s.add(n);
+    }
+    missingSetCache.set(r.id, s);
+    return s;
+  }
+
+  function getRecipeMissingWeightedCached(r: PlannerRecipe): number {
+    const hit = missingWeightedCache.get(r.id);
+    if (hit != null) return hit;
+    let wsum = 0;
+    for (const n of recipeNormIngs(r)) {
+      if (ctx.pantrySet.has(n)) continue;
+      if (STAPLE_SKIP.has(n)) continue;
+      wsum += ingredientWeight(n);
+    }
+    missingWeightedCache.set(r.id, wsum);
+    return wsum;
+  }
+
+  function getRecipeCoveredBasesCached(r: PlannerRecipe): Set<string> {
+    const hit = coversBaseCache.get(r.id);
+    if (hit) return hit;
+    const covered = new Set<string>();
+    for (const base of mustUseBase) {
+      if (recipeCoversBaseTerm(r, base)) covered.add(base);
+    }
+    coversBaseCache.set(r.id, covered);
+    return covered;
+  }
+
+  function getRecipeCoversAnyCached(r: PlannerRecipe): boolean {
+    return getRecipeCoveredBasesCached(r).size > 0;
+  }
+
+  // Week-level missing ingredient counts (a Set is incorrect because missing items can repeat across meals)
+  function addMissingCounts(m: Map<string, number>, s: Set<string>) {
+    for (const k of s) m.set(k, (m.get(k) ?? 0) + 1);
+  }
+  function removeMissingCounts(m: Map<string, number>, s: Set<string>) {
+    for (const k of s) {
+      const next = (m.get(k) ?? 0) - 1;
+      if (next <= 0) m.delete(k);
+      else m.set(k, next);
+    }
+  }
+
+  function coveredMustUseForPlan(planArr: PlannerRecipe[]): Set<string> {
+    const covered = new Set<string>();
+    for (const r of planArr) {
+      for (const b of getRecipeCoveredBasesCached(r)) covered.add(b);
+    }
+    return covered;
+  }
+
+  // What base use-soon pantry items are already covered by the chosen (and locked) recipes?
+  const coveredMustUse = coveredMustUseForPlan([...ctx.locked, ...plan]);
+
+  const missingMustUse = Array.from(mustUseBase)
+    .filter((n) => n && !coveredMustUse.has(n))
+    .sort((a, b) => a.localeCompare(b));
+
+  // Nothing uncovered → leave the plan untouched.
+  if (!missingMustUse.length) return { plan };
+
+  // Precompute week-level missing set for "new missing" penalty.
+  const weekMissingCounts = new Map<string, number>();
+  for (const r of plan) {
+    addMissingCounts(weekMissingCounts, getRecipeMissingSetCached(r));
+  }
+
+  // Deterministic candidate list.
+  const strictSorted = sortedById(ctx.strictPool);
+
+  // Swap quality guardrails.
+  const maxExtraMissingWeighted = 2.5; // allow a small increase in shopping friction
+  const maxNewMissingItems = 1; // allow at most 1 brand-new missing ingredient per forced swap
+  const maxExtraTimeMin = 10; // allow up to +10 minutes vs the replaced recipe
+
+  // Track which recipes currently cover ANY must-use item.
+  // We'll avoid replacing these when trying to cover additional uncovered terms.
+  const usesSoonFlags = plan.map((r) => getRecipeCoversAnyCached(r));
+
+  const updated = plan.slice();
+  const swaps: Array<{ term: string; replaced: string; added: string }> = [];
+
+  // Track coverage counts for must-use bases across the current plan.
+  // This lets us detect coverage regressions cheaply during swaps.
+  const coveredCounts = new Map<string, number>();
+  for (const r of [...ctx.locked, ...updated]) {
+    for (const b of getRecipeCoveredBasesCached(r)) {
+      coveredCounts.set(b, (coveredCounts.get(b) ?? 0) + 1);
+    }
+  }
+
+  for (const term of missingMustUse) {
+    if ((coveredCounts.get(term) ?? 0) > 0) continue;
+
+    // Find a candidate recipe that uses this term.
+    const candidates = strictSorted.filter((r) => recipeCoversBaseTerm(r, term));
+    if (!candidates.length) continue;
+
+    // If we already have at least one use-soon recipe, prefer swapping within the NOT-use-soon
+    // segment so we don't lose existing use-soon coverage (e.g. avoid swapping out the only mushroom recipe
+    // when trying to also cover spinach).
+    const anyUseSoon = usesSoonFlags.some(Boolean);
+
+    let swapped = false;
+
+    // Try from the END (to preserve earlier perishables priority more strongly).
+    for (let i = updated.length - 1; i >= 0; i--) {
+      if (anyUseSoon && usesSoonFlags[i]) continue;
+
+      const current = updated[i];
+      const curMissingW = getRecipeMissingWeightedCached(current);
+      const curMissingSet = getRecipeMissingSetCached(current);
+
+      // Compute week-missing excluding this recipe (approximate improvement from removal)
+      const weekMissingExcl = new Map<string, number>(weekMissingCounts);
+      removeMissingCounts(weekMissingExcl, curMissingSet);
+
+      for (const cand of candidates) {
+        if (cand.id === current.id) continue;
+
+        // Time guardrail
+        if ((cand.time_min ?? 0) - (current.time_min ?? 0) > maxExtraTimeMin) continue;
+
+        const candMissingW = getRecipeMissingWeightedCached(cand);
+        if (candMissingW - curMissingW > maxExtraMissingWeighted) continue;
+
+        const candMissingSet = getRecipeMissingSetCached(cand);
+        let newMissing = 0;
+        for (const m of candMissingSet) {
+          if ((weekMissingExcl.get(m) ?? 0) <= 0) newMissing += 1;
+          if (newMissing > maxNewMissingItems) break;
+        }
+        if (newMissing > maxNewMissingItems) continue;
+
+        // Coverage regression guardrail (fast):
+        // Only bases that are covered EXACTLY once (by the recipe we're replacing)
+        // are at risk of being lost.
+        const currentCovered = getRecipeCoveredBasesCached(current);
+        const candCovered = getRecipeCoveredBasesCached(cand);
+        let losesCoverage = false;
+        for (const b of currentCovered) {
+          if ((coveredCounts.get(b) ?? 0) === 1 && !candCovered.has(b)) {
+            losesCoverage = true;
+            break;
+          }
+        }
+        if (losesCoverage) continue;
+
+        // ✅ Accept swap
+        updated[i] = cand;
+        for (const b of currentCovered) {
+          const next = (coveredCounts.get(b) ?? 0) - 1;
+          if (next <= 0) coveredCounts.delete(b);
+          else coveredCounts.set(b, next);
+        }
+        for (const b of candCovered) {
+          coveredCounts.set(b, (coveredCounts.get(b) ?? 0) + 1);
+        }
+        removeMissingCounts(weekMissingCounts, curMissingSet);
+        addMissingCounts(weekMissingCounts, candMissingSet);
+
+        // update usesSoonFlags so subsequent iterations respect segmentation
+        usesSoonFlags[i] = getRecipeCoversAnyCached(cand);
+
+        swaps.push({ term, replaced: current.id, added: cand.id });
+        swapped = true;
+        break;
+      }
+
+      if (swapped) break;
+    }
+
+    // Best-effort: move on if we couldn't safely cover this term
+  }
+
+  // After attempting swaps, stably move ANY must-use-covering recipes to the front.
+  // This keeps the "use soon" priority visible even if we had to introduce a new use-soon recipe
+  // while covering additional uncovered terms (e.g. spinach).
+  const zipped = updated.map((r, idx) => ({
+    r,
+    idx,
+    useSoon: getRecipeCoversAnyCached(r),
+  }));
+
+  zipped.sort((a, b) => {
+    if (a.useSoon !== b.useSoon) return a.useSoon ? -1 : 1;
+    return a.idx - b.idx; // stable within group
+  });
+
+  const out = zipped.map((z) => z.r);
+  const coveredAfter = coveredMustUseForPlan([...ctx.locked, ...out]);
+
+  return {
+    plan: out,
+    details: {
+      swaps,
+      mustUseCount: mustUseBase.size,
+      coveredCount: coveredAfter.size,
+      uncovered: Array.from(mustUseBase)
+        .filter((n) => !coveredAfter.has(n))
+        .slice(0, 25),
+    },
+  };
+}
+
+// ---------- Nutrition targets (best-effort) ----------
+// Nudge the slot's average per-serving nutrition into the per-meal target band
+// (daily target × the slot's share of the day). Greedy single swaps, best
+// improvement first. To keep the earlier passes' work intact, swaps:
+// - never touch a recipe that uses a "use soon" pantry item,
+// - keep the same protein category on omnivore dinners (veg cap + protein caps hold),
+// - only bring in recipes with data for every targeted nutrient,
+// - stay within +10 min of the recipe they replace.
+export function nutritionTargetsPass<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  const targets = ctx.prefs.nutrition;
+  if (!hasNutritionTargets(targets) || !plan.length) return { plan };
+
+  const keys = targetedNutrients(targets);
+  const mealTarget = targetsForSlots(targets, [ctx.slot]);
+  const tol = targets.tolerance_pct;
+  const maxExtraTimeMin = 10;
+
+  const missOf = (week: R[]) => nutritionMiss(averageNutrition([...ctx.locked, ...week]), mealTarget, tol);
+
+  const hasAll = (r: PlannerRecipe) => {
+    const n = recipeNutrition(r);
+    return keys.every((k) => n[k] != null);
+  };
+  const candidates = sortedById(ctx.strictPool).filter(hasAll);
+  const balance = shouldBalanceNonVeg(ctx);
+
+  const updated = plan.slice();
+  const frozen = updated.map((r) => recipeUsesSoon(ctx, r));
+  const missBefore = missOf(updated);
+  let miss = missBefore;
+  const swaps: Array<{ replaced: string; added: string }> = [];
+
+  for (let round = 0; round < updated.length && miss > 0; round++) {
+    let best: { i: number; cand: R; miss: number } | null = null;
+    const used = new Set(updated.map((r) => r.id));
+
+    for (let i = updated.length - 1; i >= 0; i--) {
+      if (frozen[i]) continue;
+      const current = updated[i];
+      const cat = balance ? recipeProteinCat(ctx, current) : null;
+
+      for (const cand of candidates) {
+        if (cand.id === current.id || used.has(cand.id)) continue;
+        if (cat && recipeProteinCat(ctx, cand) !== cat) continue;
+        if ((cand.time_min ?? 0) - (current.time_min ?? 0) > maxExtraTimeMin) continue;
+
+        const trial = updated.slice();
+        trial[i] = cand;
+        const m = missOf(trial);
+        if (m < (best?.miss ?? miss) - 1e-9) best = { i, cand, miss: m };
+      }
+    }
+
+    if (!best) break;
+    swaps.push({ replaced: updated[best.i].id, added: best.cand.id });
+    updated[best.i] = best.cand;
+    miss = best.miss;
+  }
+
+  return {
+    plan: updated,
+    details: {
+      target: mealTarget,
+      average: averageNutrition([...ctx.locked, ...updated]),
+      missBefore: Number(missBefore.toFixed(3)),
+      missAfter: Number(miss.toFixed(3)),
+      swaps,
+    },
+  };
+}
+
+// ---------- Weekday rules (time limits + theme nights) ----------
+// Pick i lands on the day ctx.dayRules[i] describes. Each ruled position
+// (themes first, then the tightest limit) takes a plan recipe that fits it;
+// failing that, the best-scoring fitting recipe from the strict pool comes in
+// and the weakest unruled pick goes. Runs after the balance passes so their
+// swaps can't undo a theme night. Positions nothing fits get the fastest
+// leftover pick and are listed in details.unmet.
+export function dayRulesPass<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  const rules = ctx.dayRules;
+  const ruled = plan.map((_, i) => i).filter((i) => isActiveDayRule(rules[i]));
+  if (!ruled.length) return { plan };
+
+  const limitOf = (i: number) => rules[i]?.max_prep_minutes ?? Infinity;
+  ruled.sort((a, b) => {
+    const ta = rules[a]?.theme ? 0 : 1;
+    const tb = rules[b]?.theme ? 0 : 1;
+    return ta - tb || limitOf(a) - limitOf(b) || a - b;
+  });
+
+  const scores = new Map<string, number>();
+  const scoreOf = (r: R) => {
+    let v = scores.get(r.id);
+    if (v == null) {
+      v = computeStats(ctx, r).baseScore;
+      scores.set(r.id, v);
+    }
+    return v;
+  };
+
+  const out: Array<R | null> = plan.map(() => null);
+  const remaining = plan.map((r, i) => ({ r, i }));
+  const inWeek = new Set([...ctx.locked, ...plan].map((r) => r.id));
+  const added: R[] = [];
+  const unmet: number[] = [];
+
+  for (const i of ruled) {
+    const rule = rules[i];
+    // The recipe already here if it fits, else the earliest one that does
+    let k = remaining.findIndex((x) => x.i === i && recipeFitsDayRule(x.r, rule));
+    if (k === -1) k = remaining.findIndex((x) => recipeFitsDayRule(x.r, rule));
+    if (k !== -1) {
+      out[i] = remaining.splice(k, 1)[0].r;
+      continue;
+    }
+
+    const cand = sortedById(ctx.strictPool)
+      .filter((r) => !inWeek.has(r.id) && recipeFitsDayRule(r, rule))
+      .sort((a, b) => scoreOf(b) - scoreOf(a))[0];
+    if (cand) {
+      out[i] = cand;
+      inWeek.add(cand.id);
+      added.push(cand);
+    } else {
+      unmet.push(i);
+    }
+  }
+
+  // Each recipe brought in pushes out the weakest unassigned pick
+  const dropped = remaining
+    .slice()
+    .sort((a, b) => scoreOf(a.r) - scoreOf(b.r) || b.i - a.i)
+    .slice(0, added.length);
+  const droppedIdx = new Set(dropped.map((x) => x.i));
+  const rest = remaining.filter((x) => !droppedIdx.has(x.i));
+
+  // Unmet time limits get the quickest of what's left
+  for (const i of unmet) {
+    if (!rest.length) break;
+    let k = 0;
+    if (rules[i]?.max_prep_minutes != null) {
+      for (let j = 1; j < rest.length; j++) {
+        if ((rest[j].r.time_min ?? 0) < (rest[k].r.time_min ?? 0)) k = j;
+      }
+    }
+    out[i] = rest.splice(k, 1)[0].r;
+  }
+  for (let i = 0; i < out.length; i++) {
+    if (!out[i] && rest.length) out[i] = rest.shift()!.r;
+  }
+
+  return {
+    plan: out.filter((r): r is R => !!r),
+    details: {
+      swaps: added.map((r, n) => ({ replaced: dropped[n]?.r.id, added: r.id })),
+      unmet: unmet.map((i) => ({ position: i, ...rules[i] })),
+    },
+  };
+}
+
+// ---------- Final diet guard ----------
+export function dietFinalPass<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  plan: R[],
+): PassOutput<R> {
+  const diets = prefsDiets(ctx.prefs);
+  if (!diets.length) return { plan };
+  return {
+    plan: plan.filter((r) => !diets.some((d) => violatesDiet(r, ctx.ingIndex.get(r.id) || [], d))),
+  };
+}
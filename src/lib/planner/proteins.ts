@@ -0,0 +1,89 @@
+// src/lib/planner/proteins.ts
+import type { PlannerContext } from './context';
+import type { PlannerRecipe } from './types';
+
+// Heuristic: "non-veg" if any ingredient looks like meat/fish/seafood.
+// Otherwise treat it as vegetarian-ish (includes egg/dairy meals).
+const NON_VEG_ING_RE = /(\bchicken\b|\bbeef\b|\bpork\b|\bturkey\b|\blamb\b|\bveal\b|\bham\b|\bsausage\b|\bbacon\b|\bpepperoni\b|\bsalami\b|\bprosciutto\b|\banchovies?\b|\btuna\b|\bsalmon\b|\bshrimp\b|\bprawn\b|\bcrab\b|\blobster\b|\bclam\b|\bmussel\b|\boyster\b|\bscallop\b|\bfish\b)/i;
+
+export type ProteinCat =
+  | 'chicken'
+  | 'turkey'
+  | 'beef'
+  | 'lamb'
+  | 'pork'
+  | 'fish'
+  | 'seafood'
+  | 'plant'
+  | 'other';
+
+// Preference order for classifying a recipe when multiple proteins appear.
+// (We prefer fish/seafood first, then red meats, then poultry.)
+export const CAT_ORDER: ProteinCat[] = [
+  'fish',
+  'seafood',
+  'beef',
+  'lamb',
+  'pork',
+  'turkey',
+  'chicken',
+  'plant',
+  'other',
+];
+
+// Match both single-word proteins and common multi-word phrases like
+// "ground turkey" / "ground lamb" / "ground beef".
+const CAT_RE: Record<ProteinCat, RegExp> = {
+  chicken: /\b(chicken|ground\s+chicken|drumsticks?|thighs?|breasts?|wings?)\b/i,
+  turkey: /\b(turkey|ground\s+turkey)\b/i,
+  beef: /\b(beef|steak|sirloin|brisket|ground\s+beef)\b/i,
+  lamb: /\b(lamb|mutton|ground\s+lamb|lamb\s+chops?|leg\s+of\s+lamb)\b/i,
+  pork: /\b(pork|bacon|ham|sausage|prosciutto|pancetta|ground\s+pork)\b/i,
+  // Avoid classifying "fish sauce" as a fish protein.
+  fish: /\b(salmon|tuna|cod|tilapia|trout|halibut|mahi(?:\s+mahi)?|snapper|sardines?|pollock|bass)\b/i,
+  seafood: /\b(shrimp|prawns?|crab|lobster|clams?|mussels?|oysters?|scallops?|seafood)\b/i,
+  plant: /\b(tofu|tempeh|lentils?|beans|chickpeas?|edamame|seitan|tvp)\b/i,
+  other: /.^/,
+};
+
+/** Omnivore dinners only: vegetarian/vegan weeks and breakfast/lunch skip the balance passes. */
+export function shouldBalanceNonVeg(ctx: PlannerContext<PlannerRecipe>): boolean {
+  if (ctx.slot !== 'dinner') return false;
+  const dietLower = String(ctx.prefs.diet || '').toLowerCase();
+  return dietLower !== 'vegetarian' && dietLower !== 'vegan';
+}
+
+export function isVegLikeRecipe(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): boolean {
+  const tags = (r.diet_tags ?? []).map((t) => String(t).toLowerCase());
+  if (tags.includes('vegan') || tags.includes('vegetarian')) return true;
+
+  const ri = ctx.ingIndex.get(r.id) || [];
+  // If we see any non-veg ingredient keyword, treat as non-veg.
+  const hasNonVeg = ri.some((it) => NON_VEG_ING_RE.test(String(it.name)));
+  return !hasNonVeg;
+}
+
+export function isNonVegRecipe(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): boolean {
+  return !isVegLikeRecipe(ctx, r);
+}
+
+export function recipeProteinCat(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): ProteinCat {
+  const ri = ctx.ingIndex.get(r.id) || [];
+  const names = ri.map((it) => String(it.name).replace(/\s+/g, ' ').trim());
+
+  // Prefer explicit matches first
+  for (const cat of CAT_ORDER) {
+    if (cat === 'other') continue;
+    const rx = CAT_RE[cat];
+    if (names.some((n) => rx.test(n))) return cat;
+  }
+
+  // If it was classified as veg-like earlier, treat as plant/other.
+  return isVegLikeRecipe(ctx, r) ? 'plant' : 'other';
+}
+
+export function proteinFamily(cat: ProteinCat): string {
+  // Treat fish + seafood as one adjacency family
+  if (cat === 'fish' || cat === 'seafood') return 'seafood_family';
+  return cat;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { createPlannerContext } from './context';
+import { explainRecipe, explainWeek } from './reasons';
+import type { PlannedMeal } from './slots';
+import type { PlannerIngredient, PlannerPrefs, PlannerRecipe } from './types';
+
+const PREFS: PlannerPrefs = {
+  diet: 'none',
+  allergies: [],
+  dislikes: [],
+  max_prep_minutes: 30,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 3,
+};
+
+const recipe = (id: string, time_min = 45): PlannerRecipe => ({ id, title: id, time_min, diet_tags: [] });
+const ing = (recipe_id: string, ...names: string[]): PlannerIngredient[] =>
+  names.map((name) => ({ recipe_id, name, qty: 1, unit: 'unit', optional: false }));
+
+const TACOS = recipe('tacos');
+const BOWL = recipe('bowl');
+const SALAD = recipe('salad', 15);
+
+const ctx = createPlannerContext({
+  recipes: [TACOS, BOWL, SALAD],
+  ingredients: [...ing('tacos', 'cilantro', 'tortillas'), ...ing('bowl', 'cilantro', 'rice'), ...ing('salad', 'spinach')],
+  pantry: [{ name: 'spinach', perish_by: null, use_soon: true }],
+  prefs: PREFS,
+  seed: 'reasons',
+  now: Date.parse('2025-10-20T12:00:00Z'),
+});
+
+const dayLabel = (d: number) => `Day ${d + 1}`;
+
+describe('explainWeek', () => {
+  it('explains later meals by what earlier ones already need', () => {
+    const week: PlannedMeal[] = [
+      { day: 1, slot: 'dinner', recipe: BOWL },
+      { day: 0, slot: 'dinner', recipe: TACOS },
+    ];
+    const out = explainWeek(ctx, week, { dayLabel });
+    expect(out.map((m) => [m.recipe.id, m.reason])).toEqual([
+      ['tacos', 'fits your preferences'],
+      ['bowl', 'reuses cilantro from Day 1'],
+    ]);
+  });
+
+  it('prefers given reasons, keeps locked ones and clears leftovers', () => {
+    const week: PlannedMeal[] = [
+      { day: 0, slot: 'dinner', recipe: TACOS, locked: true, reason: 'taco night' },
+      { day: 1, slot: 'dinner', recipe: TACOS, leftover_of: 0, reason: 'stale' },
+      { day: 2, slot: 'dinner', recipe: BOWL },
+    ];
+    const out = explainWeek(ctx, week, { dayLabel, given: new Map([['bowl', 'from the model']]) });
+    expect(out.map((m) => m.reason)).toEqual(['taco night', null, 'from the model']);
+  });
+});
+
+describe('explainRecipe', () => {
+  it('uses the pantry and use-soon items', () => {
+    expect(explainRecipe(ctx, SALAD)).toBe('uses your spinach before it spoils · ready in 15 min');
+  });
+});
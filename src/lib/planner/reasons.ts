@@ -0,0 +1,70 @@
+// src/lib/planner/reasons.ts
+// "Why this meal?" for every card. LLM picks bring their own reason; anything
+// else (heuristic picks, pass swaps, repeats) is explained from the same score
+// components the /api/llm-plan fallback uses.
+import { normalizeIngredientName } from '@/lib/shopping';
+import { STAPLE_SKIP } from './constraints';
+import type { PlannerContext } from './context';
+import { fallbackReason, type RecipeLite } from './lite';
+import { recipeNutrition } from './nutrition';
+import { comparePlannedMeals, type PlannedMeal } from './slots';
+import type { PlannerRecipe } from './types';
+
+/** The RecipeLite shape /api/llm-plan sees (non-optional, normalized ingredient names). */
+export function toRecipeLite<R extends PlannerRecipe>(ctx: PlannerContext<R>, r: R): RecipeLite {
+  return {
+    id: r.id,
+    title: r.title,
+    time_min: r.time_min,
+    diet_tags: r.diet_tags,
+    ingredients: (ctx.ingIndex.get(r.id) || [])
+      .filter((it) => !it.optional) // optional shouldn’t drive planning
+      .map((it) => normalizeIngredientName(it.name)),
+    is_favorite: ctx.favorites.has(r.id),
+    // Only sent when the user has targets (keeps payloads/cache keys unchanged otherwise)
+    ...(ctx.prefs.nutrition ? recipeNutrition(r) : {}),
+  };
+}
+
+/** Reason for a single recipe with no week context (e.g. a swap). */
+export function explainRecipe<R extends PlannerRecipe>(ctx: PlannerContext<R>, r: R): string {
+  return fallbackReason(toRecipeLite(ctx, r), ctx.pantrySet, ctx.prefs, { useSoon: ctx.mustUseSet });
+}
+
+/**
+ * Attach a reason to every cook meal, walking the week in order so later meals
+ * can say "reuses cilantro from Mon, Oct 20". `given` (recipe id → reason) wins
+ * when present; locked meals keep whatever reason they already had.
+ */
+export function explainWeek<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  week: PlannedMeal<R>[],
+  opts: { given?: Map<string, string>; dayLabel: (day: number) => string },
+): PlannedMeal<R>[] {
+  const needsFrom = new Map<string, string>();
+
+  return week
+    .slice()
+    .sort(comparePlannedMeals)
+    .map((m) => {
+      if (m.leftover_of != null) return { ...m, reason: null };
+
+      const lite = toRecipeLite(ctx, m.recipe);
+      const missing = lite.ingredients.filter(
+        (i) => i && !STAPLE_SKIP.has(i) && !ctx.pantrySet.has(i),
+      );
+
+      const reason =
+        (m.locked ? m.reason : null) ??
+        opts.given?.get(m.recipe.id) ??
+        fallbackReason(lite, ctx.pantrySet, ctx.prefs, {
+          useSoon: ctx.mustUseSet,
+          reusedFrom: needsFrom,
+        });
+
+      const label = opts.dayLabel(m.day);
+      for (const i of missing) if (!needsFrom.has(i)) needsFrom.set(i, label);
+
+      return { ...m, reason };
+    });
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createPlannerContext } from './context';
+import { applyCooldown } from './rotation';
+import type { PlannerPrefs, PlannerRecipe } from './types';
+
+const NOW = Date.parse('2026-03-02T12:00:00Z');
+
+const PREFS: PlannerPrefs = {
+  diet: 'none',
+  allergies: [],
+  dislikes: [],
+  max_prep_minutes: 45,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 3,
+  rotation: { cooldown_weeks: 3, favorite_cooldown_weeks: 1 },
+};
+
+const recipe = (id: string): PlannerRecipe => ({ id, title: id, time_min: 30, diet_tags: [] });
+const POOL = ['a', 'b', 'c', 'd', 'e'].map(recipe);
+
+// Served 5, 10 and 20 days before NOW; "e" was on a plan over three weeks ago
+const LAST_SERVED = new Map([
+  ['a', '2026-02-25'],
+  ['b', '2026-02-20'],
+  ['c', '2026-02-10'],
+  ['e', '2026-01-20'],
+]);
+
+const ctxFor = (over: { prefs?: PlannerPrefs; favorites?: string[] } = {}) =>
+  createPlannerContext({
+    recipes: POOL,
+    ingredients: [],
+    pantry: [],
+    prefs: over.prefs ?? PREFS,
+    favorites: over.favorites,
+    seed: 'rotation',
+    now: NOW,
+    lastServed: LAST_SERVED,
+  });
+
+const ids = (rs: PlannerRecipe[]) => rs.map((r) => r.id);
+
+describe('applyCooldown', () => {
+  it('holds back recipes served within the cool-down', () => {
+    const { pool, held } = applyCooldown(ctxFor(), POOL, 2);
+    expect(ids(pool)).toEqual(['d', 'e']);
+    expect(ids(held)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('lets the longest-ago-served back in when the week would run short', () => {
+    const { pool, held } = applyCooldown(ctxFor(), POOL, 4);
+    expect(ids(pool)).toEqual(['d', 'e', 'c', 'b']);
+    expect(ids(held)).toEqual(['a']);
+  });
+
+  it('brings favorites back sooner', () => {
+    const { pool, held } = applyCooldown(ctxFor({ favorites: ['b'] }), POOL, 2);
+    expect(ids(pool)).toEqual(['b', 'd', 'e']);
+    expect(ids(held)).toEqual(['c', 'a']);
+  });
+
+  it('keeps the pool as is without a cool-down', () => {
+    const { pool, held } = applyCooldown(ctxFor({ prefs: { ...PREFS, rotation: null } }), POOL, 2);
+    expect(pool).toBe(POOL);
+    expect(held).toEqual([]);
+  });
+
+  it('is applied when the planner context is built', () => {
+    const ctx = ctxFor();
+    expect(ids(ctx.pool)).toEqual(['d', 'e', 'c']);
+    expect(ids(ctx.rotationHeld)).toEqual(['b', 'a']);
+  });
+});
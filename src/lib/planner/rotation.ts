@@ -0,0 +1,122 @@
+// src/lib/planner/rotation.ts
+// Cool-down across weeks: a recipe served recently stays out of the pool for
+// a few weeks (favorites come back sooner). "Served" means it was on the
+// latest saved plan for a week, on a day before the week being planned.
+//
+// The cool-down gives way rather than starve the week: when too few fresh
+// recipes remain, the ones served longest ago are let back in first.
+import { planDayDate, toIsoDate } from './calendar';
+import type { PlannerContext } from './context';
+import type { PlanItemRow } from './slots';
+import type { PlannerRecipe } from './types';
+
+export type RotationPrefs = {
+  /** Weeks before a recipe can come back (0 = no cool-down) */
+  cooldown_weeks: number;
+  /** Same, for favorites */
+  favorite_cooldown_weeks: number;
+};
+
+export const DEFAULT_ROTATION: RotationPrefs = { cooldown_weeks: 3, favorite_cooldown_weeks: 1 };
+
+export const MAX_COOLDOWN_WEEKS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function weeks(v: unknown, fallback: number): number {
+  const n = typeof v === 'number' ? v : v == null || v === '' ? NaN : Number(v);
+  if (!Number.isFinite(n)) return fallback;
+  return Math.min(MAX_COOLDOWN_WEEKS, Math.max(0, Math.round(n)));
+}
+
+/** DB columns → settings; unset columns fall back to the defaults. */
+export function rotationFromRow(row: {
+  rotation_cooldown_weeks?: number | null;
+  favorite_cooldown_weeks?: number | null;
+} | null | undefined): RotationPrefs {
+  return {
+    cooldown_weeks: weeks(row?.rotation_cooldown_weeks, DEFAULT_ROTATION.cooldown_weeks),
+    favorite_cooldown_weeks: weeks(
+      row?.favorite_cooldown_weeks,
+      DEFAULT_ROTATION.favorite_cooldown_weeks,
+    ),
+  };
+}
+
+export function maxCooldownWeeks(r: RotationPrefs): number {
+  return Math.max(r.cooldown_weeks, r.favorite_cooldown_weeks);
+}
+
+/** A saved plan as read for rotation (items need only id + day). */
+export type ServedPlanRow = {
+  generated_at: string;
+  start_date: string | null;
+  user_meal_plan_recipes?: Array<Pick<PlanItemRow, 'recipe_id' | 'day' | 'position'>>;
+};
+
+/**
+ * Recipe id → last day ("YYYY-MM-DD") it was served before `beforeDate`.
+ * Each week counts once: regenerating a week replaces it, so only the latest
+ * plan per start date is read. Legacy plans start on their generation day.
+ */
+export function lastServedDates(plans: ServedPlanRow[], beforeDate: string): Map<string, string> {
+  const latestByStart = new Map<string, ServedPlanRow>();
+  for (const p of plans) {
+    const start = p.start_date ?? toIsoDate(new Date(p.generated_at));
+    const cur = latestByStart.get(start);
+    if (!cur || Date.parse(p.generated_at) > Date.parse(cur.generated_at)) latestByStart.set(start, p);
+  }
+
+  const out = new Map<string, string>();
+  for (const [start, p] of Array.from(latestByStart.entries())) {
+    for (const it of p.user_meal_plan_recipes ?? []) {
+      const d = planDayDate(start, it.day ?? it.position);
+      if (!d) continue;
+      const iso = toIsoDate(d);
+      if (iso >= beforeDate) continue;
+      const prev = out.get(it.recipe_id);
+      if (!prev || iso > prev) out.set(it.recipe_id, iso);
+    }
+  }
+  return out;
+}
+
+/** Whole days between the last serving and the planning run's clock. */
+export function daysSinceServed(ctx: PlannerContext<PlannerRecipe>, id: string): number | null {
+  const last = ctx.lastServed.get(id);
+  if (!last) return null;
+  const d = planDayDate(last, 0);
+  if (!d) return null;
+  return Math.floor((ctx.now - d.getTime()) / DAY_MS);
+}
+
+export function isCoolingDown(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): boolean {
+  const rot = ctx.prefs.rotation;
+  if (!rot) return false;
+  const since = daysSinceServed(ctx, r.id);
+  if (since == null) return false;
+  const wk = ctx.favorites.has(r.id) ? rot.favorite_cooldown_weeks : rot.cooldown_weeks;
+  return since < wk * 7;
+}
+
+/**
+ * Split a pool into fresh recipes and ones held back by the cool-down. If
+ * fewer than `need` are fresh, the longest-ago-served held recipes are moved
+ * back in until the week can be filled.
+ */
+export function applyCooldown<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  pool: R[],
+  need: number,
+): { pool: R[]; held: R[] } {
+  const fresh: R[] = [];
+  const cooling: R[] = [];
+  for (const r of pool) (isCoolingDown(ctx, r) ? cooling : fresh).push(r);
+  if (!cooling.length) return { pool, held: [] };
+
+  cooling.sort(
+    (a, b) => (daysSinceServed(ctx, b.id) ?? 0) - (daysSinceServed(ctx, a.id) ?? 0) || a.id.localeCompare(b.id),
+  );
+  const back = Math.max(0, need - fresh.length);
+  return { pool: [...fresh, ...cooling.slice(0, back)], held: cooling.slice(back) };
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  dayRuleFor,
+  dayRuleMisses,
+  dayRulesForDays,
+  emptySchedule,
+  recipeFitsDayRule,
+  recipeMatchesTheme,
+  scheduleFromRow,
+  scheduleToRow,
+  type WeekSchedule,
+} from './schedule';
+import type { PlannedMeal } from './slots';
+import type { PlannerRecipe } from './types';
+
+const recipe = (title: string, time_min = 30, diet_tags: string[] = []): PlannerRecipe => ({
+  id: title.toLowerCase().replace(/\s+/g, '-'),
+  title,
+  time_min,
+  diet_tags,
+});
+
+// Taco Tuesday, 20-minute Wednesdays
+const SCHEDULE: WeekSchedule = emptySchedule().map((rule, i) =>
+  i === 2 ? { ...rule, theme: 'taco' } : i === 3 ? { ...rule, max_prep_minutes: 20 } : rule,
+);
+
+// A Monday
+const START = '2026-03-02';
+
+describe('scheduleFromRow', () => {
+  it('cleans up the stored rules', () => {
+    const s = scheduleFromRow([{ max_prep_minutes: '25', theme: '  Fish Friday ' }, { max_prep_minutes: -5, theme: '' }]);
+    expect(s).toHaveLength(7);
+    expect(s[0]).toEqual({ max_prep_minutes: 25, theme: 'Fish Friday' });
+    expect(s[1]).toEqual({ max_prep_minutes: null, theme: null });
+    expect(scheduleFromRow('junk')).toEqual(emptySchedule());
+  });
+
+  it('stores nothing when no day has a rule', () => {
+    expect(scheduleToRow(emptySchedule())).toBeNull();
+    expect(scheduleToRow(SCHEDULE)).toHaveLength(7);
+  });
+});
+
+describe('recipeMatchesTheme', () => {
+  it.each([
+    ['Fish Tacos', [], 'taco', true],
+    ['Tacos', [], 'fish, taco', true],
+    ['Potato Soup', [], 'taco', false],
+    ['Lentil Curry', ['meatless_monday'], 'meatless monday', true],
+    ['Anything', [], '', true],
+  ])('%s %j vs %j → %s', (title, tags, theme, expected) => {
+    expect(recipeMatchesTheme(recipe(title, 30, tags), theme)).toBe(expected);
+  });
+});
+
+describe('recipeFitsDayRule', () => {
+  it('checks both the time limit and the theme', () => {
+    const rule = { max_prep_minutes: 20, theme: 'taco' };
+    expect(recipeFitsDayRule(recipe('Fish Tacos', 20), rule)).toBe(true);
+    expect(recipeFitsDayRule(recipe('Fish Tacos', 25), rule)).toBe(false);
+    expect(recipeFitsDayRule(recipe('Salad', 10), rule)).toBe(false);
+    expect(recipeFitsDayRule(recipe('Roast', 90), null)).toBe(true);
+  });
+});
+
+describe('dayRuleFor', () => {
+  it('maps plan days onto weekdays from the start date', () => {
+    expect(dayRuleFor(SCHEDULE, START, 1)).toEqual({ max_prep_minutes: null, theme: 'taco' });
+    expect(dayRuleFor(SCHEDULE, START, 2)).toEqual({ max_prep_minutes: 20, theme: null });
+    expect(dayRuleFor(SCHEDULE, START, 0)).toBeNull();
+    expect(dayRuleFor(SCHEDULE, null, 1)).toBeNull();
+  });
+
+  it('is undefined for runs that touch no scheduled day', () => {
+    expect(dayRulesForDays(SCHEDULE, START, [0, 3])).toBeUndefined();
+    expect(dayRulesForDays(SCHEDULE, START, [0, 1])).toEqual([null, { max_prep_minutes: null, theme: 'taco' }]);
+  });
+});
+
+describe('dayRuleMisses', () => {
+  it('reports off-theme and over-time nights, but not reheated leftovers', () => {
+    const roast = recipe('Roast', 90);
+    const week: PlannedMeal[] = [
+      { day: 0, slot: 'dinner', recipe: roast },
+      { day: 1, slot: 'dinner', recipe: recipe('Soup', 15) },
+      { day: 2, slot: 'dinner', recipe: roast, leftover_of: 0 },
+    ];
+    expect(dayRuleMisses(week, SCHEDULE, START, 3).map((m) => [m.day, m.overTime, m.offTheme])).toEqual([
+      [1, false, true],
+    ]);
+
+    const slow = [...week.slice(0, 2), { day: 2, slot: 'dinner' as const, recipe: roast }];
+    expect(dayRuleMisses(slow, SCHEDULE, START, 3).map((m) => [m.day, m.overTime, m.offTheme])).toEqual([
+      [1, false, true],
+      [2, true, false],
+    ]);
+  });
+});
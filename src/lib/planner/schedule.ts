@@ -0,0 +1,154 @@
+// src/lib/planner/schedule.ts
+// Weekly dinner schedule: a cooking-time limit per weekday (20 min on soccer
+// nights, 60 on Sunday) and an optional theme ("Taco Tuesday", "Fish Friday").
+// A theme is one or more comma-separated terms matched against the recipe
+// title (word start, so "taco" matches "Fish Tacos") or its tags.
+//
+// Rules are keyed by weekday, but a planning run only sees them per pick: the
+// caller maps the days its picks will land on (see dayRulesForDays). They are
+// firm, not hard — when no allowed recipe fits a day, the day gets the best
+// meal available and dayRuleMisses reports it.
+import { planDayDate } from './calendar';
+import { escapeRegex } from './constraints';
+import type { PlannedMeal } from './slots';
+import type { MealSlot, PlannerRecipe } from './types';
+
+export type DayRule = {
+  /** Cooking-time limit for the night (null = the usual max_prep_minutes) */
+  max_prep_minutes: number | null;
+  /** Comma-separated title/tag terms, e.g. "taco" or "fish, salmon" */
+  theme: string | null;
+};
+
+/** 7 rules, indexed like Date#getDay (0 = Sunday). */
+export type WeekSchedule = DayRule[];
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Only dinners follow the schedule; breakfast/lunch keep max_prep_minutes
+export const SCHEDULED_SLOT: MealSlot = 'dinner';
+
+export const DAY_TIME_LIMITS = [15, 20, 30, 45, 60, 90];
+
+const MAX_THEME_LENGTH = 60;
+
+export function emptySchedule(): WeekSchedule {
+  return WEEKDAY_LABELS.map(() => ({ max_prep_minutes: null, theme: null }));
+}
+
+function dayRuleFromRaw(raw: unknown): DayRule {
+  const o = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const n = o.max_prep_minutes == null || o.max_prep_minutes === '' ? NaN : Number(o.max_prep_minutes);
+  const theme = typeof o.theme === 'string' ? o.theme.trim().slice(0, MAX_THEME_LENGTH) : '';
+  return {
+    max_prep_minutes: Number.isFinite(n) && n > 0 ? Math.round(n) : null,
+    theme: theme || null,
+  };
+}
+
+/** `preferences.weekday_schedule` (jsonb, 7 entries from Sunday) → schedule. */
+export function scheduleFromRow(raw: unknown): WeekSchedule {
+  const arr = Array.isArray(raw) ? raw : [];
+  return WEEKDAY_LABELS.map((_, i) => dayRuleFromRaw(arr[i]));
+}
+
+/** Schedule → jsonb column value; null when no day has a rule. */
+export function scheduleToRow(s: WeekSchedule): DayRule[] | null {
+  return hasSchedule(s) ? s.map(dayRuleFromRaw) : null;
+}
+
+export function isActiveDayRule(rule: DayRule | null | undefined): rule is DayRule {
+  return !!rule && (rule.max_prep_minutes != null || !!rule.theme);
+}
+
+export function hasSchedule(s: WeekSchedule | null | undefined): boolean {
+  return !!s && s.some(isActiveDayRule);
+}
+
+export function themeTerms(theme: string | null | undefined): string[] {
+  return String(theme ?? '')
+    .split(',')
+    .map((t) => t.toLowerCase().replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+}
+
+export function recipeMatchesTheme(
+  r: Pick<PlannerRecipe, 'title' | 'diet_tags'>,
+  theme: string | null | undefined,
+): boolean {
+  const terms = themeTerms(theme);
+  if (!terms.length) return true;
+  const title = (r.title || '').toLowerCase();
+  const tags = (r.diet_tags ?? []).map((t) => String(t).toLowerCase().replace(/_/g, ' ').trim());
+  return terms.some(
+    (t) => tags.includes(t) || new RegExp(`\\b${escapeRegex(t)}`).test(title),
+  );
+}
+
+export function recipeFitsTime(r: Pick<PlannerRecipe, 'time_min'>, rule: DayRule | null | undefined): boolean {
+  return rule?.max_prep_minutes == null || (r.time_min ?? 0) <= rule.max_prep_minutes;
+}
+
+export function recipeFitsDayRule(
+  r: Pick<PlannerRecipe, 'title' | 'diet_tags' | 'time_min'>,
+  rule: DayRule | null | undefined,
+): boolean {
+  return recipeFitsTime(r, rule) && recipeMatchesTheme(r, rule?.theme);
+}
+
+/** The rule for plan day N, or null when the day has none (or no start date). */
+export function dayRuleFor(
+  schedule: WeekSchedule | null | undefined,
+  startDate: string | null | undefined,
+  day: number,
+): DayRule | null {
+  if (!schedule || !startDate) return null;
+  const d = planDayDate(startDate, day);
+  const rule = d ? schedule[d.getDay()] : null;
+  return isActiveDayRule(rule) ? rule : null;
+}
+
+/**
+ * Rules for the days a run's picks will fill, in pick order. Undefined when
+ * none of those days has a rule, so unscheduled runs stay unchanged.
+ */
+export function dayRulesForDays(
+  schedule: WeekSchedule | null | undefined,
+  startDate: string | null | undefined,
+  days: number[],
+): Array<DayRule | null> | undefined {
+  const rules = days.map((d) => dayRuleFor(schedule, startDate, d));
+  return rules.some(isActiveDayRule) ? rules : undefined;
+}
+
+export type DayRuleMiss<R extends PlannerRecipe = PlannerRecipe> = {
+  day: number;
+  rule: DayRule;
+  /** The dinner on that day (null = no dinner planned) */
+  recipe: R | null;
+  /** Over the night's time limit (leftover nights only reheat, so never) */
+  overTime: boolean;
+  /** Doesn't match the night's theme */
+  offTheme: boolean;
+};
+
+/** Scheduled days the week doesn't satisfy, in day order. */
+export function dayRuleMisses<R extends PlannerRecipe>(
+  week: PlannedMeal<R>[],
+  schedule: WeekSchedule | null | undefined,
+  startDate: string | null | undefined,
+  days: number,
+): DayRuleMiss<R>[] {
+  if (!hasSchedule(schedule) || !startDate) return [];
+  const out: DayRuleMiss<R>[] = [];
+  for (let day = 0; day < days; day++) {
+    const rule = dayRuleFor(schedule, startDate, day);
+    if (!rule) continue;
+    const meal = week.find((m) => m.day === day && m.slot === SCHEDULED_SLOT) ?? null;
+    const recipe = meal?.recipe ?? null;
+    const overTime = !!meal && meal.leftover_of == null && !recipeFitsTime(meal.recipe, rule);
+    const offTheme = !!rule.theme && (!recipe || !recipeMatchesTheme(recipe, rule.theme));
+    if (overTime || offTheme) out.push({ day, rule, recipe, overTime, offTheme });
+  }
+  return out;
+}
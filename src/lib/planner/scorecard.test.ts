@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { createPlannerContext } from './context';
+import { SCORECARD_VERSION, planMetadataFromRow, planScorecard } from './scorecard';
+import { assembleWeek } from './slots';
+import type { PlannerIngredient, PlannerPrefs, PlannerRecipe } from './types';
+
+const recipe = (id: string, time_min: number, servings = 2): PlannerRecipe => ({
+  id,
+  title: id,
+  time_min,
+  diet_tags: [],
+  servings,
+});
+
+const ing = (recipe_id: string, ...names: string[]): PlannerIngredient[] =>
+  names.map((name) => ({ recipe_id, name, qty: 1, unit: 'unit', optional: false }));
+
+const TACOS = recipe('Beef Tacos', 20);
+const CURRY = recipe('Chickpea Curry', 40, 4);
+const PASTA = recipe('Spinach Pasta', 25);
+
+const INGREDIENTS: PlannerIngredient[] = [
+  ...ing('Beef Tacos', 'beef', 'tortilla', 'salt'),
+  ...ing('Chickpea Curry', 'chickpea', 'onion', 'spinach'),
+  ...ing('Spinach Pasta', 'pasta', 'spinach', 'garlic'),
+];
+
+const PREFS: PlannerPrefs = {
+  diet: 'none',
+  allergies: [],
+  dislikes: [],
+  max_prep_minutes: 45,
+  favorite_mode: 'variety',
+  healthy_whole_food: false,
+  kid_friendly: false,
+  dinners_per_week: 4,
+};
+
+const ctx = createPlannerContext({
+  recipes: [TACOS, CURRY, PASTA],
+  ingredients: INGREDIENTS,
+  pantry: [
+    { name: 'onion', perish_by: null, use_soon: false },
+    { name: 'spinach', perish_by: null, use_soon: true },
+    { name: 'milk', perish_by: null, use_soon: true },
+  ],
+  prefs: PREFS,
+  seed: 'scorecard',
+});
+
+describe('planScorecard', () => {
+  it('scores cook nights, not leftover nights', () => {
+    const week = assembleWeek({ dinner: [TACOS, CURRY, PASTA] }, 4, { leftovers: { peopleCount: 2 } });
+    expect(week.map((m) => m.leftover_of ?? null)).toEqual([null, null, 1, null]);
+
+    const card = planScorecard(ctx, week, {
+      list: { ingIndex: ctx.ingIndex, pantry: [], peopleCount: 2 },
+      storeId: 'sf_safeway',
+    });
+    expect(card).toMatchObject({
+      version: SCORECARD_VERSION,
+      pantryCoveragePct: 29,
+      useSoonUsed: 1,
+      useSoonLeft: 1,
+      vegMeals: 2,
+      nonVegMeals: 1,
+      prepMinutes: 85,
+    });
+    expect(card.proteins).toEqual({ beef: 1, plant: 2 });
+    expect(card.estCost).toBeGreaterThan(0);
+  });
+
+  it('leaves cost out without a store', () => {
+    const card = planScorecard(ctx, assembleWeek({ dinner: [PASTA] }, 1), {
+      list: { ingIndex: ctx.ingIndex, pantry: [], peopleCount: 2 },
+      storeId: 'none',
+    });
+    expect(card.estCost).toBeNull();
+    expect(card.unpricedItems).toBe(0);
+  });
+});
+
+describe('planMetadataFromRow', () => {
+  it('reads older and partial rows', () => {
+    expect(planMetadataFromRow(null)).toEqual({ planner: null, scorecard: null });
+    expect(planMetadataFromRow({ planner: 'robot' })).toEqual({ planner: null, scorecard: null });
+
+    const { planner, scorecard } = planMetadataFromRow({
+      planner: 'llm',
+      scorecard: { pantryCoveragePct: '40', estCost: null, proteins: { beef: 2, unicorn: 1, plant: 0 } },
+    });
+    expect(planner).toBe('llm');
+    expect(scorecard).toMatchObject({
+      version: SCORECARD_VERSION,
+      pantryCoveragePct: 40,
+      estCost: null,
+      shoppingItems: 0,
+      proteins: { beef: 2 },
+    });
+  });
+});
@@ -0,0 +1,129 @@
+// src/lib/planner/scorecard.ts
+// Plan quality scorecard: a handful of numbers computed for every saved
+// week and stored in `user_meal_plan.metadata`, so AI-planned and heuristic
+// weeks can be compared over time. Counts are over cook nights; leftover
+// nights reheat a cook night and add nothing of their own.
+import { normalizeIngredientName } from '@/lib/shopping';
+import { summarizeCost, type StoreId } from '@/lib/pricing';
+import { STAPLE_SKIP } from './constraints';
+import type { PlannerContext } from './context';
+import { CAT_ORDER, isVegLikeRecipe, recipeProteinCat, type ProteinCat } from './proteins';
+import { buildShoppingList, type ShoppingListOptions } from './shoppingList';
+import { cookNights, type PlannedMeal } from './slots';
+import type { PlannerRecipe } from './types';
+
+// Bump when a field's meaning changes, so old rows aren't compared 1:1
+export const SCORECARD_VERSION = 1;
+
+export type PlanScorecard = {
+  version: number;
+  /** Share of the week's distinct ingredients already on hand, 0–100 */
+  pantryCoveragePct: number;
+  /** "Use soon" pantry items some meal cooks with */
+  useSoonUsed: number;
+  /** "Use soon" pantry items no meal touches */
+  useSoonLeft: number;
+  /** Distinct rows on the shopping list */
+  shoppingItems: number;
+  /** Priced rows only (null = no store picked) */
+  estCost: number | null;
+  /** Rows the price book couldn't price */
+  unpricedItems: number;
+  /** Cook nights per protein, e.g. { chicken: 2, plant: 3 } */
+  proteins: Partial<Record<ProteinCat, number>>;
+  vegMeals: number;
+  nonVegMeals: number;
+  /** Sum of recipe times over cook nights */
+  prepMinutes: number;
+};
+
+export type PlanMetadata = {
+  /** Which planner picked the week (null = unknown, e.g. older rows) */
+  planner: 'llm' | 'heuristic' | null;
+  scorecard: PlanScorecard | null;
+};
+
+function pct(n: number, of: number): number {
+  return of > 0 ? Math.round((n / of) * 100) : 100;
+}
+
+export function planScorecard<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  week: PlannedMeal<R>[],
+  opts: { list: ShoppingListOptions; storeId: StoreId },
+): PlanScorecard {
+  const cooks = cookNights(week).map(({ meal }) => meal.recipe);
+
+  const needed = new Set<string>();
+  for (const r of cooks) {
+    for (const it of ctx.ingIndex.get(r.id) || []) {
+      const n = normalizeIngredientName(it.name);
+      if (n && !it.optional && !STAPLE_SKIP.has(n)) needed.add(n);
+    }
+  }
+  const onHand = Array.from(needed).filter((n) => ctx.pantrySet.has(n)).length;
+  const useSoonUsed = Array.from(ctx.pantryUseSoon).filter((n) => needed.has(n)).length;
+
+  // Hand-added extras aren't the planner's doing
+  const list = buildShoppingList(week, { ...opts.list, extras: [] });
+  const cost = opts.storeId !== 'none' ? summarizeCost(list, opts.storeId) : null;
+
+  const proteins: PlanScorecard['proteins'] = {};
+  let vegMeals = 0;
+  for (const r of cooks) {
+    const cat = recipeProteinCat(ctx, r);
+    proteins[cat] = (proteins[cat] ?? 0) + 1;
+    if (isVegLikeRecipe(ctx, r)) vegMeals++;
+  }
+
+  return {
+    version: SCORECARD_VERSION,
+    pantryCoveragePct: pct(onHand, needed.size),
+    useSoonUsed,
+    useSoonLeft: ctx.pantryUseSoon.size - useSoonUsed,
+    shoppingItems: list.length,
+    estCost: cost ? cost.total : null,
+    unpricedItems: cost ? cost.unpriced.length : 0,
+    proteins: Object.fromEntries(CAT_ORDER.filter((c) => proteins[c]).map((c) => [c, proteins[c]])),
+    vegMeals,
+    nonVegMeals: cooks.length - vegMeals,
+    prepMinutes: cooks.reduce((n, r) => n + (r.time_min ?? 0), 0),
+  };
+}
+
+function num(v: unknown): number | null {
+  const n = typeof v === 'number' ? v : Number(v);
+  return v != null && Number.isFinite(n) ? n : null;
+}
+
+/** `user_meal_plan.metadata` (jsonb) → metadata; tolerant of older/partial rows. */
+export function planMetadataFromRow(raw: unknown): PlanMetadata {
+  const o = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const planner = o.planner === 'llm' || o.planner === 'heuristic' ? o.planner : null;
+  const s = o.scorecard && typeof o.scorecard === 'object' ? (o.scorecard as Record<string, unknown>) : null;
+  if (!s) return { planner, scorecard: null };
+
+  const proteins: PlanScorecard['proteins'] = {};
+  const p = s.proteins && typeof s.proteins === 'object' ? (s.proteins as Record<string, unknown>) : {};
+  for (const cat of CAT_ORDER) {
+    const n = num(p[cat]);
+    if (n) proteins[cat] = n;
+  }
+
+  return {
+    planner,
+    scorecard: {
+      version: num(s.version) ?? SCORECARD_VERSION,
+      pantryCoveragePct: num(s.pantryCoveragePct) ?? 0,
+      useSoonUsed: num(s.useSoonUsed) ?? 0,
+      useSoonLeft: num(s.useSoonLeft) ?? 0,
+      shoppingItems: num(s.shoppingItems) ?? 0,
+      estCost: num(s.estCost),
+      unpricedItems: num(s.unpricedItems) ?? 0,
+      proteins,
+      vegMeals: num(s.vegMeals) ?? 0,
+      nonVegMeals: num(s.nonVegMeals) ?? 0,
+      prepMinutes: num(s.prepMinutes) ?? 0,
+    },
+  };
+}
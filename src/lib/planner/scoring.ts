@@ -0,0 +1,274 @@
+// src/lib/planner/scoring.ts
+import { normalizeIngredientName } from '@/lib/shopping';
+import { STAPLE_SKIP, matchesAnyNormalizedTerm } from './constraints';
+import type { PlannerContext } from './context';
+import { isVegLikeRecipe, recipeProteinCat, shouldBalanceNonVeg, type ProteinCat } from './proteins';
+import type { PlannerRecipe } from './types';
+
+type IngredientWeightBand = 'major' | 'medium' | 'minor';
+
+function ingredientWeightBand(nameNorm: string): IngredientWeightBand {
+  // Heuristic: treat proteins/primary carbs/primary produce as "major".
+  // Everything else defaults to medium/minor.
+  const n = nameNorm;
+
+  // Major proteins
+  if (
+    /(\bchicken\b|\bbeef\b|\bpork\b|\bturkey\b|\bshrimp\b|\bsalmon\b|\btuna\b|\begg\b|\beggs\b|\btofu\b|\btempeh\b|\blentil\b|\blentils\b|\bbeans\b|\bchickpea\b|\bchickpeas\b)/.test(n)
+  ) {
+    return 'major';
+  }
+
+  // Major starches / grains
+  if (
+    /(\brice\b|\bquinoa\b|\bpasta\b|\bnoodle\b|\btortilla\b|\bbread\b|\bpotato\b|\bpotatoes\b|\boats\b)/.test(n)
+  ) {
+    return 'major';
+  }
+
+  // Primary produce
+  if (
+    /(\bonion\b|\bgarlic\b|\btomato\b|\bspinach\b|\bbroccoli\b|\bpepper\b|\bbell pepper\b|\bzucchini\b|\bcarrot\b|\bcauliflower\b|\bmushroom\b|\bcilantro\b|\bdill\b|\bbasil\b)/.test(n)
+  ) {
+    return 'major';
+  }
+
+  // Minor: oils/spices/condiments/acid
+  if (
+    /(\boil\b|\bsalt\b|\bpepper\b|\bcumin\b|\bpurchase\b|\bpaprika\b|\bchili\b|\bflake\b|\bvinegar\b|\blemon\b|\blime\b|\bsoy sauce\b|\bhot sauce\b|\bsauce\b|\bmustard\b|\bketchup\b)/.test(n)
+  ) {
+    return 'minor';
+  }
+
+  return 'medium';
+}
+
+export function ingredientWeight(nameNorm: string): number {
+  const band = ingredientWeightBand(nameNorm);
+  if (band === 'major') return 3;
+  if (band === 'medium') return 2;
+  return 0.5;
+}
+
+export type RecipeStats = {
+  id: string;
+  coverage: number;
+  matchedWeight: number;
+  totalWeight: number;
+  missingWeighted: number;
+  missingSet: Set<string>; // normalized missing non-staples, non-optional
+  mustUseHits: number;
+  /** Minority household dislikes this recipe hits, weighted by vote share */
+  softDislikePenalty: number;
+  /** The terms baseScore adds up (penalties negative) */
+  breakdown: ScoreBreakdown;
+  baseScore: number;
+};
+
+export type ScoreBreakdown = {
+  pantryCoverage: number;
+  missingItems: number;
+  mustUse: number;
+  favorite: number;
+  time: number;
+  softDislikes: number;
+};
+
+// Full score cost of a dislike; minority dislikes pay it scaled by their vote share
+const SOFT_DISLIKE_PENALTY = 4;
+
+function softDislikePenalty(ctx: PlannerContext<PlannerRecipe>, names: string[]): number {
+  let penalty = 0;
+  for (const [term, share] of Array.from(ctx.softDislikeTermsNorm.entries())) {
+    const one = new Set([term]);
+    if (names.some((n) => matchesAnyNormalizedTerm(n, one))) penalty += share * SOFT_DISLIKE_PENALTY;
+  }
+  return penalty;
+}
+
+export function computeStats(ctx: PlannerContext<PlannerRecipe>, r: PlannerRecipe): RecipeStats {
+  const { prefs } = ctx;
+  const ri = (ctx.ingIndex.get(r.id) || []).filter((it) => !it.optional);
+  const ingNorms = ri.map((it) => normalizeIngredientName(it.name));
+
+  let totalWeight = 0;
+  let matchedWeight = 0;
+  let missingWeighted = 0;
+  const missingSet = new Set<string>();
+  let mustUseHits = 0;
+
+  for (const n of ingNorms) {
+    if (!n) continue;
+
+    const w = ingredientWeight(n);
+    totalWeight += w;
+
+    const inPantry = ctx.pantrySet.has(n);
+    if (inPantry) {
+      matchedWeight += w;
+      if (ctx.mustUseSet.has(n)) mustUseHits += 1;
+      continue;
+    }
+
+    // Missing: ignore staples and do not add to shopping-friction penalty
+    if (STAPLE_SKIP.has(n)) continue;
+
+    missingWeighted += w;
+    missingSet.add(n);
+  }
+
+  const coverage = totalWeight > 0 ? matchedWeight / totalWeight : 0;
+
+  // Time preference (soft): keep it simple in V1
+  const timeScore = r.time_min <= (prefs.max_prep_minutes ?? 45) ? 1.5 : -2;
+
+  // Favorites boost
+  const favBoost = ctx.favorites.has(r.id)
+    ? prefs.favorite_mode === 'favorites'
+      ? 4
+      : 1
+    : 0;
+
+  // Must-use boost (waste reduction)
+  const mustUseBoost = mustUseHits * 2.5;
+
+  // Pantry-first score
+  // - Coverage dominates
+  // - Missing ingredients (weighted) penalized
+  const dislikePenalty = softDislikePenalty(ctx, ri.map((it) => it.name));
+  const breakdown: ScoreBreakdown = {
+    pantryCoverage: coverage * 10,
+    missingItems: -missingWeighted * 1.5,
+    mustUse: mustUseBoost,
+    favorite: favBoost,
+    time: timeScore,
+    softDislikes: -dislikePenalty,
+  };
+  const baseScore =
+    coverage * 10 - missingWeighted * 1.5 + mustUseBoost + favBoost + timeScore - dislikePenalty;
+
+  return {
+    id: r.id,
+    coverage,
+    matchedWeight,
+    totalWeight,
+    missingWeighted,
+    missingSet,
+    mustUseHits,
+    softDislikePenalty: dislikePenalty,
+    breakdown,
+    baseScore,
+  };
+}
+
+/**
+ * Greedy pantry-first week selection:
+ * 1) pick best baseScore
+ * 2) for subsequent picks, penalize introducing new missing items not already on the week's list
+ */
+export function pickHeuristicRecipes<R extends PlannerRecipe>(ctx: PlannerContext<R>): R[] {
+  const { pool } = ctx;
+
+  // Precompute stats for all candidates
+  const statsById = new Map<string, RecipeStats>();
+  for (const r of pool) statsById.set(r.id, computeStats(ctx, r));
+
+  const picked: R[] = [];
+  const weekMissing = new Set<string>();
+
+  // Locked meals are already in the week: don't pick them again, and their
+  // missing items are already on the list.
+  const lockedIds = new Set(ctx.locked.map((r) => r.id));
+  for (const r of ctx.locked) {
+    for (const m of computeStats(ctx, r).missingSet) weekMissing.add(m);
+  }
+
+  for (let k = 0; k < ctx.count; k++) {
+    let best: { r: R; score: number } | null = null;
+
+    for (const r of pool) {
+      // Avoid duplicates until we have to fill with repeats later
+      if (picked.some((p) => p.id === r.id)) continue;
+      if (lockedIds.has(r.id)) continue;
+
+      const st = statsById.get(r.id);
+      if (!st) continue;
+
+      // Week-level penalty for introducing brand new missing items
+      let newMissingCount = 0;
+      for (const m of st.missingSet) {
+        if (!weekMissing.has(m)) newMissingCount += 1;
+      }
+
+      const weekPenalty = newMissingCount * 0.75;
+      const score = st.baseScore - weekPenalty;
+
+      if (!best || score > best.score) best = { r, score };
+    }
+
+    if (!best) break;
+
+    picked.push(best.r);
+
+    // Accumulate missing set for the week
+    const st = statsById.get(best.r.id);
+    if (st) {
+      for (const m of st.missingSet) weekMissing.add(m);
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * "Swap this meal": best-scoring recipe not already in the week.
+ * For omnivore dinners we keep the veg/non-veg side of the meal being replaced
+ * and skip proteins already at the weekly cap, so a swap can't undo the
+ * balancing the week went through.
+ */
+export function nextBestRecipe<R extends PlannerRecipe>(
+  ctx: PlannerContext<R>,
+  week: R[],
+  current: R,
+): R | null {
+  const inWeek = new Set(week.map((r) => r.id));
+  inWeek.add(current.id);
+
+  const weekMissing = new Set<string>();
+  for (const r of week) {
+    if (r.id === current.id) continue;
+    for (const m of computeStats(ctx, r).missingSet) weekMissing.add(m);
+  }
+
+  let candidates = ctx.pool.filter((r) => !inWeek.has(r.id));
+  if (shouldBalanceNonVeg(ctx)) {
+    const wantVeg = isVegLikeRecipe(ctx, current);
+    const sameSide = candidates.filter((r) => isVegLikeRecipe(ctx, r) === wantVeg);
+    if (sameSide.length) candidates = sameSide;
+
+    const maxPerCat = Math.max(1, Math.ceil(week.length * 0.4));
+    const counts = new Map<ProteinCat, number>();
+    for (const r of week) {
+      if (r.id === current.id) continue;
+      const c = recipeProteinCat(ctx, r);
+      counts.set(c, (counts.get(c) ?? 0) + 1);
+    }
+    const underCap = candidates.filter(
+      (r) => (counts.get(recipeProteinCat(ctx, r)) ?? 0) < maxPerCat,
+    );
+    if (underCap.length) candidates = underCap;
+  }
+
+  let best: { r: R; score: number } | null = null;
+  for (const r of candidates) {
+    const st = computeStats(ctx, r);
+    let newMissingCount = 0;
+    for (const m of st.missingSet) {
+      if (!weekMissing.has(m)) newMissingCount += 1;
+    }
+    const score = st.baseScore - newMissingCount * 0.75;
+    if (!best || score > best.score) best = { r, score };
+  }
+
+  return best?.r ?? null;
+}
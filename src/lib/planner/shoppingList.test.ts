@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import type { PantryAmount } from '@/lib/shopping';
+import { buildShoppingList, type ShoppingListOptions } from './shoppingList';
+import type { PlannedMeal } from './slots';
+import type { PlannerIngredient, PlannerRecipe } from './types';
+
+const recipe = { id: 'r1', title: 'Pancakes', time_min: 20, diet_tags: [], servings: 2 } as PlannerRecipe;
+const week: PlannedMeal[] = [{ day: 0, slot: 'dinner', recipe }];
+
+function list(ingredients: string[], opts: Partial<ShoppingListOptions> & { pantry?: PantryAmount[] } = {}) {
+  const ri: PlannerIngredient[] = ingredients.map((name) => ({
+    recipe_id: 'r1',
+    name,
+    qty: 1,
+    unit: 'cup',
+    optional: false,
+  }));
+  return buildShoppingList(week, {
+    ingIndex: new Map([['r1', ri]]),
+    pantry: [],
+    peopleCount: 2,
+    ...opts,
+  });
+}
+
+describe('household swaps', () => {
+  const swap = (to: string) => [{ from: 'milk', to }];
+
+  it('buys the swap instead, with a note naming the rule', () => {
+    const [item] = list(['milk'], { subRules: swap('oat milk') });
+    expect(item.name).toBe('oat milk');
+    expect(item.note).toContain('your swap: milk → oat milk');
+  });
+
+  it('is netted against the pantry like any other need', () => {
+    const items = list(['milk'], {
+      subRules: swap('oat milk'),
+      pantry: [{ name: 'oat milk', qty: 2, unit: 'cup' }],
+    });
+    expect(items).toEqual([]);
+  });
+
+  it.each([
+    [['dairy'], 'oat milk', 'oat milk'],
+    [['dairy'], 'cream', 'milk'],
+    [['dairy'], 'buttermilk', 'milk'],
+    [['tree_nut'], 'almond milk', 'milk'],
+  ])('with %j allergies, milk → %s lists %s', (allergies, to, expected) => {
+    expect(list(['milk'], { allergies, subRules: swap(to) }).map((i) => i.name)).toEqual([expected]);
+  });
+
+  it.each([['peanut butter'], ['cocoa butter'], ['apple butter']])(
+    'does not treat %s as dairy',
+    (to) => {
+      const items = list(['butter'], { allergies: ['dairy'], subRules: [{ from: 'butter', to }] });
+      expect(items.map((i) => i.name)).toEqual([to]);
+    },
+  );
+});
@@ -0,0 +1,100 @@
+// src/lib/planner/shoppingList.ts
+// Week → shopping list. Shared by the plan page and the budget pass so the
+// list you see is the list that got priced.
+import {
+  applyUserSubRules,
+  normalizeIngredientName,
+  smartMergeNeedsWithSubstitutions,
+  subtractPantryFromNeeds,
+  type PantryAmount,
+  type RawNeed,
+  type ShoppingItem,
+  type UserSubRule,
+} from '@/lib/shopping';
+import { STAPLE_SKIP, expandAllergyTerms } from './constraints';
+import { cookNights, type PlannedMeal } from './slots';
+import type { PlannerIngredient, PlannerRecipe } from './types';
+
+export type ShoppingListOptions = {
+  ingIndex: Map<string, PlannerIngredient[]>;
+  pantry: PantryAmount[];
+  peopleCount: number;
+  /** Substitution notes never suggest these */
+  allergies?: string[];
+  dislikes?: string[];
+  /** The household's own swaps; the list buys the substitute instead */
+  subRules?: UserSubRule[];
+  /**
+   * Items the user added by hand (paper towels, milk every week). They skip
+   * the pantry check (you asked for them) and merge with recipe needs by name.
+   */
+  extras?: RawNeed[];
+};
+
+function blockedTerms(opts: ShoppingListOptions): Set<string> {
+  const blocked = new Set<string>();
+  try {
+    for (const d of opts.dislikes ?? []) {
+      const n = normalizeIngredientName(String(d));
+      if (n) blocked.add(n);
+    }
+    // Allergies (expanded into concrete ingredient terms)
+    for (const t of Array.from(expandAllergyTerms(opts.allergies ?? []))) {
+      const n = normalizeIngredientName(String(t));
+      if (n) blocked.add(n);
+    }
+  } catch {
+    // best-effort only
+  }
+  return blocked;
+}
+
+export function buildShoppingList<R extends PlannerRecipe>(
+  week: PlannedMeal<R>[],
+  opts: ShoppingListOptions,
+): ShoppingItem[] {
+  const rawNeeds: RawNeed[] = [];
+
+  // Leftover nights buy nothing; their cook night is scaled to cover them.
+  for (const { meal, portions } of cookNights(week)) {
+    const r = meal.recipe;
+    const ri = opts.ingIndex.get(r.id) || [];
+
+    const baseServings = r.servings ?? 2; // DB default is 2; keep safe fallback
+    const multiplier = baseServings > 0 ? (opts.peopleCount * portions) / baseServings : 1;
+
+    for (const it of ri) {
+      // Skip pantry staples (salt/pepper etc.) and optional garnish
+      if (STAPLE_SKIP.has(normalizeIngredientName(it.name))) continue;
+      if (it.optional) continue;
+
+      rawNeeds.push({
+        name: it.name,
+        qty: (it.qty ?? 1) * multiplier,
+        unit: it.unit ?? null,
+      });
+    }
+  }
+
+  // The household's own swaps rename needs before the pantry check, so oat
+  // milk on hand covers a recipe's milk
+  const blocked = blockedTerms(opts);
+  const { needsOut: swappedNeeds, substitutionsUsed: swapsUsed } = applyUserSubRules(
+    rawNeeds,
+    opts.subRules ?? [],
+    { blocked, allergies: opts.allergies },
+  );
+  const remainingNeeds = [...subtractPantryFromNeeds(swappedNeeds, opts.pantry), ...(opts.extras ?? [])];
+
+  // Built-in substitutions never drop the original item; they attach a note
+  // when the pantry has a stand-in (allergies/dislikes are never suggested).
+  const pantryNames = opts.pantry.map((p) => normalizeIngredientName(p.name));
+  const { items } = smartMergeNeedsWithSubstitutions(remainingNeeds, pantryNames, {
+    blocked,
+    allergies: opts.allergies,
+    swapsUsed,
+    keepOriginalInList: true,
+  });
+
+  return items;
+}
@@ -0,0 +1,210 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assembleWeek,
+  cookNights,
+  leftoverNightsFor,
+  mealsFromPlanRows,
+  normalizeMealSlots,
+  recipeFitsSlot,
+  type PlanItemRow,
+  type PlannedMeal,
+} from './slots';
+import type { DayRule } from './schedule';
+import type { MealSlot, PlannerRecipe } from './types';
+
+const recipe = (id: string, servings: number | null = null, time_min = 30): PlannerRecipe => ({
+  id,
+  title: id,
+  time_min,
+  diet_tags: [],
+  servings,
+});
+
+const grid = (week: PlannedMeal[]) =>
+  week.map(
+    (m) => `${m.day}:${m.slot}:${m.recipe.id}${m.leftover_of != null ? `<${m.leftover_of}` : ''}${m.locked ? '*' : ''}`,
+  );
+
+describe('normalizeMealSlots', () => {
+  it.each([
+    [['dinner', 'Breakfast', 'breakfast'], ['breakfast', 'dinner']],
+    [['lunch', 'brunch'], ['lunch']],
+    [[], ['dinner']],
+    [null, ['dinner']],
+  ])('%j → %j', (raw, expected) => {
+    expect(normalizeMealSlots(raw)).toEqual(expected);
+  });
+});
+
+describe('recipeFitsSlot', () => {
+  it('reads meal_types, with untagged recipes as dinners', () => {
+    expect(recipeFitsSlot({ meal_types: ['breakfast', 'lunch'] }, 'lunch')).toBe(true);
+    expect(recipeFitsSlot({ meal_types: ['breakfast'] }, 'dinner')).toBe(false);
+    expect(recipeFitsSlot({ meal_types: null }, 'dinner')).toBe(true);
+    expect(recipeFitsSlot({ meal_types: ['snack'] }, 'dinner')).toBe(true);
+  });
+});
+
+describe('leftoverNightsFor', () => {
+  it.each([
+    [4, 2, 1],
+    [12, 2, 1],
+    [3, 2, 0],
+    [null, 2, 0],
+    [4, 0, 0],
+  ])('%s servings for %s people → %s extra nights', (servings, people, nights) => {
+    expect(leftoverNightsFor({ servings }, people)).toBe(nights);
+  });
+});
+
+describe('assembleWeek', () => {
+  it('lays picks onto days in order', () => {
+    const week = assembleWeek({ dinner: [recipe('a'), recipe('b'), recipe('c')] }, 3);
+    expect(grid(week)).toEqual(['0:dinner:a', '1:dinner:b', '2:dinner:c']);
+  });
+
+  it('sorts by day, then breakfast → lunch → dinner', () => {
+    const week = assembleWeek({ dinner: [recipe('d')], breakfast: [recipe('b')], lunch: [recipe('l')] }, 1);
+    expect(grid(week)).toEqual(['0:breakfast:b', '0:lunch:l', '0:dinner:d']);
+  });
+
+  it('leaves days empty when picks run out', () => {
+    expect(grid(assembleWeek({ dinner: [recipe('a')] }, 3))).toEqual(['0:dinner:a']);
+  });
+
+  describe('leftovers', () => {
+    const opts = { leftovers: { peopleCount: 2 } };
+
+    it('gives a batch recipe the next night and drops the unused tail', () => {
+      const week = assembleWeek({ dinner: [recipe('big', 4), recipe('b', 2), recipe('c', 2)] }, 3, opts);
+      expect(grid(week)).toEqual(['0:dinner:big', '1:dinner:big<0', '2:dinner:b']);
+      expect(cookNights(week).map((c) => [c.meal.recipe.id, c.portions])).toEqual([
+        ['big', 2],
+        ['b', 1],
+      ]);
+    });
+
+    it('stops at one leftover night', () => {
+      const week = assembleWeek({ dinner: [recipe('huge', 12), recipe('b', 2)] }, 3, opts);
+      expect(grid(week)).toEqual(['0:dinner:huge', '1:dinner:huge<0', '2:dinner:b']);
+    });
+
+    it('does not run past the end of the week', () => {
+      const week = assembleWeek({ dinner: [recipe('a', 2), recipe('big', 4)] }, 2, opts);
+      expect(grid(week)).toEqual(['0:dinner:a', '1:dinner:big']);
+    });
+
+    it('only applies to dinners', () => {
+      const week = assembleWeek({ lunch: [recipe('big', 4), recipe('b', 2)] }, 2, opts);
+      expect(grid(week)).toEqual(['0:lunch:big', '1:lunch:b']);
+    });
+
+    it('does not cover a locked night', () => {
+      const locked: PlannedMeal[] = [{ day: 1, slot: 'dinner', recipe: recipe('pin') }];
+      const week = assembleWeek({ dinner: [recipe('big', 4), recipe('b', 2)] }, 3, { ...opts, locked });
+      expect(grid(week)).toEqual(['0:dinner:big', '1:dinner:pin*', '2:dinner:b']);
+    });
+  });
+
+  describe('day rules', () => {
+    const rules: Record<number, DayRule> = {
+      1: { max_prep_minutes: null, theme: 'taco' },
+      2: { max_prep_minutes: 20, theme: null },
+    };
+    const dayRule = (day: number, slot: MealSlot) => (slot === 'dinner' ? rules[day] ?? null : null);
+
+    it('reaches ahead for the next pick that fits', () => {
+      const picks = [
+        recipe('soup', null, 40),
+        recipe('stew', null, 60),
+        recipe('taco', null, 30),
+        recipe('salad', null, 10),
+      ];
+      const week = assembleWeek({ dinner: picks }, 4, { dayRule });
+      expect(grid(week)).toEqual(['0:dinner:soup', '1:dinner:taco', '2:dinner:salad', '3:dinner:stew']);
+    });
+
+    it('takes the next pick when nothing fits', () => {
+      const week = assembleWeek({ dinner: [recipe('a', null, 40), recipe('b', null, 40)] }, 2, {
+        dayRule: () => ({ max_prep_minutes: 15, theme: null }),
+      });
+      expect(grid(week)).toEqual(['0:dinner:a', '1:dinner:b']);
+    });
+
+    it('does not roll leftovers onto a theme night', () => {
+      const week = assembleWeek({ dinner: [recipe('big', 4), recipe('taco', 2)] }, 2, {
+        leftovers: { peopleCount: 2 },
+        dayRule,
+      });
+      expect(grid(week)).toEqual(['0:dinner:big', '1:dinner:taco']);
+    });
+
+    it('lets leftovers cover a time-limited night', () => {
+      const week = assembleWeek({ dinner: [recipe('x'), recipe('big', 4, 60), recipe('y')] }, 3, {
+        leftovers: { peopleCount: 2 },
+        dayRule: (day, slot) => (slot === 'dinner' && day === 2 ? rules[2] : null),
+      });
+      expect(grid(week)).toEqual(['0:dinner:x', '1:dinner:big', '2:dinner:big<1']);
+    });
+  });
+
+  describe('locks', () => {
+    it('keeps pinned meals and fills the free days around them', () => {
+      const locked: PlannedMeal[] = [
+        { day: 0, slot: 'dinner', recipe: recipe('pin'), reason: 'kept' },
+        { day: 2, slot: 'lunch', recipe: recipe('lunchpin') },
+      ];
+      const week = assembleWeek({ dinner: [recipe('a'), recipe('b')] }, 3, { locked });
+      expect(grid(week)).toEqual(['0:dinner:pin*', '1:dinner:a', '2:lunch:lunchpin*', '2:dinner:b']);
+      expect(week[0].reason).toBe('kept');
+    });
+
+    it('ignores locks past the end of the week and leftover rows', () => {
+      const locked: PlannedMeal[] = [
+        { day: 5, slot: 'dinner', recipe: recipe('late') },
+        { day: 1, slot: 'dinner', recipe: recipe('old'), leftover_of: 0 },
+      ];
+      const week = assembleWeek({ dinner: [recipe('a'), recipe('b')] }, 2, { locked });
+      expect(grid(week)).toEqual(['0:dinner:a', '1:dinner:b']);
+    });
+  });
+});
+
+describe('mealsFromPlanRows', () => {
+  const row = (over: Partial<PlanItemRow>): PlanItemRow => ({
+    recipe_id: 'a',
+    position: 0,
+    day: null,
+    slot: null,
+    leftover_of_day: null,
+    locked: null,
+    reason: null,
+    ...over,
+  });
+  const byId = new Map(['a', 'b', 'c'].map((id) => [id, recipe(id)]));
+
+  it('rebuilds the week in day and slot order', () => {
+    const week = mealsFromPlanRows(
+      [
+        row({ recipe_id: 'b', day: 1, slot: 'dinner', leftover_of_day: 0 }),
+        row({ recipe_id: 'c', day: 0, slot: 'lunch', locked: true, reason: 'kept' }),
+        row({ recipe_id: 'b', day: 0, slot: 'dinner' }),
+      ],
+      byId,
+    );
+    expect(grid(week)).toEqual(['0:lunch:c*', '0:dinner:b', '1:dinner:b<0']);
+    expect(week[0].reason).toBe('kept');
+  });
+
+  it('reads legacy rows as one dinner per position and drops missing recipes', () => {
+    const week = mealsFromPlanRows(
+      [
+        row({ recipe_id: 'a', position: 1 }),
+        row({ recipe_id: 'gone', position: 0 }),
+        row({ recipe_id: 'c', position: 2, slot: 'brunch' }),
+      ],
+      byId,
+    );
+    expect(grid(week)).toEqual(['1:dinner:a', '2:dinner:c']);
+  });
+});
@@ -0,0 +1,199 @@
+// src/lib/planner/slots.ts
+import { isActiveDayRule, recipeFitsDayRule, recipeMatchesTheme, type DayRule } from './schedule';
+import type { MealSlot, PlannerRecipe } from './types';
+
+// Canonical order within a day
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+export const MEAL_SLOT_LABEL: Record<MealSlot, string> = {
+  breakfast: 'Breakfast',
+  lunch: 'Lunch',
+  dinner: 'Dinner',
+};
+
+export function isMealSlot(v: unknown): v is MealSlot {
+  return v === 'breakfast' || v === 'lunch' || v === 'dinner';
+}
+
+/** Dedupe + canonical order; anything unknown is dropped. Empty → dinner only. */
+export function normalizeMealSlots(raw: unknown): MealSlot[] {
+  const arr = Array.isArray(raw) ? raw : [];
+  const set = new Set(arr.map((x) => String(x).toLowerCase().trim()).filter(isMealSlot));
+  const out = MEAL_SLOTS.filter((s) => set.has(s));
+  return out.length ? out : ['dinner'];
+}
+
+export function recipeMealTypes(r: Pick<PlannerRecipe, 'meal_types'>): MealSlot[] {
+  const tags = (r.meal_types ?? [])
+    .map((t) => String(t).toLowerCase().trim())
+    .filter(isMealSlot);
+  return tags.length ? tags : ['dinner'];
+}
+
+export function recipeFitsSlot(r: Pick<PlannerRecipe, 'meal_types'>, slot: MealSlot): boolean {
+  return recipeMealTypes(r).includes(slot);
+}
+
+/** One placed meal in the week grid. */
+export type PlannedMeal<R extends PlannerRecipe = PlannerRecipe> = {
+  day: number; // 0-based
+  slot: MealSlot;
+  recipe: R;
+  /** Set on leftover nights: the day (same slot) the dish was cooked */
+  leftover_of?: number | null;
+  /** Pinned by the user; kept as-is when the rest of the week is regenerated */
+  locked?: boolean;
+  /** Short "why this meal" shown on the card (cook meals only) */
+  reason?: string | null;
+};
+
+export function comparePlannedMeals(
+  a: Pick<PlannedMeal, 'day' | 'slot'>,
+  b: Pick<PlannedMeal, 'day' | 'slot'>,
+): number {
+  if (a.day !== b.day) return a.day - b.day;
+  return MEAL_SLOTS.indexOf(a.slot) - MEAL_SLOTS.indexOf(b.slot);
+}
+
+/** A `user_meal_plan_recipes` row as selected by the plan and history pages. */
+export type PlanItemRow = {
+  recipe_id: string;
+  position: number;
+  day: number | null;
+  slot: string | null;
+  leftover_of_day: number | null;
+  locked: boolean | null;
+  reason: string | null;
+};
+
+/**
+ * Saved plan rows → week grid. Rows whose recipe is gone (deactivated) are
+ * dropped. Legacy rows have no day/slot: one dinner per day, day == position.
+ */
+export function mealsFromPlanRows<R extends PlannerRecipe>(
+  rows: PlanItemRow[],
+  byId: Map<string, R>,
+): PlannedMeal<R>[] {
+  return rows
+    .flatMap((it): PlannedMeal<R>[] => {
+      const recipe = byId.get(it.recipe_id);
+      if (!recipe) return [];
+      return [{
+        day: it.day ?? it.position,
+        slot: isMealSlot(it.slot) ? it.slot : 'dinner',
+        recipe,
+        leftover_of: it.leftover_of_day ?? null,
+        locked: !!it.locked,
+        reason: it.reason ?? null,
+      }];
+    })
+    .sort(comparePlannedMeals);
+}
+
+// ---------- Leftovers ("cook once, eat twice") ----------
+
+// Only dinners roll over; breakfast/lunch stay one-and-done.
+const LEFTOVER_SLOTS = new Set<MealSlot>(['dinner']);
+
+// Keep it to "eat twice" — a third night of the same dish gets old fast.
+export const MAX_LEFTOVER_NIGHTS = 1;
+
+/** How many extra nights one cook of this recipe covers for the household. */
+export function leftoverNightsFor(
+  r: Pick<PlannerRecipe, 'servings'>,
+  peopleCount: number,
+): number {
+  const servings = r.servings ?? 0;
+  if (!servings || peopleCount <= 0) return 0;
+  const nights = Math.floor(servings / peopleCount) - 1;
+  return Math.max(0, Math.min(MAX_LEFTOVER_NIGHTS, nights));
+}
+
+export type AssembleOptions<R extends PlannerRecipe = PlannerRecipe> = {
+  /** When set, big-batch recipes fill the following day(s) as leftovers */
+  leftovers?: { peopleCount: number };
+  /** Pinned meals stay on their day/slot; picks fill the free days around them */
+  locked?: PlannedMeal<R>[];
+  /** Weekday rule for a day/slot; a ruled day takes the next pick that fits it */
+  dayRule?: (day: number, slot: MealSlot) => DayRule | null;
+};
+
+/**
+ * Lay per-slot picks onto a day × slot grid. Each slot list is already in
+ * planner order (perishables first), so picks are consumed front to back
+ * into the days not taken by locked meals. With leftovers on, a batch recipe
+ * also takes the next free day(s), and the unused tail of the list is dropped.
+ * Leftover nights can shift picks off the days they were chosen for, so a
+ * day with a weekday rule reaches ahead for the next pick that fits it, and
+ * leftovers never cover a theme night the dish doesn't match.
+ */
+export function assembleWeek<R extends PlannerRecipe>(
+  bySlot: Partial<Record<MealSlot, R[]>>,
+  days: number,
+  opts: AssembleOptions<R> = {},
+): PlannedMeal<R>[] {
+  const out: PlannedMeal<R>[] = [];
+
+  for (const slot of MEAL_SLOTS) {
+    const picks = bySlot[slot] ?? [];
+    const useLeftovers = !!opts.leftovers && LEFTOVER_SLOTS.has(slot);
+
+    const lockedByDay = new Map<number, PlannedMeal<R>>();
+    for (const m of opts.locked ?? []) {
+      if (m.slot === slot && m.day < days && m.leftover_of == null) lockedByDay.set(m.day, m);
+    }
+
+    const queue = picks.slice();
+    const taken = new Set<number>();
+
+    for (let day = 0; day < days; day++) {
+      if (taken.has(day)) continue;
+
+      let recipe: R;
+      const pinned = lockedByDay.get(day);
+      if (pinned) {
+        recipe = pinned.recipe;
+        out.push({ day, slot, recipe, locked: true, reason: pinned.reason ?? null });
+      } else {
+        if (!queue.length) continue;
+        const rule = opts.dayRule?.(day, slot);
+        const k = isActiveDayRule(rule) ? queue.findIndex((r) => recipeFitsDayRule(r, rule)) : -1;
+        recipe = queue.splice(Math.max(0, k), 1)[0];
+        out.push({ day, slot, recipe });
+      }
+      taken.add(day);
+
+      if (!useLeftovers) continue;
+      let extra = leftoverNightsFor(recipe, opts.leftovers!.peopleCount);
+      for (let d = day + 1; d < days && extra > 0; d++) {
+        if (taken.has(d) || lockedByDay.has(d)) break;
+        // A theme night gets cooked, not last night's dish (time limits don't apply to reheats)
+        if (!recipeMatchesTheme(recipe, opts.dayRule?.(d, slot)?.theme)) break;
+        out.push({ day: d, slot, recipe, leftover_of: day });
+        taken.add(d);
+        extra -= 1;
+      }
+    }
+  }
+
+  return out.sort(comparePlannedMeals);
+}
+
+/**
+ * Cook nights only, with how many nights each batch covers. This is what the
+ * shopping list should be built from (leftover nights need no groceries).
+ */
+export function cookNights<R extends PlannerRecipe>(
+  week: PlannedMeal<R>[],
+): Array<{ meal: PlannedMeal<R>; portions: number }> {
+  const extra = new Map<string, number>();
+  for (const m of week) {
+    if (m.leftover_of == null) continue;
+    const key = `${m.slot}|${m.leftover_of}`;
+    extra.set(key, (extra.get(key) ?? 0) + 1);
+  }
+
+  return week
+    .filter((m) => m.leftover_of == null)
+    .map((meal) => ({ meal, portions: 1 + (extra.get(`${meal.slot}|${meal.day}`) ?? 0) }));
+}
@@ -0,0 +1,121 @@
+// src/lib/planner/types.ts
+
+// Minimal shapes the planner needs. Callers can pass richer rows
+// (e.g. the plan page's Recipe with instructions); the engine keeps
+// the original objects and only reads these fields.
+
+import type { UserSubRule } from '@/lib/shopping';
+import type { NutritionTargets } from './nutrition';
+import type { RotationPrefs } from './rotation';
+import type { DayRule } from './schedule';
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export type PlannerRecipe = {
+  id: string;
+  title: string;
+  time_min: number;
+  diet_tags: string[] | null;
+  servings?: number | null;
+  /** Slots this recipe suits; null/empty means dinner (legacy rows) */
+  meal_types?: string[] | null;
+  // Per serving; only read when the user has nutrition targets
+  calories?: number | null;
+  protein_g?: number | null;
+  fiber_g?: number | null;
+  sodium_mg?: number | null;
+};
+
+export type PlannerIngredient = {
+  recipe_id: string;
+  name: string;
+  qty: number | null;
+  unit: string | null;
+  optional: boolean;
+};
+
+export type PlannerPantryRow = {
+  name: string;
+  qty?: number | null;
+  unit?: string | null;
+  perish_by: string | null;
+  use_soon: boolean;
+};
+
+export type PlannerPrefs = {
+  diet: string;
+  /** Further diets every meal must also satisfy (household members); see household.ts */
+  diets?: string[];
+  allergies: string[];
+  dislikes: string[];
+  /** Minority dislikes: term → share of the household (0–1), a scoring penalty only */
+  soft_dislikes?: Record<string, number>;
+  max_prep_minutes: number;
+  favorite_mode: 'variety' | 'favorites';
+  healthy_whole_food: boolean;
+  kid_friendly: boolean;
+  dinners_per_week: number;
+  /** Optional per-person targets; see nutrition.ts */
+  nutrition?: NutritionTargets | null;
+  /** Cross-week cool-down; see rotation.ts (null/absent = none) */
+  rotation?: RotationPrefs | null;
+  /** The household's own ingredient swaps; see subRules.ts */
+  sub_rules?: UserSubRule[];
+};
+
+export type PlannerInput<R extends PlannerRecipe = PlannerRecipe> = {
+  recipes: R[];
+  ingredients: PlannerIngredient[];
+  pantry: PlannerPantryRow[];
+  prefs: PlannerPrefs;
+  favorites?: Iterable<string>;
+  /** Deterministic seed used when the plan has to be filled with repeats */
+  seed: string;
+  /** Number of meals to plan (defaults to prefs.dinners_per_week) */
+  count?: number;
+  /** Which slot this run fills (defaults to dinner) */
+  slot?: MealSlot;
+  /**
+   * Meals the user pinned for this slot. They are not re-picked, but they
+   * count toward the week's balance rules (veg cap, protein cap, use-soon).
+   */
+  locked?: R[];
+  /**
+   * Clock override (ms since epoch). Pass the plan's start date so perish-by
+   * math lines up with day 0 of the week; also keeps runs reproducible.
+   */
+  now?: number;
+  /** Recipe id → last day served before this week; read by the rotation cool-down */
+  lastServed?: Map<string, string>;
+  /**
+   * Weekday rules for the days this run's picks will fill, in pick order
+   * (null = no rule that day); see schedule.ts.
+   */
+  dayRules?: Array<DayRule | null>;
+};
+
+export type PlanPassName =
+  | 'heuristic_pick'
+  | 'perishables_order'
+  | 'fill_repeats'
+  | 'veg_balance'
+  | 'protein_variety'
+  | 'protein_adjacency'
+  | 'nutrition_targets'
+  | 'must_use_coverage'
+  | 'day_rules'
+  | 'diet_final';
+
+/** One entry per pass: what the plan looked like before/after it ran. */
+export type PlanTraceEntry = {
+  pass: PlanPassName;
+  changed: boolean;
+  before: string[]; // recipe ids
+  after: string[]; // recipe ids
+  details?: Record<string, unknown>;
+};
+
+export type PlannerResult<R extends PlannerRecipe = PlannerRecipe> = {
+  recipes: R[];
+  trace: PlanTraceEntry[];
+};
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { estimateItemCost, isStoreId, storeLabel, summarizeCost } from './pricing';
+
+describe('estimateItemCost', () => {
+  it.each([
+    [{ name: 'beef', qty: 2.2, unit: 'lb' }, { cost: 20.97, packages: 3 }],
+    [{ name: 'onion', qty: 3, unit: 'unit' }, { cost: 2.37, packages: 3 }],
+    [{ name: 'pasta', qty: 500, unit: 'g' }, { cost: 1.49, packages: 1 }],
+    [{ name: 'saffron', qty: 1, unit: 'g' }, { cost: null, packages: 0 }],
+  ])('%j', (item, expected) => {
+    const res = estimateItemCost(item, 'sf_safeway');
+    expect(res.packages).toBe(expected.packages);
+    if (expected.cost == null) expect(res.cost).toBeNull();
+    else expect(res.cost).toBeCloseTo(expected.cost);
+  });
+
+  it('prices nothing without a store', () => {
+    expect(estimateItemCost({ name: 'beef', qty: 1, unit: 'lb' }, 'none').cost).toBeNull();
+  });
+});
+
+describe('summarizeCost', () => {
+  it('totals priced lines, most expensive first, and lists the rest', () => {
+    const summary = summarizeCost(
+      [
+        { name: 'pasta', qty: 1, unit: 'box' },
+        { name: 'saffron', qty: 1, unit: 'g' },
+        { name: 'beef', qty: 1, unit: 'lb' },
+      ],
+      'sf_trader_joes',
+    );
+    expect(summary.total).toBe(7.78);
+    expect(summary.priced.map((p) => p.name)).toEqual(['beef', 'pasta']);
+    expect(summary.unpriced).toEqual(['saffron']);
+  });
+});
+
+describe('stores', () => {
+  it('labels and validates store ids', () => {
+    expect(storeLabel('sf_safeway')).toBe('Safeway (SF – example data)');
+    expect(isStoreId('sf_trader_joes')).toBe(true);
+    expect(isStoreId('costco')).toBe(false);
+  });
+});
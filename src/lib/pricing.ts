@@ -106,4 +106,58 @@ export function getPriceEstimate(item: BasicItem, storeId: StoreId): PriceEstima
     unitLabel: entry.unit,
     source: 'static-example',
   };
-}
\ No newline at end of file
+}
+
+export function storeLabel(storeId: StoreId): string {
+  return STORES.find((s) => s.id === storeId)?.label ?? storeId;
+}
+
+export function isStoreId(v: unknown): v is StoreId {
+  return typeof v === 'string' && STORES.some((s) => s.id === v);
+}
+
+// Shopping units that mean "one of the book's packages"
+const COUNT_UNITS = new Set(['unit', 'each']);
+
+export type ItemCost = {
+  /** null = no price for this item at this store */
+  cost: number | null;
+  /** Packages we assume you buy */
+  packages: number;
+  unitLabel: string | null;
+};
+
+// Line cost for a shopping row. The book prices packages, so a row is one
+// package unless its unit is the package unit (or a count for "each" prices).
+export function estimateItemCost(item: BasicItem, storeId: StoreId): ItemCost {
+  const est = getPriceEstimate(item, storeId);
+  if (est.price == null) return { cost: null, packages: 0, unitLabel: est.unitLabel };
+
+  const sameUnit =
+    item.unit === est.unitLabel || (est.unitLabel === 'each' && COUNT_UNITS.has(item.unit));
+  const packages = sameUnit ? Math.max(1, Math.ceil(item.qty - 1e-9)) : 1;
+  return { cost: est.price * packages, packages, unitLabel: est.unitLabel };
+}
+
+export type CostSummary = {
+  storeId: StoreId;
+  /** Sum over priced items only */
+  total: number;
+  /** Most expensive lines first */
+  priced: Array<{ name: string; cost: number; packages: number; unitLabel: string | null }>;
+  /** Items the price book doesn't know; not in `total` */
+  unpriced: string[];
+};
+
+export function summarizeCost(items: BasicItem[], storeId: StoreId): CostSummary {
+  const priced: CostSummary['priced'] = [];
+  const unpriced: string[] = [];
+  for (const it of items) {
+    const c = estimateItemCost(it, storeId);
+    if (c.cost == null) unpriced.push(it.name);
+    else priced.push({ name: it.name, cost: c.cost, packages: c.packages, unitLabel: c.unitLabel });
+  }
+  priced.sort((a, b) => b.cost - a.cost || a.name.localeCompare(b.name));
+  const total = Math.round(priced.reduce((n, p) => n + p.cost, 0) * 100) / 100;
+  return { storeId, total, priced, unpriced: unpriced.sort() };
+}
@@ -0,0 +1,63 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { checkRateLimits } from './index';
+import { createMemoryRateLimitStore } from './memory';
+import type { RateLimitRule, RateLimitStore } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Windows live on globalThis, so every test uses its own keys
+let n = 0;
+const rule = (id: string, limit: number): RateLimitRule => ({ id, key: `rate-test-${++n}`, limit, windowMs: HOUR_MS });
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.setSystemTime(Date.parse('2026-03-02T12:15:00Z'));
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('memory rate limit store', () => {
+  it('counts hits in fixed windows', async () => {
+    const store = createMemoryRateLimitStore();
+    const r = rule('a', 0);
+    expect(await store.hit(r.key, HOUR_MS)).toEqual({ count: 1, resetAt: Date.parse('2026-03-02T13:00:00Z') });
+    expect((await store.hit(r.key, HOUR_MS)).count).toBe(2);
+
+    vi.setSystemTime(Date.parse('2026-03-02T13:00:00Z'));
+    expect((await store.hit(r.key, HOUR_MS)).count).toBe(1);
+  });
+});
+
+describe('checkRateLimits', () => {
+  it('lets requests through up to the limit, then reports the first exceeded rule', async () => {
+    const store = createMemoryRateLimitStore();
+    const rules = [rule('user_hourly', 2), rule('global_hourly', 1)];
+    const first = await checkRateLimits(store, rules);
+    expect(first).toEqual({ ok: true });
+
+    const second = await checkRateLimits(store, rules);
+    expect(second).toEqual({ ok: false, rule: rules[1], retryAfterSeconds: 45 * 60 });
+
+    const third = await checkRateLimits(store, rules);
+    expect(!third.ok && third.rule.id).toBe('user_hourly');
+  });
+
+  it('treats a limit of 0 as unlimited', async () => {
+    const store = createMemoryRateLimitStore();
+    const rules = [rule('off', 0)];
+    for (let i = 0; i < 5; i++) expect((await checkRateLimits(store, rules)).ok).toBe(true);
+  });
+
+  it('fails open when the store breaks', async () => {
+    const broken: RateLimitStore = {
+      backend: 'supabase',
+      hit: () => Promise.reject(new Error('down')),
+    };
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(await checkRateLimits(broken, [rule('user_hourly', 1)])).toEqual({ ok: true });
+    expect(error).toHaveBeenCalledOnce();
+    error.mockRestore();
+  });
+});
@@ -0,0 +1,51 @@
+// src/lib/rateLimit/index.ts
+// Backend selection (env):
+//   RATE_LIMIT_BACKEND  memory | supabase
+//                       default: supabase when SUPABASE_SERVICE_ROLE_KEY is set, else memory
+import { hasSupabaseAdminConfig } from '@/lib/supabaseAdmin';
+import { createMemoryRateLimitStore } from './memory';
+import { createSupabaseRateLimitStore } from './supabase';
+import type { RateLimitResult, RateLimitRule, RateLimitStore } from './types';
+
+export type {
+  RateLimitBackend,
+  RateLimitResult,
+  RateLimitRule,
+  RateLimitStore,
+} from './types';
+
+export function getRateLimitStore(): RateLimitStore {
+  const raw = (process.env.RATE_LIMIT_BACKEND ?? '').toLowerCase().trim();
+  if (raw === 'memory') return createMemoryRateLimitStore();
+  if (raw && raw !== 'supabase') {
+    console.warn(`[RATE] Unknown RATE_LIMIT_BACKEND '${raw}'; using the default.`);
+  }
+  if (hasSupabaseAdminConfig()) return createSupabaseRateLimitStore();
+  if (raw === 'supabase') {
+    console.warn('[RATE] RATE_LIMIT_BACKEND=supabase but SUPABASE_SERVICE_ROLE_KEY is missing; using memory.');
+  }
+  return createMemoryRateLimitStore();
+}
+
+/**
+ * Count this request against every rule; the first exceeded rule wins.
+ * Store failures fail open (logged) — a broken counter shouldn't take planning down.
+ */
+export async function checkRateLimits(
+  store: RateLimitStore,
+  rules: RateLimitRule[],
+): Promise<RateLimitResult> {
+  for (const rule of rules) {
+    if (rule.limit <= 0) continue; // 0 = unlimited
+    try {
+      const w = await store.hit(rule.key, rule.windowMs);
+      if (w.count > rule.limit) {
+        const retryAfterSeconds = Math.max(1, Math.ceil((w.resetAt - Date.now()) / 1000));
+        return { ok: false, rule, retryAfterSeconds };
+      }
+    } catch (e) {
+      console.error(`[RATE] ${store.backend} store failed for ${rule.id}:`, e);
+    }
+  }
+  return { ok: true };
+}
@@ -0,0 +1,30 @@
+// src/lib/rateLimit/memory.ts
+// Per-process fixed windows. Fine for dev; on serverless each instance counts
+// separately, so use the supabase store in production.
+import type { RateLimitStore, WindowHit } from './types';
+
+const g = globalThis as unknown as { __mc_rateWindows?: Map<string, WindowHit> };
+const windows = (g.__mc_rateWindows ??= new Map<string, WindowHit>());
+
+function prune(now: number) {
+  for (const [k, w] of windows.entries()) {
+    if (w.resetAt <= now) windows.delete(k);
+  }
+}
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  return {
+    backend: 'memory',
+    async hit(key, windowMs) {
+      const now = Date.now();
+      prune(now);
+
+      const start = Math.floor(now / windowMs) * windowMs;
+      const k = `${key}@${start}`;
+      const w = windows.get(k) ?? { count: 0, resetAt: start + windowMs };
+      w.count += 1;
+      windows.set(k, w);
+      return { ...w };
+    },
+  };
+}
@@ -0,0 +1,22 @@
+// src/lib/rateLimit/supabase.ts
+// Shared fixed windows in public.rate_limit_counters via the rate_limit_hit RPC
+// (atomic upsert), so every serverless instance sees the same counts.
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import type { RateLimitStore } from './types';
+
+export function createSupabaseRateLimitStore(): RateLimitStore {
+  return {
+    backend: 'supabase',
+    async hit(key, windowMs) {
+      const { data, error } = await getSupabaseAdmin()
+        .rpc('rate_limit_hit', {
+          p_key: key,
+          p_window_seconds: Math.max(1, Math.round(windowMs / 1000)),
+        })
+        .single<{ count: number; reset_at: string }>();
+
+      if (error || !data) throw new Error(error?.message ?? 'rate_limit_hit returned nothing');
+      return { count: data.count, resetAt: Date.parse(data.reset_at) };
+    },
+  };
+}
@@ -0,0 +1,28 @@
+// src/lib/rateLimit/types.ts
+
+export type RateLimitBackend = 'memory' | 'supabase';
+
+export type WindowHit = {
+  /** Requests in the current window, including this one */
+  count: number;
+  /** ms since epoch when the window rolls over */
+  resetAt: number;
+};
+
+export interface RateLimitStore {
+  backend: RateLimitBackend;
+  /** Count one request against `key` in a fixed window of `windowMs` */
+  hit(key: string, windowMs: number): Promise<WindowHit>;
+}
+
+export type RateLimitRule = {
+  /** Short label for logs/responses, e.g. "user_hourly" */
+  id: string;
+  key: string;
+  limit: number;
+  windowMs: number;
+};
+
+export type RateLimitResult =
+  | { ok: true }
+  | { ok: false; rule: RateLimitRule; retryAfterSeconds: number };
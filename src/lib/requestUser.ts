@@ -0,0 +1,28 @@
+// src/lib/requestUser.ts
+// Resolve the Supabase user behind an API request from its
+// `Authorization: Bearer <access_token>` header. Null when absent/invalid.
+import type { NextRequest } from 'next/server';
+import { createClient } from '@supabase/supabase-js';
+
+export type RequestUser = { id: string; email: string | null };
+
+export async function getRequestUser(req: NextRequest): Promise<RequestUser | null> {
+  const authHeader = req.headers.get('authorization') || '';
+  const token = authHeader.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (!token) return null;
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) return null;
+
+  const supabase = createClient(url, anonKey, { auth: { persistSession: false } });
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error || !data?.user) return null;
+  return { id: data.user.id, email: data.user.email ?? null };
+}
+
+/** Best-effort client IP for anonymous budgets (first x-forwarded-for hop). */
+export function getRequestIp(req: NextRequest): string {
+  const fwd = req.headers.get('x-forwarded-for');
+  return fwd?.split(',')[0]?.trim() || req.headers.get('x-real-ip') || 'unknown';
+}
@@ -1,11 +1,15 @@
 // src/lib/shopping.ts
 
 import { autoCategoryFromName, type PantryCategory } from '@/lib/pantryCategorizer';
+import { packageRuleFor, toPackages } from '@/lib/packageCatalog';
+import { gramsPerCup, G_PER_OZ, ML_PER_CUP } from '@/lib/density';
 
 export type RawNeed = {
   name: string;
   qty: number | null;
   unit: string | null;
+  /** qty came from a cups ↔ weight estimate (see density.ts) */
+  approx?: boolean;
 };
 
 export type ShoppingItem = {
@@ -14,6 +18,7 @@ export type ShoppingItem = {
   unit: string; // normalized unit
   category?: PantryCategory; // auto-categorized store section
   note?: string; // optional UI hint (e.g., substitution suggestion)
+  approx?: boolean; // part of the qty was converted between cups and weight
 };
 
 export type PantryAmount = {
@@ -27,15 +32,26 @@ export type SubstitutionUsed = {
   missing: string;      // the ingredient the recipe asked for (normalized)
   substitute: string;   // pantry ingredient we can use instead (normalized)
   note: string;         // short user-facing message
+  rule: string;         // which rule fired, e.g. "your swap: milk → oat milk"
+  swapped?: boolean;    // the list buys `substitute` instead (user rules)
 };
 
+// Allergy toggle values (preferences.allergies) a swap can involve
+type AllergenTag = 'dairy' | 'gluten' | 'soy' | 'egg' | 'sesame' | 'peanut' | 'tree_nut' | 'fish' | 'shellfish';
+
 type SubRule = {
   // If a recipe asks for `from`, and pantry has `to`, we can recommend substituting.
   from: string;
   to: string;
   note: string;
-  // Optional hard block tags you can enforce at call sites (e.g., allergies) via `blocked`.
-  tags?: Array<'dairy' | 'gluten' | 'soy' | 'egg' | 'sesame' | 'peanut' | 'tree_nut' | 'fish' | 'shellfish'>;
+  // Allergens involved; the rule never fires for a household allergic to any of them
+  tags?: AllergenTag[];
+};
+
+/** A household's own swap ("we always use oat milk for milk"); see subRules.ts. */
+export type UserSubRule = {
+  from: string;
+  to: string;
 };
 
 type IngredientFamilyRule = {
@@ -92,7 +108,8 @@ const INGREDIENT_FAMILY_RULES: IngredientFamilyRule[] = [
 
 // Phase A+B: small, high-ROI substitution set (pantry-staple swaps).
 // These are *common* substitutions cited in mainstream cooking references.
-// IMPORTANT: We do NOT apply a rule if either side is blocked by caller-provided constraints.
+// IMPORTANT: We do NOT apply a rule if either side is blocked by caller-provided constraints,
+// or if its tags include one of the household's allergies.
 const SUB_RULES: SubRule[] = [
   // Dairy / creamy
   { from: 'sour cream', to: 'greek yogurt', note: 'You can use Greek yogurt instead of sour cream.', tags: ['dairy'] },
@@ -130,6 +147,37 @@ function pantryHas(pantryNorm: Set<string>, name: string): boolean {
   return pantryNorm.has(name);
 }
 
+function escapeRegex(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// "oat milk", "peanut butter": the word after it isn't the dairy it names
+const PLANT_QUALIFIER =
+  /\b(oat|almond|soy|coconut|rice|cashew|hemp|peanut|cocoa|apple|vegan|plant[- ]based|dairy[- ]free)\s+$/;
+
+// Allergens hiding inside one word, which word-boundary matching can't see
+const COMPOUND_ALLERGENS: Partial<Record<AllergenTag, RegExp>> = {
+  dairy: /\b(buttermilk|half[- ]and[- ]half|kefir|creme fraiche|crème fraîche)\b/,
+};
+
+// Blocked terms are words ("yogurt"), so "greek yogurt" is blocked too. The
+// qualifier itself is still checked ("almond" for a tree nut allergy).
+function isBlockedName(name: string, blocked: Set<string>): boolean {
+  if (blocked.has(name)) return true;
+  return Array.from(blocked).some((t) => {
+    if (!t) return false;
+    const m = new RegExp(`\\b${escapeRegex(t)}s?\\b`).exec(name);
+    return !!m && !PLANT_QUALIFIER.test(name.slice(0, m.index));
+  });
+}
+
+function ruleAllowed(rule: Pick<SubRule, 'to' | 'tags'>, allergies: Set<string>, blocked: Set<string>): boolean {
+  if (rule.tags?.some((t) => allergies.has(t))) return false;
+  const to = normalizeForSub(rule.to);
+  if (!to || isBlockedName(to, blocked)) return false;
+  return !Object.entries(COMPOUND_ALLERGENS).some(([tag, rx]) => allergies.has(tag) && rx.test(to));
+}
+
 function findIngredientFamily(nameNorm: string): IngredientFamilyRule | null {
   for (const rule of INGREDIENT_FAMILY_RULES) {
     const membersNorm = rule.members.map((m) => normalizeForSub(m));
@@ -172,7 +220,7 @@ function collectFamilySubstitutionHints(
     const membersNorm = family.members
       .map((m) => normalizeForSub(m))
       .filter(Boolean)
-      .filter((m) => m !== needNorm && !blocked.has(m));
+      .filter((m) => m !== needNorm && !isBlockedName(m, blocked));
 
     // Only allow substitution if pantry has it AND it is not also needed
     const pantryMatch = membersNorm.find((m) => {
@@ -194,23 +242,67 @@ function collectFamilySubstitutionHints(
       missing: needNorm,
       substitute: pantryMatch,
       note: buildFamilySubstitutionNote(needNorm, pantryMatch),
+      rule: `same family: ${family.family}`,
     });
   }
 
   return hints;
 }
 
+/**
+ * The household's own swaps: a need for `from` becomes a need for `to`,
+ * even when `from` is blocked (oat milk for milk in a dairy-free home).
+ * Run before pantry subtraction, so oat milk on hand covers a recipe's milk.
+ */
+export function applyUserSubRules(
+  needs: RawNeed[],
+  rules: UserSubRule[],
+  opts?: { blocked?: Set<string>; allergies?: string[] },
+): { needsOut: RawNeed[]; substitutionsUsed: SubstitutionUsed[] } {
+  if (!rules.length) return { needsOut: needs, substitutionsUsed: [] };
+  const blocked = opts?.blocked ?? new Set<string>();
+  const allergies = new Set((opts?.allergies ?? []).map((a) => a.toLowerCase().trim()));
+
+  const substitutionsUsed: SubstitutionUsed[] = [];
+  const needsOut = needs.map((n) => {
+    const rawName = (n.name || '').trim();
+    const needNorm = normalizeForSub(rawName);
+    const rule = needNorm
+      ? rules.find((r) => normalizeForSub(r.from) === needNorm && ruleAllowed(r, allergies, blocked))
+      : undefined;
+    if (!rule) return n;
+
+    const toNorm = normalizeForSub(rule.to);
+    if (!substitutionsUsed.some((s) => s.missing === needNorm)) {
+      substitutionsUsed.push({
+        missing: needNorm,
+        substitute: toNorm,
+        note: `Using ${toNorm} instead of ${needNorm}.`,
+        rule: `your swap: ${needNorm} → ${toNorm}`,
+        swapped: true,
+      });
+    }
+    // Keep a "(about 8 oz)" amount with the renamed need
+    const paren = rawName.match(/\(.*?\)/)?.[0];
+    return { ...n, name: paren ? `${toNorm} ${paren}` : toNorm };
+  });
+
+  return { needsOut, substitutionsUsed };
+}
+
 export function applySubstitutionsToNeeds(
   needs: RawNeed[],
   pantry: Iterable<string>,
   opts?: {
     blocked?: Set<string>; // normalized ingredient names that must not be suggested/used
+    allergies?: string[]; // allergy toggles (preferences.allergies); rules tagged with one never fire
     // if true, we will still keep the original shopping item but attach a note;
     // otherwise we remove the original need from the shopping list when a pantry substitute exists.
     keepOriginalInList?: boolean;
   },
 ): { needsOut: RawNeed[]; substitutionsUsed: SubstitutionUsed[] } {
   const blocked = opts?.blocked ?? new Set<string>();
+  const allergies = new Set((opts?.allergies ?? []).map((a) => a.toLowerCase().trim()));
   const keepOriginal = !!opts?.keepOriginalInList;
 
   const pantryNorm = new Set<string>();
@@ -229,7 +321,7 @@ export function applySubstitutionsToNeeds(
     const needNorm = normalizeForSub(rawName);
     if (!needNorm) continue;
 
-    // If the needed ingredient is blocked, we do not attempt substitutions.
+    // If the needed ingredient is blocked, we do not attempt other substitutions.
     if (blocked.has(needNorm)) {
       needsOut.push(n);
       continue;
@@ -238,11 +330,9 @@ export function applySubstitutionsToNeeds(
     // Find first applicable substitution where pantry has `to`.
     const rule = SUB_RULES.find((r) => {
       const from = normalizeForSub(r.from);
-      const to = normalizeForSub(r.to);
       if (from !== needNorm) return false;
-      if (!to) return false;
-      if (blocked.has(to)) return false;
-      return pantryHas(pantryNorm, to);
+      if (!ruleAllowed(r, allergies, blocked)) return false;
+      return pantryHas(pantryNorm, normalizeForSub(r.to));
     });
 
     if (!rule) {
@@ -256,6 +346,7 @@ export function applySubstitutionsToNeeds(
       missing: needNorm,
       substitute: toNorm,
       note: rule.note,
+      rule: `common swap: ${needNorm} → ${toNorm}`,
     });
 
     if (keepOriginal) {
@@ -276,11 +367,14 @@ export function attachSubstitutionNotes(
 ): ShoppingItem[] {
   if (!substitutionsUsed.length) return items;
 
+  // A swapped item is listed under its substitute; the rest under what the recipe asked for
   const notesByMissing = new Map<string, string[]>();
   for (const s of substitutionsUsed) {
-    const arr = notesByMissing.get(s.missing) ?? [];
-    if (!arr.includes(s.note)) arr.push(s.note);
-    notesByMissing.set(s.missing, arr);
+    const key = s.swapped ? s.substitute : s.missing;
+    const text = `${s.note} (${s.rule})`;
+    const arr = notesByMissing.get(key) ?? [];
+    if (!arr.includes(text)) arr.push(text);
+    notesByMissing.set(key, arr);
   }
 
   return items.map((it) => {
@@ -297,7 +391,10 @@ export function smartMergeNeedsWithSubstitutions(
   pantry: Iterable<string>,
   opts?: {
     blocked?: Set<string>;
+    allergies?: string[];
     keepOriginalInList?: boolean;
+    // Household swaps already applied (applyUserSubRules), for their notes
+    swapsUsed?: SubstitutionUsed[];
   },
 ): { items: ShoppingItem[]; substitutionsUsed: SubstitutionUsed[] } {
   const { needsOut, substitutionsUsed } = applySubstitutionsToNeeds(needs, pantry, opts);
@@ -307,7 +404,7 @@ export function smartMergeNeedsWithSubstitutions(
 
   const items = smartMergeNeeds(needsOut);
 
-  const allNotes = [...substitutionsUsed, ...familyHintsUsed];
+  const allNotes = [...(opts?.swapsUsed ?? []), ...substitutionsUsed, ...familyHintsUsed];
   const itemsWithNotes = opts?.keepOriginalInList
     ? attachSubstitutionNotes(items, allNotes)
     : items;
@@ -545,6 +642,56 @@ const UNIT_ALIASES: Record<string, string> = {
   heads: 'head',
 };
 
+// Package words people type for extras ("1 pack paper towels"); they stay
+// as-is (group "other") since there's nothing to convert them to.
+const PACKAGE_UNITS: Record<string, string> = {
+  pack: 'pack',
+  packs: 'pack',
+  bag: 'bag',
+  bags: 'bag',
+  box: 'box',
+  boxes: 'box',
+  jar: 'jar',
+  jars: 'jar',
+  roll: 'roll',
+  rolls: 'roll',
+  loaf: 'loaf',
+  loaves: 'loaf',
+  dozen: 'dozen',
+  gallon: 'gallon',
+  gallons: 'gallon',
+};
+
+/** ---------- Free-text items ("2 lb apples", "1/2 gallon milk", "paper towels") ---------- */
+export function parseShoppingText(raw: string): RawNeed | null {
+  const s = (raw || '').replace(/\s+/g, ' ').trim();
+  if (!s) return null;
+
+  // Leading amount: "2", "1.5", "1/2", "1 1/2", optionally "2x"
+  const m = s.match(/^(\d+\s+\d+\/\d+|\d+\/\d+|\d+(?:\.\d+)?)\s*(?:x\b)?\s*(.*)$/i);
+  if (!m) return { name: s, qty: null, unit: null };
+
+  const qty = m[1].split(/\s+/).reduce((n, part) => {
+    const [a, b] = part.split('/').map(Number);
+    return n + (b ? a / b : a);
+  }, 0);
+  let rest = m[2].trim();
+  if (!rest || !Number.isFinite(qty) || qty <= 0) return { name: s, qty: null, unit: null };
+
+  let unit: string | null = null;
+  const word = rest.match(/^([a-zA-Z.]+)\s+(?:of\s+)?(.+)$/);
+  if (word) {
+    const token = word[1].toLowerCase();
+    const known = UNIT_ALIASES[token] ?? UNIT_ALIASES[token.replace(/\.$/, '')] ?? PACKAGE_UNITS[token];
+    if (known) {
+      unit = known;
+      rest = word[2].trim();
+    }
+  }
+
+  return { name: rest, qty, unit };
+}
+
 type UnitGroup = 'vol_small' | 'mass_g' | 'vol_ml' | 'mass_oz' | 'count' | 'other';
 
 function normalizeUnit(raw: string | null): string {
@@ -675,6 +822,31 @@ function almostZero(x: number): boolean {
   return Math.abs(x) < 0.0001;
 }
 
+// Groups that convert to grams: mass exactly, volume via a density (g per cup)
+const MEASURED_GROUPS: UnitGroup[] = ['mass_g', 'mass_oz', 'vol_small', 'vol_ml'];
+
+function isVolumeGroup(group: UnitGroup): boolean {
+  return group === 'vol_small' || group === 'vol_ml';
+}
+
+function baseToGrams(group: UnitGroup, base: number, gPerCup: number | null): number | null {
+  if (group === 'mass_g') return base;
+  if (group === 'mass_oz') return base * G_PER_OZ;
+  if (gPerCup == null) return null;
+  if (group === 'vol_small') return (base / 48) * gPerCup;
+  if (group === 'vol_ml') return (base / ML_PER_CUP) * gPerCup;
+  return null;
+}
+
+function gramsToBase(group: UnitGroup, g: number, gPerCup: number | null): number | null {
+  if (group === 'mass_g') return g;
+  if (group === 'mass_oz') return g / G_PER_OZ;
+  if (gPerCup == null || gPerCup <= 0) return null;
+  if (group === 'vol_small') return (g / gPerCup) * 48;
+  if (group === 'vol_ml') return (g / gPerCup) * ML_PER_CUP;
+  return null;
+}
+
 function toShoppingUnit(
   name: string,
   qty: number,
@@ -687,17 +859,7 @@ function toShoppingUnit(
   const whole = (x: number) => Math.max(1, Math.ceil(x));
   const r1 = (x: number) => Math.round(x * 10) / 10;
 
-  // Consistent constants
-  const OZ_PER_CAN = 15.5;
-  const OZ_PER_BROTH_CARTON = 32;
-  const OZ_PER_COCONUT_MILK_CAN = 14;
-
-  // IMPORTANT: exclude lentils so we don't split dry lentils into can vs oz lines.
-  const CANNED_LEGUME_HINT = /\b(bean|beans|chickpea|garbanzo)\b/;
-
-  const isBroth = /\b(broth|stock)\b/.test(n) && !/\b(powder|granules|bouillon)\b/.test(n);
   const isSoyOrTeriyaki = /\b(soy sauce|tamari|teriyaki)\b/.test(n);
-  const isCoconutMilk = /\bcoconut milk\b/.test(n);
 
   // Defensive: if categorizer ever mislabels meat as spices, don't tsp-ify it.
   const looksLikeProtein = /\b(beef|turkey|chicken|pork|lamb|veal|shrimp|fish|salmon|tuna)\b/.test(n);
@@ -730,7 +892,13 @@ function toShoppingUnit(
   // A) Special cases FIRST
   // -----------------------------
 
-  // 0) If it looks like protein, prefer protein behavior regardless of category (defensive)
+  // 0) Sold by the package (cartons, cans, blocks…): see PACKAGE_CATALOG.
+  // Before the protein check so "chicken broth" stays a carton.
+  const pkgRule = packageRuleFor(n, category);
+  const pkg = pkgRule ? toPackages(pkgRule, qty, u) : null;
+  if (pkg) return pkg;
+
+  // 1) If it looks like protein, prefer protein behavior regardless of category (defensive)
   if (looksLikeProtein) {
     // If already lb -> keep; if oz -> lb; if cooking units -> rough lb fallback
     if (u === 'lb') return { qty: r1(qty), unit: 'lb' };
@@ -743,14 +911,6 @@ function toShoppingUnit(
     return { qty: roundToHalfLb(Math.max(0.5, qty)), unit: 'lb' };
   }
 
-  // 1) Broth/stock → show cartons (32 oz per carton)
-  if (isBroth) {
-    const oz = cookingToOz(qty, u) ?? metricToOz(qty, u);
-    if (oz != null) return { qty: whole(oz / OZ_PER_BROTH_CARTON), unit: 'carton' };
-    if (u === 'carton') return { qty: whole(qty), unit: 'carton' };
-    if (u === 'unit') return { qty: whole(qty), unit: 'carton' };
-  }
-
   // 2) Soy / tamari / teriyaki → ALWAYS show oz in columns
   if (isSoyOrTeriyaki) {
     const oz = cookingToOz(qty, u) ?? metricToOz(qty, u);
@@ -760,65 +920,14 @@ function toShoppingUnit(
     }
   }
 
-  // 3) Coconut milk → ALWAYS show cans (shopping UX)
-  if (isCoconutMilk) {
-    if (u === 'can') return { qty: whole(qty), unit: 'can' };
-
-    // If unit is missing and qty is small-ish, treat as cans
-    if (u === 'unit' && qty >= 1 && qty <= 6) return { qty: whole(qty), unit: 'can' };
-
-    // Otherwise estimate oz and convert to cans
-    const oz = cookingToOz(qty, u) ?? metricToOz(qty, u);
-    if (oz != null) return { qty: whole(oz / OZ_PER_COCONUT_MILK_CAN), unit: 'can' };
-
-    // Last resort: assume qty is cans
-    return { qty: whole(qty), unit: 'can' };
-  }
-
-  // 4) Legumes: normalize canned-style beans/chickpeas to cans
-  if (category === 'legumes' && u === 'unit' && Number.isFinite(qty)) {
-    // If qty is small-ish, assume it’s “cans”
-    if (qty >= 1 && qty <= 6 && CANNED_LEGUME_HINT.test(n)) {
-      return { qty: whole(qty), unit: 'can' };
-    }
-
-    // If qty is large, treat as oz, and for canned-style legumes convert to cans
-    if (qty >= 8) {
-      if (CANNED_LEGUME_HINT.test(n)) return { qty: whole(qty / OZ_PER_CAN), unit: 'can' };
-
-      const oz = qty;
-      if (oz >= 16) return { qty: roundToHalfLb(oz / 16), unit: 'lb' };
-      return { qty: whole(oz), unit: 'oz' };
-    }
-  }
-
-  if (category === 'legumes' && CANNED_LEGUME_HINT.test(n)) {
-    if (u === 'oz') return { qty: whole(qty / OZ_PER_CAN), unit: 'can' };
-    if (u === 'lb') return { qty: whole((qty * 16) / OZ_PER_CAN), unit: 'can' };
-  }
-
-  // 5) Garlic: prefer cloves when unit is missing
-  if (n === 'garlic') {
-    if (u === 'oz' || u === 'lb') return { qty: r1(qty), unit: u };
-    return { qty: whole(qty), unit: 'clove' };
-  }
-
-  // 6) Tofu: show as blocks (assume ~14 oz per block)
-  if (n.includes('tofu')) {
-    if (u === 'block') return { qty: whole(qty), unit: 'block' };
-
-    if (u === 'unit' && qty >= 8) {
-      return { qty: whole(qty / 14), unit: 'block' }; // interpret qty as oz
-    }
-
-    if (u === 'oz') return { qty: whole(qty / 14), unit: 'block' };
-    if (u === 'lb') return { qty: whole((qty * 16) / 14), unit: 'block' };
-
-    if (u === 'unit') return { qty: whole(qty), unit: 'block' };
-    return { qty: whole(qty), unit: 'block' };
+  // 3) Dry legumes (lentils): a large bare count is oz
+  if (category === 'legumes' && u === 'unit' && qty >= 8) {
+    const oz = qty;
+    if (oz >= 16) return { qty: roundToHalfLb(oz / 16), unit: 'lb' };
+    return { qty: whole(oz), unit: 'oz' };
   }
 
-  // 7) Diced tomatoes: bare count often means oz
+  // 4) Diced tomatoes: bare count often means oz
   if (n === 'diced tomato' || n === 'diced tomatoes') {
     if (u === 'unit' && qty >= 4) {
       const oz = qty;
@@ -827,21 +936,14 @@ function toShoppingUnit(
     }
   }
 
-  // 8) Broccoli: if it ever arrives as a bare count, treat as weight so it merges cleanly (lb)
-  // Place this BEFORE the generic produce "unit qty>=8" conversion.
-  if (category === 'produce' && /\bbroccoli\b/.test(n) && u === 'unit') {
-    // assume 1 "unit" broccoli ≈ 1 lb (rough but stable)
-    return { qty: roundToHalfLb(qty), unit: 'lb' };
-  }
-
-  // 9) Produce: if it comes through as unit with a huge number, interpret as ounces
+  // 5) Produce: if it comes through as unit with a huge number, interpret as ounces
   if (category === 'produce' && u === 'unit' && qty >= 8) {
     const oz = qty;
     if (oz >= 16) return { qty: roundToHalfLb(oz / 16), unit: 'lb' };
     return { qty: whole(oz), unit: 'oz' };
   }
 
-  // 10) Spices: if unit missing, default to tsp (never "unit")
+  // 6) Spices: if unit missing, default to tsp (never "unit")
   if (category === 'spices' && (u === '' || u === 'unit')) {
     return { qty: r1(qty), unit: 'tsp' };
   }
@@ -915,23 +1017,6 @@ function toShoppingUnit(
 
     const cups = u === 'cup' ? qty : u === 'tbsp' ? qty / 16 : qty / 48;
 
-    // Legumes (canned-style): if recipes specify cups/tbsp/tsp, still roll up to cans
-    if (category === 'legumes' && CANNED_LEGUME_HINT.test(n)) {
-      const ozPerCup = 6;
-      const oz = cups * ozPerCup;
-      return { qty: whole(oz / OZ_PER_CAN), unit: 'can' };
-    }
-
-    // Herbs -> bunch
-    if (['parsley', 'cilantro', 'dill', 'mint', 'basil'].includes(n)) {
-      return { qty: whole(cups / 1), unit: 'bunch' };
-    }
-
-    // Produce that shops by each
-    if (n === 'bell pepper' || n === 'zucchini') return { qty: whole(cups), unit: 'unit' };
-    if (n === 'cucumber') return { qty: whole(cups / 2), unit: 'unit' };
-    if (n === 'carrot') return { qty: whole(cups / 0.5), unit: 'unit' };
-
     // Default: convert cup-ish to oz, then lb at 16+
     const ozPerCup = n === 'cherry tomato' ? 5 : 6;
     const oz = cups * ozPerCup;
@@ -1012,20 +1097,45 @@ export function subtractPantryFromNeeds(
     const { group, base } = toBaseQty(qtyNum, unitNorm);
     const key = subtractCoverageKey(name, unitNorm, group);
 
+    let left = base;
+    let approx = !!n.approx;
+
     const avail = pantryAvail.get(key);
-    if (!avail || avail.group !== group || avail.base <= 0) {
+    if (avail && avail.group === group && avail.base > 0) {
+      const used = Math.min(left, avail.base);
+      left -= used;
+      avail.base -= used;
+    }
+
+    // The pantry may measure it another way ("1 lb rice" vs "1.5 cups rice")
+    if (left > 0 && MEASURED_GROUPS.includes(group)) {
+      const gPerCup = gramsPerCup(name, autoCategoryFromName(name));
+      for (const other of MEASURED_GROUPS) {
+        if (other === group || almostZero(left)) continue;
+        const a = pantryAvail.get(`${name}|${other}`);
+        if (!a || a.base <= 0) continue;
+
+        const needG = baseToGrams(group, left, gPerCup);
+        const haveG = baseToGrams(other, a.base, gPerCup);
+        if (needG == null || haveG == null) continue;
+
+        const usedG = Math.min(needG, haveG);
+        left = gramsToBase(group, needG - usedG, gPerCup) ?? left;
+        a.base = gramsToBase(other, haveG - usedG, gPerCup) ?? a.base;
+        if (isVolumeGroup(group) !== isVolumeGroup(other)) approx = true;
+      }
+    }
+
+    if (left === base) {
       remaining.push({
         name: rawName,
         qty: qtyNum,
         unit: unitNorm,
+        ...(approx ? { approx } : {}),
       });
       continue;
     }
 
-    const used = Math.min(base, avail.base);
-    const left = base - used;
-    avail.base -= used;
-
     if (almostZero(left) || left <= 0) {
       continue;
     }
@@ -1035,6 +1145,7 @@ export function subtractPantryFromNeeds(
       name: rawName,
       qty: out.qty,
       unit: out.unit,
+      ...(approx ? { approx } : {}),
     });
   }
 
@@ -1043,7 +1154,10 @@ export function subtractPantryFromNeeds(
 
 /** ---------- Public: merge & normalize ---------- */
 export function smartMergeNeeds(needs: RawNeed[]): ShoppingItem[] {
-  const agg = new Map<string, { name: string; group: UnitGroup; base: number; preferredUnit: string }>();
+  const agg = new Map<
+    string,
+    { name: string; group: UnitGroup; base: number; preferredUnit: string; approx: boolean }
+  >();
 
   for (const n of needs) {
     const parsed = parseParenAmount(n.name || '');
@@ -1074,15 +1188,30 @@ export function smartMergeNeeds(needs: RawNeed[]): ShoppingItem[] {
 
     if (cur) {
       cur.base += base;
+      if (n.approx) cur.approx = true;
       if (group === 'count' && preferredUnit === 'can') cur.preferredUnit = 'can';
     } else {
-      agg.set(key, { name, group, base, preferredUnit });
+      agg.set(key, { name, group, base, preferredUnit, approx: !!n.approx });
     }
   }
 
+  // 0) Same ingredient by volume and by weight ("2 cups flour" + "500 g flour"):
+  // fold the volume into the weight line, via its density
+  for (const [key, entry] of Array.from(agg.entries())) {
+    if (!isVolumeGroup(entry.group)) continue;
+    const mass = agg.get(`${entry.name}|mass_g`) ?? agg.get(`${entry.name}|mass_oz`);
+    if (!mass) continue;
+
+    const g = baseToGrams(entry.group, entry.base, gramsPerCup(entry.name, autoCategoryFromName(entry.name)));
+    if (g == null) continue;
+    mass.base += gramsToBase(mass.group, g, null) ?? 0;
+    mass.approx = true;
+    agg.delete(key);
+  }
+
   // 1) Convert to shopping-friendly units
   const converted: ShoppingItem[] = [];
-  for (const { name, group, base, preferredUnit } of agg.values()) {
+  for (const { name, group, base, preferredUnit, approx } of agg.values()) {
     const baseOut = fromBase(group, base, preferredUnit);
     const category = autoCategoryFromName(name);
     const shopOut = toShoppingUnit(name, baseOut.qty, baseOut.unit, category);
@@ -1092,22 +1221,31 @@ export function smartMergeNeeds(needs: RawNeed[]): ShoppingItem[] {
       qty: shopOut.qty,
       unit: shopOut.unit,
       category,
+      ...(approx ? { approx } : {}),
     });
   }
 
+  const mergeInto = (map: Map<string, ShoppingItem>, key: string, it: ShoppingItem) => {
+    const cur = map.get(key);
+    if (!cur) {
+      map.set(key, { ...it });
+      return;
+    }
+    cur.qty = round1(cur.qty + it.qty);
+    if (it.approx) cur.approx = true;
+  };
+
   // 2) Merge again AFTER conversion (same unit + category)
   const merged2 = new Map<string, ShoppingItem>();
   for (const it of converted) {
-    const key = `${it.name}|${it.unit}|${it.category ?? 'other'}`;
-    const cur = merged2.get(key);
-    if (cur) cur.qty = round1(cur.qty + it.qty);
-    else merged2.set(key, { ...it });
+    mergeInto(merged2, `${it.name}|${it.unit}|${it.category ?? 'other'}`, it);
   }
 
   // 3) General merge for oz/lb into one line per name+category (prevents split lines)
   // Keep legumes excluded because you normalize canned legumes to 'can'.
   const merged3 = new Map<string, ShoppingItem>();
   const massTotals = new Map<string, number>(); // key => totalOz
+  const massApprox = new Set<string>();
 
   for (const it of merged2.values()) {
     const cat = it.category ?? 'other';
@@ -1116,24 +1254,20 @@ export function smartMergeNeeds(needs: RawNeed[]): ShoppingItem[] {
     if (cat !== 'legumes' && (it.unit === 'oz' || it.unit === 'lb')) {
       const oz = it.unit === 'lb' ? it.qty * 16 : it.qty;
       massTotals.set(keyNC, (massTotals.get(keyNC) ?? 0) + oz);
+      if (it.approx) massApprox.add(keyNC);
       continue;
     }
 
     // keep everything else as-is
-    const key = `${it.name}|${it.unit}|${cat}`;
-    const cur = merged3.get(key);
-    if (cur) cur.qty = round1(cur.qty + it.qty);
-    else merged3.set(key, { ...it });
+    mergeInto(merged3, `${it.name}|${it.unit}|${cat}`, it);
   }
 
   for (const [keyNC, totalOz] of massTotals.entries()) {
     const [name, cat] = keyNC.split('|');
     const out = fromBase('mass_oz', totalOz, 'oz'); // picks lb if >=16
     const item: ShoppingItem = { name, qty: out.qty, unit: out.unit, category: cat as PantryCategory };
-    const key = `${item.name}|${item.unit}|${item.category ?? 'other'}`;
-    const cur = merged3.get(key);
-    if (cur) cur.qty = round1(cur.qty + item.qty);
-    else merged3.set(key, item);
+    if (massApprox.has(keyNC)) item.approx = true;
+    mergeInto(merged3, `${item.name}|${item.unit}|${item.category ?? 'other'}`, item);
   }
 
   // 4) Lentils safety merge (keeps prior behavior; often already handled by step 3)
@@ -1141,6 +1275,7 @@ export function smartMergeNeeds(needs: RawNeed[]): ShoppingItem[] {
 
   const out: ShoppingItem[] = [];
   let lentilOzTotal = 0;
+  let lentilApprox = false;
 
   for (const it of merged3.values()) {
     const isLentil = it.category === 'legumes' && LENTIL_HINT.test(it.name);
@@ -1148,6 +1283,7 @@ export function smartMergeNeeds(needs: RawNeed[]): ShoppingItem[] {
     if (isLentil && (it.unit === 'oz' || it.unit === 'lb')) {
       const oz = it.unit === 'lb' ? it.qty * 16 : it.qty;
       lentilOzTotal += oz;
+      if (it.approx) lentilApprox = true;
       continue;
     }
 
@@ -1161,6 +1297,7 @@ export function smartMergeNeeds(needs: RawNeed[]): ShoppingItem[] {
       qty: outMass.qty,
       unit: outMass.unit,
       category: 'legumes',
+      ...(lentilApprox ? { approx: true } : {}),
     });
   }
 
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { buildShoppingList } from '@/lib/planner/shoppingList';
+import { parseShoppingText } from './shopping';
+import { extraFromRow, extrasToNeeds, type ShoppingExtra } from './shoppingExtras';
+
+describe('parseShoppingText', () => {
+  it.each([
+    ['2 lb apples', { name: 'apples', qty: 2, unit: 'lb' }],
+    ['1/2 gallon milk', { name: 'milk', qty: 0.5, unit: 'gallon' }],
+    ['1 1/2 cups of rice', { name: 'rice', qty: 1.5, unit: 'cup' }],
+    ['2 Tbsp. honey', { name: 'honey', qty: 2, unit: 'tbsp' }],
+    ['3x lemons', { name: 'lemons', qty: 3, unit: null }],
+    ['1 pack paper towels', { name: 'paper towels', qty: 1, unit: 'pack' }],
+    ['paper  towels', { name: 'paper towels', qty: null, unit: null }],
+    ['0 eggs', { name: '0 eggs', qty: null, unit: null }],
+    ['12', { name: '12', qty: null, unit: null }],
+  ])('%j', (text, expected) => {
+    expect(parseShoppingText(text)).toEqual(expected);
+  });
+
+  it('ignores blank input', () => {
+    expect(parseShoppingText('   ')).toBeNull();
+  });
+});
+
+describe('extrasToNeeds', () => {
+  const extra = (id: string, text: string, recurring: boolean, meal_plan_id: string | null): ShoppingExtra => ({
+    id,
+    text,
+    recurring,
+    meal_plan_id,
+  });
+  const EXTRAS = [
+    extra('1', '1 gallon milk', true, null),
+    extra('2', 'paper towels', false, 'plan-a'),
+    extra('3', 'birthday candles', false, 'plan-b'),
+  ];
+
+  it('takes recurring extras plus the plan’s own one-offs', () => {
+    expect(extrasToNeeds(EXTRAS, 'plan-a').map((n) => n.name)).toEqual(['milk', 'paper towels']);
+    expect(extrasToNeeds(EXTRAS, null).map((n) => n.name)).toEqual(['milk']);
+  });
+
+  it('cleans up stored rows', () => {
+    expect(extraFromRow({ id: 'x', text: `  ${'a'.repeat(100)} `, recurring: null })).toEqual({
+      id: 'x',
+      text: 'a'.repeat(80),
+      recurring: false,
+      meal_plan_id: null,
+    });
+  });
+});
+
+describe('extras on the shopping list', () => {
+  it('skip the pantry check and merge with recipe needs', () => {
+    const ingIndex = new Map([
+      ['soup', [{ recipe_id: 'soup', name: 'onion', qty: 1, unit: 'unit', optional: false }]],
+    ]);
+    const list = buildShoppingList(
+      [{ day: 0, slot: 'dinner', recipe: { id: 'soup', title: 'Soup', time_min: 30, diet_tags: [], servings: 2 } }],
+      {
+        ingIndex,
+        pantry: [{ name: 'paper towels', qty: null, unit: null }],
+        peopleCount: 2,
+        extras: [
+          { name: 'onions', qty: 2, unit: null },
+          { name: 'paper towels', qty: 1, unit: 'pack' },
+        ],
+      },
+    );
+    expect(list.map((i) => [i.name, i.qty])).toEqual(
+      expect.arrayContaining([
+        ['onion', 3],
+        ['paper towel', 1],
+      ]),
+    );
+  });
+});
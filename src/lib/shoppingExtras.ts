@@ -0,0 +1,38 @@
+// src/lib/shoppingExtras.ts
+// Items added to the shopping list by hand: one-offs for a single plan
+// ("paper towels") and recurring staples that join every week's list
+// ("milk every week"). Stored as typed; parsed into qty/unit when the list
+// is built, so the parser can improve without migrating rows.
+import { parseShoppingText, type RawNeed } from '@/lib/shopping';
+
+export type ShoppingExtra = {
+  id: string;
+  text: string;
+  /** On every plan's list; otherwise only on `meal_plan_id`'s */
+  recurring: boolean;
+  meal_plan_id: string | null;
+};
+
+export const MAX_EXTRA_LENGTH = 80;
+
+export function extraFromRow(row: {
+  id: string;
+  text?: string | null;
+  recurring?: boolean | null;
+  meal_plan_id?: string | null;
+}): ShoppingExtra {
+  return {
+    id: row.id,
+    text: (row.text ?? '').trim().slice(0, MAX_EXTRA_LENGTH),
+    recurring: !!row.recurring,
+    meal_plan_id: row.meal_plan_id ?? null,
+  };
+}
+
+/** Extras that apply to a plan, as shopping-list needs. */
+export function extrasToNeeds(extras: ShoppingExtra[], planId: string | null): RawNeed[] {
+  return extras
+    .filter((e) => e.recurring || (planId != null && e.meal_plan_id === planId))
+    .map((e) => parseShoppingText(e.text))
+    .filter((n): n is RawNeed => !!n);
+}
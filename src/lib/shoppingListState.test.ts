@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import {
+  EMPTY_ITEM_STATE,
+  activeItems,
+  applyItemStates,
+  hasItemState,
+  itemStateFromRow,
+  shoppingItemKey,
+  staleItemKeys,
+  type ShoppingItemState,
+} from './shoppingListState';
+
+describe('shoppingItemKey', () => {
+  it('keys by name and unit', () => {
+    expect(shoppingItemKey({ name: 'tomato', unit: 'can' })).toBe('tomato|can');
+    expect(shoppingItemKey({ name: 'tomato', unit: 'unit' })).not.toBe(shoppingItemKey({ name: 'tomato', unit: 'can' }));
+  });
+});
+
+describe('itemStateFromRow', () => {
+  it.each([
+    [{ item_key: 'a', checked: true }, { checked: true, removed: false, qty_override: null }],
+    [{ item_key: 'a', removed: null, qty_override: '2.5' }, { checked: false, removed: false, qty_override: 2.5 }],
+    [{ item_key: 'a', qty_override: 'lots' }, EMPTY_ITEM_STATE],
+    [{ item_key: 'a', qty_override: -1 }, EMPTY_ITEM_STATE],
+  ])('%j', (row, expected) => {
+    expect(itemStateFromRow(row)).toEqual(expected);
+  });
+});
+
+describe('applyItemStates', () => {
+  it('overlays saved state and keeps the computed quantity', () => {
+    const states = new Map<string, ShoppingItemState>([
+      ['onion|unit', { checked: true, removed: false, qty_override: 3 }],
+      ['salt|tsp', { checked: false, removed: true, qty_override: null }],
+    ]);
+    const items = applyItemStates(
+      [
+        { name: 'onion', qty: 2, unit: 'unit' },
+        { name: 'salt', qty: 1, unit: 'tsp' },
+        { name: 'rice', qty: 1, unit: 'cup' },
+      ],
+      states,
+    );
+    expect(items.map((i) => [i.key, i.qty, i.computedQty, i.checked, i.removed])).toEqual([
+      ['onion|unit', 3, 2, true, false],
+      ['salt|tsp', 1, 1, false, true],
+      ['rice|cup', 1, 1, false, false],
+    ]);
+    expect(activeItems(items).map((i) => i.name)).toEqual(['onion', 'rice']);
+  });
+});
+
+describe('staleItemKeys', () => {
+  it('drops only untouched rows that are off the list', () => {
+    const rows = [
+      { item_key: 'onion|unit' },
+      { item_key: 'basil|bunch', checked: false, removed: false, qty_override: null },
+      { item_key: 'milk|cup', checked: true },
+      { item_key: 'salt|tsp', removed: true },
+      { item_key: 'rice|cup', qty_override: '2' },
+      { item_key: 'paper towel|pack' },
+    ];
+    expect(staleItemKeys(rows, ['onion|unit', 'paper towel|pack'])).toEqual(['basil|bunch']);
+  });
+
+  it('keeps everything the list still needs', () => {
+    expect(staleItemKeys([{ item_key: 'a|unit' }], new Set(['a|unit']))).toEqual([]);
+  });
+});
+
+describe('hasItemState', () => {
+  it.each([
+    [EMPTY_ITEM_STATE, false],
+    [{ ...EMPTY_ITEM_STATE, checked: true }, true],
+    [{ ...EMPTY_ITEM_STATE, removed: true }, true],
+    [{ ...EMPTY_ITEM_STATE, qty_override: 0 }, true],
+  ])('%j → %s', (st, expected) => {
+    expect(hasItemState(st)).toBe(expected);
+  });
+});
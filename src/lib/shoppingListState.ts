@@ -0,0 +1,82 @@
+// src/lib/shoppingListState.ts
+// Per-item state for a plan's saved shopping list (shopping_list_items):
+// checked off, quantity edited, removed. The list itself is still built from
+// the plan (buildShoppingList); state is keyed by name + unit, so it carries
+// over when the list is rebuilt and an item is still on it.
+import type { ShoppingItem } from '@/lib/shopping';
+
+export type ShoppingItemState = {
+  checked: boolean;
+  removed: boolean;
+  /** The user's quantity, in the item's unit (null = the computed one) */
+  qty_override: number | null;
+};
+
+export type TrackedShoppingItem = ShoppingItem &
+  ShoppingItemState & {
+    key: string;
+    /** Quantity the plan asked for, before any edit */
+    computedQty: number;
+  };
+
+export type ShoppingItemRow = {
+  item_key: string;
+  checked?: boolean | null;
+  removed?: boolean | null;
+  qty_override?: number | string | null;
+};
+
+export const EMPTY_ITEM_STATE: ShoppingItemState = { checked: false, removed: false, qty_override: null };
+
+/** Two rows with the same name but different units (2 cups vs 1 can) stay separate. */
+export function shoppingItemKey(item: Pick<ShoppingItem, 'name' | 'unit'>): string {
+  return `${item.name}|${item.unit}`;
+}
+
+export function itemStateFromRow(row: ShoppingItemRow): ShoppingItemState {
+  const q = row.qty_override == null ? NaN : Number(row.qty_override);
+  return {
+    checked: !!row.checked,
+    removed: !!row.removed,
+    qty_override: Number.isFinite(q) && q >= 0 ? q : null,
+  };
+}
+
+export function applyItemStates(
+  items: ShoppingItem[],
+  states: Map<string, ShoppingItemState>,
+): TrackedShoppingItem[] {
+  return items.map((it) => {
+    const key = shoppingItemKey(it);
+    const st = states.get(key) ?? EMPTY_ITEM_STATE;
+    return {
+      ...it,
+      ...st,
+      key,
+      computedQty: it.qty,
+      qty: st.qty_override ?? it.qty,
+    };
+  });
+}
+
+/** Checked, removed or edited: the row carries something only the user knows. */
+export function hasItemState(st: ShoppingItemState): boolean {
+  return st.checked || st.removed || st.qty_override != null;
+}
+
+/**
+ * Saved rows that can go once the plan's recipes change: off the computed
+ * list and never touched. Rows with state stay, since the list may still be
+ * partial (extras, pantry) and another device may have just ticked them.
+ */
+export function staleItemKeys(rows: ShoppingItemRow[], keep: Iterable<string>): string[] {
+  const wanted = new Set(keep);
+  return rows
+    .filter((r) => !wanted.has(r.item_key) && !hasItemState(itemStateFromRow(r)))
+    .map((r) => r.item_key);
+}
+
+/** What still goes in the cart (exports, totals): everything not removed. */
+export function activeItems<T extends ShoppingItemState>(items: T[]): T[] {
+  return items.filter((it) => !it.removed);
+}
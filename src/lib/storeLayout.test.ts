@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_STORE_LAYOUTS,
+  groupByLayout,
+  layoutForStore,
+  sectionFor,
+  storeLayoutsFromRow,
+  storeLayoutsToRow,
+} from './storeLayout';
+
+const TJ = DEFAULT_STORE_LAYOUTS.sf_trader_joes;
+
+describe('storeLayoutsFromRow', () => {
+  it('completes partial layouts and drops unknown stores and categories', () => {
+    const layouts = storeLayoutsFromRow({
+      sf_safeway: {
+        order: ['frozen', 'candy', 'produce'],
+        aisles: { frozen: '  Aisle 12  ', produce: '' },
+        items: { Tortillas: 'dairy', kale: 'moon' },
+      },
+      costco: { order: ['produce'] },
+    });
+    expect(Object.keys(layouts)).toEqual(['sf_safeway']);
+    const safeway = layouts.sf_safeway!;
+    expect(safeway.order.slice(0, 4)).toEqual(['frozen', 'produce', 'protein', 'dairy']);
+    expect(safeway.order).toHaveLength(DEFAULT_STORE_LAYOUTS.sf_safeway.order.length);
+    expect(safeway.aisles).toEqual({ frozen: 'Aisle 12' });
+    expect(safeway.items).toEqual({ tortilla: 'dairy' });
+  });
+});
+
+describe('storeLayoutsToRow', () => {
+  it('stores only edited layouts', () => {
+    expect(storeLayoutsToRow({ sf_trader_joes: TJ })).toBeNull();
+    const edited = { ...TJ, aisles: { dairy: 'Back wall' } };
+    expect(storeLayoutsToRow({ sf_trader_joes: edited })).toEqual({ sf_trader_joes: edited });
+  });
+});
+
+describe('groupByLayout', () => {
+  const items = [
+    { name: 'tortilla', category: 'grains' as const },
+    { name: 'apple', category: 'produce' as const },
+    { name: 'peas', category: 'frozen' as const },
+    { name: 'banana', category: 'produce' as const },
+    { name: 'mystery' },
+  ];
+
+  it('walks the store in order, with item overrides and aisle labels', () => {
+    const layout = { ...TJ, aisles: { dairy: 'Aisle 2' } };
+    expect(sectionFor(items[0], layout)).toBe('dairy');
+    expect(groupByLayout(items, layout).map((g) => [g.category, g.aisle, g.items.map((i) => i.name)])).toEqual([
+      ['produce', null, ['apple', 'banana']],
+      ['dairy', 'Aisle 2', ['tortilla']],
+      ['frozen', null, ['peas']],
+      ['other', null, ['mystery']],
+    ]);
+  });
+
+  it('falls back to the default layout for unedited stores', () => {
+    const layout = layoutForStore({}, 'sf_safeway');
+    expect(groupByLayout(items, layout).map((g) => g.category)).toEqual(['produce', 'grains', 'frozen', 'other']);
+  });
+});
@@ -0,0 +1,175 @@
+// src/lib/storeLayout.ts
+// Store layout profiles: the order you walk a store's sections in, an
+// optional aisle label per section ("Aisle 4"), and per-item overrides for
+// things a store shelves somewhere unexpected (tortillas by the cheese).
+// Each store in STORES has a default; users' edits are saved per store in
+// `preferences.store_layouts` and only the edited stores are stored.
+import { normalizeIngredientName, type ShoppingItem } from '@/lib/shopping';
+import type { PantryCategory } from '@/lib/pantryCategorizer';
+import { isStoreId, type StoreId } from '@/lib/pricing';
+
+export type StoreLayout = {
+  /** Every category, in walking order */
+  order: PantryCategory[];
+  /** Category → aisle label shown in the list header */
+  aisles: Partial<Record<PantryCategory, string>>;
+  /** Normalized item name → the section it's shelved in at this store */
+  items: Record<string, PantryCategory>;
+};
+
+export type StoreLayouts = Partial<Record<StoreId, StoreLayout>>;
+
+export type LayoutSection<T> = {
+  category: PantryCategory;
+  aisle: string | null;
+  items: T[];
+};
+
+export const ALL_CATEGORIES: PantryCategory[] = [
+  'produce',
+  'protein',
+  'grains',
+  'legumes',
+  'dairy',
+  'canned',
+  'frozen',
+  'condiments',
+  'spices',
+  'baking',
+  'snacks',
+  'beverages',
+  'other',
+];
+
+const MAX_AISLE_LABEL = 20;
+const MAX_ITEM_OVERRIDES = 100;
+
+export const DEFAULT_STORE_LAYOUTS: Record<StoreId, StoreLayout> = {
+  none: { order: ALL_CATEGORIES, aisles: {}, items: {} },
+  // Produce at the entrance, meat and dairy along the back wall, frozen last
+  sf_safeway: {
+    order: [
+      'produce',
+      'protein',
+      'dairy',
+      'grains',
+      'canned',
+      'legumes',
+      'condiments',
+      'spices',
+      'baking',
+      'snacks',
+      'beverages',
+      'frozen',
+      'other',
+    ],
+    aisles: {},
+    items: {},
+  },
+  // Small footprint: produce, then the refrigerated wall, then the dry aisles
+  sf_trader_joes: {
+    order: [
+      'produce',
+      'dairy',
+      'protein',
+      'frozen',
+      'grains',
+      'legumes',
+      'canned',
+      'condiments',
+      'spices',
+      'baking',
+      'snacks',
+      'beverages',
+      'other',
+    ],
+    aisles: {},
+    items: { tortilla: 'dairy', hummus: 'dairy' },
+  },
+};
+
+function isCategory(v: unknown): v is PantryCategory {
+  return typeof v === 'string' && (ALL_CATEGORIES as string[]).includes(v);
+}
+
+/** Raw (possibly partial/stale) layout → a complete one; unknown categories drop out. */
+function layoutFromRaw(raw: unknown, fallback: StoreLayout): StoreLayout {
+  const o = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+
+  const listed = Array.isArray(o.order) ? o.order.filter(isCategory) : [];
+  const seen = new Set<PantryCategory>(listed);
+  // Categories the saved order doesn't know (added since) go where the default puts them last
+  const order = [...Array.from(seen), ...fallback.order.filter((c) => !seen.has(c))];
+
+  const aisles: StoreLayout['aisles'] = {};
+  const rawAisles = o.aisles && typeof o.aisles === 'object' ? (o.aisles as Record<string, unknown>) : {};
+  for (const c of ALL_CATEGORIES) {
+    const label = typeof rawAisles[c] === 'string' ? (rawAisles[c] as string).trim().slice(0, MAX_AISLE_LABEL) : '';
+    if (label) aisles[c] = label;
+  }
+
+  const items: StoreLayout['items'] = {};
+  const rawItems = o.items && typeof o.items === 'object' ? (o.items as Record<string, unknown>) : {};
+  for (const [name, cat] of Object.entries(rawItems).slice(0, MAX_ITEM_OVERRIDES)) {
+    const n = normalizeIngredientName(name);
+    if (n && isCategory(cat)) items[n] = cat;
+  }
+
+  return { order, aisles, items };
+}
+
+/** `preferences.store_layouts` (jsonb, keyed by store id) → edited layouts. */
+export function storeLayoutsFromRow(raw: unknown): StoreLayouts {
+  const o = raw && typeof raw === 'object' ? (raw as Record<string, unknown>) : {};
+  const out: StoreLayouts = {};
+  for (const [id, layout] of Object.entries(o)) {
+    if (isStoreId(id)) out[id] = layoutFromRaw(layout, DEFAULT_STORE_LAYOUTS[id]);
+  }
+  return out;
+}
+
+function sameLayout(a: StoreLayout, b: StoreLayout): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Layouts → jsonb column value; defaults are left out, null when nothing is edited. */
+export function storeLayoutsToRow(layouts: StoreLayouts): StoreLayouts | null {
+  const out: StoreLayouts = {};
+  for (const [id, layout] of Object.entries(layouts)) {
+    if (!isStoreId(id) || !layout) continue;
+    const clean = layoutFromRaw(layout, DEFAULT_STORE_LAYOUTS[id]);
+    if (!sameLayout(clean, DEFAULT_STORE_LAYOUTS[id])) out[id] = clean;
+  }
+  return Object.keys(out).length ? out : null;
+}
+
+export function layoutForStore(layouts: StoreLayouts | null | undefined, storeId: StoreId): StoreLayout {
+  return layouts?.[storeId] ?? DEFAULT_STORE_LAYOUTS[storeId];
+}
+
+/** The section an item is shelved in at this store. */
+export function sectionFor(item: Pick<ShoppingItem, 'name' | 'category'>, layout: StoreLayout): PantryCategory {
+  return layout.items[normalizeIngredientName(item.name)] ?? item.category ?? 'other';
+}
+
+/** Items grouped into the store's sections, in walking order; A–Z within a section. */
+export function groupByLayout<T extends Pick<ShoppingItem, 'name' | 'category'>>(
+  items: T[],
+  layout: StoreLayout,
+): LayoutSection<T>[] {
+  const bySection = new Map<PantryCategory, T[]>();
+  for (const it of items) {
+    const cat = sectionFor(it, layout);
+    const arr = bySection.get(cat) || [];
+    arr.push(it);
+    bySection.set(cat, arr);
+  }
+
+  return layout.order
+    .map((category) => ({
+      category,
+      aisle: layout.aisles[category] ?? null,
+      items: (bySection.get(category) ?? []).slice().sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .filter((g) => g.items.length > 0);
+}
@@ -0,0 +1,27 @@
+// src/lib/subRules.ts
+// A household's own ingredient swaps ("we always use oat milk for milk"),
+// saved in `preferences.sub_rules`. They run before the built-in pantry
+// swaps in shopping.ts and are still checked against allergies.
+import { normalizeIngredientName, type UserSubRule } from '@/lib/shopping';
+
+export const MAX_SUB_RULES = 30;
+
+/** A typed rule → normalized, or null when either side is empty or they match. */
+export function cleanSubRule(from: string, to: string): UserSubRule | null {
+  const f = normalizeIngredientName(from);
+  const t = normalizeIngredientName(to);
+  return f && t && f !== t ? { from: f, to: t } : null;
+}
+
+/** `preferences.sub_rules` (jsonb array) → rules; one per `from`, first wins. */
+export function subRulesFromRow(raw: unknown): UserSubRule[] {
+  if (!Array.isArray(raw)) return [];
+  const out: UserSubRule[] = [];
+  for (const r of raw) {
+    const o = r && typeof r === 'object' ? (r as Record<string, unknown>) : {};
+    const rule = cleanSubRule(String(o.from ?? ''), String(o.to ?? ''));
+    if (rule && !out.some((x) => x.from === rule.from)) out.push(rule);
+    if (out.length >= MAX_SUB_RULES) break;
+  }
+  return out;
+}
@@ -0,0 +1,19 @@
+// src/lib/supabaseAdmin.ts
+// Server-only Supabase client with the service role key (bypasses RLS).
+// Never import this from a client component.
+import { createClient, type SupabaseClient } from '@supabase/supabase-js';
+
+let _client: SupabaseClient | null = null;
+
+export function hasSupabaseAdminConfig(): boolean {
+  return !!(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY);
+}
+
+export function getSupabaseAdmin(): SupabaseClient {
+  if (_client) return _client;
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !key) throw new Error('Missing NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY');
+  _client = createClient(url, key, { auth: { persistSession: false } });
+  return _client;
+}
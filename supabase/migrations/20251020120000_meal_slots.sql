@@ -0,0 +1,55 @@
+-- Breakfast / lunch / dinner slots
+-- Plan rows become (day, slot) pairs; `position` stays as a running order
+-- so older clients that sort by position keep working.
+
+-- Which slots a user wants planned each day
+alter table public.preferences
+  add column if not exists meal_slots text[] not null default '{dinner}';
+
+-- Which slots a recipe is suitable for (untagged recipes are dinners)
+alter table public.recipes
+  add column if not exists meal_types text[] not null default '{dinner}';
+
+-- Snapshot of slots on the plan header (share page + stale checks)
+alter table public.user_meal_plan
+  add column if not exists meal_slots text[] not null default '{dinner}';
+
+alter table public.user_meal_plan_recipes
+  add column if not exists day int,
+  add column if not exists slot text not null default 'dinner';
+
+-- Legacy rows: one dinner per day, day == position
+update public.user_meal_plan_recipes
+  set day = "position"
+  where day is null;
+
+alter table public.user_meal_plan_recipes
+  alter column day set not null;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'user_meal_plan_recipes_slot_check'
+  ) then
+    alter table public.user_meal_plan_recipes
+      add constraint user_meal_plan_recipes_slot_check
+      check (slot in ('breakfast','lunch','dinner'));
+  end if;
+end$$;
+
+-- Unique (plan_id, day, slot)
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'user_meal_plan_recipes_plan_day_slot_key'
+  ) then
+    alter table public.user_meal_plan_recipes
+      add constraint user_meal_plan_recipes_plan_day_slot_key
+      unique (plan_id, day, slot);
+  end if;
+end$$;
+
+create index if not exists idx_recipes_meal_types
+  on public.recipes using gin (meal_types);
@@ -0,0 +1,9 @@
+-- "Cook once, eat twice": batch recipes cover the next night as leftovers
+
+alter table public.preferences
+  add column if not exists leftovers_mode boolean not null default false;
+
+-- Leftover rows point at the day (same slot) the dish was cooked.
+-- Null = a cook night.
+alter table public.user_meal_plan_recipes
+  add column if not exists leftover_of_day int;
@@ -0,0 +1,4 @@
+-- Pinned meals: kept on their day/slot when the rest of the week is regenerated.
+-- Only cook rows are lockable; leftover rows follow their cook day.
+alter table public.user_meal_plan_recipes
+  add column if not exists locked boolean not null default false;
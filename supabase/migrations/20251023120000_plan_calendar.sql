@@ -0,0 +1,64 @@
+-- Calendar dates for plans + a subscribable .ics feed
+
+-- Day 0 of the plan. Older plans start on the day they were generated.
+alter table public.user_meal_plan
+  add column if not exists start_date date;
+
+update public.user_meal_plan
+  set start_date = generated_at::date
+  where start_date is null;
+
+alter table public.user_meal_plan
+  alter column start_date set default (now()::date),
+  alter column start_date set not null;
+
+-- Secret per-user token for the calendar feed URL (calendar apps can't log in)
+alter table public.preferences
+  add column if not exists calendar_token uuid not null default gen_random_uuid();
+
+create unique index if not exists idx_preferences_calendar_token
+  on public.preferences(calendar_token);
+
+-- Latest plan for the token's owner, one row per meal.
+-- security definer so the anon key can read it without opening up RLS.
+create or replace function public.meal_plan_calendar_feed(p_token uuid)
+returns table (
+  plan_id uuid,
+  start_date date,
+  day int,
+  slot text,
+  leftover_of_day int,
+  recipe_id uuid,
+  title text,
+  time_min int
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  with plan as (
+    select p.id, p.start_date
+    from public.user_meal_plan p
+    join public.preferences pr on pr.user_id = p.user_id
+    where pr.calendar_token = p_token
+    order by p.generated_at desc
+    limit 1
+  )
+  select
+    plan.id,
+    plan.start_date,
+    i.day,
+    i.slot,
+    i.leftover_of_day,
+    r.id,
+    r.title,
+    r.time_min
+  from plan
+  join public.user_meal_plan_recipes i on i.plan_id = plan.id
+  join public.recipes r on r.id = i.recipe_id
+  order by i.day, i.slot;
+$$;
+
+revoke all on function public.meal_plan_calendar_feed(uuid) from public;
+grant execute on function public.meal_plan_calendar_feed(uuid) to anon, authenticated;
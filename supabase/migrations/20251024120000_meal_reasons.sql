@@ -0,0 +1,3 @@
+-- Short "why this meal" per cook row (LLM-written or heuristic)
+alter table public.user_meal_plan_recipes
+  add column if not exists reason text;
@@ -0,0 +1,31 @@
+-- Durable key/value cache for server routes (LLM plan responses, ...).
+-- Server-only: RLS on with no policies, accessed with the service role key.
+create table if not exists public.cache_entries (
+  namespace text not null,
+  key text not null,
+  value jsonb not null,
+  expires_at timestamptz not null,
+  created_at timestamptz not null default now(),
+  hit_count int not null default 0,
+  last_hit_at timestamptz,
+  primary key (namespace, key)
+);
+
+create index if not exists idx_cache_entries_expires
+  on public.cache_entries(namespace, expires_at);
+
+alter table public.cache_entries enable row level security;
+
+-- Atomic hit counter (metrics survive cold starts)
+create or replace function public.cache_entry_hit(p_namespace text, p_key text)
+returns void
+language sql
+as $$
+  update public.cache_entries
+    set hit_count = hit_count + 1,
+        last_hit_at = now()
+    where namespace = p_namespace and key = p_key;
+$$;
+
+revoke all on function public.cache_entry_hit(text, text) from public, anon, authenticated;
+grant execute on function public.cache_entry_hit(text, text) to service_role;
@@ -0,0 +1,54 @@
+-- LLM planning budgets + token accounting (server-only, service role).
+
+-- Fixed-window request counters
+create table if not exists public.rate_limit_counters (
+  key text not null,
+  window_start timestamptz not null,
+  count int not null default 0,
+  primary key (key, window_start)
+);
+
+alter table public.rate_limit_counters enable row level security;
+
+create or replace function public.rate_limit_hit(p_key text, p_window_seconds int)
+returns table (count int, reset_at timestamptz)
+language plpgsql
+as $$
+declare
+  v_start timestamptz :=
+    to_timestamp(floor(extract(epoch from now()) / p_window_seconds) * p_window_seconds);
+begin
+  -- Old windows are dead weight; clear this key's history as we go
+  delete from public.rate_limit_counters c
+    where c.key = p_key and c.window_start < v_start;
+
+  return query
+    insert into public.rate_limit_counters as c (key, window_start, count)
+    values (p_key, v_start, 1)
+    on conflict (key, window_start) do update set count = c.count + 1
+    returning c.count, c.window_start + make_interval(secs => p_window_seconds);
+end;
+$$;
+
+revoke all on function public.rate_limit_hit(text, int) from public, anon, authenticated;
+grant execute on function public.rate_limit_hit(text, int) to service_role;
+
+-- One row per paid LLM call
+create table if not exists public.llm_usage (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid,
+  route text not null,
+  provider text not null,
+  model text not null,
+  prompt_tokens int not null default 0,
+  completion_tokens int not null default 0,
+  total_tokens int not null default 0,
+  cache_key text,
+  ok boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_llm_usage_user_created
+  on public.llm_usage(user_id, created_at desc);
+
+alter table public.llm_usage enable row level security;
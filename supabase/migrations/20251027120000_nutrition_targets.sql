@@ -0,0 +1,38 @@
+-- Nutrition targets: per-person goals the planner tries to land within
+
+-- Per serving. calories/protein_g may already exist on older databases.
+alter table public.recipes
+  add column if not exists calories numeric,
+  add column if not exists protein_g numeric,
+  add column if not exists fiber_g numeric,
+  add column if not exists sodium_mg numeric;
+
+-- Per person; null = no target for that nutrient
+alter table public.preferences
+  add column if not exists nutrition_period text not null default 'day',
+  add column if not exists target_calories int,
+  add column if not exists target_protein_g int,
+  add column if not exists target_fiber_g int,
+  add column if not exists target_sodium_mg int,
+  add column if not exists nutrition_tolerance_pct int not null default 15;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'preferences_nutrition_period_check'
+  ) then
+    alter table public.preferences
+      add constraint preferences_nutrition_period_check
+      check (nutrition_period in ('day','week'));
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'preferences_nutrition_tolerance_pct_check'
+  ) then
+    alter table public.preferences
+      add constraint preferences_nutrition_tolerance_pct_check
+      check (nutrition_tolerance_pct between 1 and 100);
+  end if;
+end$$;
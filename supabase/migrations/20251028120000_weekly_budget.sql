@@ -0,0 +1,17 @@
+-- Weekly spend cap, priced against one store's price book (src/lib/pricing.ts)
+
+alter table public.preferences
+  add column if not exists weekly_budget numeric,
+  add column if not exists budget_store_id text;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'preferences_weekly_budget_check'
+  ) then
+    alter table public.preferences
+      add constraint preferences_weekly_budget_check
+      check (weekly_budget is null or weekly_budget > 0);
+  end if;
+end$$;
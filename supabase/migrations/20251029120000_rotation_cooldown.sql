@@ -0,0 +1,27 @@
+-- Cross-week rotation: weeks before a served recipe can come back
+-- (src/lib/planner/rotation.ts). Null means the app default (3 / 1).
+
+alter table public.preferences
+  add column if not exists rotation_cooldown_weeks integer,
+  add column if not exists favorite_cooldown_weeks integer;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'preferences_rotation_cooldown_weeks_check'
+  ) then
+    alter table public.preferences
+      add constraint preferences_rotation_cooldown_weeks_check
+      check (rotation_cooldown_weeks is null or rotation_cooldown_weeks between 0 and 12);
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'preferences_favorite_cooldown_weeks_check'
+  ) then
+    alter table public.preferences
+      add constraint preferences_favorite_cooldown_weeks_check
+      check (favorite_cooldown_weeks is null or favorite_cooldown_weeks between 0 and 12);
+  end if;
+end$$;
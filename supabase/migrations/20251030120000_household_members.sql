@@ -0,0 +1,37 @@
+-- Household members: per-person diet/allergies/dislikes and portion size
+-- (src/lib/planner/household.ts). No rows = the account-level prefs and
+-- preferences.people_count, as before.
+create table if not exists public.household_members (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  name text not null,
+  diet text not null default 'none',
+  allergies text[] not null default '{}',
+  dislikes text[] not null default '{}',
+  kid_friendly boolean not null default false,
+  -- Adult portion = 1; a toddler is about 0.5
+  portion numeric not null default 1 check (portion > 0 and portion <= 4),
+  position int not null default 0,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists idx_household_members_user
+  on public.household_members(user_id, position);
+
+alter table public.household_members enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'household_members'
+      and policyname = 'household_members_own'
+  ) then
+    create policy household_members_own on public.household_members
+      for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+  end if;
+end$$;
+
+-- Plans snapshot total portions, which can now be fractional (2.5 = two adults + a toddler)
+alter table public.user_meal_plan
+  alter column people_count type numeric using people_count::numeric;
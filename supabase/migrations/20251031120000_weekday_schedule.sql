@@ -0,0 +1,21 @@
+-- Weekly dinner schedule: per-weekday time limit and theme
+-- (src/lib/planner/schedule.ts). Seven entries from Sunday, each
+-- {"max_prep_minutes": int|null, "theme": text|null}; null = no schedule.
+
+alter table public.preferences
+  add column if not exists weekday_schedule jsonb;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'preferences_weekday_schedule_check'
+  ) then
+    alter table public.preferences
+      add constraint preferences_weekday_schedule_check
+      check (
+        weekday_schedule is null
+        or (jsonb_typeof(weekday_schedule) = 'array' and jsonb_array_length(weekday_schedule) = 7)
+      );
+  end if;
+end$$;
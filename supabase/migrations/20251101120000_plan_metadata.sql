@@ -0,0 +1,6 @@
+-- Per-plan metadata written at generation: which planner picked the week and
+-- its quality scorecard (src/lib/planner/scorecard.ts), so AI-planned and
+-- heuristic weeks can be compared over time.
+
+alter table public.user_meal_plan
+  add column if not exists metadata jsonb not null default '{}'::jsonb;
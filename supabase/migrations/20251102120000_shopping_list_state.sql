@@ -0,0 +1,88 @@
+-- Saved shopping lists, one per plan, with per-item checked / qty edit /
+-- removed state (src/lib/shoppingListState.ts). The tables date from the
+-- first migration but were never used; they pointed at the old `plans` table.
+
+alter table public.shopping_lists
+  add column if not exists meal_plan_id uuid references public.user_meal_plan(id) on delete cascade,
+  add column if not exists updated_at timestamptz not null default now();
+
+create unique index if not exists idx_shopping_lists_meal_plan
+  on public.shopping_lists(meal_plan_id);
+
+-- Items are keyed by name + unit ("rice|cup" and "rice|lb" can both be on a list)
+alter table public.shopping_list_items
+  add column if not exists item_key text,
+  add column if not exists checked boolean not null default false,
+  add column if not exists removed boolean not null default false,
+  add column if not exists qty_override numeric check (qty_override is null or qty_override >= 0),
+  add column if not exists updated_at timestamptz not null default now();
+
+update public.shopping_list_items
+  set item_key = name || '|' || coalesce(unit, '')
+  where item_key is null;
+
+alter table public.shopping_list_items
+  alter column item_key set not null;
+
+do $$
+begin
+  if exists (
+    select 1 from pg_constraint
+    where conname = 'shopping_list_items_pkey'
+      and pg_get_constraintdef(oid) = 'PRIMARY KEY (list_id, name)'
+  ) then
+    alter table public.shopping_list_items drop constraint shopping_list_items_pkey;
+  end if;
+
+  if not exists (
+    select 1 from pg_constraint where conname = 'shopping_list_items_pkey'
+  ) then
+    alter table public.shopping_list_items
+      add constraint shopping_list_items_pkey primary key (list_id, item_key);
+  end if;
+end$$;
+
+alter table public.shopping_lists enable row level security;
+alter table public.shopping_list_items enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'shopping_lists'
+      and policyname = 'shopping_lists_own'
+  ) then
+    create policy shopping_lists_own on public.shopping_lists
+      for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+  end if;
+
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'shopping_list_items'
+      and policyname = 'shopping_list_items_own'
+  ) then
+    create policy shopping_list_items_own on public.shopping_list_items
+      for all
+      using (exists (
+        select 1 from public.shopping_lists l
+        where l.id = list_id and l.user_id = auth.uid()
+      ))
+      with check (exists (
+        select 1 from public.shopping_lists l
+        where l.id = list_id and l.user_id = auth.uid()
+      ));
+  end if;
+end$$;
+
+-- Two phones in the store see each other's ticks
+do $$
+begin
+  if exists (select 1 from pg_publication where pubname = 'supabase_realtime')
+    and not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public'
+        and tablename = 'shopping_list_items'
+    ) then
+    alter publication supabase_realtime add table public.shopping_list_items;
+  end if;
+end$$;
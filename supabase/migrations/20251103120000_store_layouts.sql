@@ -0,0 +1,18 @@
+-- Per-store shopping list layouts (src/lib/storeLayout.ts): section walking
+-- order, aisle labels and item overrides, keyed by store id. Only stores the
+-- user edited are stored; null = the built-in defaults everywhere.
+
+alter table public.preferences
+  add column if not exists store_layouts jsonb;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'preferences_store_layouts_check'
+  ) then
+    alter table public.preferences
+      add constraint preferences_store_layouts_check
+      check (store_layouts is null or jsonb_typeof(store_layouts) = 'object');
+  end if;
+end$$;
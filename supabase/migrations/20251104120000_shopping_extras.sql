@@ -0,0 +1,28 @@
+-- Hand-added shopping list items (src/lib/shoppingExtras.ts): one-offs tied
+-- to a plan, or recurring staples (meal_plan_id null) added to every list.
+create table if not exists public.shopping_extras (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users(id) on delete cascade,
+  text text not null check (char_length(text) between 1 and 80),
+  recurring boolean not null default false,
+  meal_plan_id uuid references public.user_meal_plan(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  constraint shopping_extras_scope_check check (recurring or meal_plan_id is not null)
+);
+
+create index if not exists idx_shopping_extras_user
+  on public.shopping_extras(user_id, created_at);
+
+alter table public.shopping_extras enable row level security;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_policies
+    where schemaname = 'public' and tablename = 'shopping_extras'
+      and policyname = 'shopping_extras_own'
+  ) then
+    create policy shopping_extras_own on public.shopping_extras
+      for all using (auth.uid() = user_id) with check (auth.uid() = user_id);
+  end if;
+end$$;
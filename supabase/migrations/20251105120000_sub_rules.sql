@@ -0,0 +1,18 @@
+-- A household's own ingredient swaps (src/lib/subRules.ts), e.g.
+-- [{"from": "milk", "to": "oat milk"}]. Applied to shopping lists before
+-- the built-in pantry swaps.
+
+alter table public.preferences
+  add column if not exists sub_rules jsonb not null default '[]'::jsonb;
+
+do $$
+begin
+  if not exists (
+    select 1 from pg_constraint
+    where conname = 'preferences_sub_rules_check'
+  ) then
+    alter table public.preferences
+      add constraint preferences_sub_rules_check
+      check (jsonb_typeof(sub_rules) = 'array');
+  end if;
+end$$;